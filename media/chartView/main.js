@@ -112,11 +112,13 @@ window.addEventListener("message", (event) => {
 					x: parseInt(document.getElementById("xAxis").value),
 					y: parseInt(document.getElementById("yAxis").value),
 					y2: parseInt(document.getElementById("yAxis2").value),
+					title: document.getElementById("chartTitle").value,
 					legend: document.getElementById("legendToggle").checked,
 					dragZoom: document.getElementById("dragZoomToggle").checked,
 					curveSmoothing: document.getElementById("curveToggle").checked,
 					color: document.getElementById("colorPicker").value,
 					agg: document.getElementById("aggFunc").value,
+					nullHandling: document.getElementById("nullHandling").value,
 					stylePreset: document.getElementById("stylePreset").value,
 					decimals: parseInt(document.getElementById("decimals").value),
 					thousands: document.getElementById("thousands").checked,
@@ -180,6 +182,7 @@ function applyConfig(cfg) {
 		document.getElementById("yAxis").value = String(cfg.y);
 	if (typeof cfg.y2 !== "undefined")
 		document.getElementById("yAxis2").value = String(cfg.y2);
+	if (typeof cfg.title === "string") document.getElementById("chartTitle").value = cfg.title;
 	if (typeof cfg.legend === "boolean")
 		document.getElementById("legendToggle").checked = cfg.legend;
 	if (typeof cfg.dragZoom === "boolean")
@@ -188,6 +191,7 @@ function applyConfig(cfg) {
 		document.getElementById("curveToggle").checked = cfg.curveSmoothing;
 	if (cfg.color) document.getElementById("colorPicker").value = cfg.color;
 	if (cfg.agg) document.getElementById("aggFunc").value = cfg.agg;
+	if (cfg.nullHandling) document.getElementById("nullHandling").value = cfg.nullHandling;
 	if (cfg.stylePreset) {
 		document.getElementById("stylePreset").value = cfg.stylePreset;
 		stylePreset = cfg.stylePreset;
@@ -266,7 +270,7 @@ function updateModeSpecificControls(chartType = getSelectedChartType()) {
 		currentData &&
 		!Number.isNaN(valueIndex) &&
 		valueIndex >= 0 &&
-		!isCategoricalColumn(currentData.rows, valueIndex);
+		!isCategoricalColumn(valueIndex);
 
 	yAxisLabel.textContent = isStackedGroup ? "Group / Stack By:" : "Y-Axis:";
 	yAxis2Label.textContent = isStackedGroup ? "Value (optional):" : "Y2-Axis:";
@@ -328,6 +332,7 @@ function initializeChart() {
 		try {
 			document.getElementById("chartType").value =
 				saved.chartType || document.getElementById("chartType").value;
+			document.getElementById("chartTitle").value = saved.title || "";
 			document.getElementById("legendToggle").checked = !!saved.legend;
 			document.getElementById("dragZoomToggle").checked = !!saved.dragZoom;
 			document.getElementById("colorPicker").value =
@@ -337,6 +342,9 @@ function initializeChart() {
 			if (typeof saved.y2 === "number" || saved.y2 === -1)
 				document.getElementById("yAxis2").value = String(saved.y2);
 			if (saved.agg) document.getElementById("aggFunc").value = saved.agg;
+			if (saved.nullHandling) {
+				document.getElementById("nullHandling").value = saved.nullHandling;
+			}
 			if (saved.stylePreset) {
 				document.getElementById("stylePreset").value = saved.stylePreset;
 				stylePreset = saved.stylePreset;
@@ -368,21 +376,24 @@ function initializeChart() {
 	}
 
 	// Heuristic defaults: prefer first two numeric columns for scatter, else bar
-	const numericCols = getNumericColumnIndexes(currentData.rows);
+	const numericCols = getNumericColumnIndexes();
 	const usableNumericCols = numericCols.filter(
-		(idx) =>
-			!isCategoricalColumn(currentData.rows, idx) &&
-			!isTimeColumn(currentData.rows, idx),
+		(idx) => !isCategoricalColumn(idx) && !isTimeColumn(idx),
 	);
 	const chartTypeSel = document.getElementById("chartType");
 	const allColumnIndexes = currentData.headers.map((_h, idx) => idx);
 	const categoricalCols = allColumnIndexes.filter((idx) => !numericCols.includes(idx));
-	const nonTimeCategoricalCols = categoricalCols.filter(
-		(idx) => !isTimeColumn(currentData.rows, idx),
-	);
+	const nonTimeCategoricalCols = categoricalCols.filter((idx) => !isTimeColumn(idx));
 
 	if (!restored) {
-		if (categoricalCols.length >= 2) {
+		if (getBlockColumnIndex() >= 0 && usableNumericCols.length >= 2) {
+			// Multi-block files plot one line per block
+			xAxisSelect.selectedIndex = usableNumericCols[0];
+			yAxisSelect.selectedIndex = usableNumericCols[1];
+			if (chartTypeSel) {
+				chartTypeSel.value = "line";
+			}
+		} else if (categoricalCols.length >= 2) {
 			const primaryCategory =
 				nonTimeCategoricalCols[0] ?? categoricalCols[0] ?? allColumnIndexes[0];
 			const secondaryCategory =
@@ -427,9 +438,7 @@ function initializeChart() {
 			// (chartType === "bar" && !xIsTime) is used, which respects aggFunc.
 			// If X were a time column the chart would fall into the xIsTime path
 			// and bypass aggregation, still rendering 0-height bars.
-			const nonTimeCols = allColumnIndexes.filter(
-				(idx) => !isTimeColumn(currentData.rows, idx),
-			);
+			const nonTimeCols = allColumnIndexes.filter((idx) => !isTimeColumn(idx));
 			const defaultX =
 				nonTimeCols.length > 0 ? nonTimeCols[0] : allColumnIndexes[0];
 			const defaultY =
@@ -473,13 +482,13 @@ function createChart() {
 		const xAxisIndex = parseInt(document.getElementById("xAxis").value);
 		const yAxisIndex = parseInt(document.getElementById("yAxis").value);
 		const yAxis2Index = parseInt(document.getElementById("yAxis2").value);
-		const isCategoricalX = isCategoricalColumn(currentData.rows, xAxisIndex);
-		const isCategoricalY = isCategoricalColumn(currentData.rows, yAxisIndex);
+		const isCategoricalX = isCategoricalColumn(xAxisIndex);
+		const isCategoricalY = isCategoricalColumn(yAxisIndex);
 		const isCategoricalY2 =
 			!isNaN(yAxis2Index) && yAxis2Index >= 0
-				? isCategoricalColumn(currentData.rows, yAxis2Index)
+				? isCategoricalColumn(yAxis2Index)
 				: false;
-		const xIsTime = isTimeColumn(currentData.rows, xAxisIndex);
+		const xIsTime = isTimeColumn(xAxisIndex);
 		stylePreset = document.getElementById("stylePreset").value || "clean";
 		decimals = parseInt(document.getElementById("decimals").value) || 2;
 		useThousands = document.getElementById("thousands").checked;
@@ -635,6 +644,7 @@ function createChart() {
 				x: xAxisIndex,
 				y: yAxisIndex,
 				y2: isNaN(yAxis2Index) ? -1 : yAxis2Index,
+				title: document.getElementById("chartTitle").value,
 				legend: document.getElementById("legendToggle").checked,
 				dragZoom: document.getElementById("dragZoomToggle").checked,
 				curveSmoothing:
@@ -643,6 +653,7 @@ function createChart() {
 						: undefined,
 				color: document.getElementById("colorPicker").value,
 				agg: document.getElementById("aggFunc").value,
+				nullHandling: getNullHandling(),
 				stylePreset,
 				decimals,
 				thousands: useThousands,
@@ -668,16 +679,26 @@ function createChart() {
  * @returns {Object} Chart.js data object with labels and datasets
  */
 function prepareChartData(chartType, xAxisIndex, yAxisIndex, yAxis2Index) {
-	const xLabel = currentData.headers[xAxisIndex];
-	const yLabel = currentData.headers[yAxisIndex];
+	const xLabel = getColumnTitle(xAxisIndex);
+	const yLabel = getColumnTitle(yAxisIndex);
 	const hasY2 = typeof yAxis2Index === "number" && yAxis2Index >= 0;
-	const y2Label = hasY2 ? currentData.headers[yAxis2Index] : undefined;
+	const y2Label = hasY2 ? getColumnTitle(yAxis2Index) : undefined;
 	const aggFunc = document.getElementById("aggFunc").value || "sum";
-	const xIsTime = isTimeColumn(currentData.rows, xAxisIndex);
+	const xIsTime = isTimeColumn(xAxisIndex);
+	const nullHandling = getNullHandling();
+	// Aggregates skip missing values unless they should count as zero
+	const aggregateValue = (value) => {
+		const n = toNumberOrNull(value);
+		return n === null && nullHandling === "zero" ? 0 : n;
+	};
+	const seriesValues = (index) =>
+		fillMissingValues(
+			currentData.rows.map((row) => toNumberOrNull(row[index])),
+			nullHandling,
+		);
 
 	if (chartType === STACKED_GROUP_CHART_TYPE) {
-		const hasNumericValue =
-			hasY2 && !isCategoricalColumn(currentData.rows, yAxis2Index);
+		const hasNumericValue = hasY2 && !isCategoricalColumn(yAxis2Index);
 		const effectiveAgg = hasNumericValue ? aggFunc : "count";
 		const labels = [];
 		const labelSet = new Set();
@@ -698,11 +719,10 @@ function prepareChartData(chartType, xAxisIndex, yAxisIndex, yAxis2Index) {
 				series.push(seriesKey);
 			}
 			aggregated[labelKey] = aggregated[labelKey] || {};
-			aggregator(
-				aggregated[labelKey],
-				seriesKey,
-				hasNumericValue ? parseFloat(row[yAxis2Index]) || 0 : 1,
-			);
+			const value = hasNumericValue ? aggregateValue(row[yAxis2Index]) : 1;
+			if (value !== null) {
+				aggregator(aggregated[labelKey], seriesKey, value);
+			}
 		});
 
 		labels.sort((a, b) => String(a).localeCompare(String(b)));
@@ -749,14 +769,28 @@ function prepareChartData(chartType, xAxisIndex, yAxisIndex, yAxis2Index) {
 			: "Count";
 		result.__hasY2 = false;
 		return result;
+	} else if (
+		(chartType === "line" || chartType === "scatter") &&
+		getBlockColumnIndex() >= 0 &&
+		![xAxisIndex, yAxisIndex, yAxis2Index].includes(getBlockColumnIndex())
+	) {
+		// Multi-block files get one series per block
+		const result = prepareBlockChartData(chartType, xAxisIndex, yAxisIndex, yAxis2Index);
+		result.__xLabel = xLabel;
+		result.__yLabel = yLabel;
+		result.__hasY2 = hasY2;
+		result.__y2Label = y2Label;
+		return result;
 	} else if (chartType === "pie" || chartType === "doughnut") {
 		// For pie charts, aggregate data by x-axis values
 		const aggregatedData = {};
 		const aggregator = makeAggregator(aggFunc);
 		currentData.rows.forEach((row) => {
 			const key = row[xAxisIndex];
-			const value = parseFloat(row[yAxisIndex]) || 0;
-			aggregator(aggregatedData, key, value);
+			const value = aggregateValue(row[yAxisIndex]);
+			if (value !== null) {
+				aggregator(aggregatedData, key, value);
+			}
 		});
 
 		const aggOut =
@@ -784,11 +818,15 @@ function prepareChartData(chartType, xAxisIndex, yAxisIndex, yAxis2Index) {
 		const agg2 = makeAggregator(aggFunc);
 		currentData.rows.forEach((row) => {
 			const key = String(row[xAxisIndex]);
-			const val = parseFloat(row[yAxisIndex]) || 0;
-			agg1(aggregated, key, val);
+			const val = aggregateValue(row[yAxisIndex]);
+			if (val !== null) {
+				agg1(aggregated, key, val);
+			}
 			if (hasY2) {
-				const val2 = parseFloat(row[yAxis2Index]) || 0;
-				agg2(aggregated2, key, val2);
+				const val2 = aggregateValue(row[yAxis2Index]);
+				if (val2 !== null) {
+					agg2(aggregated2, key, val2);
+				}
 			}
 		});
 		const out1 = aggFunc === "avg" ? collapseAvg(aggregated) : aggregated;
@@ -836,12 +874,15 @@ function prepareChartData(chartType, xAxisIndex, yAxisIndex, yAxis2Index) {
 		// For other chart types
 		let result;
 		if (chartType === "scatter") {
-			const points = currentData.rows.map((row) => ({
-				x: xIsTime
-					? new Date(row[xAxisIndex])
-					: parseFloat(row[xAxisIndex]) || 0,
-				y: parseFloat(row[yAxisIndex]) || 0,
-			}));
+			// Points without an X value cannot be placed and are left out
+			const xValues = currentData.rows.map((row) =>
+				xIsTime ? new Date(row[xAxisIndex]) : toNumberOrNull(row[xAxisIndex]),
+			);
+			const toPoints = (yValues) =>
+				yValues
+					.map((y, i) => ({ x: xValues[i], y }))
+					.filter((point) => point.x !== null);
+			const points = toPoints(seriesValues(yAxisIndex));
 			result = {
 				datasets: [
 					{
@@ -857,12 +898,7 @@ function prepareChartData(chartType, xAxisIndex, yAxisIndex, yAxis2Index) {
 						? [
 								{
 									label: y2Label,
-									data: currentData.rows.map((row) => ({
-										x: xIsTime
-											? new Date(row[xAxisIndex])
-											: parseFloat(row[xAxisIndex]) || 0,
-										y: parseFloat(row[yAxis2Index]) || 0,
-									})),
+									data: toPoints(seriesValues(yAxis2Index)),
 									yAxisID: "y2",
 									backgroundColor: "rgba(255,99,132,0.6)",
 									borderColor: "rgba(255,99,132,1)",
@@ -876,16 +912,13 @@ function prepareChartData(chartType, xAxisIndex, yAxisIndex, yAxis2Index) {
 		} else {
 			const xIsTimeLocal = xIsTime;
 			if (chartType === "line" && xIsTimeLocal) {
-				const points = currentData.rows.map((row) => ({
-					x: new Date(row[xAxisIndex]),
-					y: parseFloat(row[yAxisIndex]) || 0,
-				}));
-				const points2 = hasY2
-					? currentData.rows.map((row) => ({
-							x: new Date(row[xAxisIndex]),
-							y: parseFloat(row[yAxis2Index]) || 0,
-						}))
-					: undefined;
+				const toPoints = (yValues) =>
+					currentData.rows.map((row, i) => ({
+						x: new Date(row[xAxisIndex]),
+						y: yValues[i],
+					}));
+				const points = toPoints(seriesValues(yAxisIndex));
+				const points2 = hasY2 ? toPoints(seriesValues(yAxis2Index)) : undefined;
 				result = {
 					datasets: [
 						{
@@ -916,12 +949,8 @@ function prepareChartData(chartType, xAxisIndex, yAxisIndex, yAxis2Index) {
 				const labels = xIsTimeLocal
 					? currentData.rows.map((row) => new Date(row[xAxisIndex]))
 					: currentData.rows.map((row) => row[xAxisIndex]);
-				const values = currentData.rows.map(
-					(row) => parseFloat(row[yAxisIndex]) || 0,
-				);
-				const values2 = hasY2
-					? currentData.rows.map((row) => parseFloat(row[yAxis2Index]) || 0)
-					: undefined;
+				const values = seriesValues(yAxisIndex);
+				const values2 = hasY2 ? seriesValues(yAxis2Index) : undefined;
 				result = {
 					labels,
 					datasets: [
@@ -966,6 +995,90 @@ function prepareChartData(chartType, xAxisIndex, yAxisIndex, yAxis2Index) {
 	}
 }
 
+/**
+ * Index of the column holding the block of each row, for data with several blocks
+ * @returns {number} Index of the last column, or -1 without blocks
+ */
+function getBlockColumnIndex() {
+	return currentData.blocks && currentData.blocks.length > 1
+		? currentData.headers.length - 1
+		: -1;
+}
+
+/**
+ * Prepare a line or scatter chart with one series per data block, labelled with the block name
+ * @param {string} chartType - "line" or "scatter"
+ * @param {number} xAxisIndex - Index of X axis column
+ * @param {number} yAxisIndex - Index of Y axis column
+ * @param {number} yAxis2Index - Index of Y2 axis column (or -1 if none)
+ * @returns {Object} Chart.js data object with {x, y} points per block
+ */
+function prepareBlockChartData(chartType, xAxisIndex, yAxisIndex, yAxis2Index) {
+	const blockIndex = getBlockColumnIndex();
+	const hasY2 = typeof yAxis2Index === "number" && yAxis2Index >= 0;
+	const y2Label = hasY2 ? getColumnTitle(yAxis2Index) : undefined;
+	const xIsTime = isTimeColumn(xAxisIndex);
+	// Line charts with a non-time X use a category scale; the labels are every block's X values
+	const useLabels = chartType === "line" && !xIsTime;
+	const nullHandling = getNullHandling();
+	const colors = generateColors(currentData.blocks.length);
+	const toX = (value) => {
+		if (xIsTime) return new Date(value);
+		return useLabels ? value : toNumberOrNull(value);
+	};
+	const showLine = chartType === "line";
+
+	const datasets = [];
+	currentData.blocks.forEach((name, b) => {
+		const rows = currentData.rows.filter((row) => row[blockIndex] === name);
+		if (rows.length === 0) return;
+		// Missing values are filled within the block, never across blocks
+		const toPoints = (index) => {
+			const values = fillMissingValues(
+				rows.map((row) => toNumberOrNull(row[index])),
+				nullHandling,
+			);
+			return rows
+				.map((row, i) => ({ x: toX(row[xAxisIndex]), y: values[i] }))
+				.filter((point) => point.x !== null && point.x !== undefined);
+		};
+		datasets.push({
+			label: name,
+			data: toPoints(yAxisIndex),
+			backgroundColor: colors[b],
+			borderColor: colors[b],
+			borderWidth: showLine ? 2 : 1,
+			fill: false,
+			showLine,
+		});
+		if (hasY2) {
+			datasets.push({
+				label: `${name} (${y2Label})`,
+				data: toPoints(yAxis2Index),
+				yAxisID: "y2",
+				backgroundColor: colors[b],
+				borderColor: colors[b],
+				borderWidth: showLine ? 2 : 1,
+				borderDash: [6, 4],
+				fill: false,
+				showLine,
+			});
+		}
+	});
+
+	const result = { datasets };
+	if (useLabels) {
+		const labels = Array.from(
+			new Set(datasets.flatMap((dataset) => dataset.data.map((point) => point.x))),
+		);
+		if (labels.every((label) => typeof label === "number")) {
+			labels.sort((a, b) => a - b);
+		}
+		result.labels = labels;
+	}
+	return result;
+}
+
 /**
  * Get chart options based on type and configuration
  * @param {string} chartType - Type of chart
@@ -1014,6 +1127,11 @@ function getChartOptions(
 			},
 		},
 		plugins: {
+			title: {
+				display: !!getChartTitle(),
+				text: getChartTitle(),
+				color: fg,
+			},
 			tooltip: {
 				backgroundColor: tooltipBg,
 				titleColor: tooltipFg,
@@ -1163,12 +1281,12 @@ function getChartOptions(
 function detectXScaleType() {
 	const idx = parseInt(document.getElementById("xAxis").value);
 	const scaleType = (() => {
-		if (isTimeColumn(currentData.rows, idx)) return "time";
+		if (isTimeColumn(idx)) return "time";
 		const chartType = document.getElementById("chartType").value;
 		if (chartType === "scatter") return "linear";
 		
 		// For categorical columns (non-numeric, non-time), use category scale
-		if (isCategoricalColumn(currentData.rows, idx)) {
+		if (isCategoricalColumn(idx)) {
 			return "category";
 		}
 		
@@ -1184,36 +1302,11 @@ function detectXScaleType() {
 
 /**
  * Check if column contains time/date values
- * @param {Array} rows - Data rows
  * @param {number} index - Column index
- * @returns {boolean} True if column is time-based
+ * @returns {boolean} True if the parsed column schema marks it as datetime
  */
-function isTimeColumn(rows, index) {
-	let timeCount = 0,
-		total = 0;
-	for (let r = 0; r < Math.min(rows.length, 50); r++) {
-		const v = rows[r][index];
-		if (v == null || v === "") {
-			total++;
-			continue;
-		}
-
-		// Skip pure numbers - they should not be treated as dates
-		// (JavaScript Date() accepts numbers as milliseconds since epoch)
-		// Handles regular numbers, decimals, and scientific notation (e.g., 1.5e-10, 3.2e8)
-		if (
-			typeof v === "number" ||
-			(typeof v === "string" && /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(v.trim()))
-		) {
-			total++;
-			continue;
-		}
-
-		const d = new Date(v);
-		if (!isNaN(d.getTime())) timeCount++;
-		total++;
-	}
-	return total > 0 && timeCount / total >= 0.6;
+function isTimeColumn(index) {
+	return getColumnType(index) === "datetime";
 }
 
 /**
@@ -1285,9 +1378,9 @@ function updateChartStats() {
 			? yAxis2Index
 			: yAxisIndex;
 
-	const yValues = currentData.rows
-		.map((row) => parseFloat(row[valueIndex]))
-		.filter((val) => !isNaN(val));
+	const allValues = currentData.rows.map((row) => toNumberOrNull(row[valueIndex]));
+	const yValues = allValues.filter((val) => val !== null);
+	const missingCount = allValues.length - yValues.length;
 
 	if (yValues.length > 0) {
 		const min = Math.min(...yValues);
@@ -1315,6 +1408,14 @@ function updateChartStats() {
                     </span>
                     <div><strong>Data points:</strong> ${yValues.length}</div>
                 </div>
+                <div class="stat">
+                    <span class="badge">
+                        <svg viewBox="0 0 16 16" xmlns="http://www.w3.org/2000/svg" fill="currentColor" aria-label="Missing values">
+                            <path d="M8 1a7 7 0 1 0 0 14A7 7 0 0 0 8 1zm0 1.5a5.5 5.5 0 0 1 4.3 8.9L4.6 3.7A5.5 5.5 0 0 1 8 2.5zM3.7 4.6l7.7 7.7A5.5 5.5 0 0 1 3.7 4.6z"/>
+                        </svg>
+                    </span>
+                    <div><strong>Missing:</strong> ${missingCount}</div>
+                </div>
                 <div class="stat">
                     <span class="badge">
                         <svg viewBox="0 0 16 16" xmlns="http://www.w3.org/2000/svg" fill="currentColor" aria-label="Minimum value">
@@ -1392,9 +1493,35 @@ function updateChartStats() {
             </div>
         </div>
     `;
+	appendMetadata(meta, currentData.metadata);
 	meta.style.display = "block";
 }
 
+/**
+ * Add the file's comment-header metadata to the dataset card
+ * @param {HTMLElement} meta - Dataset card
+ * @param {Record<string, string> | undefined} metadata - Values by key
+ */
+function appendMetadata(meta, metadata) {
+	const entries = Object.entries(metadata || {});
+	if (entries.length === 0) return;
+
+	const title = document.createElement("div");
+	title.className = "section-title metadata-title";
+	title.textContent = "Metadata";
+	const grid = document.createElement("div");
+	grid.className = "stats-grid";
+	for (const [key, value] of entries) {
+		const stat = document.createElement("div");
+		stat.className = "stat";
+		const label = document.createElement("strong");
+		label.textContent = `${key}:`;
+		stat.append(label, ` ${value}`);
+		grid.appendChild(stat);
+	}
+	meta.append(title, grid);
+}
+
 /**
  * Show error message
  * @param {string} message - Error message to display
@@ -1419,6 +1546,15 @@ document.getElementById("xAxis").addEventListener("change", createChart);
 document.getElementById("yAxis").addEventListener("change", createChart);
 document.getElementById("yAxis2").addEventListener("change", createChart);
 
+document.getElementById("chartTitle").addEventListener("change", () => {
+	if (chart) {
+		const title = getChartTitle();
+		chart.options.plugins.title.display = !!title;
+		chart.options.plugins.title.text = title;
+		chart.update();
+	}
+});
+
 document.getElementById("legendToggle").addEventListener("change", () => {
 	if (chart) {
 		chart.options.plugins.legend.display =
@@ -1517,6 +1653,7 @@ document.getElementById("previewDataBtn").addEventListener("click", () => {
 
 // Aggregation change should re-render
 document.getElementById("aggFunc").addEventListener("change", createChart);
+document.getElementById("nullHandling").addEventListener("change", createChart);
 document.getElementById("stylePreset").addEventListener("change", createChart);
 document.getElementById("decimals").addEventListener("change", () => {
 	decimals = parseInt(document.getElementById("decimals").value) || 2;
@@ -1631,28 +1768,104 @@ document.getElementById("iconsToggle").addEventListener("change", () => {
 // ==================== Utility Functions ====================
 
 /**
- * Get numeric column indexes from data
- * @param {Array} rows - Data rows
- * @returns {Array<number>} Array of numeric column indexes
+ * Get numeric column indexes from the parsed column schema
+ * @returns {Array<number>} Indexes of integer and float columns
  */
-function getNumericColumnIndexes(rows) {
-	if (!rows || rows.length === 0) return [];
-	const cols = rows[0].length;
+function getNumericColumnIndexes() {
+	const columns = (currentData && currentData.columns) || [];
 	const indexes = [];
-	for (let c = 0; c < cols; c++) {
-		let numCount = 0,
-			total = 0;
-		for (let r = 0; r < Math.min(rows.length, 50); r++) {
-			const v = rows[r][c];
-			const n = typeof v === "number" ? v : parseFloat(v);
-			if (!Number.isNaN(n)) numCount++;
-			total++;
+	columns.forEach((column, idx) => {
+		if (column.type === "integer" || column.type === "float") {
+			indexes.push(idx);
 		}
-		if (total > 0 && numCount / total >= 0.7) {
-			indexes.push(c);
+	});
+	return indexes;
+}
+
+/**
+ * Look up a column's type in the schema computed by the extension
+ * @param {number} index - Column index
+ * @returns {string | undefined} integer, float, boolean, datetime, categorical or string
+ */
+function getColumnType(index) {
+	const column = currentData && currentData.columns && currentData.columns[index];
+	return column ? column.type : undefined;
+}
+
+/**
+ * Chart title typed by the user, with `{key}` placeholders replaced by the file's metadata
+ * @returns {string} Title such as "Ada at 1000 Hz"; unknown placeholders are kept as typed
+ */
+function getChartTitle() {
+	const metadata = (currentData && currentData.metadata) || {};
+	return document
+		.getElementById("chartTitle")
+		.value.trim()
+		.replace(/\{([^{}]+)\}/g, (placeholder, key) =>
+			Object.hasOwn(metadata, key.trim()) ? metadata[key.trim()] : placeholder,
+		);
+}
+
+/**
+ * Column name for axis titles and legends, with its unit when known
+ * @param {number} index - Column index
+ * @returns {string} Header such as "Voltage [mV]"
+ */
+function getColumnTitle(index) {
+	const header = currentData.headers[index];
+	const column = currentData.columns && currentData.columns[index];
+	return column && column.unit ? `${header} [${column.unit}]` : header;
+}
+
+/**
+ * Selected treatment for missing values in charts
+ * @returns {string} "gap", "zero" or "interpolate"
+ */
+function getNullHandling() {
+	return document.getElementById("nullHandling").value || "gap";
+}
+
+/**
+ * Convert a cell to a number, keeping missing or non-numeric cells as null
+ * @param {*} value - Cell value
+ * @returns {number|null} Numeric value or null
+ */
+function toNumberOrNull(value) {
+	if (value == null || value === "") return null;
+	const n = typeof value === "number" ? value : parseFloat(value);
+	return Number.isNaN(n) ? null : n;
+}
+
+/**
+ * Apply the missing-value treatment to a series
+ * - gap: keep nulls so lines break and bars are left out
+ * - zero: replace nulls with 0
+ * - interpolate: fill nulls linearly between the nearest values on either side
+ *   (leading and trailing nulls stay gaps)
+ * @param {Array<number|null>} values - Series values in row order
+ * @param {string} mode - "gap", "zero" or "interpolate"
+ * @returns {Array<number|null>} New series
+ */
+function fillMissingValues(values, mode) {
+	if (mode === "zero") {
+		return values.map((v) => (v === null ? 0 : v));
+	}
+	if (mode !== "interpolate") {
+		return values;
+	}
+	const out = values.slice();
+	let prev = -1;
+	for (let i = 0; i < out.length; i++) {
+		if (out[i] === null) continue;
+		if (prev >= 0 && i - prev > 1) {
+			const step = (out[i] - out[prev]) / (i - prev);
+			for (let j = prev + 1; j < i; j++) {
+				out[j] = out[prev] + step * (j - prev);
+			}
 		}
+		prev = i;
 	}
-	return indexes;
+	return out;
 }
 
 /**
@@ -1773,32 +1986,13 @@ function getPickedColor(fmt = "rgba", alpha = 0.6) {
 }
 
 /**
- * Check if column is categorical
- * @param {Array} rows - Data rows
+ * Check if column holds non-numeric values (categories, text, booleans or dates)
  * @param {number} index - Column index
  * @returns {boolean} True if categorical
  */
-function isCategoricalColumn(rows, index) {
-	let catCount = 0,
-		total = 0;
-	for (let r = 0; r < Math.min(rows.length, 50); r++) {
-		const v = rows[r][index];
-		if (typeof v === "number") {
-			total++;
-			continue;
-		}
-		if (v == null || v === "") {
-			total++;
-			catCount++;
-			continue;
-		}
-		const n = typeof v === "string" ? Number(v) : Number(String(v));
-		if (Number.isNaN(n)) {
-			catCount++;
-		}
-		total++;
-	}
-	return total > 0 && catCount / total >= 0.5;
+function isCategoricalColumn(index) {
+	const type = getColumnType(index);
+	return type !== "integer" && type !== "float";
 }
 
 /**
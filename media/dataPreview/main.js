@@ -18,6 +18,9 @@ let selectedRows = new Set(); // Set of selected row indices
 let currentPage = 1; // Current page number for pagination
 let rowsPerPage = 150; // Number of rows per page
 
+// File types that can be read as a log
+const LOG_FILE_TYPES = ["txt", "dat", "tsv", "tab", "out", "data", "log"];
+
 /**
  * Initialize configuration from data attributes on body element
  */
@@ -45,6 +48,23 @@ window.addEventListener("message", (event) => {
 				} else if (sel) {
 					sel.value = "auto";
 				}
+				renderDelimiterConfidence(currentData.dialect);
+				// Binary formats have no text encoding to choose
+				const encoding = document.getElementById("encodingSelect");
+				encoding.value = currentData.encoding || "auto";
+				const display = currentData.encoding ? "" : "none";
+				encoding.style.display = display;
+				document.getElementById("encodingLabel").style.display = display;
+				// Only delimited text can be read as a log
+				const logFormat = document.getElementById("logFormatSelect");
+				const format = currentData.logFormat || "none";
+				if (![...logFormat.options].some((option) => option.value === format)) {
+					logFormat.add(new Option(format, format));
+				}
+				logFormat.value = format;
+				const logDisplay = LOG_FILE_TYPES.includes(currentData.fileType) ? "" : "none";
+				logFormat.style.display = logDisplay;
+				document.getElementById("logFormatLabel").style.display = logDisplay;
 			}, 0);
 			initializeStatsControls();
 			displayData();
@@ -60,8 +80,35 @@ function displayData() {
 	if (!currentData) return;
 
 	document.getElementById("title").textContent = `Data Preview: ${currentData.fileName}`;
+	let loadState = "";
+	if (currentData.partial) {
+		loadState = " | Loading more rows…";
+	} else if (currentData.truncated) {
+		loadState = " | Truncated: showing the first rows only (see vsplot.maxRowsPreview)";
+	}
+	const jsonPath = currentData.jsonPath ? ` | Path: ${currentData.jsonPath}` : "";
+	const sheet = currentData.sheet ? ` | Sheet: ${currentData.sheet} ${currentData.range || ""}` : "";
+	const array = currentData.array ? ` | Array: ${currentData.array}` : "";
+	const compression = currentData.compression ? ` (${currentData.compression})` : "";
+	const entry = currentData.entry ? ` | Entry: ${currentData.entry}` : "";
+	const documentTable = currentData.table ? ` | Table ${currentData.table}` : "";
+	const logFormat = currentData.logFormat ? ` | Log format: ${currentData.logFormat}` : "";
+	const blocks = currentData.blocks ? ` | Blocks: ${currentData.blocks.length}` : "";
+	const skipRows = currentData.skipRows ? ` | Skipped ${currentData.skipRows} metadata line(s)` : "";
+	const issues = currentData.issues ? ` | Problems: ${currentData.issues.length}` : "";
+	let textSource = "";
+	if (currentData.textSource === "selection") {
+		textSource = " | Editor selection";
+	} else if (currentData.textSource === "buffer") {
+		textSource = " | Unsaved editor text";
+	}
+	const numberFormat = currentData.numberFormat === "comma" ? " | Decimal comma" : "";
 	document.getElementById("fileInfo").textContent =
-		`File type: ${currentData.fileType.toUpperCase()} | Total rows: ${currentData.totalRows} | Columns: ${currentData.headers.length}`;
+		`File type: ${currentData.fileType.toUpperCase()}${compression}${textSource}${entry}${documentTable}${logFormat}${blocks}${skipRows}${issues}${jsonPath}${sheet}${array}${numberFormat} | Total rows: ${currentData.totalRows} | Columns: ${currentData.headers.length}${loadState}`;
+	renderSchemaNotice(currentData.schemaVariants);
+	renderMetadata(currentData.metadata);
+	renderColumnRuler(currentData.columnBoundaries, currentData.sampleLines);
+	renderQueryBar(currentData.query);
 
 	const table = document.getElementById("dataTable");
 	const noData = document.getElementById("noData");
@@ -82,7 +129,7 @@ function displayData() {
 		filteredData.headers
 			.map(
 				(header, idx) =>
-					`<th data-col="${idx}" class="sortable">${header} <span class="sort">⇅</span></th>`,
+					`<th data-col="${idx}" class="sortable">${header}${renderColumnUnit(idx)} <span class="sort">⇅</span>${renderColumnTypeSelect(idx)}</th>`,
 			)
 			.join("") +
 		"</tr>";
@@ -115,6 +162,302 @@ function displayData() {
 	updateStats();
 }
 
+/**
+ * Show how JSON records differ in shape, one line per distinct key set
+ * @param {{keys: string[], count: number}[] | undefined} variants - Key sets, most common first
+ */
+function renderSchemaNotice(variants) {
+	const notice = document.getElementById("schemaNotice");
+	notice.textContent = "";
+	if (!variants || variants.length <= 1) {
+		notice.style.display = "none";
+		return;
+	}
+
+	const maxShown = 5;
+	const summary = document.createElement("div");
+	summary.textContent = `Records have ${variants.length} different key sets; missing values are shown empty.`;
+	const list = document.createElement("ul");
+	for (const variant of variants.slice(0, maxShown)) {
+		const item = document.createElement("li");
+		const label = variant.count === 1 ? "record" : "records";
+		item.textContent = `${variant.count} ${label}: ${variant.keys.join(", ") || "(no keys)"}`;
+		list.appendChild(item);
+	}
+	if (variants.length > maxShown) {
+		const more = document.createElement("li");
+		more.textContent = `…and ${variants.length - maxShown} more`;
+		list.appendChild(more);
+	}
+	notice.append(summary, list);
+	notice.style.display = "block";
+}
+
+/**
+ * Show the key/value pairs from the file's comment header in a collapsible section
+ * @param {Record<string, string> | undefined} metadata - Values by key, in file order
+ */
+function renderMetadata(metadata) {
+	const section = document.getElementById("metadata");
+	const list = document.getElementById("metadataList");
+	list.textContent = "";
+	const entries = Object.entries(metadata || {});
+	if (entries.length === 0) {
+		section.style.display = "none";
+		return;
+	}
+
+	for (const [key, value] of entries) {
+		const term = document.createElement("dt");
+		term.textContent = key;
+		const description = document.createElement("dd");
+		description.textContent = value;
+		list.append(term, description);
+	}
+	document.getElementById("metadataSummary").textContent = `Metadata (${entries.length})`;
+	section.style.display = "block";
+}
+
+/**
+ * Show how sure the sniffer is of the delimiter, with the quote character and
+ * header row it found in the tooltip
+ * @param {{ delimiter: string, quoteChar?: string, hasHeader: boolean, confidence: number } | undefined} dialect
+ */
+function renderDelimiterConfidence(dialect) {
+	const badge = document.getElementById("delimiterConfidence");
+	if (!dialect) {
+		badge.style.display = "none";
+		return;
+	}
+	const percent = Math.round(dialect.confidence * 100);
+	badge.textContent = `${percent}% sure`;
+	badge.className = percent < 50 ? "confidence low" : "confidence";
+	const quote = dialect.quoteChar ? `Quote: ${dialect.quoteChar}` : "No quoted fields";
+	badge.title = `${quote} | Header row: ${dialect.hasHeader ? "yes" : "no"}`;
+	badge.style.display = "";
+}
+
+/**
+ * Show the fixed-width column ruler over the first lines of the file.
+ * Markers can be dragged to move a boundary, double-clicked to remove it,
+ * and clicking the scale adds one; every change re-parses the file.
+ * @param {number[] | undefined} boundaries - Column start offsets
+ * @param {string[] | undefined} sampleLines - First lines of the file
+ */
+function renderColumnRuler(boundaries, sampleLines) {
+	const ruler = document.getElementById("columnRuler");
+	const body = document.getElementById("rulerBody");
+	if (!boundaries || !sampleLines) {
+		ruler.style.display = "none";
+		return;
+	}
+	ruler.style.display = "block";
+	body.innerHTML = "";
+
+	const width = Math.max(...sampleLines.map((line) => line.length)) + 10;
+	let scale = "";
+	for (let i = 0; i < width; i += 10) {
+		scale += String(i).padEnd(10);
+	}
+	const scaleEl = document.createElement("div");
+	scaleEl.className = "ruler-scale";
+	scaleEl.textContent = scale;
+	scaleEl.title = "Click to add a column boundary";
+	scaleEl.addEventListener("click", (e) => {
+		const column = rulerColumnAt(e.clientX);
+		if (!boundaries.includes(column)) {
+			applyColumnBoundaries([...boundaries, column]);
+		}
+	});
+
+	const sample = document.createElement("pre");
+	sample.className = "ruler-sample";
+	sample.textContent = sampleLines.join("\n");
+	body.append(scaleEl, sample);
+
+	boundaries.forEach((start, index) => {
+		if (index === 0) return; // The first column always starts at 0
+		const marker = document.createElement("div");
+		marker.className = "ruler-marker";
+		marker.style.left = `${start}ch`;
+		marker.title = `Column ${index + 1} starts at ${start}. Drag to move, double-click to remove`;
+		marker.addEventListener("mousedown", (e) => {
+			e.preventDefault();
+			startMarkerDrag(marker, boundaries, index);
+		});
+		marker.addEventListener("dblclick", () => {
+			applyColumnBoundaries(boundaries.filter((_, i) => i !== index));
+		});
+		body.appendChild(marker);
+	});
+}
+
+/**
+ * Character offset under a mouse position on the ruler
+ * @param {number} clientX - Mouse X coordinate
+ * @returns {number} Column offset, at least 1
+ */
+function rulerColumnAt(clientX) {
+	const body = document.getElementById("rulerBody");
+	const probe = document.createElement("span");
+	probe.textContent = "0".repeat(10);
+	body.querySelector(".ruler-sample").appendChild(probe);
+	const charWidth = probe.getBoundingClientRect().width / 10;
+	probe.remove();
+	// The sample text is inset by the ruler's 4px padding
+	const x = clientX - body.getBoundingClientRect().left - 4 + body.scrollLeft;
+	return Math.max(1, Math.round(x / charWidth));
+}
+
+/**
+ * Follow the mouse with a boundary marker and re-parse when it is dropped
+ * @param {HTMLElement} marker - Marker being dragged
+ * @param {number[]} boundaries - Current column start offsets
+ * @param {number} index - Index of the dragged boundary
+ */
+function startMarkerDrag(marker, boundaries, index) {
+	let column = boundaries[index];
+	const onMove = (e) => {
+		column = rulerColumnAt(e.clientX);
+		marker.style.left = `${column}ch`;
+	};
+	const onUp = () => {
+		document.removeEventListener("mousemove", onMove);
+		document.removeEventListener("mouseup", onUp);
+		if (column !== boundaries[index]) {
+			applyColumnBoundaries(boundaries.map((b, i) => (i === index ? column : b)));
+		}
+	};
+	document.addEventListener("mousemove", onMove);
+	document.addEventListener("mouseup", onUp);
+}
+
+/**
+ * Show the query behind SQLite data so it can be edited and run again
+ * @param {string | undefined} query - Query of the data shown
+ */
+function renderQueryBar(query) {
+	const bar = document.getElementById("queryBar");
+	if (currentData.fileType !== "sqlite" || query === undefined) {
+		bar.style.display = "none";
+		return;
+	}
+	bar.style.display = "flex";
+	document.getElementById("queryInput").value = query;
+}
+
+/**
+ * Re-run the query typed in the query bar; column type overrides belong to the old result
+ */
+function runQuery() {
+	const query = document.getElementById("queryInput").value.trim();
+	if (!query) return;
+	vscode.postMessage({
+		type: "reparse",
+		delimiter: "auto",
+		...getTableSelection(),
+		query,
+	});
+}
+
+/**
+ * Re-parse the file as fixed-width text with new column boundaries
+ * @param {number[]} boundaries - Column start offsets
+ */
+function applyColumnBoundaries(boundaries) {
+	vscode.postMessage({
+		type: "reparse",
+		delimiter: "fixed",
+		columnBoundaries: boundaries.slice().sort((a, b) => a - b),
+		...getTableSelection(),
+		columnTypes: getColumnTypeOverrides(),
+	});
+}
+
+const COLUMN_TYPES = ["integer", "float", "boolean", "datetime", "categorical", "string"];
+
+/**
+ * Build the unit shown after a header, read from the units row of the file
+ * @param {number} idx - Column index
+ * @returns {string} HTML for the unit, or "" when the column has none
+ */
+function renderColumnUnit(idx) {
+	const column = filteredData.columns && filteredData.columns[idx];
+	return column && column.unit ? ` <span class="unit">[${escapeHtml(column.unit)}]</span>` : "";
+}
+
+/**
+ * Escape text from the file for use in markup
+ * @param {string} text - Text to escape
+ * @returns {string} Text with HTML special characters replaced by entities
+ */
+function escapeHtml(text) {
+	const span = document.createElement("span");
+	span.textContent = text;
+	return span.innerHTML;
+}
+
+/**
+ * Build the column type dropdown shown under a header
+ * @param {number} idx - Column index
+ * @returns {string} Select element markup, or empty string without a schema
+ */
+function renderColumnTypeSelect(idx) {
+	const column = filteredData.columns && filteredData.columns[idx];
+	if (!column) return "";
+	const options = COLUMN_TYPES.map(
+		(type) => `<option value="${type}"${type === column.type ? " selected" : ""}>${type}</option>`,
+	).join("");
+	const origin = column.overridden ? "set by you" : "inferred";
+	return `<select class="column-type${column.overridden ? " overridden" : ""}" data-col="${idx}" title="Column type (${origin}), ${column.nullCount} empty">${options}</select>`;
+}
+
+/**
+ * Re-parse the file with a column's type overridden, keeping earlier overrides
+ * @param {number} col - Column index
+ * @param {string} type - New column type
+ */
+function overrideColumnType(col, type) {
+	vscode.postMessage({
+		type: "reparse",
+		delimiter: document.getElementById("delimiterSelect").value,
+		...getTableSelection(),
+		columnTypes: { ...getColumnTypeOverrides(), [currentData.headers[col]]: type },
+		columnBoundaries: currentData.columnBoundaries,
+	});
+}
+
+/**
+ * How the file is read (text encoding, log format) and which table of it is shown (JSON array,
+ * worksheet and range, SQLite query, NumPy array, ZIP entry, document table), to keep when re-parsing
+ * @returns {{encoding?: string, logFormat?: string, jsonPath?: string, sheet?: string, range?: string, query?: string, array?: string, entry?: string, table?: number}} Selection fields of a reparse message
+ */
+function getTableSelection() {
+	const encoding = document.getElementById("encodingSelect").value;
+	const logFormat = document.getElementById("logFormatSelect");
+	return {
+		encoding: encoding === "auto" ? undefined : encoding,
+		logFormat: logFormat.style.display === "none" ? undefined : logFormat.value,
+		jsonPath: currentData?.jsonPath,
+		sheet: currentData?.sheet,
+		range: currentData?.range,
+		query: currentData?.query,
+		array: currentData?.array,
+		entry: currentData?.entry,
+		table: currentData?.table,
+	};
+}
+
+/**
+ * Column types chosen by the user, to keep when re-parsing
+ * @returns {Object<string, string> | undefined} Overrides keyed by header
+ */
+function getColumnTypeOverrides() {
+	const overrides = (currentData?.columns || []).filter((column) => column.overridden);
+	if (overrides.length === 0) return undefined;
+	return Object.fromEntries(overrides.map((column) => [column.name, column.type]));
+}
+
 function bindHeaderEvents() {
 	const selectAll = document.getElementById("selectAll");
 	if (selectAll) {
@@ -144,6 +487,13 @@ function bindHeaderEvents() {
 			sortByColumn(col);
 		});
 	});
+	document.querySelectorAll("select.column-type").forEach((sel) => {
+		// Keep clicks on the dropdown from sorting the column
+		sel.addEventListener("click", (e) => e.stopPropagation());
+		sel.addEventListener("change", (e) => {
+			overrideColumnType(parseInt(sel.getAttribute("data-col")), e.target.value);
+		});
+	});
 }
 
 let sortState = { col: -1, dir: 1 };
@@ -274,7 +624,54 @@ document.getElementById("chartBtn").addEventListener("click", () => {
 // Delimiter override
 document.getElementById("delimiterSelect").addEventListener("change", (e) => {
 	const val = e.target.value;
-	vscode.postMessage({ type: "reparse", delimiter: val });
+	vscode.postMessage({
+		type: "reparse",
+		delimiter: val,
+		...getTableSelection(),
+		columnTypes: getColumnTypeOverrides(),
+	});
+});
+
+// Encoding override
+document.getElementById("encodingSelect").addEventListener("change", () => {
+	vscode.postMessage({
+		type: "reparse",
+		delimiter: document.getElementById("delimiterSelect").value,
+		...getTableSelection(),
+		columnTypes: getColumnTypeOverrides(),
+	});
+});
+
+// Log format override
+document.getElementById("logFormatSelect").addEventListener("change", () => {
+	vscode.postMessage({
+		type: "reparse",
+		delimiter: document.getElementById("delimiterSelect").value,
+		...getTableSelection(),
+		columnTypes: getColumnTypeOverrides(),
+	});
+});
+
+// Keep the fixed-width layout for the next time this file is opened
+document.getElementById("saveColumnsBtn").addEventListener("click", () => {
+	vscode.postMessage({
+		type: "saveColumnBoundaries",
+		columnBoundaries: currentData?.columnBoundaries,
+	});
+});
+
+// SQLite query bar
+document.getElementById("runQueryBtn").addEventListener("click", runQuery);
+document.getElementById("queryInput").addEventListener("keydown", (e) => {
+	if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+		e.preventDefault();
+		runQuery();
+	}
+});
+document.getElementById("saveQueryBtn").addEventListener("click", () => {
+	const query = document.getElementById("queryInput").value.trim();
+	if (!query) return;
+	vscode.postMessage({ type: "saveQuery", query });
 });
 
 // Stats controls events
@@ -292,7 +689,7 @@ function initializeStatsControls() {
 		sel.appendChild(opt);
 	});
 	// default to first numeric column if available
-	const nums = getNumericColumnIndexes(currentData.rows);
+	const nums = getNumericColumnIndexes(currentData.columns);
 	if (nums.length > 0) {
 		sel.value = String(nums[0]);
 	} else {
@@ -321,9 +718,13 @@ function updateStats() {
 					.map((i) => filteredData.rows[i])
 					.filter(Boolean)
 			: filteredData.rows;
-	const values = rows.map((r) => parseFloat(r[col])).filter((v) => !Number.isNaN(v));
+	const missing = rows.filter((r) => r[col] == null || r[col] === "").length;
+	// Numeric columns hold numbers after parsing; other column types have no numeric stats
+	const values = getNumericColumnIndexes(filteredData.columns).includes(col)
+		? rows.map((r) => r[col]).filter((v) => typeof v === "number" && !Number.isNaN(v))
+		: [];
 	if (values.length === 0) {
-		out.textContent = "No numeric data in selected column.";
+		out.textContent = `No numeric data in selected column (${missing} missing).`;
 		return;
 	}
 	const count = values.length;
@@ -367,6 +768,14 @@ function updateStats() {
             </span>
             <div><strong>Data points:</strong> ${count}</div>
         </div>
+        <div class="stat">
+            <span class="badge">
+                <svg viewBox="0 0 16 16" xmlns="http://www.w3.org/2000/svg" fill="currentColor" aria-label="Missing values">
+                    <path d="M8 1a7 7 0 1 0 0 14A7 7 0 0 0 8 1zm0 1.5a5.5 5.5 0 0 1 4.3 8.9L4.6 3.7A5.5 5.5 0 0 1 8 2.5zM3.7 4.6l7.7 7.7A5.5 5.5 0 0 1 3.7 4.6z"/>
+                </svg>
+            </span>
+            <div><strong>Missing:</strong> ${missing}</div>
+        </div>
         <div class="stat">
             <span class="badge">
                 <svg viewBox="0 0 16 16" xmlns="http://www.w3.org/2000/svg" fill="currentColor" aria-label="Minimum value">
@@ -410,23 +819,19 @@ function updateStats() {
     `;
 }
 
-function getNumericColumnIndexes(rows) {
-	if (!rows || rows.length === 0) return [];
-	const cols = rows[0].length;
+/**
+ * Indexes of integer and float columns according to the parsed column schema
+ * @param {{type: string}[] | undefined} columns - Column schema from the extension
+ * @returns {number[]} Numeric column indexes
+ */
+function getNumericColumnIndexes(columns) {
+	if (!columns) return [];
 	const indexes = [];
-	for (let c = 0; c < cols; c++) {
-		let numCount = 0,
-			total = 0;
-		for (let r = 0; r < Math.min(rows.length, 50); r++) {
-			const v = rows[r][c];
-			const n = typeof v === "number" ? v : parseFloat(v);
-			if (!Number.isNaN(n)) numCount++;
-			total++;
-		}
-		if (total > 0 && numCount / total >= 0.7) {
-			indexes.push(c);
+	columns.forEach((column, idx) => {
+		if (column.type === "integer" || column.type === "float") {
+			indexes.push(idx);
 		}
-	}
+	});
 	return indexes;
 }
 
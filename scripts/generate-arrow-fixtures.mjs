@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+
+// Writes the Arrow test fixtures that come from the apache-arrow JavaScript
+// writer, which keeps the schema only in the file footer. apache-arrow is not
+// a dependency of the extension; install it in a scratch directory and run
+// this script from there:
+//   npm install apache-arrow && node <repo>/scripts/generate-arrow-fixtures.mjs <repo>/test-data/fixtures
+
+import fs from "node:fs";
+import path from "node:path";
+import {
+	Bool,
+	DateDay,
+	Dictionary,
+	Float64,
+	Int32,
+	Table,
+	TimestampMillisecond,
+	tableToIPC,
+	Utf8,
+	vectorFromArray,
+} from "apache-arrow";
+
+const outDir = process.argv[2] ?? path.resolve("test-data", "fixtures");
+
+const DAYS = [19783, 19784, 19785, 19786, 19787];
+const readings = new Table({
+	count: vectorFromArray([3, null, 7, 1, 4], new Int32()),
+	level: vectorFromArray([0.5, 1.25, -2, 8, 0], new Float64()),
+	site: vectorFromArray(
+		["Oslo", "Bergen", "Oslo", null, "Oslo"],
+		new Dictionary(new Utf8(), new Int32()),
+	),
+	ok: vectorFromArray([true, false, true, true, false], new Bool()),
+	day: vectorFromArray(
+		DAYS.map((day) => new Date(day * 86400000)),
+		new DateDay(),
+	),
+	time: vectorFromArray(
+		[1709294400000, 1709294401000, 1709294402000, 1709294403000, 1709294404500],
+		new TimestampMillisecond(),
+	),
+});
+
+fs.mkdirSync(outDir, { recursive: true });
+fs.writeFileSync(path.join(outDir, "readings-js.arrow"), tableToIPC(readings, "file"));
@@ -0,0 +1,99 @@
+#!/usr/bin/env python3
+"""Write the binary test fixtures in test-data/fixtures with the reference
+libraries of each format, so that the readers are tested against files they
+did not write themselves.
+
+Requires numpy and pyarrow:
+    pip install numpy pyarrow
+    python3 scripts/generate-test-fixtures.py
+"""
+
+import os
+
+import numpy as np
+import pyarrow as pa
+import pyarrow.feather as feather
+import pyarrow.ipc as ipc
+import pyarrow.parquet as pq
+
+OUT_DIR = os.path.join(os.path.dirname(os.path.abspath(__file__)), "..", "test-data", "fixtures")
+
+
+def fixture(name):
+    return os.path.join(OUT_DIR, name)
+
+
+def write_numpy():
+    np.save(fixture("pressure.npy"), np.array([101.3, np.nan, 99.8, 100]))
+    grid = np.arange(1, 7, dtype="<i4").reshape(2, 3)
+    np.save(fixture("grid.npy"), grid)
+    np.save(fixture("grid-f.npy"), np.asfortranarray(grid))
+    stations = np.array(
+        [("2024-03-01T12:00:00", 0.5, "Oslo", True), ("2024-03-01T12:01:00", -2.25, "Bø", False)],
+        dtype=[("time", "<M8[s]"), ("level", "<f4"), ("site", "<U4"), ("ok", "?")],
+    )
+    np.save(fixture("stations.npy"), stations)
+    np.savez_compressed(
+        fixture("run.npz"),
+        t=np.array([0, 0.5, 1]),
+        u=np.arange(1, 7, dtype="<i4").reshape(3, 2),
+    )
+
+
+def write_parquet():
+    plain = pa.table(
+        {
+            "id": pa.array([1, 2, 3, 4], pa.int32()),
+            "value": pa.array([1.5, None, -2, 0.25]),
+            "label": ["a", "b", "a", "b"],
+            "code": ["001", "002", "003", "004"],
+            "ok": [True, False, True, True],
+        }
+    )
+    pq.write_table(plain, fixture("plain.parquet"), compression="none", use_dictionary=False)
+
+    north = "North ridge weather station, upper meadow above the tree line"
+    south = "South valley weather station"
+    stations = pa.table(
+        {
+            "reading": pa.array([10, 20, 30, 40, 50], pa.int64()),
+            "station": [north, south, north, None, south],
+        }
+    )
+    pq.write_table(stations, fixture("stations.parquet"), compression="snappy", row_group_size=2)
+
+    dates = pa.table(
+        {
+            "day": pa.array([19783, 19784], pa.date32()),
+            "time": pa.array([1709294400000, 1709380800500], pa.timestamp("ms", tz="UTC")),
+        }
+    )
+    pq.write_table(dates, fixture("dates.parquet"), compression="gzip")
+
+
+def write_arrow():
+    readings = pa.table(
+        {
+            "count": pa.array([3, None, 7, 1, 4], pa.int32()),
+            "level": pa.array([0.5, 1.25, -2, 8, 0], pa.float64()),
+            "site": pa.array(["Oslo", "Bergen", "Oslo", None, "Oslo"]).dictionary_encode(),
+            "ok": pa.array([True, False, True, True, False]),
+            "day": pa.array([19783, 19784, 19785, 19786, 19787], pa.date32()),
+            "time": pa.array(
+                [1709294400000, 1709294401000, 1709294402000, 1709294403000, 1709294404500],
+                pa.timestamp("ms", tz="UTC"),
+            ),
+        }
+    )
+    # Feather version 2 is the IPC file format, LZ4-compressed by default
+    feather.write_feather(readings, fixture("readings.feather"), compression="lz4")
+    options = ipc.IpcWriteOptions(compression="lz4")
+    with ipc.new_stream(fixture("readings-stream.arrow"), readings.schema, options=options) as writer:
+        writer.write_table(readings, max_chunksize=2)
+
+
+if __name__ == "__main__":
+    os.makedirs(OUT_DIR, exist_ok=True)
+    write_numpy()
+    write_parquet()
+    write_arrow()
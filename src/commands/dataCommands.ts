@@ -1,5 +1,27 @@
+import * as path from "node:path";
 import * as vscode from "vscode";
-import { type ParsedData, parseDataFile } from "../data/load";
+import type { DocumentTable } from "../data/documentTables";
+import {
+	findArchiveEntries,
+	findDocumentTables,
+	findJSONArrays,
+	findNumPyArrays,
+	findSQLiteTables,
+	findWorksheets,
+	getConfiguredParseOptions,
+	getSavedQueries,
+	type JSONArrayCandidate,
+	type ParsedData,
+	type ParseOptions,
+	parseDataFileWithProgress,
+	parseDataText,
+	type StreamingParseOptions,
+	type TextSource,
+} from "../data/load";
+import type { NpzArrayInfo } from "../data/npy";
+import { isSelectQuery, type SQLiteTable, tableQuery } from "../data/sqlite";
+import { isValidRange, type WorksheetInfo } from "../data/xlsx";
+import type { ZipEntry } from "../data/zip";
 import type { ChartViewProvider } from "../providers/chartViewProvider";
 import type { DataPreviewProvider } from "../providers/dataPreviewProvider";
 
@@ -12,13 +34,21 @@ export interface FileQuickPickItem extends vscode.QuickPickItem {
 	uri: vscode.Uri;
 }
 
+/**
+ * Text of an open editor, parsed instead of the file on disk.
+ */
+export interface EditorText extends TextSource {
+	/** Document the text belongs to, e.g. `untitled:Untitled-1` */
+	uri: vscode.Uri;
+}
+
 /**
  * Dependencies that can be injected for testing command logic.
  * Default implementations use real VS Code APIs.
  */
 export interface CommandDependencies {
 	getActiveEditorUri: () => vscode.Uri | undefined;
-	parseDataFile: (uri: vscode.Uri) => Promise<ParsedData | null>;
+	parseDataFile: (uri: vscode.Uri, options?: StreamingParseOptions) => Promise<ParsedData | null>;
 	showErrorMessage: (msg: string) => void;
 	showInfoMessage: (msg: string) => void;
 	findWorkspaceFiles: (pattern: string, exclude?: string) => Thenable<vscode.Uri[]>;
@@ -28,6 +58,52 @@ export interface CommandDependencies {
 	) => Thenable<FileQuickPickItem | undefined>;
 	getWorkspaceFolders: () => readonly vscode.WorkspaceFolder[] | undefined;
 	asRelativePath: (uri: vscode.Uri) => string;
+	/**
+	 * Choose the array to tabulate in a JSON file.
+	 * Resolves to a JSONPath-style selector, undefined to use the whole document,
+	 * or null if the user cancelled. When omitted, the whole document is used.
+	 */
+	selectJSONPath?: (uri: vscode.Uri) => Promise<string | undefined | null>;
+	/**
+	 * Choose the worksheet and optional cell range to read from an Excel workbook.
+	 * Resolves to the selection, undefined to read the first worksheet,
+	 * or null if the user cancelled. When omitted, the first worksheet is read.
+	 */
+	selectWorksheet?: (
+		uri: vscode.Uri,
+	) => Promise<{ sheet: string; range?: string } | undefined | null>;
+	/**
+	 * Choose the table, view or query to read from a SQLite database.
+	 * Resolves to a SELECT query, undefined to read the first table,
+	 * or null if the user cancelled. When omitted, the first table is read.
+	 */
+	selectQuery?: (uri: vscode.Uri) => Promise<string | undefined | null>;
+	/**
+	 * Choose the array to read from a NumPy `.npz` archive.
+	 * Resolves to the array name, undefined to read the first array,
+	 * or null if the user cancelled. When omitted, the first array is read.
+	 */
+	selectArray?: (uri: vscode.Uri) => Promise<string | undefined | null>;
+	/**
+	 * Choose the data file to read from a ZIP archive.
+	 * Resolves to the entry name, undefined to read the first data file,
+	 * or null if the user cancelled. When omitted, the first data file is read.
+	 */
+	selectEntry?: (uri: vscode.Uri) => Promise<string | undefined | null>;
+	/**
+	 * Choose the table to read from a Markdown, HTML or LaTeX document.
+	 * Resolves to the table's position (starting at 1), undefined to read the
+	 * first table, or null if the user cancelled. When omitted, the first table is read.
+	 */
+	selectDocumentTable?: (uri: vscode.Uri) => Promise<number | undefined | null>;
+	/**
+	 * Text of the active editor to parse instead of the file on disk. With
+	 * `selection`, the selected lines (or all text when nothing is selected);
+	 * otherwise all text, but only when the editor shows `uri` and it is
+	 * untitled or has unsaved changes. Undefined means the file is read from
+	 * disk. When omitted, files are always read from disk.
+	 */
+	getEditorText?: (uri: vscode.Uri | undefined, selection: boolean) => EditorText | undefined;
 }
 
 /**
@@ -36,7 +112,7 @@ export interface CommandDependencies {
 export function createDefaultDependencies(): CommandDependencies {
 	return {
 		getActiveEditorUri: () => vscode.window.activeTextEditor?.document.uri,
-		parseDataFile: parseDataFile,
+		parseDataFile: parseDataFileWithProgress,
 		showErrorMessage: (msg) => {
 			vscode.window.showErrorMessage(msg);
 		},
@@ -47,7 +123,320 @@ export function createDefaultDependencies(): CommandDependencies {
 		showQuickPick: (items, options) => vscode.window.showQuickPick(items, options),
 		getWorkspaceFolders: () => vscode.workspace.workspaceFolders,
 		asRelativePath: (uri) => vscode.workspace.asRelativePath(uri),
+		selectJSONPath: pickJSONPath,
+		selectWorksheet: pickWorksheet,
+		selectQuery: pickSQLiteQuery,
+		selectArray: pickNumPyArray,
+		selectEntry: pickArchiveEntry,
+		selectDocumentTable: pickDocumentTable,
+		getEditorText: getActiveEditorText,
+	};
+}
+
+/**
+ * Text of the active editor, as described by {@link CommandDependencies.getEditorText}.
+ *
+ * Selections are widened to whole lines so that partly selected rows are
+ * not cut; several selections are joined in document order.
+ */
+function getActiveEditorText(
+	uri: vscode.Uri | undefined,
+	selection: boolean,
+): EditorText | undefined {
+	const editor = vscode.window.activeTextEditor;
+	if (!editor || (uri && editor.document.uri.toString() !== uri.toString())) {
+		return undefined;
+	}
+	const { document } = editor;
+	const source = {
+		uri: document.uri,
+		fileName: path.basename(document.fileName),
+		languageId: document.languageId,
 	};
+	const selected = editor.selections.filter((range) => !range.isEmpty);
+	if (selection && selected.length > 0) {
+		const text = selected
+			.sort((a, b) => a.start.compareTo(b.start))
+			.map((range) => {
+				// A selection ending at the start of a line does not include that line
+				const lastLine =
+					range.end.character === 0 && range.end.line > range.start.line
+						? range.end.line - 1
+						: range.end.line;
+				return document.getText(
+					new vscode.Range(range.start.line, 0, lastLine, document.lineAt(lastLine).text.length),
+				);
+			})
+			.join("\n");
+		return { ...source, text, selection: true };
+	}
+	if (selection || document.isUntitled || document.isDirty) {
+		return { ...source, text: document.getText() };
+	}
+	return undefined;
+}
+
+/**
+ * Ask which array to tabulate when a JSON file contains several.
+ *
+ * Files with a single array use it without asking; files without arrays
+ * (or that fail to parse, so the parser can report the error) use the
+ * whole document.
+ */
+async function pickJSONPath(uri: vscode.Uri): Promise<string | undefined | null> {
+	if (!uri.fsPath.toLowerCase().endsWith(".json")) {
+		return undefined;
+	}
+	let candidates: JSONArrayCandidate[];
+	try {
+		candidates = await findJSONArrays(uri);
+	} catch {
+		return undefined;
+	}
+	if (candidates.length <= 1) {
+		return candidates[0]?.path;
+	}
+
+	const selected = await vscode.window.showQuickPick(
+		candidates.map((candidate) => ({
+			label: candidate.path,
+			description: `${candidate.length} items`,
+		})),
+		{ placeHolder: "Select the array to show as a table" },
+	);
+	return selected ? selected.label : null;
+}
+
+/**
+ * Ask which worksheet of an Excel workbook to read, then for an optional cell range.
+ *
+ * Workbooks with a single worksheet skip the sheet choice. Files that cannot
+ * be listed read the first worksheet so the parser can report the error.
+ */
+async function pickWorksheet(
+	uri: vscode.Uri,
+): Promise<{ sheet: string; range?: string } | undefined | null> {
+	if (!uri.fsPath.toLowerCase().endsWith(".xlsx")) {
+		return undefined;
+	}
+	let worksheets: WorksheetInfo[];
+	try {
+		worksheets = await findWorksheets(uri);
+	} catch {
+		return undefined;
+	}
+	if (worksheets.length === 0) {
+		return undefined;
+	}
+
+	let worksheet = worksheets[0];
+	if (worksheets.length > 1) {
+		const selected = await vscode.window.showQuickPick(
+			worksheets.map((info) => ({ label: info.name, description: info.dimension, info })),
+			{ placeHolder: "Select the worksheet to show as a table" },
+		);
+		if (!selected) {
+			return null;
+		}
+		worksheet = selected.info;
+	}
+
+	const range = await vscode.window.showInputBox({
+		title: `Cell range in ${worksheet.name}`,
+		prompt: "Range to read, e.g. B2:F40. Leave empty to read all used cells.",
+		placeHolder: worksheet.dimension,
+		validateInput: (value) =>
+			!value.trim() || isValidRange(value.trim()) ? undefined : "Enter a range such as B2:F40",
+	});
+	if (range === undefined) {
+		return null;
+	}
+	return range.trim() ? { sheet: worksheet.name, range: range.trim() } : { sheet: worksheet.name };
+}
+
+/**
+ * Ask which table or view of a SQLite database to read, offering the queries
+ * saved for the file and a free-form SELECT query as well.
+ *
+ * Files that cannot be listed read the first table so the parser can report the error.
+ */
+async function pickSQLiteQuery(uri: vscode.Uri): Promise<string | undefined | null> {
+	if (!/\.(?:sqlite3?|db)$/i.test(uri.fsPath)) {
+		return undefined;
+	}
+	let tables: SQLiteTable[];
+	try {
+		tables = await findSQLiteTables(uri);
+	} catch {
+		return undefined;
+	}
+
+	const items: (vscode.QuickPickItem & { query?: string })[] = tables.map((table) => ({
+		label: table.name,
+		description: table.type,
+		query: tableQuery(table.name),
+	}));
+	const saved = getSavedQueries(uri);
+	if (saved.length > 0) {
+		items.push(
+			{ label: "Saved queries", kind: vscode.QuickPickItemKind.Separator },
+			...saved.map((query) => ({ label: query, query })),
+		);
+	}
+	items.push(
+		{ label: "", kind: vscode.QuickPickItemKind.Separator },
+		{ label: "$(edit) Enter a SELECT query..." },
+	);
+
+	const selected = await vscode.window.showQuickPick(items, {
+		placeHolder: "Select a table or view, or enter a query",
+	});
+	if (!selected) {
+		return null;
+	}
+	if (selected.query) {
+		return selected.query;
+	}
+	const query = await vscode.window.showInputBox({
+		title: "SQLite query",
+		prompt: "SELECT query to run against the database",
+		placeHolder: tables[0] ? tableQuery(tables[0].name) : "SELECT * FROM ...",
+		validateInput: (value) => (isSelectQuery(value) ? undefined : "Enter a SELECT query"),
+	});
+	return query === undefined ? null : query.trim();
+}
+
+/**
+ * Ask which array of a NumPy `.npz` archive to read.
+ *
+ * Archives with a single array use it without asking; archives that cannot
+ * be listed read the first array so the parser can report the error.
+ */
+async function pickNumPyArray(uri: vscode.Uri): Promise<string | undefined | null> {
+	if (!uri.fsPath.toLowerCase().endsWith(".npz")) {
+		return undefined;
+	}
+	let arrays: NpzArrayInfo[];
+	try {
+		arrays = await findNumPyArrays(uri);
+	} catch {
+		return undefined;
+	}
+	if (arrays.length <= 1) {
+		return arrays[0]?.name;
+	}
+
+	const selected = await vscode.window.showQuickPick(
+		arrays.map((array) => ({
+			label: array.name,
+			description: `${array.dtype} (${array.shape.join(" × ")})`,
+		})),
+		{ placeHolder: "Select the array to show as a table" },
+	);
+	return selected ? selected.label : null;
+}
+
+/**
+ * Ask which data file of a ZIP archive to read.
+ *
+ * Archives with a single data file use it without asking; archives that
+ * cannot be listed read the first data file so the parser can report the error.
+ */
+async function pickArchiveEntry(uri: vscode.Uri): Promise<string | undefined | null> {
+	if (!uri.fsPath.toLowerCase().endsWith(".zip")) {
+		return undefined;
+	}
+	let entries: ZipEntry[];
+	try {
+		entries = await findArchiveEntries(uri);
+	} catch {
+		return undefined;
+	}
+	if (entries.length <= 1) {
+		return entries[0]?.name;
+	}
+
+	const selected = await vscode.window.showQuickPick(
+		entries.map((entry) => ({
+			label: entry.name,
+			description: `${entry.size.toLocaleString()} bytes`,
+		})),
+		{ placeHolder: "Select the file to show as a table" },
+	);
+	return selected ? selected.label : null;
+}
+
+/**
+ * Ask which table of a Markdown, HTML or LaTeX document to read.
+ *
+ * Documents with a single table use it without asking; documents without
+ * tables, or that cannot be read, go to the parser so it can report the error.
+ */
+async function pickDocumentTable(uri: vscode.Uri): Promise<number | undefined | null> {
+	let tables: DocumentTable[];
+	try {
+		tables = await findDocumentTables(uri);
+	} catch {
+		return undefined;
+	}
+	if (tables.length <= 1) {
+		return undefined;
+	}
+
+	const selected = await vscode.window.showQuickPick(
+		tables.map((table, index) => ({
+			label: `Table ${index + 1}: ${table.caption ?? table.headers?.join(", ") ?? table.rows[0]?.join(", ")}`,
+			description: `${DOCUMENT_TABLE_KINDS[table.kind]}, line ${table.startLine + 1}`,
+			detail: `${table.rows.length} rows × ${(table.headers ?? table.rows[0] ?? []).length} columns`,
+			number: index + 1,
+		})),
+		{ placeHolder: "Select the table to show" },
+	);
+	return selected ? selected.number : null;
+}
+
+const DOCUMENT_TABLE_KINDS: Record<DocumentTable["kind"], string> = {
+	markdown: "Markdown table",
+	html: "HTML table",
+	latex: "LaTeX tabular",
+};
+
+/**
+ * Ask which table to read from files that hold several, such as JSON
+ * documents with multiple arrays, workbooks with multiple worksheets,
+ * SQLite databases, NumPy archives, ZIP archives or documents with several tables.
+ *
+ * @returns Parse options selecting the table, or null if the user cancelled
+ */
+async function selectTable(
+	uri: vscode.Uri,
+	deps: CommandDependencies,
+): Promise<ParseOptions | null> {
+	const jsonPath = await deps.selectJSONPath?.(uri);
+	if (jsonPath === null) {
+		return null;
+	}
+	const worksheet = await deps.selectWorksheet?.(uri);
+	if (worksheet === null) {
+		return null;
+	}
+	const query = await deps.selectQuery?.(uri);
+	if (query === null) {
+		return null;
+	}
+	const array = await deps.selectArray?.(uri);
+	if (array === null) {
+		return null;
+	}
+	const entry = await deps.selectEntry?.(uri);
+	if (entry === null) {
+		return null;
+	}
+	const table = await deps.selectDocumentTable?.(uri);
+	if (table === null) {
+		return null;
+	}
+	return { jsonPath, ...worksheet, query, array, entry, table };
 }
 
 // --- Extracted Testable Functions ---
@@ -91,27 +480,148 @@ export function resolveUri(
 	return { success: true, uri: activeUri };
 }
 
+/**
+ * Parse a file for the data preview.
+ *
+ * Honours `vsplot.maxRowsPreview` and, for large files, sends the first page
+ * (`vsplot.rowsPerPage` rows) to the preview while the rest is still loading.
+ */
+function parseForPreview(
+	uri: vscode.Uri,
+	deps: CommandDependencies,
+	previewProvider: {
+		showPreview: (uri: vscode.Uri, data: ParsedData) => Promise<void>;
+	},
+	table: ParseOptions,
+): Promise<ParsedData | null> {
+	const cfg = vscode.workspace.getConfiguration("vsplot");
+	return deps.parseDataFile(uri, {
+		...getConfiguredParseOptions(uri),
+		...table,
+		maxRows: cfg.get<number>("maxRowsPreview", 1000),
+		partialRows: cfg.get<number>("rowsPerPage", 150),
+		onPartialData: (partial) => {
+			void previewProvider.showPreview(uri, partial);
+		},
+	});
+}
+
+/**
+ * Preview editor text, limited to `vsplot.maxRowsPreview` rows like files.
+ * The text is kept with the preview so that reparsing reads it again.
+ */
+async function previewEditorText(
+	editorText: EditorText,
+	previewProvider: {
+		showPreview: (uri: vscode.Uri, data: ParsedData, source?: TextSource) => Promise<void>;
+	},
+	table?: ParseOptions,
+): Promise<CommandResult> {
+	const data = parseDataText(editorText, {
+		...getConfiguredParseOptions(),
+		...table,
+		maxRows: vscode.workspace.getConfiguration("vsplot").get<number>("maxRowsPreview", 1000),
+	});
+	if (!data) {
+		return { success: false, error: `Failed to parse ${editorText.fileName}` };
+	}
+	await previewProvider.showPreview(editorText.uri, data, editorText);
+	return { success: true };
+}
+
+/**
+ * Plot editor text.
+ */
+async function plotEditorText(
+	editorText: EditorText,
+	chartProvider: {
+		showChart: (uri: vscode.Uri, data: ParsedData) => Promise<void>;
+	},
+): Promise<CommandResult> {
+	const data = parseDataText(editorText, getConfiguredParseOptions());
+	if (!data) {
+		return { success: false, error: `Failed to parse ${editorText.fileName}` };
+	}
+	await chartProvider.showChart(editorText.uri, data);
+	return { success: true };
+}
+
+/**
+ * Core preview selection logic: previews the selected lines of the active
+ * editor, or all of its text when nothing is selected.
+ *
+ * @param deps - Injectable dependencies
+ * @param previewProvider - Provider to show preview
+ * @returns Result indicating success or error
+ */
+export async function executePreviewSelection(
+	deps: CommandDependencies,
+	previewProvider: {
+		showPreview: (uri: vscode.Uri, data: ParsedData, source?: TextSource) => Promise<void>;
+	},
+): Promise<CommandResult> {
+	const editorText = deps.getEditorText?.(undefined, true);
+	if (!editorText) {
+		return { success: false, error: "No text editor is active." };
+	}
+	return previewEditorText(editorText, previewProvider);
+}
+
+/**
+ * Core plot selection logic: plots the selected lines of the active editor,
+ * or all of its text when nothing is selected.
+ *
+ * @param deps - Injectable dependencies
+ * @param chartProvider - Provider to show chart
+ * @returns Result indicating success or error
+ */
+export async function executePlotSelection(
+	deps: CommandDependencies,
+	chartProvider: {
+		showChart: (uri: vscode.Uri, data: ParsedData) => Promise<void>;
+	},
+): Promise<CommandResult> {
+	const editorText = deps.getEditorText?.(undefined, true);
+	if (!editorText) {
+		return { success: false, error: "No text editor is active." };
+	}
+	return plotEditorText(editorText, chartProvider);
+}
+
 /**
  * Core preview data logic - fully testable with dependency injection.
  *
  * @param uri - Optional URI of file to preview
  * @param deps - Injectable dependencies
  * @param previewProvider - Provider to show preview
+ * @param chosenTable - Table to show, e.g. from a CodeLens; skips asking which one
  * @returns Result indicating success or error
  */
 export async function executePreviewData(
 	uri: vscode.Uri | undefined,
 	deps: CommandDependencies,
 	previewProvider: {
-		showPreview: (uri: vscode.Uri, data: ParsedData) => Promise<void>;
+		showPreview: (uri: vscode.Uri, data: ParsedData, source?: TextSource) => Promise<void>;
 	},
+	chosenTable?: ParseOptions,
 ): Promise<CommandResult> {
 	const resolved = resolveUri(uri, deps.getActiveEditorUri);
 	if (!resolved.success) {
 		return { success: false, error: resolved.error };
 	}
 
-	const data = await deps.parseDataFile(resolved.uri);
+	// Unsaved edits are previewed as they are in the editor
+	const editorText = deps.getEditorText?.(resolved.uri, false);
+	if (editorText) {
+		return previewEditorText(editorText, previewProvider, chosenTable);
+	}
+
+	const table = chosenTable ?? (await selectTable(resolved.uri, deps));
+	if (table === null) {
+		return { success: true }; // User cancelled - not an error
+	}
+
+	const data = await parseForPreview(resolved.uri, deps, previewProvider, table);
 	if (!data) {
 		return { success: false, error: "Failed to parse data file" };
 	}
@@ -140,7 +650,20 @@ export async function executePlotData(
 		return { success: false, error: resolved.error };
 	}
 
-	const data = await deps.parseDataFile(resolved.uri);
+	const editorText = deps.getEditorText?.(resolved.uri, false);
+	if (editorText) {
+		return plotEditorText(editorText, chartProvider);
+	}
+
+	const table = await selectTable(resolved.uri, deps);
+	if (table === null) {
+		return { success: true }; // User cancelled - not an error
+	}
+
+	const data = await deps.parseDataFile(resolved.uri, {
+		...getConfiguredParseOptions(resolved.uri),
+		...table,
+	});
 	if (!data) {
 		return { success: false, error: "Failed to parse data file" };
 	}
@@ -171,12 +694,26 @@ export async function executeOpenDataViewer(
 	const dataFilePatterns = [
 		"**/*.csv",
 		"**/*.json",
+		"**/*.jsonl",
+		"**/*.ndjson",
 		"**/*.txt",
 		"**/*.dat",
 		"**/*.tsv",
 		"**/*.tab",
 		"**/*.out",
 		"**/*.data",
+		"**/*.log",
+		"**/*.xlsx",
+		"**/*.parquet",
+		"**/*.arrow",
+		"**/*.feather",
+		"**/*.sqlite",
+		"**/*.sqlite3",
+		"**/*.db",
+		"**/*.npy",
+		"**/*.npz",
+		"**/*.{csv,json,jsonl,ndjson,txt,dat,tsv,tab,out,data,log}.{gz,bz2}",
+		"**/*.zip",
 	];
 	const allFiles: vscode.Uri[] = [];
 
@@ -204,7 +741,12 @@ export async function executeOpenDataViewer(
 		return { success: true }; // User cancelled - not an error
 	}
 
-	const data = await deps.parseDataFile(selected.uri);
+	const table = await selectTable(selected.uri, deps);
+	if (table === null) {
+		return { success: true }; // User cancelled - not an error
+	}
+
+	const data = await parseForPreview(selected.uri, deps, previewProvider, table);
 	if (!data) {
 		return { success: false, error: "Failed to parse selected data file" };
 	}
@@ -236,6 +778,70 @@ export function makeOpenDataViewerHandler(
 	};
 }
 
+/**
+ * Factory for the handler that previews a table of a Markdown, HTML or LaTeX
+ * document. The CodeLens above each table passes the document and the table's
+ * position; from the command palette, the active document is used and the
+ * user picks a table.
+ */
+export function makeExtractTableHandler(
+	deps: CommandDependencies,
+	previewProvider: {
+		showPreview: (uri: vscode.Uri, data: ParsedData, source?: TextSource) => Promise<void>;
+	},
+) {
+	return async (uri?: vscode.Uri, table?: number) => {
+		try {
+			const result = await executePreviewData(
+				uri,
+				deps,
+				previewProvider,
+				table === undefined ? undefined : { table },
+			);
+			if (!result.success && result.error) {
+				deps.showErrorMessage(result.error);
+			}
+		} catch (_error: unknown) {
+			deps.showErrorMessage(
+				`Failed to extract table: ${_error instanceof Error ? _error.message : String(_error)}`,
+			);
+		}
+	};
+}
+
+/**
+ * Factory for the handlers of Preview Selection and Plot Selection, offered
+ * in the editor context menu.
+ */
+export function makeSelectionHandlers(
+	deps: CommandDependencies,
+	previewProvider: {
+		showPreview: (uri: vscode.Uri, data: ParsedData, source?: TextSource) => Promise<void>;
+	},
+	chartProvider: {
+		showChart: (uri: vscode.Uri, data: ParsedData) => Promise<void>;
+	},
+) {
+	const run = async (execute: () => Promise<CommandResult>, action: string) => {
+		try {
+			const result = await execute();
+			if (!result.success && result.error) {
+				deps.showErrorMessage(result.error);
+			}
+		} catch (_error: unknown) {
+			deps.showErrorMessage(
+				`Failed to ${action}: ${_error instanceof Error ? _error.message : String(_error)}`,
+			);
+		}
+	};
+	return {
+		previewSelectionHandler: () =>
+			run(() => executePreviewSelection(deps, previewProvider), "preview selection"),
+		plotSelectionHandler: () =>
+			run(() => executePlotSelection(deps, chartProvider), "plot selection"),
+	};
+}
+
 // --- Command Registration (Thin Wrapper) ---
 
 // Internal module state to avoid duplicate global registrations and to aid tests
@@ -249,7 +855,7 @@ let _registeredDisposables: vscode.Disposable[] = [];
  * This implementation is defensive:
  * - If a command already exists globally, we avoid re-registering it and instead
  *   push a no-op disposable into the provided context so tests that inspect
- *   `context.subscriptions` still see three entries.
+ *   `context.subscriptions` still see one entry per command.
  * - A small test helper `resetDataCommandRegistrationsForTests` is exported to
  *   allow test suites to clean up global registrations between tests.
  */
@@ -264,12 +870,15 @@ export function registerDataCommands(
 	// registrations remain and tests should call the reset helper if they need
 	// to fully re-register commands between tests.
 	if (_commandsRegistered) {
-		// Ensure the caller's context still has three entries to keep older tests
-		// that check `context.subscriptions.length` happy.
+		// Ensure the caller's context still has one entry per command to keep older
+		// tests that check `context.subscriptions.length` happy.
 		if (context.subscriptions.length === 0) {
 			context.subscriptions.push(new vscode.Disposable(() => {}));
 			context.subscriptions.push(new vscode.Disposable(() => {}));
 			context.subscriptions.push(new vscode.Disposable(() => {}));
+			context.subscriptions.push(new vscode.Disposable(() => {}));
+			context.subscriptions.push(new vscode.Disposable(() => {}));
+			context.subscriptions.push(new vscode.Disposable(() => {}));
 		}
 
 		// Return handler wrappers that use the provided providers so callers/tests
@@ -308,6 +917,8 @@ export function registerDataCommands(
 				createDefaultDependencies(),
 				previewProvider,
 			),
+			extractTableHandler: makeExtractTableHandler(createDefaultDependencies(), previewProvider),
+			...makeSelectionHandlers(createDefaultDependencies(), previewProvider, chartProvider),
 		};
 	}
 
@@ -363,10 +974,23 @@ export function registerDataCommands(
 
 	const openHandler = makeOpenDataViewerHandler(deps, previewProvider);
 
+	const extractTableHandler = makeExtractTableHandler(deps, previewProvider);
+
+	const { previewSelectionHandler, plotSelectionHandler } = makeSelectionHandlers(
+		deps,
+		previewProvider,
+		chartProvider,
+	);
+
 	// Register commands defensively
 	tryRegister("vsplot.previewData", previewInner);
 	tryRegister("vsplot.plotData", plotInner);
 	tryRegister("vsplot.openDataViewer", openHandler);
+	tryRegister("vsplot.extractTable", async (...args: unknown[]) =>
+		extractTableHandler(args[0] as vscode.Uri | undefined, args[1] as number | undefined),
+	);
+	tryRegister("vsplot.previewSelection", previewSelectionHandler);
+	tryRegister("vsplot.plotSelection", plotSelectionHandler);
 
 	_commandsRegistered = true;
 
@@ -375,6 +999,9 @@ export function registerDataCommands(
 		previewDataHandler: previewHandler,
 		plotDataHandler: plotHandler,
 		openDataViewerHandler: openHandler,
+		extractTableHandler,
+		previewSelectionHandler,
+		plotSelectionHandler,
 	};
 }
 
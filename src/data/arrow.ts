@@ -0,0 +1,695 @@
+import type { ColumnType } from "./load";
+import { lz4FrameUncompress } from "./lz4";
+import type { RandomAccessFile } from "./randomAccess";
+
+/** A decoded Arrow value; dates and timestamps are ISO 8601 text */
+export type ArrowValue = string | number | boolean | null;
+
+/**
+ * A column of an Arrow file that can be shown as a table column.
+ */
+export interface ArrowColumn {
+	name: string;
+	/** Type implied by the Arrow type; undefined for text and binary */
+	type?: ColumnType;
+}
+
+interface ArrowField {
+	name: string;
+	typeId: number;
+	type?: FlatTable;
+	/** Dictionary id and index type for dictionary-encoded fields */
+	dictionary?: { id: number; indexType?: FlatTable };
+	children: ArrowField[];
+}
+
+interface LeafColumn extends ArrowColumn {
+	field: ArrowField;
+	/** Reads value `index` from the buffers following the validity bitmap */
+	read: (buffers: Buffer[], index: number) => ArrowValue;
+}
+
+interface Message {
+	headerType: number;
+	header: FlatTable;
+	body: Buffer;
+}
+
+const FILE_MAGIC = "ARROW1";
+const CONTINUATION = -1;
+
+// Message header types
+const SCHEMA = 1;
+const DICTIONARY_BATCH = 2;
+const RECORD_BATCH = 3;
+
+// Type ids of the Type union
+const NULL = 1;
+const INT = 2;
+const FLOATING_POINT = 3;
+const BINARY = 4;
+const UTF8 = 5;
+const BOOL = 6;
+const DECIMAL = 7;
+const DATE = 8;
+const TIME = 9;
+const TIMESTAMP = 10;
+const INTERVAL = 11;
+const LIST = 12;
+const STRUCT = 13;
+const UNION = 14;
+const FIXED_SIZE_BINARY = 15;
+const FIXED_SIZE_LIST = 16;
+const MAP = 17;
+const DURATION = 18;
+const LARGE_BINARY = 19;
+const LARGE_UTF8 = 20;
+const LARGE_LIST = 21;
+const RUN_END_ENCODED = 22;
+
+/** Milliseconds per SECOND, MILLISECOND, MICROSECOND and NANOSECOND unit */
+const UNIT_MS = [1000, 1, 1e-3, 1e-6];
+
+/**
+ * Reader for Arrow IPC files (the file format, also used by Feather v2, and
+ * the stream format) that decodes one record batch at a time.
+ *
+ * Top-level primitive, string and dictionary-encoded columns are supported;
+ * nested columns are listed in `skippedColumns`. LZ4-compressed buffers are
+ * supported, ZSTD is not.
+ */
+export class ArrowReader {
+	/** Names of nested columns that cannot be shown as table columns */
+	readonly skippedColumns: string[] = [];
+	private readonly leaves: LeafColumn[] = [];
+	private readonly dictionaries = new Map<number, ArrowValue[]>();
+	private fields: ArrowField[] = [];
+	private position: number;
+	/** Offsets of the remaining messages of a file, from its footer; undefined for streams */
+	private blocks?: number[];
+
+	private constructor(
+		private readonly file: RandomAccessFile,
+		/** Offset where messages end: the file footer, or the end of a stream */
+		private readonly end: number,
+		start: number,
+	) {
+		this.position = start;
+	}
+
+	/**
+	 * Read the schema of an Arrow IPC file or stream.
+	 *
+	 * @param file - The file, read in ranges; the caller closes it
+	 * @returns Reader positioned before the first record batch
+	 * @throws Error if the file is not an Arrow IPC file or stream
+	 */
+	static async open(file: RandomAccessFile): Promise<ArrowReader> {
+		const { size } = file;
+		const head = await readRange(file, 0, Math.min(size, 8));
+		if (head.toString("latin1", 0, 6) === FILE_MAGIC) {
+			return ArrowReader.openFile(file);
+		}
+		if (head.toString("latin1", 0, 4) === "FEA1") {
+			throw new Error("Feather version 1 files are not supported; save them as Feather version 2");
+		}
+		const reader = new ArrowReader(file, size, 0);
+		const message = await reader.nextMessage();
+		if (message?.headerType !== SCHEMA) {
+			throw new Error("Not an Arrow IPC file");
+		}
+		reader.readSchema(message.header);
+		return reader;
+	}
+
+	/**
+	 * Read the footer of the file format, which holds the schema and the
+	 * offsets of the dictionary and record batches. Writers need not repeat
+	 * the schema as a message after the leading magic.
+	 */
+	private static async openFile(file: RandomAccessFile): Promise<ArrowReader> {
+		const { size } = file;
+		// The footer and its length precede the trailing magic
+		const footerLength = (await readRange(file, size - 10, 4)).readInt32LE(0);
+		const footerStart = size - 10 - footerLength;
+		if (footerLength <= 0 || footerStart < 8) {
+			throw new Error("Not an Arrow IPC file");
+		}
+		const footer = FlatTable.root(await readRange(file, footerStart, footerLength));
+		const schema = footer.table(1);
+		if (!schema) {
+			throw new Error("Not an Arrow IPC file");
+		}
+		const reader = new ArrowReader(file, footerStart, 8);
+		reader.readSchema(schema);
+		// Dictionaries come first so that every record batch can be decoded
+		reader.blocks = [...blockOffsets(footer, 2), ...blockOffsets(footer, 3)];
+		return reader;
+	}
+
+	/** Columns that can be shown, in schema order */
+	get columns(): ArrowColumn[] {
+		return this.leaves;
+	}
+
+	/** Bytes of the file consumed so far, for progress reporting */
+	get bytesRead(): number {
+		return this.position;
+	}
+
+	/** Total bytes of messages in the file */
+	get size(): number {
+		return this.end;
+	}
+
+	/**
+	 * Read the remaining record batches, applying dictionary batches on the way.
+	 *
+	 * @returns Rows of each record batch, with one value per entry of {@link ArrowReader.columns}
+	 */
+	async *recordBatches(): AsyncGenerator<ArrowValue[][]> {
+		for (;;) {
+			const message = await this.nextMessage();
+			if (!message) {
+				return;
+			}
+			if (message.headerType === DICTIONARY_BATCH) {
+				this.readDictionary(message.header, message.body);
+			} else if (message.headerType === RECORD_BATCH) {
+				const columns = this.decodeRecordBatch(message.header, message.body);
+				const length = Number(message.header.int64(0));
+				const rows: ArrowValue[][] = [];
+				for (let r = 0; r < length; r++) {
+					rows.push(columns.map((values) => values[r]));
+				}
+				yield rows;
+			}
+		}
+	}
+
+	/**
+	 * Read the next message: the next block listed in the footer of a file, or
+	 * the message that follows in a stream.
+	 */
+	private async nextMessage(): Promise<Message | undefined> {
+		if (!this.blocks) {
+			return this.readMessage(this.position);
+		}
+		const offset = this.blocks.shift();
+		return offset === undefined ? undefined : this.readMessage(offset);
+	}
+
+	/**
+	 * Read the encapsulated message at `offset`: an optional continuation
+	 * marker, the metadata length, the Message flatbuffer and the body.
+	 */
+	private async readMessage(offset: number): Promise<Message | undefined> {
+		if (offset + 4 > this.end) {
+			return undefined;
+		}
+		let prefix = 4;
+		let metadataLength = (await readRange(this.file, offset, 4)).readInt32LE(0);
+		if (metadataLength === CONTINUATION) {
+			if (offset + 8 > this.end) {
+				return undefined;
+			}
+			prefix = 8;
+			metadataLength = (await readRange(this.file, offset + 4, 4)).readInt32LE(0);
+		}
+		if (metadataLength === 0) {
+			// End-of-stream marker
+			return undefined;
+		}
+		const metadata = await readRange(this.file, offset + prefix, metadataLength);
+		const message = FlatTable.root(metadata);
+		const bodyLength = Number(message.int64(3));
+		const body = await readRange(this.file, offset + prefix + metadataLength, bodyLength);
+		this.position = offset + prefix + metadataLength + bodyLength;
+		const header = message.table(2);
+		if (!header) {
+			throw new Error("Corrupt Arrow message");
+		}
+		return { headerType: message.uint8(1), header, body };
+	}
+
+	private readSchema(schema: FlatTable) {
+		this.fields = schema.tables(1).map(readField);
+		for (const field of this.fields) {
+			const column = createColumn(field, this.dictionaries);
+			if (column) {
+				this.leaves.push(column);
+			} else {
+				this.skippedColumns.push(field.name);
+			}
+		}
+	}
+
+	private readDictionary(batch: FlatTable, body: Buffer) {
+		const id = Number(batch.int64(0));
+		const field = this.fields.find((candidate) => candidate.dictionary?.id === id);
+		const data = batch.table(1);
+		if (!field || !data) {
+			// Dictionary of a nested column that is not shown
+			return;
+		}
+		const valueField: ArrowField = { ...field, dictionary: undefined };
+		const column = createColumn(valueField, this.dictionaries);
+		if (!column) {
+			return;
+		}
+		const [values] = decodeColumns(data, body, [valueField], new Map([[valueField, column]]));
+		// Delta batches append to the existing dictionary
+		const existing = batch.bool(2) ? (this.dictionaries.get(id) ?? []) : [];
+		this.dictionaries.set(id, existing.concat(values));
+	}
+
+	private decodeRecordBatch(batch: FlatTable, body: Buffer): ArrowValue[][] {
+		const columns = new Map(this.leaves.map((column) => [column.field, column]));
+		return decodeColumns(batch, body, this.fields, columns);
+	}
+}
+
+async function readRange(
+	file: RandomAccessFile,
+	position: number,
+	length: number,
+): Promise<Buffer> {
+	const bytes = position < 0 ? undefined : await file.read(position, length);
+	if (!bytes || bytes.length < length) {
+		throw new Error("Unexpected end of Arrow file");
+	}
+	return bytes;
+}
+
+/**
+ * Offsets of the messages listed in a vector of Block structs of the footer;
+ * each Block is an int64 offset, an int32 metadata length and, after
+ * padding, an int64 body length.
+ */
+function blockOffsets(footer: FlatTable, field: number): number[] {
+	const { start, length } = footer.vector(field);
+	const offsets: number[] = [];
+	for (let i = 0; i < length; i++) {
+		offsets.push(Number(footer.bytes.readBigInt64LE(start + i * 24)));
+	}
+	return offsets;
+}
+
+function readField(table: FlatTable): ArrowField {
+	const dictionary = table.table(4);
+	return {
+		name: table.string(0) ?? "",
+		typeId: table.uint8(2),
+		type: table.table(3),
+		dictionary: dictionary
+			? { id: Number(dictionary.int64(0)), indexType: dictionary.table(1) }
+			: undefined,
+		children: table.tables(5).map(readField),
+	};
+}
+
+/**
+ * Decode the readable columns of a record batch.
+ *
+ * Field nodes and buffers are laid out depth-first over all fields, so
+ * skipped fields still advance both cursors.
+ */
+function decodeColumns(
+	batch: FlatTable,
+	body: Buffer,
+	fields: ArrowField[],
+	columns: Map<ArrowField, LeafColumn>,
+): ArrowValue[][] {
+	const nodes = batch.vector(1);
+	const buffers = batch.vector(2);
+	const codec = batch.table(3)?.int8(0);
+	const bytes = batch.bytes;
+
+	const getBuffer = (index: number): Buffer => {
+		const at = buffers.start + index * 16;
+		const offset = Number(bytes.readBigInt64LE(at));
+		const data = body.subarray(offset, offset + Number(bytes.readBigInt64LE(at + 8)));
+		if (codec === undefined || data.length === 0) {
+			return data;
+		}
+		// Compressed buffers start with the uncompressed length; -1 means stored as is
+		const length = Number(data.readBigInt64LE(0));
+		if (length === -1) {
+			return data.subarray(8);
+		}
+		if (codec !== 0) {
+			throw new Error("ZSTD-compressed Arrow files are not supported");
+		}
+		return lz4FrameUncompress(data.subarray(8), length);
+	};
+
+	const result: ArrowValue[][] = [];
+	let node = 0;
+	let buffer = 0;
+	for (const field of fields) {
+		const layout = countLayout(field);
+		const column = columns.get(field);
+		if (column) {
+			const at = nodes.start + node * 16;
+			const length = Number(bytes.readBigInt64LE(at));
+			const nullCount = Number(bytes.readBigInt64LE(at + 8));
+			const fieldBuffers: Buffer[] = [];
+			for (let i = 0; i < layout.buffers; i++) {
+				fieldBuffers.push(getBuffer(buffer + i));
+			}
+			const values: ArrowValue[] = [];
+			if (field.typeId === NULL && !field.dictionary) {
+				values.length = length;
+				values.fill(null);
+			} else {
+				const [validity, ...data] = fieldBuffers;
+				for (let i = 0; i < length; i++) {
+					const valid = nullCount === 0 || validity.length === 0 || getBit(validity, i);
+					values.push(valid ? column.read(data, i) : null);
+				}
+			}
+			result.push(values);
+		}
+		node += layout.nodes;
+		buffer += layout.buffers;
+	}
+	return result;
+}
+
+/**
+ * Count the field nodes and buffers a field occupies in a record batch.
+ */
+function countLayout(field: ArrowField): { nodes: number; buffers: number } {
+	if (field.dictionary) {
+		// Validity and integer indexes; the values travel in dictionary batches
+		return { nodes: 1, buffers: 2 };
+	}
+	let nodes = 1;
+	let buffers = ownBufferCount(field);
+	for (const child of field.children) {
+		const layout = countLayout(child);
+		nodes += layout.nodes;
+		buffers += layout.buffers;
+	}
+	return { nodes, buffers };
+}
+
+/** Buffers of a field itself, excluding those of its children */
+function ownBufferCount(field: ArrowField): number {
+	switch (field.typeId) {
+		case NULL:
+		case RUN_END_ENCODED:
+			return 0;
+		case STRUCT:
+		case FIXED_SIZE_LIST:
+			return 1;
+		case BINARY:
+		case UTF8:
+		case LARGE_BINARY:
+		case LARGE_UTF8:
+			return 3;
+		case UNION:
+			// Type ids, plus offsets for dense unions
+			return field.type?.int16(0) === 1 ? 2 : 1;
+		case INT:
+		case FLOATING_POINT:
+		case BOOL:
+		case DECIMAL:
+		case DATE:
+		case TIME:
+		case TIMESTAMP:
+		case INTERVAL:
+		case DURATION:
+		case FIXED_SIZE_BINARY:
+		case LIST:
+		case LARGE_LIST:
+		case MAP:
+			return 2;
+		default:
+			throw new Error(`Unsupported Arrow type (id ${field.typeId}) in column "${field.name}"`);
+	}
+}
+
+/**
+ * Create the decoder for a top-level field, or undefined for nested types.
+ *
+ * @param field - Schema field
+ * @param dictionaries - Decoded dictionaries by id, filled in as batches arrive
+ */
+function createColumn(
+	field: ArrowField,
+	dictionaries: Map<number, ArrowValue[]>,
+): LeafColumn | undefined {
+	if (field.dictionary) {
+		const { id, indexType } = field.dictionary;
+		const readIndex = readInteger(indexType);
+		const valueType = columnType(field.typeId);
+		return {
+			name: field.name,
+			field,
+			type: valueType === undefined ? "categorical" : valueType,
+			read: (buffers, index) => dictionaries.get(id)?.[Number(readIndex(buffers, index))] ?? null,
+		};
+	}
+	const read = createValueReader(field.typeId, field.type);
+	if (!read) {
+		return undefined;
+	}
+	return { name: field.name, field, type: columnType(field.typeId), read };
+}
+
+function columnType(typeId: number): ColumnType | undefined {
+	switch (typeId) {
+		case INT:
+		case DURATION:
+			return "integer";
+		case FLOATING_POINT:
+		case DECIMAL:
+			return "float";
+		case BOOL:
+			return "boolean";
+		case DATE:
+		case TIMESTAMP:
+			return "datetime";
+		default:
+			return undefined;
+	}
+}
+
+function createValueReader(
+	typeId: number,
+	type: FlatTable | undefined,
+): LeafColumn["read"] | undefined {
+	switch (typeId) {
+		case NULL:
+			return () => null;
+		case INT: {
+			const read = readInteger(type);
+			return (buffers, index) => Number(read(buffers, index));
+		}
+		case FLOATING_POINT:
+			switch (type?.int16(0)) {
+				case 0:
+					return ([values], index) => halfToNumber(values.readUInt16LE(index * 2));
+				case 1:
+					return ([values], index) => values.readFloatLE(index * 4);
+				default:
+					return ([values], index) => values.readDoubleLE(index * 8);
+			}
+		case BOOL:
+			return ([values], index) => getBit(values, index);
+		case UTF8:
+		case BINARY:
+		case LARGE_UTF8:
+		case LARGE_BINARY: {
+			const large = typeId === LARGE_UTF8 || typeId === LARGE_BINARY;
+			const encoding = typeId === UTF8 || typeId === LARGE_UTF8 ? "utf8" : "hex";
+			return ([offsets, data], index) => {
+				const start = large
+					? Number(offsets.readBigInt64LE(index * 8))
+					: offsets.readInt32LE(index * 4);
+				const end = large
+					? Number(offsets.readBigInt64LE(index * 8 + 8))
+					: offsets.readInt32LE(index * 4 + 4);
+				return data.toString(encoding, start, end);
+			};
+		}
+		case FIXED_SIZE_BINARY: {
+			const width = type?.int32(0) ?? 0;
+			return ([values], index) => values.toString("hex", index * width, (index + 1) * width);
+		}
+		case DECIMAL: {
+			const scale = type?.int32(1) ?? 0;
+			const width = (type?.int32(2, 128) ?? 128) / 8;
+			return ([values], index) => Number(readSignedLE(values, index * width, width)) / 10 ** scale;
+		}
+		case DATE:
+			// DAY dates are 32-bit day counts, MILLISECOND dates 64-bit milliseconds
+			return type?.int16(0, 1) === 0
+				? ([values], index) =>
+						new Date(values.readInt32LE(index * 4) * 86400000).toISOString().slice(0, 10)
+				: ([values], index) =>
+						new Date(Number(values.readBigInt64LE(index * 8))).toISOString().slice(0, 10);
+		case TIME: {
+			const unit = UNIT_MS[type?.int16(0, 1) ?? 1];
+			const wide = (type?.int32(1, 32) ?? 32) === 64;
+			return ([values], index) => {
+				const raw = wide ? Number(values.readBigInt64LE(index * 8)) : values.readInt32LE(index * 4);
+				return new Date(raw * unit).toISOString().slice(11, 23);
+			};
+		}
+		case TIMESTAMP: {
+			const unit = UNIT_MS[type?.int16(0) ?? 0];
+			// Timestamps with a time zone are UTC instants; without one they are wall-clock values
+			const utc = Boolean(type?.string(1));
+			return ([values], index) => {
+				const iso = new Date(Number(values.readBigInt64LE(index * 8)) * unit).toISOString();
+				return utc ? iso : iso.slice(0, -1);
+			};
+		}
+		case DURATION:
+			return ([values], index) => Number(values.readBigInt64LE(index * 8));
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Reader for Int-typed values, returned as bigint so 64-bit indexes and
+ * values keep their sign handling in one place.
+ */
+function readInteger(type: FlatTable | undefined): (buffers: Buffer[], index: number) => bigint {
+	const bitWidth = type?.int32(0) ?? 32;
+	const signed = type?.bool(1) ?? false;
+	switch (bitWidth) {
+		case 8:
+			return signed
+				? ([values], index) => BigInt(values.readInt8(index))
+				: ([values], index) => BigInt(values.readUInt8(index));
+		case 16:
+			return signed
+				? ([values], index) => BigInt(values.readInt16LE(index * 2))
+				: ([values], index) => BigInt(values.readUInt16LE(index * 2));
+		case 64:
+			return signed
+				? ([values], index) => values.readBigInt64LE(index * 8)
+				: ([values], index) => values.readBigUInt64LE(index * 8);
+		default:
+			return signed
+				? ([values], index) => BigInt(values.readInt32LE(index * 4))
+				: ([values], index) => BigInt(values.readUInt32LE(index * 4));
+	}
+}
+
+function readSignedLE(bytes: Buffer, offset: number, width: number): bigint {
+	let value = 0n;
+	for (let i = width - 1; i >= 0; i--) {
+		value = (value << 8n) | BigInt(bytes[offset + i]);
+	}
+	return bytes[offset + width - 1] & 0x80 ? value - (1n << BigInt(width * 8)) : value;
+}
+
+function halfToNumber(half: number): number {
+	const sign = half & 0x8000 ? -1 : 1;
+	const exponent = (half >> 10) & 0x1f;
+	const fraction = half & 0x3ff;
+	if (exponent === 0) {
+		return sign * fraction * 2 ** -24;
+	}
+	if (exponent === 0x1f) {
+		return fraction ? Number.NaN : sign * Number.POSITIVE_INFINITY;
+	}
+	return sign * (1 + fraction / 1024) * 2 ** (exponent - 15);
+}
+
+function getBit(bitmap: Buffer, index: number): boolean {
+	return ((bitmap[index >> 3] >> (index & 7)) & 1) === 1;
+}
+
+/**
+ * Read-only view of a FlatBuffers table, enough for Arrow IPC metadata.
+ */
+class FlatTable {
+	constructor(
+		readonly bytes: Buffer,
+		private readonly pos: number,
+	) {}
+
+	static root(bytes: Buffer): FlatTable {
+		return new FlatTable(bytes, bytes.readUInt32LE(0));
+	}
+
+	uint8(field: number, fallback = 0): number {
+		const at = this.offset(field);
+		return at ? this.bytes.readUInt8(at) : fallback;
+	}
+
+	int8(field: number, fallback = 0): number {
+		const at = this.offset(field);
+		return at ? this.bytes.readInt8(at) : fallback;
+	}
+
+	int16(field: number, fallback = 0): number {
+		const at = this.offset(field);
+		return at ? this.bytes.readInt16LE(at) : fallback;
+	}
+
+	int32(field: number, fallback = 0): number {
+		const at = this.offset(field);
+		return at ? this.bytes.readInt32LE(at) : fallback;
+	}
+
+	int64(field: number): bigint {
+		const at = this.offset(field);
+		return at ? this.bytes.readBigInt64LE(at) : 0n;
+	}
+
+	bool(field: number): boolean {
+		return this.uint8(field) !== 0;
+	}
+
+	table(field: number): FlatTable | undefined {
+		const at = this.offset(field);
+		return at ? new FlatTable(this.bytes, at + this.bytes.readUInt32LE(at)) : undefined;
+	}
+
+	string(field: number): string | undefined {
+		const at = this.offset(field);
+		if (!at) {
+			return undefined;
+		}
+		const start = at + this.bytes.readUInt32LE(at);
+		return this.bytes.toString("utf8", start + 4, start + 4 + this.bytes.readUInt32LE(start));
+	}
+
+	/** Position of the first element and the element count of a vector field */
+	vector(field: number): { start: number; length: number } {
+		const at = this.offset(field);
+		if (!at) {
+			return { start: 0, length: 0 };
+		}
+		const start = at + this.bytes.readUInt32LE(at);
+		return { start: start + 4, length: this.bytes.readUInt32LE(start) };
+	}
+
+	tables(field: number): FlatTable[] {
+		const { start, length } = this.vector(field);
+		const tables: FlatTable[] = [];
+		for (let i = 0; i < length; i++) {
+			const at = start + i * 4;
+			tables.push(new FlatTable(this.bytes, at + this.bytes.readUInt32LE(at)));
+		}
+		return tables;
+	}
+
+	/** Absolute position of a field, or 0 when it is absent from the vtable */
+	private offset(field: number): number {
+		const vtable = this.pos - this.bytes.readInt32LE(this.pos);
+		const entry = 4 + field * 2;
+		if (entry >= this.bytes.readUInt16LE(vtable)) {
+			return 0;
+		}
+		const offset = this.bytes.readUInt16LE(vtable + entry);
+		return offset ? this.pos + offset : 0;
+	}
+}
@@ -0,0 +1,325 @@
+/** Block header magic, the BCD digits of pi, split in 24-bit halves */
+const BLOCK_MAGIC = [0x314159, 0x265359];
+/** End-of-stream magic, the BCD digits of sqrt(pi) */
+const END_MAGIC = [0x177245, 0x385090];
+/** Symbols are coded with a new Huffman table every 50 symbols */
+const GROUP_SIZE = 50;
+const MAX_CODE_LENGTH = 20;
+
+/**
+ * A decompressed bzip2 block.
+ */
+export interface Bzip2Block {
+	data: Buffer;
+	/** Compressed bytes consumed up to the end of the block */
+	bytesRead: number;
+}
+
+/**
+ * Reads bits most significant first, as bzip2 writes them.
+ */
+class BitReader {
+	private bytePos = 0;
+	private buffer = 0;
+	private count = 0;
+
+	constructor(private readonly data: Uint8Array) {}
+
+	/** Bytes consumed so far, counting a partly read byte */
+	get position(): number {
+		return this.bytePos - Math.floor(this.count / 8);
+	}
+
+	/** True when at least `bytes` whole bytes are left */
+	remaining(bytes: number): boolean {
+		return this.data.length - this.position >= bytes;
+	}
+
+	/** Read up to 24 bits */
+	read(bits: number): number {
+		while (this.count < bits) {
+			if (this.bytePos >= this.data.length) {
+				throw new Error("Corrupt bzip2 data: unexpected end of input");
+			}
+			this.buffer = (this.buffer << 8) | this.data[this.bytePos++];
+			this.count += 8;
+		}
+		this.count -= bits;
+		return (this.buffer >>> this.count) & ((1 << bits) - 1);
+	}
+
+	/** Skip to the next byte boundary */
+	align() {
+		this.count -= this.count % 8;
+	}
+}
+
+/**
+ * Canonical Huffman table, decoded one bit at a time past the shortest code.
+ */
+interface HuffmanTable {
+	minLength: number;
+	/** Largest code of each length, or -1 if there are none */
+	limit: Int32Array;
+	/** Added to a code of each length to index `symbols` */
+	offset: Int32Array;
+	/** Symbols ordered by code */
+	symbols: Uint16Array;
+}
+
+/**
+ * Decompress bzip2 data one block (up to 900 kB of output) at a time.
+ *
+ * Concatenated streams, as written by parallel compressors, are read in
+ * turn. Block and stream CRCs are skipped, not verified.
+ *
+ * @param input - Compressed data
+ * @returns Generator of decompressed blocks
+ * @throws Error if the data is not valid bzip2 data
+ */
+export function* bunzip2Blocks(input: Uint8Array): Generator<Bzip2Block> {
+	const reader = new BitReader(input);
+	do {
+		// "BZh" and the block size in hundreds of kilobytes
+		if (reader.read(8) !== 0x42 || reader.read(8) !== 0x5a || reader.read(8) !== 0x68) {
+			throw new Error("Not bzip2 data");
+		}
+		const level = reader.read(8) - 0x30;
+		if (level < 1 || level > 9) {
+			throw new Error("Corrupt bzip2 data: bad block size");
+		}
+		for (;;) {
+			const high = reader.read(24);
+			const low = reader.read(24);
+			// Block or stream CRC
+			reader.read(16);
+			reader.read(16);
+			if (high === BLOCK_MAGIC[0] && low === BLOCK_MAGIC[1]) {
+				yield { data: decodeBlock(reader, level * 100000), bytesRead: reader.position };
+			} else if (high === END_MAGIC[0] && low === END_MAGIC[1]) {
+				break;
+			} else {
+				throw new Error("Corrupt bzip2 data: bad block header");
+			}
+		}
+		reader.align();
+	} while (reader.remaining(4) && input[reader.position] === 0x42);
+}
+
+/**
+ * Decompress bzip2 data.
+ *
+ * @param input - Compressed data
+ * @returns Decompressed data
+ * @throws Error if the data is not valid bzip2 data
+ */
+export function bunzip2(input: Uint8Array): Buffer {
+	return Buffer.concat(Array.from(bunzip2Blocks(input), (block) => block.data));
+}
+
+/**
+ * Decode one block: Huffman-coded move-to-front symbols, then the inverse
+ * Burrows-Wheeler transform and the initial run-length encoding.
+ */
+function decodeBlock(reader: BitReader, maxBlockSize: number): Buffer {
+	if (reader.read(1)) {
+		throw new Error("Randomised bzip2 blocks are not supported");
+	}
+	const origPtr = reader.read(24);
+
+	// Byte values used in the block, as a 16 x 16 bitmap
+	const used: number[] = [];
+	const ranges = reader.read(16);
+	for (let i = 0; i < 16; i++) {
+		if (ranges & (0x8000 >>> i)) {
+			const bits = reader.read(16);
+			for (let j = 0; j < 16; j++) {
+				if (bits & (0x8000 >>> j)) {
+					used.push(i * 16 + j);
+				}
+			}
+		}
+	}
+	if (used.length === 0) {
+		throw new Error("Corrupt bzip2 data: empty symbol map");
+	}
+	// RUNA, RUNB, one symbol per used byte but the first, end of block
+	const alphabetSize = used.length + 2;
+
+	const groupCount = reader.read(3);
+	const selectorCount = reader.read(15);
+	if (groupCount < 2 || groupCount > 6 || selectorCount === 0) {
+		throw new Error("Corrupt bzip2 data: bad Huffman groups");
+	}
+	const groupOrder = Array.from({ length: groupCount }, (_, i) => i);
+	const selectors = new Uint8Array(selectorCount);
+	for (let i = 0; i < selectorCount; i++) {
+		let j = 0;
+		while (reader.read(1)) {
+			if (++j >= groupCount) {
+				throw new Error("Corrupt bzip2 data: bad selector");
+			}
+		}
+		const group = groupOrder[j];
+		groupOrder.splice(j, 1);
+		groupOrder.unshift(group);
+		selectors[i] = group;
+	}
+
+	const tables: HuffmanTable[] = [];
+	for (let g = 0; g < groupCount; g++) {
+		const lengths = new Uint8Array(alphabetSize);
+		let length = reader.read(5);
+		for (let s = 0; s < alphabetSize; s++) {
+			for (;;) {
+				if (length < 1 || length > MAX_CODE_LENGTH) {
+					throw new Error("Corrupt bzip2 data: bad code length");
+				}
+				if (!reader.read(1)) {
+					break;
+				}
+				length += reader.read(1) ? -1 : 1;
+			}
+			lengths[s] = length;
+		}
+		tables.push(buildTable(lengths));
+	}
+
+	const mtf = Uint8Array.from(used);
+	const byteCounts = new Uint32Array(256);
+	const tt = new Uint32Array(maxBlockSize);
+	const endOfBlock = alphabetSize - 1;
+	let count = 0;
+	let selector = 0;
+	let groupLeft = 0;
+	let table = tables[0];
+	let run = 0;
+	let runWeight = 1;
+	for (;;) {
+		if (groupLeft === 0) {
+			if (selector >= selectorCount) {
+				throw new Error("Corrupt bzip2 data: out of selectors");
+			}
+			table = tables[selectors[selector++]];
+			groupLeft = GROUP_SIZE;
+		}
+		groupLeft--;
+		const symbol = decodeSymbol(reader, table);
+
+		// RUNA and RUNB write run lengths in bijective base 2
+		if (symbol <= 1) {
+			run += (symbol + 1) * runWeight;
+			runWeight *= 2;
+			if (run > maxBlockSize) {
+				throw new Error("Corrupt bzip2 data: run too long");
+			}
+			continue;
+		}
+		if (run > 0) {
+			if (count + run > maxBlockSize) {
+				throw new Error("Corrupt bzip2 data: block too long");
+			}
+			byteCounts[mtf[0]] += run;
+			tt.fill(mtf[0], count, count + run);
+			count += run;
+			run = 0;
+			runWeight = 1;
+		}
+		if (symbol === endOfBlock) {
+			break;
+		}
+		if (count >= maxBlockSize) {
+			throw new Error("Corrupt bzip2 data: block too long");
+		}
+		const index = symbol - 1;
+		const value = mtf[index];
+		mtf.copyWithin(1, 0, index);
+		mtf[0] = value;
+		byteCounts[value]++;
+		tt[count++] = value;
+	}
+	if (origPtr >= count) {
+		throw new Error("Corrupt bzip2 data: bad origin pointer");
+	}
+
+	// Inverse Burrows-Wheeler transform: link each byte to the next one in the output
+	const starts = new Uint32Array(256);
+	for (let i = 0, sum = 0; i < 256; i++) {
+		starts[i] = sum;
+		sum += byteCounts[i];
+	}
+	for (let i = 0; i < count; i++) {
+		const value = tt[i] & 0xff;
+		tt[starts[value]++] |= i << 8;
+	}
+
+	// Undo the initial run-length encoding: four equal bytes are followed by a repeat count
+	let output = Buffer.alloc(count * 2);
+	let out = 0;
+	let position = tt[origPtr] >>> 8;
+	let last = -1;
+	let same = 0;
+	for (let i = 0; i < count; i++) {
+		const entry = tt[position];
+		const value = entry & 0xff;
+		position = entry >>> 8;
+		if (out + 255 > output.length) {
+			const grown = Buffer.alloc(output.length * 2 + 256);
+			output.copy(grown, 0, 0, out);
+			output = grown;
+		}
+		if (same === 4) {
+			output.fill(last, out, out + value);
+			out += value;
+			same = 0;
+			continue;
+		}
+		if (value === last) {
+			same++;
+		} else {
+			last = value;
+			same = 1;
+		}
+		output[out++] = value;
+	}
+	return output.subarray(0, out);
+}
+
+/**
+ * Build the decoding table for canonical Huffman code lengths, where codes
+ * are assigned in order of length, then symbol.
+ */
+function buildTable(lengths: Uint8Array): HuffmanTable {
+	const limit = new Int32Array(MAX_CODE_LENGTH + 2).fill(-1);
+	const offset = new Int32Array(MAX_CODE_LENGTH + 2);
+	const symbols = new Uint16Array(lengths.length);
+	const minLength = Math.min(...lengths);
+	const maxLength = Math.max(...lengths);
+	let code = 0;
+	let index = 0;
+	for (let length = minLength; length <= maxLength; length++) {
+		const start = index;
+		lengths.forEach((symbolLength, symbol) => {
+			if (symbolLength === length) {
+				symbols[index++] = symbol;
+			}
+		});
+		offset[length] = start - code;
+		code += index - start;
+		limit[length] = code - 1;
+		code <<= 1;
+	}
+	return { minLength, limit, offset, symbols };
+}
+
+function decodeSymbol(reader: BitReader, table: HuffmanTable): number {
+	let length = table.minLength;
+	let code = reader.read(length);
+	while (code > table.limit[length]) {
+		if (++length > MAX_CODE_LENGTH) {
+			throw new Error("Corrupt bzip2 data: bad Huffman code");
+		}
+		code = (code << 1) | reader.read(1);
+	}
+	return table.symbols[code + table.offset[length]];
+}
@@ -0,0 +1,113 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { pipeline, Readable } from "node:stream";
+import * as zlib from "node:zlib";
+import { bunzip2, bunzip2Blocks } from "./bzip2";
+
+/**
+ * Compression a data file is read through.
+ */
+export type Compression = "gzip" | "bzip2" | "zip";
+
+const COMPRESSION_EXTENSIONS: Record<string, Compression> = {
+	".gz": "gzip",
+	".bz2": "bzip2",
+	".zip": "zip",
+};
+
+/**
+ * Recognise a compressed file by its last extension, e.g. `data.csv.gz`.
+ *
+ * @param fileName - Name of the file
+ * @returns The compression and the extension of the data inside (empty for
+ *   ZIP archives, whose entries carry their own), or undefined for plain files
+ */
+export function compressedFileType(
+	fileName: string,
+): { compression: Compression; extension: string } | undefined {
+	const outer = path.extname(fileName).toLowerCase();
+	const compression = COMPRESSION_EXTENSIONS[outer];
+	if (!compression) {
+		return undefined;
+	}
+	const extension =
+		compression === "zip" ? "" : path.extname(path.basename(fileName, outer)).toLowerCase();
+	return { compression, extension };
+}
+
+/** Size of the pieces file contents are streamed in */
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Stream a file, decompressing gzip or bzip2 data on the fly.
+ *
+ * Local files are read from disk as the stream is consumed; contents already
+ * in memory, as read from remote and virtual workspaces, are streamed in
+ * pieces. gzip data is inflated as it is read; bzip2 data is read whole and
+ * decompressed one block at a time as the stream is consumed.
+ *
+ * @param source - Path of a local file, or the contents of a file
+ * @param compression - Compression of the file, or undefined for a plain file
+ * @param onBytesRead - Called with the number of file bytes consumed so far
+ * @returns Stream of the decompressed contents
+ */
+export function createDecompressedReadStream(
+	source: string | Buffer,
+	compression: "gzip" | "bzip2" | undefined,
+	onBytesRead: (bytesRead: number) => void,
+): Readable {
+	if (compression === "bzip2") {
+		return Readable.from(
+			(async function* () {
+				const data = typeof source === "string" ? await fs.promises.readFile(source) : source;
+				for (const block of bunzip2Blocks(data)) {
+					onBytesRead(block.bytesRead);
+					yield block.data;
+				}
+			})(),
+		);
+	}
+	const file =
+		typeof source === "string"
+			? readFileStream(source, onBytesRead)
+			: readBufferStream(source, onBytesRead);
+	if (compression === "gzip") {
+		// pipeline destroys the file stream when the reader stops early
+		return pipeline(file, zlib.createGunzip(), () => {});
+	}
+	return file;
+}
+
+function readFileStream(filePath: string, onBytesRead: (bytesRead: number) => void): Readable {
+	const file = fs.createReadStream(filePath);
+	let bytesRead = 0;
+	file.on("data", (chunk) => {
+		bytesRead += chunk.length;
+		onBytesRead(bytesRead);
+	});
+	return file;
+}
+
+function readBufferStream(data: Buffer, onBytesRead: (bytesRead: number) => void): Readable {
+	return Readable.from(
+		(function* () {
+			for (let offset = 0; offset < data.length; offset += CHUNK_SIZE) {
+				const chunk = data.subarray(offset, offset + CHUNK_SIZE);
+				onBytesRead(offset + chunk.length);
+				yield chunk;
+			}
+		})(),
+	);
+}
+
+/**
+ * Decompress gzip or bzip2 data held in memory.
+ *
+ * @param data - Compressed file contents
+ * @param compression - Compression of the data
+ * @returns Decompressed contents
+ * @throws Error if the data is not valid for the compression
+ */
+export function decompress(data: Buffer, compression: "gzip" | "bzip2"): Buffer {
+	return compression === "gzip" ? zlib.gunzipSync(data) : bunzip2(data);
+}
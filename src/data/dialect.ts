@@ -0,0 +1,326 @@
+/**
+ * Delimiters tried by {@link sniffDialect}, earlier ones winning ties.
+ * {@link WHITESPACE_DELIMITER} stands for runs of spaces and tabs.
+ */
+export const DIALECT_DELIMITERS = [",", ";", "\t", "|", ":", " "];
+
+/** Delimiter value meaning one or more spaces or tabs */
+export const WHITESPACE_DELIMITER = " ";
+
+/** Quote characters tried by {@link sniffDialect}; an empty string means no quoting */
+const QUOTE_CHARS = ['"', "'", ""];
+
+/**
+ * Consistency given up by whitespace runs, which also split the text inside fields.
+ * A real delimiter that fits at least this much better than whitespace wins.
+ */
+const WHITESPACE_PENALTY = 0.25;
+
+/**
+ * Score given up by a comma split when another split fits as well and has numbers
+ * like `1.234,56` in its fields: those commas are decimal separators.
+ */
+const DECIMAL_COMMA_PENALTY = 0.5;
+
+/** A number with a decimal comma, optionally with `.`, `'` or space thousands separators */
+const DECIMAL_COMMA_NUMBER = /^[+-]?(?:\d{1,3}(?:[.'\s\u00a0\u202f]\d{3})+|\d*),\d+$/;
+
+/** Records needed before a perfectly consistent split counts as certain */
+const CONFIDENT_RECORD_COUNT = 5;
+
+/**
+ * How a delimited text file is written.
+ */
+export interface Dialect {
+	/** Field separator; {@link WHITESPACE_DELIMITER} for runs of spaces and tabs */
+	delimiter: string;
+	/** Quote character around fields, when the sample has quoted fields */
+	quoteChar?: string;
+	/** Whether the first record holds column names */
+	hasHeader: boolean;
+	/**
+	 * How sure the sniffer is of the delimiter, from 0 to 1: lower when records
+	 * have different field counts, when another delimiter fits almost as well, or
+	 * when there are few records to go by.
+	 */
+	confidence: number;
+}
+
+export interface SniffOptions {
+	/** Delimiters to choose from (default: {@link DIALECT_DELIMITERS}); the first is the fallback */
+	delimiters?: string[];
+	/** Quote characters to choose from, `""` for none (default: `"`, `'` and none) */
+	quoteChars?: string[];
+	/** Whether a field holds a number, for header detection (default: `Number` parses it) */
+	isNumeric?: (text: string) => boolean;
+}
+
+/** One way of splitting the sample, with how well it fits */
+interface Split {
+	delimiter: string;
+	quoteChar: string;
+	records: string[][];
+	/** Most common field count */
+	fieldCount: number;
+	/** Share of records with the most common field count; an unclosed quote counts as a misfit */
+	consistency: number;
+	quotedFields: number;
+	/** Fields holding a number with a decimal comma */
+	decimalCommas: number;
+	score: number;
+	/** Position in the delimiter list, for ties */
+	order: number;
+}
+
+/**
+ * Work out the delimiter, quote character and header row of delimited text by
+ * splitting a sample with every candidate, quotes taken into account, and
+ * picking the split whose records most often have the same number of fields.
+ * Commas lose to a split that fits as well and reads them as decimal commas.
+ *
+ * @param lines - Non-comment lines from the start of the file
+ * @param options - Candidates to choose from and the numeric test for header detection
+ * @returns The dialect that fits best; the first delimiter when none splits the records
+ */
+export function sniffDialect(lines: string[], options: SniffOptions = {}): Dialect {
+	const delimiters = options.delimiters ?? DIALECT_DELIMITERS;
+	const quoteChars = options.quoteChars ?? QUOTE_CHARS;
+	const isNumeric = options.isNumeric ?? isNumberText;
+
+	const splits = delimiters.map((delimiter, order) => {
+		let best: Split | undefined;
+		for (const quoteChar of quoteChars) {
+			const split = splitSample(lines, delimiter, quoteChar, order);
+			// On a tie, the quote character that quoted something wins
+			if (
+				!best ||
+				split.score > best.score ||
+				(split.score === best.score && split.quotedFields > 0 && best.quotedFields === 0)
+			) {
+				best = split;
+			}
+		}
+		return best as Split;
+	});
+	const comma = splits.find((split) => split.delimiter === ",");
+	if (
+		comma &&
+		splits.some(
+			(split) =>
+				split.fieldCount > 1 && split.decimalCommas > 0 && split.consistency >= comma.consistency,
+		)
+	) {
+		comma.score -= DECIMAL_COMMA_PENALTY;
+	}
+	const ranked = splits
+		.filter((split) => split.fieldCount > 1)
+		.sort((a, b) => b.score - a.score || b.fieldCount - a.fieldCount || a.order - b.order);
+	const best = ranked[0] ?? splits[0];
+	// A split into the same records, as whitespace runs give for tab-separated text, is no rival
+	const fields = JSON.stringify(best.records);
+	const rival = ranked.find((split) => split !== best && JSON.stringify(split.records) !== fields);
+	const runnerUp = Math.max(0, rival?.score ?? 0);
+	const evidence = Math.min(1, best.records.length / CONFIDENT_RECORD_COUNT);
+
+	return {
+		delimiter: best.delimiter,
+		quoteChar: best.quotedFields > 0 ? best.quoteChar : undefined,
+		hasHeader: detectHeader(best.records, isNumeric),
+		confidence: Math.round(best.consistency * (1 - runnerUp / 2) * evidence * 100) / 100,
+	};
+}
+
+/**
+ * Decide whether the first record holds column names. Each column votes: a text
+ * field above numbers is a name, a number above numbers or a value that repeats
+ * below is data. Without votes either way, any text field makes it a header.
+ *
+ * @param records - Records from the start of the file
+ * @param isNumeric - Whether a field holds a number
+ * @returns true if the first record is a header
+ */
+export function detectHeader(records: string[][], isNumeric: (text: string) => boolean): boolean {
+	const [first, ...rest] = records;
+	if (!first) {
+		return false;
+	}
+	let votes = 0;
+	first.forEach((cell, index) => {
+		const below = rest.map((record) => record[index] ?? "").filter(Boolean);
+		if (!cell || below.length === 0) {
+			return;
+		}
+		if (below.filter(isNumeric).length * 2 > below.length) {
+			votes += isNumeric(cell) ? -1 : 1;
+		} else if (below.includes(cell)) {
+			votes--;
+		}
+	});
+	return votes > 0 || (votes === 0 && first.some((cell) => cell !== "" && !isNumeric(cell)));
+}
+
+/**
+ * Most frequent value, the larger one on a tie.
+ *
+ * @param values - Values to count
+ * @returns The most frequent value, 0 for an empty list
+ */
+export function mostCommon(values: number[]): number {
+	const counts = new Map<number, number>();
+	for (const value of values) {
+		counts.set(value, (counts.get(value) ?? 0) + 1);
+	}
+	let best = 0;
+	let bestCount = 0;
+	for (const [value, count] of counts) {
+		if (count > bestCount || (count === bestCount && value > best)) {
+			best = value;
+			bestCount = count;
+		}
+	}
+	return best;
+}
+
+function splitSample(lines: string[], delimiter: string, quoteChar: string, order: number): Split {
+	const reader = new CSVRecordReader(delimiter, quoteChar);
+	const records: string[][] = [];
+	let quotedFields = 0;
+	let decimalCommas = 0;
+	for (const line of lines) {
+		const record = reader.pushLine(line);
+		if (record) {
+			records.push(record);
+			quotedFields += reader.quotedFields.filter(Boolean).length;
+			decimalCommas += record.filter((field) => DECIMAL_COMMA_NUMBER.test(field)).length;
+		}
+	}
+	const fieldCount = mostCommon(records.map((record) => record.length));
+	const consistent = records.filter((record) => record.length === fieldCount).length;
+	const consistency = consistent / Math.max(1, records.length + (reader.pending ? 1 : 0));
+	const score = consistency - (delimiter === WHITESPACE_DELIMITER ? WHITESPACE_PENALTY : 0);
+	return {
+		delimiter,
+		quoteChar,
+		records,
+		fieldCount,
+		consistency,
+		quotedFields,
+		decimalCommas,
+		score,
+		order,
+	};
+}
+
+function isNumberText(text: string): boolean {
+	return text.trim() !== "" && !Number.isNaN(Number(text));
+}
+
+/**
+ * Incremental RFC 4180 record reader fed one physical line at a time.
+ *
+ * Features:
+ * - Quoted fields may contain delimiters and line breaks
+ * - A doubled quote inside a quoted field is an escaped quote
+ * - Quotes inside an unquoted field are kept literally
+ * - Unquoted fields are trimmed; quoted content is preserved as-is
+ * - With {@link WHITESPACE_DELIMITER}, any run of spaces and tabs separates fields
+ * - An empty quote character turns quoting off
+ */
+export class CSVRecordReader {
+	private fields: string[] = [];
+	private quotedFlags: boolean[] = [];
+	private field = "";
+	private tail = "";
+	private quoted = false;
+	private inQuotes = false;
+	private readonly whitespace: boolean;
+
+	constructor(
+		private readonly delimiter: string,
+		private readonly quoteChar: string,
+	) {
+		this.whitespace = delimiter === WHITESPACE_DELIMITER;
+	}
+
+	/** True while a quoted field is open and the record continues on the next line. */
+	get pending(): boolean {
+		return this.inQuotes;
+	}
+
+	/** For each field of the last completed record, whether it was quoted. */
+	get quotedFields(): boolean[] {
+		return this.quotedFlags;
+	}
+
+	/**
+	 * Consume one physical line (without its line terminator).
+	 *
+	 * @param line - Line content
+	 * @returns The completed record, or null if the record continues on the next line
+	 */
+	pushLine(line: string): string[] | null {
+		if (this.inQuotes) {
+			this.field += "\n";
+		} else {
+			this.fields = [];
+			this.quotedFlags = [];
+			this.resetField();
+		}
+
+		for (let i = 0; i < line.length; i++) {
+			const char = line[i];
+
+			if (this.inQuotes) {
+				if (char === this.quoteChar) {
+					if (line[i + 1] === this.quoteChar) {
+						this.field += char;
+						i++;
+					} else {
+						this.inQuotes = false;
+					}
+				} else {
+					this.field += char;
+				}
+			} else if (this.isSeparator(char)) {
+				// Runs of whitespace, and whitespace at the start of a line, separate nothing
+				if (!this.whitespace || this.field || this.quoted) {
+					this.endField();
+				}
+			} else if (this.quoted) {
+				// Text after a closing quote is kept, like most spreadsheet tools do
+				this.tail += char;
+			} else if (char === this.quoteChar && !this.field.trim()) {
+				this.field = "";
+				this.quoted = true;
+				this.inQuotes = true;
+			} else {
+				this.field += char;
+			}
+		}
+
+		if (this.inQuotes) {
+			return null;
+		}
+		// Trailing whitespace does not start another field
+		if (!this.whitespace || this.field || this.quoted || this.fields.length === 0) {
+			this.endField();
+		}
+		return this.fields;
+	}
+
+	private isSeparator(char: string): boolean {
+		return this.whitespace ? char === " " || char === "\t" : char === this.delimiter;
+	}
+
+	private endField() {
+		this.fields.push(this.quoted ? this.field + this.tail.trim() : this.field.trim());
+		this.quotedFlags.push(this.quoted);
+		this.resetField();
+	}
+
+	private resetField() {
+		this.field = "";
+		this.tail = "";
+		this.quoted = false;
+	}
+}
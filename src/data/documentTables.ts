@@ -0,0 +1,575 @@
+/**
+ * Document formats whose tables can be extracted.
+ */
+export type DocumentFormat = "markdown" | "html" | "latex";
+
+/**
+ * A table found in a Markdown, HTML or LaTeX document.
+ */
+export interface DocumentTable {
+	/** Markup the table is written in; HTML tables also occur in Markdown */
+	kind: "markdown" | "html" | "latex";
+	/** Zero-based line where the table starts */
+	startLine: number;
+	/** Zero-based line where the table ends */
+	endLine: number;
+	/** Table caption, or the heading above a Markdown table */
+	caption?: string;
+	/** Header cells, when the markup marks a header row */
+	headers?: string[];
+	/** Body cells as plain text */
+	rows: string[][];
+}
+
+const DOCUMENT_EXTENSIONS: Record<string, DocumentFormat> = {
+	".md": "markdown",
+	".markdown": "markdown",
+	".html": "html",
+	".htm": "html",
+	".tex": "latex",
+};
+
+/** GFM delimiter row, e.g. `| --- | :---: |` */
+const DELIMITER_ROW_PATTERN = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+const HEADING_PATTERN = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/;
+
+const HTML_TAG_PATTERN = /<(\/?)(table|caption|thead|tbody|tfoot|tr|td|th)\b([^>]*)>/gi;
+const HTML_ENTITIES: Record<string, string> = {
+	amp: "&",
+	lt: "<",
+	gt: ">",
+	quot: '"',
+	apos: "'",
+	nbsp: " ",
+	minus: "−",
+	ndash: "–",
+	mdash: "—",
+};
+
+const LATEX_BEGIN_PATTERN = /\\begin\{(tabular\*?|tabularx|longtable)\}/g;
+const LATEX_CAPTION_PATTERN = /\\caption\*?(?:\[[^\]]*\])?\{/;
+/** Rules and longtable markers, which carry no cells */
+const LATEX_RULE_PATTERN =
+	/\\(?:hline|toprule|midrule|bottomrule|endfirsthead|endhead|endfoot|endlastfoot)\b|\\(?:cline|cmidrule)(?:\([^)]*\))?\{[^}]*\}/g;
+
+/**
+ * Document format of a file, from its extension.
+ *
+ * @param fileExtension - Lower-case extension including the dot
+ * @returns Format, or undefined for files that are not documents
+ */
+export function documentFormat(fileExtension: string): DocumentFormat | undefined {
+	return DOCUMENT_EXTENSIONS[fileExtension];
+}
+
+/**
+ * Find the tables of a document, in the order they appear.
+ *
+ * Markdown documents are searched for pipe tables and HTML `<table>`
+ * elements, HTML documents for `<table>` elements and LaTeX documents for
+ * `tabular`, `tabular*`, `tabularx` and `longtable` environments. Inline markup
+ * is removed from the cells; spanned cells are repeated down rows and left
+ * empty across columns.
+ *
+ * @param text - Document text
+ * @param format - Format of the document
+ * @returns Tables with at least one row
+ */
+export function extractDocumentTables(text: string, format: DocumentFormat): DocumentTable[] {
+	const lines = lineOffsets(text);
+	const tables: DocumentTable[] = [];
+	if (format === "markdown") {
+		tables.push(...extractMarkdownTables(text));
+	}
+	if (format === "markdown" || format === "html") {
+		tables.push(...extractHTMLTables(text, lines));
+	}
+	if (format === "latex") {
+		tables.push(...extractLaTeXTables(text, lines));
+	}
+	return tables
+		.filter((table) => table.rows.length > 0 || table.headers)
+		.sort((a, b) => a.startLine - b.startLine);
+}
+
+// --- Markdown ---
+
+function extractMarkdownTables(text: string): DocumentTable[] {
+	const lines = text.split(/\r?\n/);
+	const tables: DocumentTable[] = [];
+	let fence: string | undefined;
+	let heading: string | undefined;
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		const fenceMatch = FENCE_PATTERN.exec(line);
+		if (fenceMatch) {
+			if (!fence) {
+				fence = fenceMatch[1];
+			} else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+				fence = undefined;
+			}
+			continue;
+		}
+		if (fence) {
+			continue;
+		}
+		const headingMatch = HEADING_PATTERN.exec(line);
+		if (headingMatch) {
+			heading = stripMarkdown(headingMatch[1]);
+			continue;
+		}
+
+		const next = lines[i + 1];
+		if (
+			!line.includes("|") ||
+			next === undefined ||
+			!DELIMITER_ROW_PATTERN.test(next) ||
+			!(line.trim().startsWith("|") || next.includes("|"))
+		) {
+			continue;
+		}
+		const headers = splitPipeRow(line);
+		if (headers.length !== splitPipeRow(next).length) {
+			continue;
+		}
+		const rows: string[][] = [];
+		let end = i + 1;
+		while (end + 1 < lines.length && lines[end + 1].includes("|") && lines[end + 1].trim()) {
+			end++;
+			const cells = splitPipeRow(lines[end]);
+			// Missing cells are empty and extra ones ignored, as in GitHub Markdown
+			rows.push(headers.map((_, index) => cells[index] ?? ""));
+		}
+		tables.push({ kind: "markdown", startLine: i, endLine: end, caption: heading, headers, rows });
+		i = end;
+	}
+	return tables;
+}
+
+/**
+ * Split a pipe table row on unescaped pipes, ignoring the outer ones.
+ */
+function splitPipeRow(line: string): string[] {
+	let row = line.trim();
+	if (row.startsWith("|")) {
+		row = row.slice(1);
+	}
+	if (row.endsWith("|") && !row.endsWith("\\|")) {
+		row = row.slice(0, -1);
+	}
+	return row.split(/(?<!\\)\|/).map((cell) => stripMarkdown(cell.replace(/\\\|/g, "|")));
+}
+
+/**
+ * Remove inline Markdown: links and images keep their text, emphasis and
+ * code markers are dropped.
+ */
+function stripMarkdown(cell: string): string {
+	return cell
+		.replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+		.replace(/(\*\*|__|~~)(.+?)\1/g, "$2")
+		.replace(/(^|[^\w*])[*_](\S(?:.*?\S)?)[*_](?![\w*])/g, "$1$2")
+		.replace(/`([^`]*)`/g, "$1")
+		.replace(/<[^>]+>/g, "")
+		.trim();
+}
+
+// --- HTML ---
+
+interface HTMLCell {
+	text: string;
+	header: boolean;
+	colspan: number;
+	rowspan: number;
+}
+
+interface HTMLRow {
+	cells: HTMLCell[];
+	inHead: boolean;
+}
+
+function extractHTMLTables(text: string, lines: number[]): DocumentTable[] {
+	const tables: DocumentTable[] = [];
+	let depth = 0;
+	let start = 0;
+	let caption: string | undefined;
+	let captionStart = -1;
+	let inHead = false;
+	let rows: HTMLRow[] = [];
+	let cell: { start: number; header: boolean; attributes: string } | undefined;
+
+	const closeCell = (end: number) => {
+		if (!cell) {
+			return;
+		}
+		if (rows.length === 0) {
+			rows.push({ cells: [], inHead });
+		}
+		rows[rows.length - 1].cells.push({
+			text: htmlText(text.slice(cell.start, end)),
+			header: cell.header,
+			colspan: spanAttribute(cell.attributes, "colspan"),
+			rowspan: spanAttribute(cell.attributes, "rowspan"),
+		});
+		cell = undefined;
+	};
+
+	for (const match of text.matchAll(HTML_TAG_PATTERN)) {
+		const closing = match[1] === "/";
+		const tag = match[2].toLowerCase();
+		const index = match.index ?? 0;
+		if (tag === "table") {
+			if (!closing) {
+				if (depth++ === 0) {
+					start = index;
+					caption = undefined;
+					captionStart = -1;
+					inHead = false;
+					rows = [];
+					cell = undefined;
+				}
+			} else if (depth > 0 && --depth === 0) {
+				closeCell(index);
+				tables.push({
+					kind: "html",
+					startLine: lineAt(lines, start),
+					endLine: lineAt(lines, index),
+					caption,
+					...tabulateHTMLRows(rows),
+				});
+			}
+			continue;
+		}
+		// Cells of nested tables are part of the outer cell's text
+		if (depth !== 1) {
+			continue;
+		}
+		switch (tag) {
+			case "caption":
+				if (!closing) {
+					captionStart = index + match[0].length;
+				} else if (captionStart >= 0) {
+					caption = htmlText(text.slice(captionStart, index)) || undefined;
+					captionStart = -1;
+				}
+				break;
+			case "thead":
+				closeCell(index);
+				inHead = !closing;
+				break;
+			case "tbody":
+			case "tfoot":
+				closeCell(index);
+				inHead = false;
+				break;
+			case "tr":
+				closeCell(index);
+				if (!closing) {
+					rows.push({ cells: [], inHead });
+				}
+				break;
+			default:
+				// End tags of cells are optional: a new cell or row closes the last one
+				closeCell(index);
+				if (!closing) {
+					cell = { start: index + match[0].length, header: tag === "th", attributes: match[3] };
+				}
+		}
+	}
+	return tables;
+}
+
+/**
+ * Lay out HTML rows as a grid, taking the `<thead>` rows, or a first row of
+ * `<th>` cells, as the header.
+ */
+function tabulateHTMLRows(rows: HTMLRow[]): { headers?: string[]; rows: string[][] } {
+	const grid: string[][] = [];
+	// Cells spanning down from earlier rows, by column
+	const pending: { text: string; left: number }[] = [];
+	for (const row of rows) {
+		const cells: string[] = [];
+		const fillSpanned = () => {
+			let spanned = pending[cells.length];
+			while (spanned && spanned.left > 0) {
+				spanned.left--;
+				cells.push(spanned.text);
+				spanned = pending[cells.length];
+			}
+		};
+		for (const cell of row.cells) {
+			fillSpanned();
+			for (let i = 0; i < cell.colspan; i++) {
+				if (cell.rowspan > 1) {
+					pending[cells.length] = { text: cell.text, left: cell.rowspan - 1 };
+				}
+				cells.push(i === 0 ? cell.text : "");
+			}
+		}
+		fillSpanned();
+		grid.push(cells);
+	}
+
+	const headRows = rows.filter((row) => row.inHead).length;
+	let headerCount = headRows;
+	if (headerCount === 0 && rows[0]?.cells.length && rows[0].cells.every((cell) => cell.header)) {
+		headerCount = 1;
+	}
+	const width = Math.max(0, ...grid.map((cells) => cells.length));
+	const body = grid.slice(headerCount).map((cells) => padRow(cells, width));
+	if (headerCount === 0) {
+		return { rows: body };
+	}
+	// With several header rows, the last one names the columns
+	return { headers: padRow(grid[headerCount - 1], width), rows: body };
+}
+
+function spanAttribute(attributes: string, name: string): number {
+	const match = new RegExp(`\\b${name}\\s*=\\s*["']?(\\d+)`, "i").exec(attributes);
+	const span = match ? Number.parseInt(match[1], 10) : 1;
+	return span >= 1 && span <= 1000 ? span : 1;
+}
+
+/**
+ * Text content of an HTML fragment: tags removed, entities decoded,
+ * whitespace collapsed.
+ */
+function htmlText(html: string): string {
+	return html
+		.replace(/<br\s*\/?>/gi, " ")
+		.replace(/<[^>]*>/g, "")
+		.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+			if (name[0] === "#") {
+				const code =
+					name[1] === "x" || name[1] === "X"
+						? Number.parseInt(name.slice(2), 16)
+						: Number.parseInt(name.slice(1), 10);
+				return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+			}
+			return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+		})
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+// --- LaTeX ---
+
+function extractLaTeXTables(text: string, lines: number[]): DocumentTable[] {
+	const source = removeLaTeXComments(text);
+	const tables: DocumentTable[] = [];
+	for (const match of source.matchAll(LATEX_BEGIN_PATTERN)) {
+		const environment = match[1];
+		const start = match.index ?? 0;
+		let position = start + match[0].length;
+		// Optional position, then the width (tabular* and tabularx) and the column spec
+		position = skipOptionalArgument(source, position);
+		const argumentCount = environment === "tabular*" || environment === "tabularx" ? 2 : 1;
+		for (let i = 0; i < argumentCount; i++) {
+			position = skipGroup(source, position);
+		}
+		const endTag = `\\end{${environment}}`;
+		const end = source.indexOf(endTag, position);
+		if (end < 0) {
+			continue;
+		}
+
+		let body = source.slice(position, end);
+		let caption = findFloatCaption(source, start, end);
+		// longtable holds its caption as a row
+		for (let found = LATEX_CAPTION_PATTERN.exec(body); found; ) {
+			const open = found.index + found[0].length - 1;
+			const close = skipGroup(body, open);
+			caption ??= latexText(body.slice(open + 1, close - 1));
+			body = body.slice(0, found.index) + body.slice(close).replace(/^\s*\\\\/, "");
+			found = LATEX_CAPTION_PATTERN.exec(body);
+		}
+		body = body.replace(/\\label\{[^}]*\}/g, "");
+
+		const rawRows = body.split(/\\\\(?:\s*\[[^\]]*\])?/);
+		const rows: string[][] = [];
+		let headerRows = 0;
+		for (const rawRow of rawRows) {
+			// A rule straight after the first row marks it as the header
+			if (rows.length === 1 && headerRows === 0 && /^\s*\\(?:hline|midrule)\b/.test(rawRow)) {
+				headerRows = 1;
+			}
+			const cells = splitLaTeXRow(rawRow.replace(LATEX_RULE_PATTERN, ""));
+			if (cells.some((cell) => cell !== "")) {
+				rows.push(cells);
+			}
+		}
+
+		const width = Math.max(0, ...rows.map((cells) => cells.length));
+		const padded = rows.map((cells) => padRow(cells, width));
+		tables.push({
+			kind: "latex",
+			startLine: lineAt(lines, start),
+			endLine: lineAt(lines, end),
+			caption: caption || undefined,
+			...(headerRows === 1 && padded.length > 1
+				? { headers: padded[0], rows: padded.slice(1) }
+				: { rows: padded }),
+		});
+	}
+	return tables;
+}
+
+/**
+ * Blank out `%` comments, keeping offsets (and so line numbers) unchanged.
+ */
+function removeLaTeXComments(text: string): string {
+	return text.replace(/(?<!\\)%[^\n]*/g, (comment) => " ".repeat(comment.length));
+}
+
+/**
+ * Caption of the `table` float around a tabular, if there is one.
+ */
+function findFloatCaption(source: string, start: number, end: number): string | undefined {
+	const floatStart = source.lastIndexOf("\\begin{table", start);
+	if (floatStart < 0 || source.lastIndexOf("\\end{table", start) > floatStart) {
+		return undefined;
+	}
+	const floatEnd = source.indexOf("\\end{table", end);
+	const float = source.slice(floatStart, floatEnd < 0 ? undefined : floatEnd);
+	const match = LATEX_CAPTION_PATTERN.exec(float);
+	if (!match) {
+		return undefined;
+	}
+	const open = match.index + match[0].length - 1;
+	return latexText(float.slice(open + 1, skipGroup(float, open) - 1));
+}
+
+/**
+ * Split a LaTeX row on unescaped `&`, expanding `\multicolumn` into its
+ * text followed by empty cells.
+ */
+function splitLaTeXRow(row: string): string[] {
+	const cells: string[] = [];
+	for (const cell of splitOutsideGroups(row, "&")) {
+		const multi = /^\s*\\multicolumn\s*\{\s*(\d+)\s*\}/.exec(cell);
+		if (multi) {
+			// \multicolumn{n}{spec}{text}
+			const specEnd = skipGroup(cell, multi[0].length);
+			const textEnd = skipGroup(cell, specEnd);
+			const open = cell.indexOf("{", specEnd);
+			cells.push(latexText(cell.slice(open + 1, textEnd - 1)));
+			for (let i = 1; i < Number.parseInt(multi[1], 10); i++) {
+				cells.push("");
+			}
+		} else {
+			cells.push(latexText(cell));
+		}
+	}
+	return cells;
+}
+
+/**
+ * Split text on a separator that is neither escaped nor inside braces.
+ */
+function splitOutsideGroups(text: string, separator: string): string[] {
+	const parts: string[] = [];
+	let depth = 0;
+	let from = 0;
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (char === "\\") {
+			i++;
+		} else if (char === "{") {
+			depth++;
+		} else if (char === "}") {
+			depth = Math.max(0, depth - 1);
+		} else if (char === separator && depth === 0) {
+			parts.push(text.slice(from, i));
+			from = i + 1;
+		}
+	}
+	parts.push(text.slice(from));
+	return parts;
+}
+
+/**
+ * Plain text of a LaTeX cell: formatting commands keep their argument, math
+ * shifts and braces are dropped, escaped characters are unescaped.
+ */
+function latexText(cell: string): string {
+	let text = cell;
+	// Innermost formatting commands first, e.g. \textbf{\emph{x}}
+	for (let previous = ""; previous !== text; ) {
+		previous = text;
+		text = text.replace(/\\[a-zA-Z]+\*?(?:\[[^\]]*\])?\{([^{}]*)\}/g, "$1");
+	}
+	return text
+		.replace(/\\(?:,|;|:|!| )/g, " ")
+		.replace(/(?<!\\)~/g, " ")
+		.replace(/\\[a-zA-Z]+\*?/g, "")
+		.replace(/(?<!\\)[{}$]/g, "")
+		.replace(/\\([%&$#_{}])/g, "$1")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+/**
+ * Skip whitespace and one braced group starting at `position`.
+ *
+ * @returns Offset just past the closing brace, or `position` if there is no group
+ */
+function skipGroup(text: string, position: number): number {
+	let i = position;
+	while (i < text.length && /\s/.test(text[i])) {
+		i++;
+	}
+	if (text[i] !== "{") {
+		return position;
+	}
+	let depth = 0;
+	for (; i < text.length; i++) {
+		if (text[i] === "\\") {
+			i++;
+		} else if (text[i] === "{") {
+			depth++;
+		} else if (text[i] === "}" && --depth === 0) {
+			return i + 1;
+		}
+	}
+	return text.length;
+}
+
+function skipOptionalArgument(text: string, position: number): number {
+	const match = /^\s*\[[^\]]*\]/.exec(text.slice(position, position + 200));
+	return match ? position + match[0].length : position;
+}
+
+// --- Shared ---
+
+function padRow(cells: string[], width: number): string[] {
+	return cells.length < width ? [...cells, ...Array(width - cells.length).fill("")] : cells;
+}
+
+/**
+ * Offsets where each line of the text starts.
+ */
+function lineOffsets(text: string): number[] {
+	const offsets = [0];
+	for (let i = text.indexOf("\n"); i >= 0; i = text.indexOf("\n", i + 1)) {
+		offsets.push(i + 1);
+	}
+	return offsets;
+}
+
+/**
+ * Zero-based line of a text offset.
+ */
+function lineAt(offsets: number[], offset: number): number {
+	let low = 0;
+	let high = offsets.length - 1;
+	while (low < high) {
+		const middle = Math.ceil((low + high) / 2);
+		if (offsets[middle] <= offset) {
+			low = middle;
+		} else {
+			high = middle - 1;
+		}
+	}
+	return low;
+}
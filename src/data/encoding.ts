@@ -0,0 +1,176 @@
+import { Transform, type TransformCallback } from "node:stream";
+
+/** Bytes looked at to detect the encoding */
+const SAMPLE_BYTES = 64 * 1024;
+
+/**
+ * Characters of Japanese text: CJK punctuation, kana, kanji and full-width
+ * forms. Half-width katakana are left out, since Latin-1 letters and symbols
+ * read as Shift-JIS become them.
+ */
+const JAPANESE_PATTERN = /[\u3000-\u30ff\u4e00-\u9fff\uff01-\uff60\uffe0-\uffef]/;
+/**
+ * Bytes that stand for characters hardly ever seen in Western text when read
+ * as Windows-1252, but common as lead and trail bytes of Shift-JIS: unassigned
+ * bytes, rare punctuation and symbols, and fractions
+ */
+const RARE_WINDOWS_1252_BYTES = new Set([
+	0x81, 0x82, 0x83, 0x86, 0x87, 0x88, 0x89, 0x8b, 0x8c, 0x8d, 0x8f, 0x90, 0x98, 0x99, 0x9b, 0x9c,
+	0x9d, 0x9f, 0xa4, 0xa6, 0xa8, 0xaa, 0xac, 0xaf, 0xb4, 0xb8, 0xb9, 0xba, 0xbc, 0xbd, 0xbe,
+]);
+
+/**
+ * Guess the encoding of text from its byte order mark or, without one, its content.
+ *
+ * Zero bytes in every other position point to BOM-less UTF-16. Otherwise
+ * valid UTF-8 is read as UTF-8. Text that decodes cleanly as Shift-JIS is
+ * read as Shift-JIS when a larger share of its characters are Japanese than
+ * of its bytes are ordinary Western characters in Windows-1252; both shares
+ * count non-ASCII only. Anything else is taken
+ * to be Windows-1252, the usual encoding of Western Windows exports and a
+ * superset of Latin-1's printable characters.
+ *
+ * @param sample - The first bytes of the file
+ * @returns WHATWG encoding name
+ */
+export function detectEncoding(sample: Uint8Array): string {
+	const bytes = sample.subarray(0, SAMPLE_BYTES);
+	if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+		return "utf-8";
+	}
+	if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+		return "utf-16le";
+	}
+	if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+		return "utf-16be";
+	}
+
+	const utf16 = detectUTF16(bytes);
+	if (utf16) {
+		return utf16;
+	}
+	if (decodesCleanly(bytes, "utf-8")) {
+		return "utf-8";
+	}
+	if (decodesCleanly(bytes, "shift_jis") && japaneseShare(bytes) > 1 - rareWesternShare(bytes)) {
+		return "shift_jis";
+	}
+	return "windows-1252";
+}
+
+/**
+ * Decode a whole file, removing a byte order mark.
+ *
+ * @param data - File contents
+ * @param encoding - Encoding to use (default: detected with {@link detectEncoding})
+ * @returns Text and the encoding it was read with
+ * @throws RangeError if the encoding is not known
+ */
+export function decodeText(
+	data: Uint8Array,
+	encoding?: string,
+): { text: string; encoding: string } {
+	const used = encoding ?? detectEncoding(data);
+	return { text: new TextDecoder(used).decode(data), encoding: used };
+}
+
+/**
+ * Stream that decodes bytes into text. Without a given encoding, it is
+ * detected from the first chunk; a byte order mark is removed.
+ */
+export class TextDecodingStream extends Transform {
+	private decoder: TextDecoder | undefined;
+
+	/**
+	 * @param encoding - Encoding to use (default: detected from the first chunk)
+	 */
+	constructor(public encoding?: string) {
+		super({ decodeStrings: true });
+		if (encoding) {
+			this.decoder = new TextDecoder(encoding);
+		}
+	}
+
+	override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+		try {
+			if (!this.decoder) {
+				this.encoding = detectEncoding(chunk);
+				this.decoder = new TextDecoder(this.encoding);
+			}
+			callback(null, this.decoder.decode(chunk, { stream: true }));
+		} catch (error) {
+			callback(error as Error);
+		}
+	}
+
+	override _flush(callback: TransformCallback) {
+		callback(null, this.decoder?.decode() ?? "");
+	}
+}
+
+/**
+ * BOM-less UTF-16 written from mostly ASCII text has a zero byte in every
+ * other position: the high byte, second in little-endian order.
+ */
+function detectUTF16(bytes: Uint8Array): "utf-16le" | "utf-16be" | undefined {
+	const pairs = Math.floor(Math.min(bytes.length, 4096) / 2);
+	if (pairs < 2) {
+		return undefined;
+	}
+	let evenZeros = 0;
+	let oddZeros = 0;
+	for (let i = 0; i < pairs; i++) {
+		evenZeros += bytes[2 * i] === 0 ? 1 : 0;
+		oddZeros += bytes[2 * i + 1] === 0 ? 1 : 0;
+	}
+	if (oddZeros > pairs * 0.4 && evenZeros < pairs * 0.05) {
+		return "utf-16le";
+	}
+	if (evenZeros > pairs * 0.4 && oddZeros < pairs * 0.05) {
+		return "utf-16be";
+	}
+	return undefined;
+}
+
+/**
+ * Share of the non-ASCII characters of the Shift-JIS reading that are Japanese.
+ */
+function japaneseShare(bytes: Uint8Array): number {
+	let nonAscii = 0;
+	let japanese = 0;
+	for (const char of new TextDecoder("shift_jis").decode(bytes)) {
+		if (char.charCodeAt(0) >= 0x80) {
+			nonAscii++;
+			japanese += JAPANESE_PATTERN.test(char) ? 1 : 0;
+		}
+	}
+	return nonAscii === 0 ? 0 : japanese / nonAscii;
+}
+
+/**
+ * Share of the non-ASCII bytes that are rare characters in Windows-1252.
+ */
+function rareWesternShare(bytes: Uint8Array): number {
+	let nonAscii = 0;
+	let rare = 0;
+	for (const byte of bytes) {
+		if (byte >= 0x80) {
+			nonAscii++;
+			rare += RARE_WINDOWS_1252_BYTES.has(byte) ? 1 : 0;
+		}
+	}
+	return nonAscii === 0 ? 0 : rare / nonAscii;
+}
+
+/**
+ * Whether bytes decode without errors, allowing a multi-byte character cut
+ * off at the end of the sample.
+ */
+function decodesCleanly(bytes: Uint8Array, encoding: string): boolean {
+	try {
+		new TextDecoder(encoding, { fatal: true }).decode(bytes, { stream: true });
+		return true;
+	} catch {
+		return false;
+	}
+}
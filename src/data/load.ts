@@ -1,25 +1,421 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
+import * as readline from "node:readline";
+import { pipeline } from "node:stream";
 import * as vscode from "vscode";
+import { ArrowReader } from "./arrow";
+import {
+	type Compression,
+	compressedFileType,
+	createDecompressedReadStream,
+	decompress,
+} from "./compression";
+import {
+	CSVRecordReader,
+	type Dialect,
+	detectHeader,
+	mostCommon,
+	sniffDialect,
+	WHITESPACE_DELIMITER,
+} from "./dialect";
+import {
+	type DocumentFormat,
+	type DocumentTable,
+	documentFormat,
+	extractDocumentTables,
+} from "./documentTables";
+import { decodeText, TextDecodingStream } from "./encoding";
+import {
+	detectLogPattern,
+	LOG_SAMPLE_LINES,
+	type LogPattern,
+	logPattern,
+	logPatterns,
+} from "./logs";
+import { listNpzArrays, NpyArray, type NpzArrayInfo, readNpzArray } from "./npy";
+import { ParquetReader } from "./parquet";
+import { inMemoryFile, openLocalFile, type RandomAccessFile } from "./randomAccess";
+import { listSQLiteTables, querySQLite, type SQLiteTable, tableQuery } from "./sqlite";
+import { listWorksheets, readWorksheet, type WorksheetInfo } from "./xlsx";
+import { extractZipEntry, readZipEntries, type ZipEntry } from "./zip";
 
 export interface ParsedData {
 	headers: string[];
-	rows: (string | number)[][];
+	rows: (string | number | null)[][];
 	fileName: string;
-	fileType: "csv" | "json" | "txt" | "dat" | "tsv" | "tab" | "out" | "data";
+	fileType:
+		| "csv"
+		| "json"
+		| "jsonl"
+		| "ndjson"
+		| "txt"
+		| "dat"
+		| "tsv"
+		| "tab"
+		| "out"
+		| "data"
+		| "log"
+		| "xlsx"
+		| "parquet"
+		| "arrow"
+		| "feather"
+		| "sqlite"
+		| "npy"
+		| "npz"
+		| "markdown"
+		| "html"
+		| "latex";
 	totalRows: number;
 	detectedDelimiter?: string;
+	/** Delimiter, quote character and header row as sniffed, with a confidence (delimited text only) */
+	dialect?: Dialect;
+	/** Text encoding the file was read with, e.g. `utf-8` or `windows-1252` (text formats only) */
+	encoding?: string;
+	/** Log format the lines were read with, e.g. `combined` or the name of a custom pattern */
+	logFormat?: string;
+	/** Metadata lines skipped above the header (delimited text only) */
+	skipRows?: number;
+	/**
+	 * Key/value pairs from the comments and metadata lines above the data,
+	 * e.g. `sample_rate: 1000` (delimited text only)
+	 */
+	metadata?: Record<string, string>;
+	/** Decimal separator convention used to read numeric text (delimited text only) */
+	numberFormat?: "dot" | "comma";
+	/** Start offset of each column when read as fixed-width text */
+	columnBoundaries?: number[];
+	/** First lines of a fixed-width file, shown under the column ruler in the preview */
+	sampleLines?: string[];
+	/** Problems that did not stop parsing, e.g. skipped JSON Lines records */
+	warnings?: string[];
+	/** Structural problems such as ragged rows, in line order (CSV and delimited text only) */
+	issues?: ParseIssue[];
+	/** JSONPath-style selector of the array that was tabulated (JSON only) */
+	jsonPath?: string;
+	/** Worksheet that was read (Excel only) */
+	sheet?: string;
+	/** Cell range that was read, e.g. `A1:F120` (Excel only) */
+	range?: string;
+	/** Query the rows come from (SQLite only) */
+	query?: string;
+	/** Array that was read (NumPy .npz only) */
+	array?: string;
+	/** Compression the file was read through, e.g. gzip for `data.csv.gz` */
+	compression?: Compression;
+	/** Archive entry that was read (ZIP only) */
+	entry?: string;
+	/** Position of the table in the document, starting at 1 (Markdown, HTML and LaTeX only) */
+	table?: number;
+	/** Editor text the rows come from instead of the file on disk */
+	textSource?: "buffer" | "selection";
+	/** Distinct key sets, most common first, when JSON records differ in shape */
+	schemaVariants?: SchemaVariant[];
+	/**
+	 * Names of the data blocks separated by two empty lines, in file order (delimited text only).
+	 * Set only for several blocks; the last column then holds the block of each row.
+	 */
+	blocks?: string[];
+	/** Inferred (or user-overridden) type of each column, in header order */
+	columns?: ColumnSchema[];
+	/** True when parsing stopped early (row limit reached or cancelled) */
+	truncated?: boolean;
+	/** True for an intermediate snapshot sent while the rest of the file is still loading */
+	partial?: boolean;
+}
+
+/**
+ * Column types inferred by {@link inferColumnSchema}.
+ */
+export type ColumnType = "integer" | "float" | "boolean" | "datetime" | "categorical" | "string";
+
+/**
+ * How numeric text is written: `dot` for `1,234.56`, `comma` for `1.234,56`,
+ * or `auto` to decide from the data.
+ */
+export type NumberFormat = "auto" | "dot" | "comma";
+
+/**
+ * Type information for one column.
+ */
+export interface ColumnSchema {
+	name: string;
+	type: ColumnType;
+	/** Number of empty or null cells */
+	nullCount: number;
+	/** True when the type was chosen by the user instead of inferred */
+	overridden?: boolean;
+	/** Unit of the values, e.g. `mV`, read from the units row below the header */
+	unit?: string;
+}
+
+/**
+ * Kinds of structural problems found in delimited text.
+ *
+ * - `fieldCount`: a row has more or fewer fields than the header
+ * - `unterminatedQuote`: a quoted field is never closed; its quote is read as text
+ * - `duplicateHeader`: a column name is used more than once
+ * - `nonNumeric`: a text cell in a column that otherwise holds numbers
+ */
+export type ParseIssueKind = "fieldCount" | "unterminatedQuote" | "duplicateHeader" | "nonNumeric";
+
+/**
+ * A structural problem in delimited text. Parsing carries on past it.
+ */
+export interface ParseIssue {
+	kind: ParseIssueKind;
+	/** 1-based line in the parsed text where the record starts */
+	line: number;
+	/** 0-based column, when the problem is in one field */
+	column?: number;
+	message: string;
+}
+
+/**
+ * A set of keys shared by some of the records in a JSON file.
+ */
+export interface SchemaVariant {
+	/** Keys present in these records, in header order */
+	keys: string[];
+	/** Number of records with exactly this key set */
+	count: number;
 }
 
 export interface ParseOptions {
+	/** Field separator, or {@link FIXED_WIDTH_DELIMITER} to cut lines at column boundaries */
 	delimiter?: string;
+	/** Text encoding as a WHATWG name, e.g. `utf-16le` or `shift_jis` (default: detected) */
+	encoding?: string;
+	/**
+	 * Read delimited text as a log, one row per matching line: a built-in format
+	 * (`combined`, `syslog`, `logfmt`, `iso`), a key of `logPatterns`, `auto` to
+	 * detect it, or `none` (default: `auto` for `.log` files, `none` otherwise)
+	 */
+	logFormat?: string;
+	/** Custom log patterns: regular expressions whose named groups become columns, keyed by name */
+	logPatterns?: Record<string, string>;
 	commentMarkers?: string[];
+	quoteChar?: string;
+	maxRows?: number;
+	/**
+	 * Lines above the header to skip, not counting comments and empty lines
+	 * (delimited text only, default: metadata lines with fewer fields are detected)
+	 */
+	skipRows?: number;
+	/**
+	 * Rows joined into the column names, 0 for none
+	 * (delimited text only, default: the first row if it is not all numbers)
+	 */
+	headerRows?: number;
+	/**
+	 * Whether the row below the header holds units, e.g. `s | mV`
+	 * (delimited text only, default: detected)
+	 */
+	unitsRow?: boolean;
+	/** JSONPath-style selector of the array to tabulate, e.g. `$.data.items` (JSON only) */
+	jsonPath?: string;
+	/** Levels of nested objects flattened into dot-notation columns (default: 3) */
+	flattenDepth?: number;
+	/** Worksheet to read (Excel only, default: the first worksheet) */
+	sheet?: string;
+	/** A1-style cell range to read, e.g. `B2:F40` (Excel only, default: all used cells) */
+	range?: string;
+	/** SELECT query to run (SQLite only, default: all rows of the first table) */
+	query?: string;
+	/** Array to read (NumPy .npz only, default: the first array) */
+	array?: string;
+	/** Archive entry to read (ZIP only, default: the first data file) */
+	entry?: string;
+	/** Table to read by position, starting at 1 (Markdown, HTML and LaTeX only, default: the first) */
+	table?: number;
+	/** Column types to use instead of the inferred ones, keyed by header */
+	columnTypes?: Record<string, ColumnType>;
+	/** Cell values stored as null, compared after trimming (default: {@link DEFAULT_MISSING_VALUES}) */
+	missingValues?: string[];
+	/** Decimal and thousands separators of numeric text (default: "auto") */
+	numberFormat?: NumberFormat;
+	/**
+	 * Start offsets of fixed-width columns; used when the delimiter is
+	 * {@link FIXED_WIDTH_DELIMITER} or not given (text files other than CSV)
+	 */
+	columnBoundaries?: number[];
+}
+
+/**
+ * Text parsed in place of a file on disk, such as an unsaved editor buffer or a selection.
+ */
+export interface TextSource {
+	/** Name of the document, e.g. `data.csv` or `Untitled-1`; its extension picks the format */
+	fileName: string;
+	/** Language of the document, picking the format when the name has no data extension */
+	languageId?: string;
+	text: string;
+	/** True when the text is a selection of the document rather than all of it */
+	selection?: boolean;
+}
+
+/** Formats of editor languages, for documents without a data file extension */
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+	csv: ".csv",
+	tsv: ".tsv",
+	json: ".json",
+	jsonl: ".jsonl",
+	markdown: ".md",
+	html: ".html",
+	latex: ".tex",
+	tex: ".tex",
+	log: ".log",
+};
+
+/**
+ * Delimiter value for fixed-width text, where columns are cut at character offsets.
+ */
+export const FIXED_WIDTH_DELIMITER = "fixed";
+
+/** Extensions read as SQLite databases */
+const SQLITE_EXTENSIONS = [".sqlite", ".sqlite3", ".db"];
+
+/**
+ * Cell values treated as missing unless configured otherwise.
+ */
+export const DEFAULT_MISSING_VALUES = ["", "NA", "NaN", "null", "-", "-999"];
+
+/**
+ * An array found inside a JSON document that can be tabulated.
+ */
+export interface JSONArrayCandidate {
+	/** JSONPath-style selector, e.g. `$.data.items` */
+	path: string;
+	/** Number of elements in the array */
+	length: number;
+}
+
+/**
+ * Options for the streaming parser.
+ */
+export interface StreamingParseOptions extends ParseOptions {
+	/** Stops reading when cancellation is requested; rows read so far are kept */
+	token?: vscode.CancellationToken;
+	/** Called as bytes are read from disk */
+	onProgress?: (bytesRead: number, totalBytes: number) => void;
+	/** Called once with the rows parsed so far while the file is still being read */
+	onPartialData?: (data: ParsedData) => void;
+	/** Number of rows to collect before onPartialData fires (default: 150) */
+	partialRows?: number;
+}
+
+type DelimitedFileType = "txt" | "dat" | "tsv" | "tab" | "out" | "data" | "log";
+type TextTableType = "csv" | DelimitedFileType;
+type JSONLinesFileType = "jsonl" | "ndjson";
+
+/**
+ * Line-fed parser used by both the whole-file and the streaming path.
+ */
+interface LineTableParser {
+	readonly rowCount: number;
+	/** Consume one physical line; returns false once no more input is needed */
+	pushLine(rawLine: string): boolean;
+	/** Stop accepting rows, e.g. after cancellation */
+	markTruncated(): void;
+	/** Rows parsed so far, flagged as a partial result */
+	snapshot(): ParsedData;
+	/** Signal end of input and build the result */
+	finish(): ParsedData;
+}
+
+// Files larger than this show a cancellable progress notification while loading
+const PROGRESS_THRESHOLD_BYTES = 10 * 1024 * 1024;
+
+// Files of remote and virtual workspaces are read whole; larger ones are refused
+const MAX_REMOTE_FILE_BYTES = 512 * 1024 * 1024;
+
+// Number of non-comment lines sampled for delimiter and header detection
+const SAMPLE_LINE_COUNT = 20;
+
+// Consecutive empty lines that separate data blocks, as in gnuplot's `index`
+const BLOCK_SEPARATOR_LINES = 2;
+
+// Parse issues kept per file; a badly broken file would otherwise list every row
+const MAX_PARSE_ISSUES = 1000;
+
+// A column with at least this many numbers per text cell counts as numeric with a few bad cells
+const NUMBERS_PER_TEXT_CELL = 4;
+
+/** `key: value` or `key = value` in a comment or metadata line */
+const METADATA_PATTERN = /^([\p{L}_][\p{L}\p{N} _./()-]{0,39}?)\s*[:=]\s*(\S.*)$/u;
+
+/** Unit labels such as `mV`, `°C`, `m/s^2` or `%` */
+const UNIT_PATTERN = /^[\p{L}°%‰][\p{L}\d°%‰/·*^²³⁻¹ .-]{0,11}$/u;
+
+// Default number of nested object levels flattened into dot-notation columns
+const DEFAULT_FLATTEN_DEPTH = 3;
+
+// How deep findJSONArrays looks into nested objects
+const MAX_ARRAY_SEARCH_DEPTH = 8;
+
+// Text columns with at most this many distinct values (and repeats) are categorical
+const MAX_CATEGORY_COUNT = 50;
+
+const BOOLEAN_PATTERN = /^(?:true|false)$/i;
+
+/** Currency symbols allowed before or after a number */
+const CURRENCY_PATTERN = /^[$€£¥₹]\s*|\s*[$€£¥₹]$/g;
+
+/** Numbers with `.` as decimal separator and `,` or `'` grouping thousands */
+const DOT_NUMBER_PATTERN = /^[+-]?(?:\d{1,3}(?:[,']\d{3})+|\d*)(?:\.\d*)?(?:[eEdD][+-]?\d+)?$/;
+
+/** Numbers with `,` as decimal separator and `.`, `'` or a space grouping thousands */
+const COMMA_NUMBER_PATTERN =
+	/^[+-]?(?:\d{1,3}(?:[.'\s\u00a0\u202f]\d{3})+|\d*)(?:,\d*)?(?:[eEdD][+-]?\d+)?$/;
+
+// Date and date-time notations accepted as datetime columns; values must also pass Date.parse
+const DATETIME_PATTERNS = [
+	/^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/,
+	/^(?:\d{1,2}\/\d{1,2}\/\d{4}|\d{4}\/\d{1,2}\/\d{1,2})(?:[ T]\d{1,2}:\d{2}(?::\d{2})?)?$/,
+	/^(?:\d{1,2} )?[A-Za-z]{3,9}\.? (?:\d{1,2},? )?\d{4}(?: \d{1,2}:\d{2}(?::\d{2})?)?$/,
+];
+
+/**
+ * Read a file through `vscode.workspace.fs`, so that files of remote and
+ * virtual workspaces (and any registered file system provider) can be parsed.
+ * Files that are not local are refused above {@link MAX_REMOTE_FILE_BYTES},
+ * as they can only be read whole.
+ *
+ * @param uri - URI of the file
+ * @returns Contents of the file
+ * @throws Error if a file that is not local is too large to read into memory
+ */
+async function readFile(uri: vscode.Uri): Promise<Buffer> {
+	if (uri.scheme !== "file") {
+		const { size } = await vscode.workspace.fs.stat(uri);
+		if (size > MAX_REMOTE_FILE_BYTES) {
+			throw new Error(
+				`${path.basename(uri.path)} is too large to read from a ${uri.scheme} workspace ` +
+					`(${Math.round(size / 1024 / 1024)} MB, limit ${MAX_REMOTE_FILE_BYTES / 1024 / 1024} MB)`,
+			);
+		}
+	}
+	const bytes = await vscode.workspace.fs.readFile(uri);
+	return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/**
+ * Open a file for range reads: local files straight from disk, others read
+ * whole through {@link readFile}.
+ *
+ * @param uri - URI of the file
+ * @returns The open file; close it when done
+ */
+async function openRandomAccessFile(uri: vscode.Uri): Promise<RandomAccessFile> {
+	return uri.scheme === "file" ? openLocalFile(uri.fsPath) : inMemoryFile(await readFile(uri));
 }
 
 /**
  * Parse a data file and return structured data
  *
- * Supports CSV, JSON, and delimited text files (TXT, DAT, TSV, TAB, OUT, DATA).
+ * Supports CSV, JSON, JSON Lines (JSONL, NDJSON), delimited text files
+ * (TXT, DAT, TSV, TAB, OUT, DATA), Excel workbooks (XLSX), Apache Parquet,
+ * Arrow IPC / Feather and SQLite databases, and tables in Markdown, HTML
+ * and LaTeX documents.
  *
  * Delimiter Detection:
  * - Auto-detects delimiter for non-CSV files from: comma, pipe, semicolon, colon, tab, space
@@ -30,6 +426,34 @@ export interface ParseOptions {
  * - Skips lines starting with #, %, // by default
  * - User can override comment markers via options.commentMarkers parameter
  *
+ * CSV Quoting:
+ * - Follows RFC 4180: quoted fields may contain delimiters, newlines and `""` escapes
+ * - Quote character defaults to `"` and can be overridden via options.quoteChar
+ *
+ * JSON:
+ * - options.jsonPath selects a nested array to tabulate (see {@link findJSONArrays})
+ * - Nested objects are flattened into dot-notation columns up to options.flattenDepth levels
+ *
+ * JSON Lines:
+ * - Each line is one record; headers are the union of keys across all records
+ * - Invalid lines are skipped and reported in a warning naming their line numbers
+ *
+ * Excel (XLSX):
+ * - options.sheet and options.range select the cells to read (see {@link findWorksheets})
+ * - Cells formatted as dates become ISO 8601 text
+ *
+ * Markdown, HTML and LaTeX documents:
+ * - options.table selects a pipe table, `<table>` element or `tabular` environment (see {@link findDocumentTables})
+ *
+ * Parquet and Arrow:
+ * - Column types come from the schema stored in the file
+ * - Row groups or record batches are read one at a time until options.maxRows rows are collected
+ * - Called from {@link parseDataFileStreaming}, progress, cancellation and partial-data hooks apply
+ *
+ * SQLite:
+ * - options.query selects the rows (see {@link findSQLiteTables}); only SELECT queries run
+ * - The database is read into memory, so queries never change the file
+ *
  * @param uri - URI of the file to parse
  * @param options - Optional settings including delimiter override and comment markers
  * @returns Promise resolving to ParsedData or null if unsupported file type
@@ -39,40 +463,46 @@ export async function parseDataFile(
 	options?: ParseOptions,
 ): Promise<ParsedData | null> {
 	try {
-		const filePath = uri.fsPath;
-		const fileName = path.basename(filePath);
-		const fileExtension = path.extname(filePath).toLowerCase();
+		const fileName = path.basename(uri.fsPath);
+		const fileExtension = path.extname(fileName).toLowerCase();
 
-		// Read file content
-		const content = await fs.promises.readFile(filePath, "utf8");
+		// Parquet and Arrow files are read in ranges, a row group or record batch at a time
+		if (fileExtension === ".parquet") {
+			return await parseParquet(uri, fileName, options);
+		}
+		if (fileExtension === ".arrow" || fileExtension === ".feather") {
+			return await parseArrow(
+				uri,
+				fileName,
+				fileExtension.slice(1) as "arrow" | "feather",
+				options,
+			);
+		}
 
-		// Default comment markers: #, %, //
-		const commentMarkers = options?.commentMarkers ?? ["#", "%", "//"];
-
-		switch (fileExtension) {
-			case ".csv":
-				return parseCSV(content, fileName, commentMarkers);
-			case ".json":
-				return parseJSON(content, fileName);
-			case ".txt":
-			case ".dat":
-			case ".out":
-			case ".data":
-			case ".tab":
-				return parseDelimited(
-					content,
-					fileName,
-					fileExtension.slice(1) as "txt" | "dat" | "out" | "data" | "tab" | "tsv",
-					options?.delimiter,
-					commentMarkers,
-				);
-			case ".tsv":
-				// TSV files have tab delimiter by default
-				return parseDelimited(content, fileName, "tsv", options?.delimiter ?? "\t", commentMarkers);
-			default:
-				vscode.window.showErrorMessage(`Unsupported file type: ${fileExtension}`);
-				return null;
+		const content = await readFile(uri);
+		const compressed = compressedFileType(fileName);
+		if (compressed) {
+			return parseCompressed(
+				content,
+				fileName,
+				compressed.compression,
+				compressed.extension,
+				options,
+			);
+		}
+
+		// Binary formats
+		if (fileExtension === ".xlsx") {
+			return parseXLSX(content, fileName, options);
+		}
+		if (SQLITE_EXTENSIONS.includes(fileExtension)) {
+			return await parseSQLite(content, fileName, options);
 		}
+		if (fileExtension === ".npy" || fileExtension === ".npz") {
+			return await parseNumPy(content, fileName, fileExtension.slice(1) as "npy" | "npz", options);
+		}
+
+		return parseText(content, fileName, fileExtension, options);
 	} catch (_error) {
 		vscode.window.showErrorMessage(`Error reading file: ${_error}`);
 		return null;
@@ -80,320 +510,2446 @@ export async function parseDataFile(
 }
 
 /**
- * Check if a line is a comment based on configured comment markers
+ * Parse text held in memory, such as an unsaved editor buffer or a selection,
+ * with the same parsers, delimiter and header detection as files.
  *
- * @param line - Line to check
- * @param commentMarkers - Array of comment marker strings
- * @returns true if line starts with any comment marker, false otherwise
+ * The format comes from the file name's extension, then the language;
+ * anything else (an untitled buffer, a log) is read as delimited text.
+ *
+ * @param source - Text to parse and the document it comes from
+ * @param options - Parse options, as for {@link parseDataFile}
+ * @returns ParsedData flagged with its text source, or null (after showing an error) if the text cannot be parsed
  */
-function isCommentLine(line: string, commentMarkers: string[]): boolean {
-	const trimmed = line.trim();
-	if (!trimmed) {
-		return false; // Empty lines are not comment lines
+export function parseDataText(source: TextSource, options?: ParseOptions): ParsedData | null {
+	try {
+		const extension = path.extname(source.fileName).toLowerCase();
+		const format =
+			isTextDataExtension(extension) || documentFormat(extension)
+				? extension
+				: (LANGUAGE_EXTENSIONS[source.languageId ?? ""] ?? ".txt");
+		const data = parseTextContent(source.text, source.fileName, format, options);
+		if (data) {
+			data.textSource = source.selection ? "selection" : "buffer";
+		}
+		return data;
+	} catch (_error) {
+		vscode.window.showErrorMessage(`Error parsing ${source.fileName}: ${_error}`);
+		return null;
 	}
-	return commentMarkers.some((marker) => trimmed.startsWith(marker));
 }
 
 /**
- * Detect delimiter for CSV files (comma or semicolon most common)
+ * Decode the contents of a text data file and parse them by its format.
  *
- * @param firstLine - First line of the file
- * @param sampleLines - Additional lines to check for consistency
- * @returns Detected delimiter (comma or semicolon)
+ * @param raw - File contents
+ * @param fileName - Name of the file being parsed
+ * @param fileExtension - Lower-case extension giving the format, e.g. `.csv`
+ * @param options - Parse options, including the text encoding
+ * @returns ParsedData with the encoding used, or null (after showing an error) for unsupported formats
  */
-function detectCSVDelimiter(firstLine: string, sampleLines: string[]): string {
-	const candidates = [",", ";"];
-	let bestDelimiter = ",";
-	let bestScore = -1;
-
-	for (const delimiter of candidates) {
-		const firstLineCount = (firstLine.match(new RegExp(`\\${delimiter}`, "g")) || []).length;
-		if (firstLineCount === 0) continue;
-
-		// Check consistency across sample lines
-		let consistentCount = 0;
-		for (let i = 1; i < sampleLines.length; i++) {
-			const lineCount = (sampleLines[i].match(new RegExp(`\\${delimiter}`, "g")) || []).length;
-			if (lineCount === firstLineCount) {
-				consistentCount++;
-			}
-		}
-
-		const score = firstLineCount * 10 + consistentCount;
-		if (score > bestScore) {
-			bestScore = score;
-			bestDelimiter = delimiter;
-		}
+function parseText(
+	raw: Buffer,
+	fileName: string,
+	fileExtension: string,
+	options?: ParseOptions,
+): ParsedData | null {
+	const { text: content, encoding } = decodeText(raw, options?.encoding);
+	const data = parseTextContent(content, fileName, fileExtension, options);
+	if (data) {
+		data.encoding = encoding;
 	}
-
-	return bestDelimiter;
+	return data;
 }
 
-function parseCSV(
+function parseTextContent(
 	content: string,
 	fileName: string,
-	commentMarkers: string[] = ["#", "%", "//"],
-): ParsedData {
-	const lines = content.trim().split("\n");
-	if (lines.length === 0) {
-		throw new Error("File is empty");
+	fileExtension: string,
+	options?: ParseOptions,
+): ParsedData | null {
+	const format = documentFormat(fileExtension);
+	if (format) {
+		return parseDocumentTable(content, fileName, format, options);
 	}
-
-	// Filter out comment lines and empty lines
-	const nonCommentLines = lines.filter((line) => {
-		const trimmed = line.trim();
-		return trimmed && !isCommentLine(line, commentMarkers);
-	});
-
-	if (nonCommentLines.length === 0) {
-		throw new Error("File contains only comments or empty lines");
+	const logParser = createLogParser(fileName, fileExtension, options);
+	if (logParser) {
+		return reportWarnings(parseLines(logParser, content));
 	}
+	switch (fileExtension) {
+		case ".csv":
+			return parseCSV(content, fileName, options);
+		case ".json":
+			return parseJSON(content, fileName, options);
+		case ".jsonl":
+		case ".ndjson":
+			return reportWarnings(
+				parseJSONLines(content, fileName, fileExtension.slice(1) as JSONLinesFileType, options),
+			);
+		case ".txt":
+		case ".dat":
+		case ".out":
+		case ".data":
+		case ".tab":
+		case ".log":
+			return parseDelimited(
+				content,
+				fileName,
+				fileExtension.slice(1) as DelimitedFileType,
+				options,
+			);
+		case ".tsv":
+			// TSV files have tab delimiter by default
+			return parseDelimited(content, fileName, "tsv", options);
+		default:
+			vscode.window.showErrorMessage(`Unsupported file type: ${fileExtension}`);
+			return null;
+	}
+}
 
-	// Detect delimiter for CSV files (comma or semicolon are most common)
-	const delimiter = detectCSVDelimiter(nonCommentLines[0], nonCommentLines.slice(0, 6));
-
-	// Parse CSV with detected delimiter
-	const firstRowData = parseCSVLine(nonCommentLines[0], delimiter);
-	let headers: string[];
-	let dataStartIndex = 0;
-
-	// If only one column detected, treat it as data (list) rather than a header
-	if (firstRowData.length === 1) {
-		headers = ["Column 1"];
-		dataStartIndex = 0;
+/**
+ * Decompress a gzip or bzip2 file, or one data file of a ZIP archive, and
+ * parse the text inside by its own extension.
+ *
+ * @param raw - Contents of the file
+ * @param fileName - Name of the file being parsed
+ * @param compression - Compression from the file's last extension
+ * @param extension - Extension of the compressed data (gzip and bzip2)
+ * @param options - Parse options, including the ZIP entry to read
+ * @returns ParsedData with the compression and entry read, or null for unsupported formats
+ * @throws Error if the data cannot be decompressed or is not a text format
+ */
+function parseCompressed(
+	raw: Buffer,
+	fileName: string,
+	compression: Compression,
+	extension: string,
+	options: ParseOptions = {},
+): ParsedData | null {
+	let content: Buffer;
+	let entry: string | undefined;
+	if (compression === "zip") {
+		const entries = dataEntries(raw);
+		const selected = options.entry
+			? entries.find((candidate) => candidate.name === options.entry)
+			: entries[0];
+		if (!selected) {
+			throw new Error(
+				options.entry ? `No entry named ${options.entry}` : "Archive has no data files",
+			);
+		}
+		content = extractZipEntry(raw, selected);
+		entry = selected.name;
+		extension = path.extname(entry).toLowerCase();
 	} else {
-		// Check if first line looks like headers (non-numeric)
-		const hasHeaders = firstRowData.some((item) => Number.isNaN(Number(item)) && item !== "");
-
-		if (hasHeaders) {
-			headers = firstRowData;
-			dataStartIndex = 1;
-		} else {
-			// All numeric - generate column headers
-			headers = firstRowData.map((_, index) => `Column ${index + 1}`);
-			dataStartIndex = 0;
+		if (!isTextDataExtension(extension)) {
+			throw new Error(`Unsupported compressed file type: ${extension || "no extension"}`);
 		}
+		content = decompress(raw, compression);
 	}
 
-	const rows: (string | number)[][] = [];
-
-	for (let i = dataStartIndex; i < nonCommentLines.length; i++) {
-		if (nonCommentLines[i].trim()) {
-			const raw = parseCSVLine(nonCommentLines[i], delimiter);
-			const coerced = raw.map((v) => {
-				const n = Number(v);
-				return !Number.isNaN(n) && v !== "" ? n : v;
-			});
-			rows.push(coerced);
+	const data = parseText(content, fileName, extension, options);
+	if (data) {
+		data.compression = compression;
+		if (entry) {
+			data.entry = entry;
 		}
 	}
-
-	return {
-		headers,
-		rows,
-		fileName,
-		fileType: "csv",
-		totalRows: rows.length,
-		detectedDelimiter: delimiter,
-	};
+	return data;
 }
 
-function parseCSVLine(line: string, delimiter = ","): string[] {
-	const result: string[] = [];
-	let current = "";
-	let inQuotes = false;
-
-	for (let i = 0; i < line.length; i++) {
-		const char = line[i];
+/**
+ * Parse a data file incrementally, reading text formats line by line.
+ *
+ * CSV, JSON Lines and delimited text files, plain or gzip/bzip2 compressed, are
+ * streamed from disk so that very large files never have to fit in memory;
+ * files of remote and virtual workspaces are read whole first (see
+ * {@link readFile}) and then parsed as a stream. Reading stops early when
+ * `options.maxRows` rows have been collected or `options.token` is
+ * cancelled; the result is then flagged as `truncated`. Other formats fall
+ * back to {@link parseDataFile}, which passes the hooks on to the Parquet,
+ * Arrow and NumPy readers; JSON, Excel and ZIP files are read whole.
+ *
+ * @param uri - URI of the file to parse
+ * @param options - Parse options plus progress, cancellation and partial-data hooks
+ * @returns Promise resolving to ParsedData or null if the file could not be parsed
+ */
+export async function parseDataFileStreaming(
+	uri: vscode.Uri,
+	options: StreamingParseOptions = {},
+): Promise<ParsedData | null> {
+	const fileName = path.basename(uri.fsPath);
+	const compressed = compressedFileType(fileName);
 
-		if (char === '"') {
-			inQuotes = !inQuotes;
-		} else if (char === delimiter && !inQuotes) {
-			result.push(current.trim());
-			current = "";
-		} else {
-			current += char;
+	try {
+		// ZIP archives need their central directory, so they are read whole
+		const parser =
+			compressed?.compression === "zip"
+				? undefined
+				: createLineParser(
+						fileName,
+						compressed ? compressed.extension : path.extname(fileName).toLowerCase(),
+						options,
+					);
+		if (!parser) {
+			return await parseDataFile(uri, options);
 		}
-	}
-
-	result.push(current.trim());
-	return result;
-}
+		const compression = compressed?.compression as "gzip" | "bzip2" | undefined;
 
-function parseJSON(content: string, fileName: string): ParsedData {
-	try {
-		const jsonData = JSON.parse(content);
+		// Local files are streamed from disk; others can only be read whole
+		const local = uri.scheme === "file";
+		const content = local ? uri.fsPath : await readFile(uri);
+		const size = local ? (await fs.promises.stat(uri.fsPath)).size : content.length;
+		let bytesRead = 0;
+		const decoder = new TextDecodingStream(options.encoding);
+		const stream = pipeline(
+			createDecompressedReadStream(content, compression, (read) => {
+				bytesRead = read;
+				options.onProgress?.(bytesRead, size);
+			}),
+			decoder,
+			() => {},
+		);
+		const withSource = (data: ParsedData): ParsedData => {
+			const decoded = { ...data, encoding: decoder.encoding };
+			return compression ? { ...decoded, compression } : decoded;
+		};
 
-		if (Array.isArray(jsonData)) {
-			// Array of objects
-			if (jsonData.length > 0 && typeof jsonData[0] === "object") {
-				const headers = Object.keys(jsonData[0]);
-				const rows = jsonData.map((obj) => headers.map((header) => obj[header]));
-
-				return {
-					headers,
-					rows,
-					fileName,
-					fileType: "json",
-					totalRows: rows.length,
-				};
-			} else {
-				// Array of primitives
-				return {
-					headers: ["Value"],
-					rows: jsonData.map((item) => [item]),
-					fileName,
-					fileType: "json",
-					totalRows: jsonData.length,
-				};
+		const lines = readline.createInterface({ input: stream, crlfDelay: Number.POSITIVE_INFINITY });
+		const partialRows = options.partialRows ?? 150;
+		let partialSent = !options.onPartialData;
+		try {
+			for await (const line of lines) {
+				if (options.token?.isCancellationRequested) {
+					parser.markTruncated();
+					break;
+				}
+				if (!parser.pushLine(line)) {
+					break;
+				}
+				// Only worth a partial update when a substantial part of the file is still unread
+				if (!partialSent && parser.rowCount >= partialRows && bytesRead < size) {
+					partialSent = true;
+					options.onPartialData?.(withSource(parser.snapshot()));
+				}
 			}
-		} else if (typeof jsonData === "object" && jsonData !== null) {
-			// Single object
-			const headers = Object.keys(jsonData);
-			const rows = [headers.map((header) => jsonData[header])];
-
-			return {
-				headers,
-				rows,
-				fileName,
-				fileType: "json",
-				totalRows: 1,
-			};
-		} else {
-			throw new Error("JSON format not supported for tabular display");
+		} finally {
+			lines.close();
+			stream.destroy();
 		}
+
+		return reportWarnings(withSource(parser.finish()));
 	} catch (_error) {
-		throw new Error(`Invalid JSON: ${_error}`);
+		vscode.window.showErrorMessage(`Error reading file: ${_error}`);
+		return null;
 	}
 }
 
 /**
- * Parse delimited text files (TXT, DAT, TSV, TAB, OUT, DATA)
- *
- * Features:
- * - Auto-detects delimiter from common candidates: comma, pipe, semicolon, colon, tab, space
- * - Scores delimiters by column count and consistency across first 6 lines
- * - Allows user override of delimiter via options parameter
- * - Fallback to comma delimiter if no multi-column delimiter detected
- * - Auto-detects headers vs numeric data in first line
- * - Filters out comment lines based on configured markers
+ * Stream-parse a data file, showing a cancellable progress notification for large files.
  *
- * @param content - File content as string
- * @param fileName - Name of the file being parsed
- * @param fileType - Type of file (txt, dat, tsv, tab, out, data)
- * @param overrideDelimiter - Optional delimiter to use instead of auto-detection
- * @param commentMarkers - Array of comment marker strings (default: ['#', '%', '//'])
- * @returns ParsedData object with headers, rows, and detected delimiter
+ * @param uri - URI of the file to parse
+ * @param options - Streaming parse options
+ * @returns Promise resolving to ParsedData or null if the file could not be parsed
  */
-function parseDelimited(
-	content: string,
-	fileName: string,
-	fileType: "txt" | "dat" | "tsv" | "tab" | "out" | "data",
-	overrideDelimiter?: string,
-	commentMarkers: string[] = ["#", "%", "//"],
-): ParsedData {
-	const lines = content.trim().split("\n");
-	if (lines.length === 0) {
-		throw new Error("File is empty");
+export async function parseDataFileWithProgress(
+	uri: vscode.Uri,
+	options: StreamingParseOptions = {},
+): Promise<ParsedData | null> {
+	let size = 0;
+	try {
+		size = (await vscode.workspace.fs.stat(uri)).size;
+	} catch {
+		// Let the parser surface the read error
+	}
+	if (size < PROGRESS_THRESHOLD_BYTES) {
+		return parseDataFileStreaming(uri, options);
 	}
 
-	// Filter out comment lines and empty lines
-	const nonCommentLines = lines.filter((line) => {
-		const trimmed = line.trim();
-		return trimmed && !isCommentLine(line, commentMarkers);
-	});
+	return vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Notification,
+			title: `Loading ${path.basename(uri.fsPath)}`,
+			cancellable: true,
+		},
+		async (progress, token) => {
+			let reported = 0;
+			return parseDataFileStreaming(uri, {
+				...options,
+				token,
+				onProgress: (bytesRead, totalBytes) => {
+					const percent = Math.floor((bytesRead / totalBytes) * 100);
+					if (percent > reported) {
+						progress.report({ increment: percent - reported, message: `${percent}%` });
+						reported = percent;
+					}
+					options.onProgress?.(bytesRead, totalBytes);
+				},
+			});
+		},
+	);
+}
 
-	if (nonCommentLines.length === 0) {
-		throw new Error("File contains only comments or empty lines");
-	}
-
-	// Detect delimiter among common candidates unless override provided
-	const firstLine = nonCommentLines[0];
-	let delimiter = overrideDelimiter ?? "";
-	if (!delimiter) {
-		// Candidates cover all common delimiters: comma, pipe, semicolon, colon, tab, space
-		const candidates = [",", "|", ";", ":", "\t", " "];
-		let best = ",";
-		let bestScore = -1;
-		for (const cand of candidates) {
-			const parts = firstLine.split(cand);
-			if (parts.length <= 1) {
-				continue;
-			}
-			// Score by column count and consistency with next few lines
-			let consistent = 0;
-			const expected = parts.length;
-			for (let i = 1; i < Math.min(6, nonCommentLines.length); i++) {
-				if (nonCommentLines[i].split(cand).length === expected) {
-					consistent++;
-				}
-			}
-			const score = expected * 10 + consistent;
-			if (score > bestScore) {
-				bestScore = score;
-				best = cand;
-			}
-		}
-		// Fallback to comma if no delimiter produces multiple columns
-		delimiter = best;
-	}
+/**
+ * List the tables and views of a SQLite database.
+ *
+ * @param uri - URI of a `.sqlite`, `.sqlite3` or `.db` file
+ * @returns Tables, then views, each sorted by name
+ * @throws Error if the file cannot be read or is not a SQLite database
+ */
+export async function findSQLiteTables(uri: vscode.Uri): Promise<SQLiteTable[]> {
+	return listSQLiteTables(await readFile(uri));
+}
 
-	// Assume first line contains headers or generate them
-	const firstRowData = firstLine.split(delimiter).map((item) => item.trim());
-	let headers: string[];
-	let dataStartIndex = 0;
+/**
+ * Queries saved for a SQLite database in the `vsplot.savedQueries` setting.
+ *
+ * @param uri - Database file
+ * @returns Saved queries, most recently saved first
+ */
+export function getSavedQueries(uri: vscode.Uri): string[] {
+	const cfg = vscode.workspace.getConfiguration("vsplot");
+	const saved = cfg.get<Record<string, string[]>>("savedQueries", {});
+	const queries = saved[vscode.workspace.asRelativePath(uri, false)];
+	return Array.isArray(queries) ? queries.filter((query) => typeof query === "string") : [];
+}
 
-	if (firstRowData.length === 1) {
-		// Heuristic: decide whether the first line is a header or actual data.
-		// Treat it as a header only if it matches common header keywords (case-insensitive)
-		// and there are additional data lines. This avoids misclassifying pure data lists
-		// (e.g., Value1, Value2...) as having a header.
-		const headerCandidates = new Set(["value", "values", "name", "id", "item", "label", "key"]);
-		const firstLower = String(firstRowData[0]).trim().toLowerCase();
-		if (
-			nonCommentLines.length > 1 &&
-			Number.isNaN(Number(firstRowData[0])) &&
-			firstRowData[0] !== "" &&
-			headerCandidates.has(firstLower)
-		) {
-			headers = firstRowData;
-			dataStartIndex = 1;
-		} else {
-			headers = ["Column 1"];
-			dataStartIndex = 0;
-		}
-	} else {
-		// Check if first line looks like headers (non-numeric)
-		const hasHeaders = firstRowData.some((item) => Number.isNaN(Number(item)) && item !== "");
+/**
+ * Remember a query for a SQLite database in the `vsplot.savedQueries`
+ * setting, keyed by workspace-relative path.
+ *
+ * @param uri - Database file
+ * @param query - Query to save; saving it again moves it to the top
+ */
+export async function saveQuery(uri: vscode.Uri, query: string): Promise<void> {
+	const cfg = vscode.workspace.getConfiguration("vsplot");
+	const saved = { ...cfg.get<Record<string, string[]>>("savedQueries", {}) };
+	const key = vscode.workspace.asRelativePath(uri, false);
+	const text = query.trim();
+	saved[key] = [text, ...getSavedQueries(uri).filter((existing) => existing !== text)];
+	const target = vscode.workspace.workspaceFolders?.length
+		? vscode.ConfigurationTarget.Workspace
+		: vscode.ConfigurationTarget.Global;
+	await cfg.update("savedQueries", saved, target);
+}
 
-		if (hasHeaders) {
-			headers = firstRowData;
-			dataStartIndex = 1;
-		} else {
-			headers = firstRowData.map((_, index) => `Column ${index + 1}`);
-			dataStartIndex = 0;
-		}
-	}
+/**
+ * List the data files of a ZIP archive that can be shown as a table.
+ *
+ * @param uri - URI of a `.zip` file
+ * @returns Entries in archive order
+ * @throws Error if the file cannot be read or is not a ZIP archive
+ */
+export async function findArchiveEntries(uri: vscode.Uri): Promise<ZipEntry[]> {
+	return dataEntries(await readFile(uri));
+}
 
-	const rows: (string | number)[][] = [];
-	for (let i = dataStartIndex; i < nonCommentLines.length; i++) {
-		if (nonCommentLines[i].trim()) {
-			const rowData = nonCommentLines[i].split(delimiter).map((item) => {
-				const trimmed = item.trim();
-				// Try to convert to number if possible
-				const num = Number(trimmed);
-				return !Number.isNaN(num) && trimmed !== "" ? num : trimmed;
-			});
-			rows.push(rowData);
-		}
+function dataEntries(archive: Buffer): ZipEntry[] {
+	return readZipEntries(archive).filter((entry) =>
+		isTextDataExtension(path.extname(entry.name).toLowerCase()),
+	);
+}
+
+/**
+ * List the arrays of a NumPy `.npz` archive.
+ *
+ * @param uri - URI of a `.npz` file
+ * @returns Arrays in archive order, with their dtype and shape
+ * @throws Error if the file cannot be read or an array header is invalid
+ */
+export async function findNumPyArrays(uri: vscode.Uri): Promise<NpzArrayInfo[]> {
+	return listNpzArrays(await readFile(uri));
+}
+
+/**
+ * List the tables of a Markdown, HTML or LaTeX document.
+ *
+ * @param uri - URI of a `.md`, `.markdown`, `.html`, `.htm` or `.tex` file
+ * @returns Tables in document order; the first is table 1
+ * @throws Error if the file cannot be read
+ */
+export async function findDocumentTables(uri: vscode.Uri): Promise<DocumentTable[]> {
+	const format = documentFormat(path.extname(uri.fsPath).toLowerCase());
+	if (!format) {
+		return [];
 	}
+	return extractDocumentTables(decodeText(await readFile(uri)).text, format);
+}
 
-	return {
-		headers,
-		rows,
+/**
+ * List the worksheets of an Excel workbook.
+ *
+ * @param uri - URI of an `.xlsx` file
+ * @returns Worksheets in tab order, with the used range Excel recorded for each
+ * @throws Error if the file cannot be read or is not a workbook
+ */
+export async function findWorksheets(uri: vscode.Uri): Promise<WorksheetInfo[]> {
+	return listWorksheets(await readFile(uri));
+}
+
+/**
+ * Parse options configured in the `vsplot` settings section.
+ *
+ * @param uri - File about to be parsed, to include the column layout saved for it
+ * @returns Options to merge into calls made on behalf of the user
+ */
+export function getConfiguredParseOptions(uri?: vscode.Uri): ParseOptions {
+	const cfg = vscode.workspace.getConfiguration("vsplot");
+	return {
+		flattenDepth: cfg.get<number>("jsonFlattenDepth", DEFAULT_FLATTEN_DEPTH),
+		missingValues: cfg.get<string[]>("missingValues", DEFAULT_MISSING_VALUES),
+		numberFormat: cfg.get<NumberFormat>("numberFormat", "auto"),
+		logPatterns: cfg.get<Record<string, string>>("logPatterns", {}),
+		columnBoundaries: uri ? getSavedColumnBoundaries(cfg, uri) : undefined,
+	};
+}
+
+/**
+ * Remember the fixed-width column layout of a file in the
+ * `vsplot.fixedWidthColumns` setting, keyed by workspace-relative path.
+ *
+ * @param uri - File the layout belongs to
+ * @param boundaries - Column start offsets, or undefined to forget the layout
+ */
+export async function saveColumnBoundaries(
+	uri: vscode.Uri,
+	boundaries: number[] | undefined,
+): Promise<void> {
+	const cfg = vscode.workspace.getConfiguration("vsplot");
+	const saved = { ...cfg.get<Record<string, number[]>>("fixedWidthColumns", {}) };
+	const key = vscode.workspace.asRelativePath(uri, false);
+	if (boundaries) {
+		saved[key] = normalizeColumnBoundaries(boundaries);
+	} else {
+		delete saved[key];
+	}
+	const target = vscode.workspace.workspaceFolders?.length
+		? vscode.ConfigurationTarget.Workspace
+		: vscode.ConfigurationTarget.Global;
+	await cfg.update("fixedWidthColumns", saved, target);
+}
+
+function getSavedColumnBoundaries(
+	cfg: vscode.WorkspaceConfiguration,
+	uri: vscode.Uri,
+): number[] | undefined {
+	const saved = cfg.get<Record<string, number[]>>("fixedWidthColumns", {});
+	const boundaries = saved[vscode.workspace.asRelativePath(uri, false)];
+	return Array.isArray(boundaries) ? normalizeColumnBoundaries(boundaries) : undefined;
+}
+
+/**
+ * List the arrays in a JSON file that could be tabulated.
+ *
+ * The root is included when it is itself an array. Arrays are searched
+ * through nested objects only, not inside other arrays.
+ *
+ * @param uri - URI of a `.json` file
+ * @returns Candidate arrays in document order
+ * @throws Error if the file cannot be read or is not valid JSON
+ */
+export async function findJSONArrays(uri: vscode.Uri): Promise<JSONArrayCandidate[]> {
+	const { text: content } = decodeText(await readFile(uri));
+	const candidates: JSONArrayCandidate[] = [];
+	collectJSONArrays(JSON.parse(content), "$", 0, candidates);
+	return candidates;
+}
+
+function collectJSONArrays(
+	value: unknown,
+	jsonPath: string,
+	depth: number,
+	candidates: JSONArrayCandidate[],
+) {
+	if (Array.isArray(value)) {
+		candidates.push({ path: jsonPath, length: value.length });
+		return;
+	}
+	if (!isPlainObject(value) || depth >= MAX_ARRAY_SEARCH_DEPTH) {
+		return;
+	}
+	for (const [key, child] of Object.entries(value)) {
+		collectJSONArrays(child, appendJSONPathKey(jsonPath, key), depth + 1, candidates);
+	}
+}
+
+function appendJSONPathKey(jsonPath: string, key: string): string {
+	return /^[A-Za-z_$][\w$]*$/.test(key)
+		? `${jsonPath}.${key}`
+		: `${jsonPath}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Resolve a JSONPath-style selector against a parsed document.
+ *
+ * Supports `$`, `.key`, `["key"]` and `[index]` segments.
+ *
+ * @throws Error if the selector is malformed or does not match
+ */
+function selectJSONPath(root: unknown, jsonPath: string): unknown {
+	const segment = /\.([A-Za-z_$][\w$]*)|\[(\d+)\]|\[("(?:[^"\\]|\\.)*")\]/y;
+	let value = root;
+	let position = jsonPath.startsWith("$") ? 1 : 0;
+	while (position < jsonPath.length) {
+		segment.lastIndex = position;
+		const match = segment.exec(jsonPath);
+		if (!match) {
+			throw new Error(`Invalid JSON path "${jsonPath}" at position ${position}`);
+		}
+		position = segment.lastIndex;
+		const key = match[1] ?? (match[2] !== undefined ? Number(match[2]) : JSON.parse(match[3]));
+		if (value === null || typeof value !== "object" || !(key in value)) {
+			throw new Error(`JSON path "${jsonPath}" not found`);
+		}
+		value = (value as Record<string | number, unknown>)[key];
+	}
+	return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Flatten nested objects into dot-notation keys (`user.address.city`).
+ *
+ * Objects nested deeper than `depth` levels and all arrays are kept as
+ * JSON text so the table never shows `[object Object]`.
+ *
+ * @param record - Object to flatten
+ * @param depth - Number of nested object levels to flatten
+ * @returns New object with flattened keys
+ */
+function flattenRecord(record: Record<string, unknown>, depth: number): Record<string, unknown> {
+	const flat: Record<string, unknown> = {};
+	const visit = (value: Record<string, unknown>, prefix: string, level: number) => {
+		for (const [key, child] of Object.entries(value)) {
+			const name = prefix + key;
+			if (isPlainObject(child) && level < depth && Object.keys(child).length > 0) {
+				visit(child, `${name}.`, level + 1);
+			} else if (child !== null && typeof child === "object") {
+				flat[name] = JSON.stringify(child);
+			} else {
+				flat[name] = child;
+			}
+		}
+	};
+	visit(record, "", 0);
+	return flat;
+}
+
+/**
+ * Build table columns and rows from (flattened) JSON records.
+ *
+ * Headers are the union of keys across all records in order of first
+ * appearance; keys missing from a record become explicit nulls. When the
+ * records do not all share the same key set, each distinct set is reported
+ * with the number of records that have it.
+ *
+ * @param records - Records to tabulate
+ * @returns Headers, rows and, for heterogeneous records, the schema variants
+ */
+function tabulateRecords(
+	records: Record<string, unknown>[],
+): Pick<ParsedData, "headers" | "rows" | "schemaVariants"> {
+	const headerSet = new Set<string>();
+	const variants = new Map<string, { keys: Set<string>; count: number }>();
+	for (const record of records) {
+		const keys = Object.keys(record);
+		for (const key of keys) {
+			headerSet.add(key);
+		}
+		const signature = JSON.stringify([...keys].sort());
+		const variant = variants.get(signature);
+		if (variant) {
+			variant.count++;
+		} else {
+			variants.set(signature, { keys: new Set(keys), count: 1 });
+		}
+	}
+
+	const headers = [...headerSet];
+	const rows = records.map((record) =>
+		headers.map((header) => (header in record ? record[header] : null)),
+	) as (string | number | null)[][];
+	if (variants.size <= 1) {
+		return { headers, rows };
+	}
+	const schemaVariants = [...variants.values()]
+		.map(({ keys, count }) => ({ keys: headers.filter((header) => keys.has(header)), count }))
+		.sort((a, b) => b.count - a.count);
+	return { headers, rows, schemaVariants };
+}
+
+/**
+ * Infer the type of each column from its values.
+ *
+ * Empty and null cells are counted but ignored for inference. A column is
+ * integer or float when every value is numeric, boolean when every value is
+ * true/false, datetime when every value is a recognised date, categorical
+ * when a text column repeats a small set of values, and string otherwise.
+ *
+ * @param headers - Column names
+ * @param rows - Data rows
+ * @param columnTypes - Types to use instead of the inferred ones, keyed by header
+ * @param numberFormat - Separators of numeric text in the rows
+ * @param declaredTypes - Types stored in the file itself, used instead of inference
+ * @returns One schema entry per header
+ */
+export function inferColumnSchema(
+	headers: string[],
+	rows: unknown[][],
+	columnTypes: Record<string, ColumnType> = {},
+	numberFormat: "dot" | "comma" = "dot",
+	declaredTypes: Record<string, ColumnType> = {},
+): ColumnSchema[] {
+	return headers.map((name, index) => {
+		let nullCount = 0;
+		for (const row of rows) {
+			if (isMissingValue(row[index])) {
+				nullCount++;
+			}
+		}
+		const override = columnTypes[name];
+		if (override) {
+			return { name, type: override, nullCount, overridden: true };
+		}
+		const type = declaredTypes[name] ?? inferColumnType(rows, index, numberFormat);
+		return { name, type, nullCount };
+	});
+}
+
+function isMissingValue(value: unknown): boolean {
+	return value === null || value === undefined || value === "";
+}
+
+/**
+ * Read a number written with thousands separators, a percent sign, a
+ * currency symbol or a Fortran `D` exponent.
+ *
+ * Percentages keep their written value (`45%` is 45).
+ *
+ * @param value - Cell text
+ * @param numberFormat - Decimal separator convention of the text
+ * @returns The number, or NaN when the text is not numeric
+ */
+function parseNumber(value: string, numberFormat: "dot" | "comma" = "dot"): number {
+	const text = value.trim();
+	if (text === "") {
+		return Number.NaN;
+	}
+	if (numberFormat === "dot") {
+		const n = Number(text);
+		if (!Number.isNaN(n)) {
+			return n;
+		}
+	}
+	const core = text.replace(/\s*%$/, "").replace(CURRENCY_PATTERN, "");
+	// Currency may also sit between the sign and the digits, e.g. "-$5"
+	const signed = core.replace(/^([+-])\s*[$€£¥₹]\s*/, "$1");
+	const pattern = numberFormat === "comma" ? COMMA_NUMBER_PATTERN : DOT_NUMBER_PATTERN;
+	if (!/\d/.test(signed) || !pattern.test(signed)) {
+		return Number.NaN;
+	}
+	const normalized =
+		numberFormat === "comma"
+			? signed.replace(/[.'\s\u00a0\u202f]/g, "").replace(",", ".")
+			: signed.replace(/[,']/g, "");
+	return Number(normalized.replace(/[dD]/, "e"));
+}
+
+function isNumericText(value: string, numberFormat: "dot" | "comma" = "dot"): boolean {
+	return !Number.isNaN(parseNumber(value, numberFormat));
+}
+
+/**
+ * Decide whether numeric text in a sample uses a decimal comma.
+ *
+ * Only unambiguous values vote: `1,5` or `1.234,56` for comma, `1.5` or
+ * `1,234.56` for dot. A lone group such as `1,234` could be either.
+ *
+ * @param values - Sample cell texts
+ * @returns The convention with more votes, `dot` on a tie
+ */
+function detectNumberFormat(values: Iterable<string>): "dot" | "comma" {
+	let comma = 0;
+	let dot = 0;
+	for (const value of values) {
+		const text = value
+			.trim()
+			.replace(/\s*%$/, "")
+			.replace(CURRENCY_PATTERN, "")
+			.replace(/^[+-]/, "");
+		if (/^\d+,(?:\d{1,2}|\d{4,})$/.test(text) || /^\d{1,3}(?:\.\d{3})+(?:,\d*)?$/.test(text)) {
+			// "1,5" or "1.234,56"; "1.234.567" also only reads as grouped thousands
+			if (text.includes(",") || /\..*\./.test(text)) {
+				comma++;
+			}
+		} else if (
+			/^\d*\.(?:\d{1,2}|\d{4,})$/.test(text) ||
+			/^\d{1,3}(?:,\d{3})+\.\d*$/.test(text) ||
+			/^\d{1,3}(?:,\d{3}){2,}$/.test(text)
+		) {
+			dot++;
+		}
+	}
+	return comma > dot ? "comma" : "dot";
+}
+
+/**
+ * Resolve the `numberFormat` option against the data.
+ *
+ * @param numberFormat - Configured format, `auto` or undefined to detect
+ * @param values - Sample cell texts used for detection
+ * @returns The convention to read numbers with
+ */
+function resolveNumberFormat(
+	numberFormat: NumberFormat | undefined,
+	values: () => Iterable<string>,
+): "dot" | "comma" {
+	return numberFormat === "dot" || numberFormat === "comma"
+		? numberFormat
+		: detectNumberFormat(values());
+}
+
+/**
+ * String cells of a table, used to detect the number format of JSON values.
+ */
+function* stringCells(rows: unknown[][]): Iterable<string> {
+	for (const row of rows) {
+		for (const value of row) {
+			if (typeof value === "string") {
+				yield value;
+			}
+		}
+	}
+}
+
+function isDateTimeText(value: string): boolean {
+	const text = value.trim();
+	return DATETIME_PATTERNS.some((pattern) => pattern.test(text)) && !Number.isNaN(Date.parse(text));
+}
+
+function inferColumnType(
+	rows: unknown[][],
+	index: number,
+	numberFormat: "dot" | "comma",
+): ColumnType {
+	let count = 0;
+	let numeric = true;
+	let integer = true;
+	let boolean = true;
+	let datetime = true;
+	const distinct = new Set<string>();
+
+	for (const row of rows) {
+		const value = row[index];
+		if (isMissingValue(value)) {
+			continue;
+		}
+		count++;
+		const text = typeof value === "string" ? value : undefined;
+		const n =
+			typeof value === "number" ? value : text ? parseNumber(text, numberFormat) : Number.NaN;
+		if (Number.isNaN(n)) {
+			numeric = false;
+		} else if (!Number.isInteger(n)) {
+			integer = false;
+		}
+		boolean &&=
+			typeof value === "boolean" || (text !== undefined && BOOLEAN_PATTERN.test(text.trim()));
+		datetime &&= text !== undefined && isDateTimeText(text);
+		if (distinct.size <= MAX_CATEGORY_COUNT) {
+			distinct.add(String(value));
+		}
+	}
+
+	if (count === 0) {
+		return "string";
+	}
+	if (numeric) {
+		return integer ? "integer" : "float";
+	}
+	if (boolean) {
+		return "boolean";
+	}
+	if (datetime) {
+		return "datetime";
+	}
+	return distinct.size <= MAX_CATEGORY_COUNT && distinct.size * 2 <= count
+		? "categorical"
+		: "string";
+}
+
+/**
+ * Replace missing-value tokens with null, in place.
+ *
+ * Used for JSON, where any string (or number such as -999) can be a token.
+ *
+ * @param data - Parse result whose rows are updated
+ * @param missingValues - Tokens to treat as missing
+ * @returns The same parse result
+ */
+function replaceMissingValues(
+	data: ParsedData,
+	missingValues = DEFAULT_MISSING_VALUES,
+): ParsedData {
+	const tokens = new Set(missingValues);
+	for (const row of data.rows) {
+		row.forEach((value, index) => {
+			if (value !== null && tokens.has(typeof value === "string" ? value.trim() : String(value))) {
+				row[index] = null;
+			}
+		});
+	}
+	return data;
+}
+
+/**
+ * Attach the column schema to a parse result and convert cells to match it.
+ *
+ * Numeric columns get numbers (numeric text such as JSON `"12"` is
+ * converted; with a user override, non-numeric cells become null). Columns
+ * overridden to string or categorical get text. Rows are updated in place.
+ *
+ * @param data - Parse result to complete
+ * @param columnTypes - Types to use instead of the inferred ones, keyed by header
+ * @param numberFormat - Separators of numeric text in the rows
+ * @param declaredTypes - Types stored in the file itself, used instead of inference
+ * @returns The same parse result with `columns` set
+ */
+function withColumnSchema(
+	data: ParsedData,
+	columnTypes?: Record<string, ColumnType>,
+	numberFormat: "dot" | "comma" = "dot",
+	declaredTypes?: Record<string, ColumnType>,
+): ParsedData {
+	const columns = inferColumnSchema(
+		data.headers,
+		data.rows,
+		columnTypes,
+		numberFormat,
+		declaredTypes,
+	);
+	columns.forEach((column, index) => {
+		const toNumber = column.type === "integer" || column.type === "float";
+		const toText = column.overridden && (column.type === "string" || column.type === "categorical");
+		if (!toNumber && !toText) {
+			return;
+		}
+		for (const row of data.rows) {
+			const value: unknown = row[index];
+			if (isMissingValue(value)) {
+				continue;
+			}
+			if (toText) {
+				row[index] = String(value);
+			} else if (typeof value !== "number") {
+				const n = parseNumber(String(value), numberFormat);
+				row[index] = Number.isNaN(n) ? null : n;
+			}
+		}
+	});
+	data.columns = columns;
+	return data;
+}
+
+/**
+ * Map a file extension to the text table format it is parsed as.
+ *
+ * @param fileExtension - Lower-case extension including the dot
+ * @returns Table type, or undefined for non-tabular-text formats such as JSON
+ */
+function getTextTableType(fileExtension: string): TextTableType | undefined {
+	switch (fileExtension) {
+		case ".csv":
+		case ".txt":
+		case ".dat":
+		case ".tsv":
+		case ".tab":
+		case ".out":
+		case ".data":
+		case ".log":
+			return fileExtension.slice(1) as TextTableType;
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Whether files with this extension are text that {@link parseText} reads,
+ * and so may be stored compressed.
+ */
+function isTextDataExtension(fileExtension: string): boolean {
+	return (
+		getTextTableType(fileExtension) !== undefined ||
+		[".json", ".jsonl", ".ndjson"].includes(fileExtension)
+	);
+}
+
+/**
+ * Create the line-fed parser for a file, if its format can be read line by line.
+ *
+ * @param fileName - Name of the file to parse
+ * @param fileExtension - Lower-case extension giving the format, e.g. `.csv`
+ * @param options - Parse options passed to the parser
+ * @returns Parser instance, or undefined for whole-document formats such as JSON
+ */
+function createLineParser(
+	fileName: string,
+	fileExtension: string,
+	options: ParseOptions,
+): LineTableParser | undefined {
+	const logParser = createLogParser(fileName, fileExtension, options);
+	if (logParser) {
+		return logParser;
+	}
+	if (fileExtension === ".jsonl" || fileExtension === ".ndjson") {
+		return new JSONLinesParser(fileName, fileExtension.slice(1) as JSONLinesFileType, options);
+	}
+	const tableType = getTextTableType(fileExtension);
+	return tableType ? new TextTableParser(fileName, tableType, options) : undefined;
+}
+
+/**
+ * Create the log parser for a file read as a log (see {@link ParseOptions.logFormat}).
+ *
+ * @param fileName - Name of the file to parse
+ * @param fileExtension - Lower-case extension giving the format, e.g. `.log`
+ * @param options - Parse options, including the log format and custom patterns
+ * @returns Parser instance, or undefined when the file is not read as a log
+ * @throws Error if the log format is unknown or a custom pattern is invalid
+ */
+function createLogParser(
+	fileName: string,
+	fileExtension: string,
+	options: ParseOptions = {},
+): LogParser | undefined {
+	const tableType = getTextTableType(fileExtension);
+	const format = options.logFormat ?? (fileExtension === ".log" ? "auto" : "none");
+	if (!tableType || tableType === "csv" || format === "none") {
+		return undefined;
+	}
+	return format === "auto"
+		? new LogParser(fileName, tableType, options, logPatterns(options.logPatterns))
+		: new LogParser(fileName, tableType, options, [], logPattern(format, options.logPatterns));
+}
+
+/**
+ * Show a warning for problems that were skipped while parsing.
+ *
+ * @param data - Parse result, returned unchanged
+ * @returns The same parse result
+ */
+function reportWarnings(data: ParsedData): ParsedData {
+	if (data.warnings?.length) {
+		const shown = data.warnings.slice(0, 3).join("; ");
+		const more = data.warnings.length > 3 ? ` (and ${data.warnings.length - 3} more)` : "";
+		vscode.window.showWarningMessage(
+			`${data.fileName}: skipped ${data.warnings.length} invalid line(s). ${shown}${more}`,
+		);
+	}
+	return data;
+}
+
+/**
+ * Check if a line is a comment based on configured comment markers
+ *
+ * @param line - Line to check
+ * @param commentMarkers - Array of comment marker strings
+ * @returns true if line starts with any comment marker, false otherwise
+ */
+function isCommentLine(line: string, commentMarkers: string[]): boolean {
+	const trimmed = line.trim();
+	if (!trimmed) {
+		return false; // Empty lines are not comment lines
+	}
+	return commentMarkers.some((marker) => trimmed.startsWith(marker));
+}
+
+/**
+ * Column names from one or more header rows. Empty cells of the upper rows take the
+ * name to their left, as a group name spans several columns, and each column's
+ * texts are joined with spaces.
+ *
+ * @param rows - Header rows, top first
+ * @returns One name per column
+ */
+function mergeHeaderRows(rows: string[][]): string[] {
+	if (rows.length === 1) {
+		return rows[0];
+	}
+	const width = Math.max(...rows.map((row) => row.length));
+	const filled = rows.map((row, rowIndex) => {
+		let group = "";
+		return Array.from({ length: width }, (_, index) => {
+			const cell = row[index] ?? "";
+			if (rowIndex === rows.length - 1) {
+				return cell;
+			}
+			group = cell || group;
+			return group;
+		});
+	});
+	return Array.from({ length: width }, (_, index) =>
+		filled
+			.map((row) => row[index])
+			.filter(Boolean)
+			.join(" "),
+	);
+}
+
+/**
+ * Number of fields on each line, split the way a dialect says.
+ *
+ * @param lines - Lines of text; a quoted field left open takes in the lines below it
+ * @param dialect - Delimiter and quote character to split with
+ * @returns Field count per line, 0 for lines inside an open quoted field
+ */
+function fieldCounts(lines: string[], dialect: Dialect): number[] {
+	const reader = new CSVRecordReader(dialect.delimiter, dialect.quoteChar ?? "");
+	return lines.map((line) => reader.pushLine(line)?.length ?? 0);
+}
+
+/**
+ * Share of lines with the most common field count.
+ *
+ * @param counts - Field count per line, from {@link fieldCounts}
+ * @returns A number from 0 to 1
+ */
+function consistency(counts: number[]): number {
+	const typical = mostCommon(counts);
+	return counts.filter((count) => count === typical).length / Math.max(1, counts.length);
+}
+
+/**
+ * Check whether space-separated lines are really aligned columns, i.e.
+ * splitting on single spaces does not give the same field count everywhere.
+ *
+ * @param sampleLines - First non-comment lines of the file
+ * @returns true when the sample should be read as fixed-width text
+ */
+function looksFixedWidth(sampleLines: string[]): boolean {
+	const counts = new Set(sampleLines.map((line) => line.split(" ").length));
+	return counts.size > 1 && inferColumnBoundaries(sampleLines).length > 1;
+}
+
+/**
+ * Infer fixed-width column boundaries from character positions that are
+ * blank on every line. Each run of positions holding text on some line is
+ * one column.
+ *
+ * The first line is left out when there are enough others, since headers are
+ * often aligned differently from the values below them.
+ *
+ * @param sampleLines - First non-comment lines of the file
+ * @returns Start offset of each column, the first always 0
+ */
+function inferColumnBoundaries(sampleLines: string[]): number[] {
+	const lines = sampleLines.length > 2 ? sampleLines.slice(1) : sampleLines;
+	const width = Math.max(...lines.map((line) => line.length));
+	const boundaries: number[] = [];
+	let inColumn = false;
+	for (let i = 0; i < width; i++) {
+		const blank = lines.every((line) => i >= line.length || /\s/.test(line[i]));
+		if (!blank && !inColumn) {
+			boundaries.push(i);
+		}
+		inColumn = !blank;
+	}
+	return normalizeColumnBoundaries(boundaries);
+}
+
+/**
+ * Sort and de-duplicate column boundaries and make the first column start at 0.
+ *
+ * @param boundaries - Column start offsets in any order
+ * @returns Ascending whole-number offsets starting with 0
+ */
+function normalizeColumnBoundaries(boundaries: number[]): number[] {
+	const starts = boundaries.filter((b) => Number.isInteger(b) && b > 0);
+	return [0, ...Array.from(new Set(starts)).sort((a, b) => a - b)];
+}
+
+/**
+ * Cut a line into trimmed fields at fixed column boundaries.
+ *
+ * @param line - Line of text
+ * @param boundaries - Start offset of each column
+ * @returns One field per column; the last column runs to the end of the line
+ */
+function sliceFixedWidth(line: string, boundaries: number[]): string[] {
+	return boundaries.map((start, index) => line.slice(start, boundaries[index + 1]).trim());
+}
+
+/**
+ * Parse CSV content (RFC 4180 quoting, delimiter and quote character sniffed)
+ *
+ * @param content - File content as string
+ * @param fileName - Name of the file being parsed
+ * @param options - Parse options (comment markers, quote character, row limit)
+ * @returns ParsedData object with headers, rows, and detected delimiter
+ */
+function parseCSV(content: string, fileName: string, options: ParseOptions = {}): ParsedData {
+	return parseLines(new TextTableParser(fileName, "csv", options), content);
+}
+
+/**
+ * Parse delimited text files (TXT, DAT, TSV, TAB, OUT, DATA)
+ *
+ * Features:
+ * - Sniffs the dialect (see {@link sniffDialect}): comma, semicolon, tab, pipe, colon or
+ *   whitespace runs, scored by field count consistency over the first 20 lines with quotes
+ *   taken into account
+ * - Allows user override of delimiter via options parameter
+ * - Fallback to comma delimiter if no multi-column delimiter detected
+ * - Auto-detects headers vs numeric data in first line
+ * - Quoted fields may contain the delimiter when the sample has quoted fields
+ * - Filters out comment lines based on configured markers
+ *
+ * @param content - File content as string
+ * @param fileName - Name of the file being parsed
+ * @param fileType - Type of file (txt, dat, tsv, tab, out, data)
+ * @param options - Parse options (delimiter override, comment markers, row limit)
+ * @returns ParsedData object with headers, rows, and detected delimiter
+ */
+function parseDelimited(
+	content: string,
+	fileName: string,
+	fileType: DelimitedFileType,
+	options: ParseOptions = {},
+): ParsedData {
+	return parseLines(new TextTableParser(fileName, fileType, options), content);
+}
+
+/**
+ * Parse JSON Lines content (JSONL, NDJSON): one JSON value per line
+ *
+ * @param content - File content as string
+ * @param fileName - Name of the file being parsed
+ * @param fileType - Type of file (jsonl, ndjson)
+ * @param options - Parse options (row limit)
+ * @returns ParsedData object with the union of keys as headers and any skipped lines as warnings
+ */
+function parseJSONLines(
+	content: string,
+	fileName: string,
+	fileType: JSONLinesFileType,
+	options: ParseOptions = {},
+): ParsedData {
+	return parseLines(new JSONLinesParser(fileName, fileType, options), content);
+}
+
+/**
+ * Feed whole-file content to a table parser line by line.
+ */
+function parseLines(parser: LineTableParser, content: string): ParsedData {
+	// Keep leading lines so record line numbers match the file
+	for (const line of content.trimEnd().split("\n")) {
+		if (!parser.pushLine(line)) {
+			break;
+		}
+	}
+	return parser.finish();
+}
+
+/**
+ * Line-fed parser shared by the whole-file and streaming paths for CSV and
+ * delimited text.
+ *
+ * The first non-comment lines are buffered until enough have been seen to
+ * sniff the dialect and header row; they are then replayed and every
+ * following line is parsed as it arrives.
+ */
+class TextTableParser implements LineTableParser {
+	private readonly commentMarkers: string[];
+	private readonly missingValues: Set<string>;
+	private readonly maxRows: number;
+	private readonly buffered: { text: string; lineNumber: number }[] = [];
+	private readonly sample: string[] = [];
+	private readonly rows: (string | number | null)[][] = [];
+	/** Line each row starts on, parallel to `rows` */
+	private readonly rowLines: number[] = [];
+	/** Physical lines of the record being read, kept to recover from an unterminated quote */
+	private readonly recordLines: { text: string; lineNumber: number }[] = [];
+	private readonly issues: ParseIssue[] = [];
+	private readonly blockNames: string[] = [];
+	/** Block of each row, as an index into `blockNames` */
+	private readonly rowBlocks: number[] = [];
+	private emptyLines = 0;
+	private blockComment?: string;
+	/** Rows read into the column names so far */
+	private readonly headerRecords: string[][] = [];
+	/** Key/value pairs read above the first data row */
+	private readonly metadata: Record<string, string> = {};
+	/** Unit of each column, once the row below the header has been looked at */
+	private units?: string[];
+	/** Row below the header that looks like units, until the next row confirms it */
+	private unitsCandidate?: { fields: string[]; lineNumber: number; quoted: boolean[] };
+	private skipRows: number;
+	private skippedRecords = 0;
+	private lineNumber = 0;
+	private delimiter?: string;
+	private dialect?: Dialect;
+	/** Quote character records are read with; empty for none */
+	private quoteChar = "";
+	/** Whether the first record holds column names, unless `headerRows` says otherwise */
+	private hasHeader = false;
+	private boundaries?: number[];
+	private numberFormat: "dot" | "comma" = "dot";
+	private reader?: CSVRecordReader;
+	private headers?: string[];
+	private truncated = false;
+
+	constructor(
+		private readonly fileName: string,
+		private readonly fileType: TextTableType,
+		private readonly options: ParseOptions,
+	) {
+		// Default comment markers: #, %, //
+		this.commentMarkers = options.commentMarkers ?? ["#", "%", "//"];
+		this.missingValues = new Set(options.missingValues ?? DEFAULT_MISSING_VALUES);
+		this.maxRows = options.maxRows ?? Number.POSITIVE_INFINITY;
+		this.skipRows = Math.max(0, options.skipRows ?? 0);
+	}
+
+	get rowCount(): number {
+		return this.rows.length;
+	}
+
+	/**
+	 * Consume one physical line.
+	 *
+	 * @param rawLine - Line content, with or without a trailing carriage return
+	 * @returns false once the row limit has been reached and no more input is needed
+	 */
+	pushLine(rawLine: string): boolean {
+		this.lineNumber++;
+		const line = rawLine.endsWith("\r") ? rawLine.slice(0, -1) : rawLine;
+
+		if (this.delimiter === undefined) {
+			this.buffered.push({ text: line, lineNumber: this.lineNumber });
+			if (line.trim() && !isCommentLine(line, this.commentMarkers)) {
+				// Lines skipped by the caller would only confuse detection
+				if (this.skippedRecords < this.skipRows) {
+					this.skippedRecords++;
+				} else {
+					this.sample.push(line);
+				}
+			}
+			if (this.sample.length >= SAMPLE_LINE_COUNT) {
+				this.flushSample();
+			}
+		} else {
+			this.consume(line, this.lineNumber);
+		}
+		return !this.truncated;
+	}
+
+	/** Stop accepting rows, e.g. after cancellation. */
+	markTruncated() {
+		this.truncated = true;
+	}
+
+	/** Rows parsed so far, flagged as a partial result; the parser's own rows are left as read. */
+	snapshot(): ParsedData {
+		const result = this.buildResult(this.rows.map((row) => row.slice()));
+		return { ...result, partial: true };
+	}
+
+	/**
+	 * Signal end of input and build the result.
+	 *
+	 * @throws Error if the file has no data lines
+	 */
+	finish(): ParsedData {
+		if (this.delimiter === undefined && !(this.truncated && this.sample.length === 0)) {
+			this.flushSample();
+		}
+		this.recoverOpenRecord();
+		// A lone row below the header cannot be confirmed as units
+		const candidate = this.unitsCandidate;
+		if (candidate) {
+			this.unitsCandidate = undefined;
+			this.units = [];
+			this.pushRow(candidate.fields, candidate.lineNumber, candidate.quoted);
+		}
+		return this.buildResult();
+	}
+
+	/**
+	 * Read a record left open at the end of the file again, with its opening quote
+	 * taken as text, so that the lines swallowed by the quote are not lost.
+	 */
+	private recoverOpenRecord() {
+		while (this.reader?.pending && !this.truncated) {
+			const [first, ...rest] = this.recordLines.splice(0);
+			this.addIssue({
+				kind: "unterminatedQuote",
+				line: first.lineNumber,
+				message: "Quoted field is never closed; the quote is read as text",
+			});
+			this.reader = new CSVRecordReader(this.delimiter as string, this.quoteChar);
+			// No quote character: every character is literal
+			const literal = new CSVRecordReader(this.delimiter as string, "");
+			this.addRecord(literal.pushLine(first.text) ?? [], first.lineNumber);
+			for (const { text, lineNumber } of rest) {
+				if (this.truncated) {
+					break;
+				}
+				this.consume(text, lineNumber);
+			}
+		}
+	}
+
+	private flushSample() {
+		if (this.sample.length === 0) {
+			throw new Error("File contains only comments or empty lines");
+		}
+		if (this.options.skipRows === undefined) {
+			this.skipRows = this.detectMetadataLines();
+			this.sample.splice(0, this.skipRows);
+		}
+		this.skippedRecords = 0;
+
+		const { delimiter, columnBoundaries } = this.options;
+		if (
+			this.fileType !== "csv" &&
+			(delimiter === FIXED_WIDTH_DELIMITER || (!delimiter && columnBoundaries))
+		) {
+			this.boundaries = columnBoundaries
+				? normalizeColumnBoundaries(columnBoundaries)
+				: inferColumnBoundaries(this.sample);
+		} else {
+			this.dialect = this.sniff(this.sample);
+			this.delimiter = this.dialect.delimiter;
+			// Aligned columns with empty cells or spaces in values split unevenly at whitespace
+			if (
+				this.fileType !== "csv" &&
+				!delimiter &&
+				this.delimiter === WHITESPACE_DELIMITER &&
+				new Set(fieldCounts(this.sample, this.dialect)).size > 1 &&
+				looksFixedWidth(this.sample)
+			) {
+				this.boundaries = inferColumnBoundaries(this.sample);
+			}
+		}
+		if (this.boundaries) {
+			this.dialect = undefined;
+			this.delimiter = FIXED_WIDTH_DELIMITER;
+		} else if (this.delimiter?.length === 1) {
+			// CSV keeps quoting on for records below the sample; other text only when the sample is quoted
+			const fallbackQuote = this.fileType === "csv" ? '"' : "";
+			this.quoteChar = this.options.quoteChar ?? this.dialect?.quoteChar ?? fallbackQuote;
+			this.reader = new CSVRecordReader(this.delimiter, this.quoteChar);
+		}
+		this.numberFormat = resolveNumberFormat(this.options.numberFormat, () => this.sampleFields());
+		this.hasHeader = detectHeader([...this.sampleRecords()], (text) =>
+			isNumericText(text, this.numberFormat),
+		);
+
+		for (const { text, lineNumber } of this.buffered) {
+			if (this.truncated) {
+				break;
+			}
+			this.consume(text, lineNumber);
+		}
+		this.buffered.length = 0;
+	}
+
+	/**
+	 * Count metadata lines above the header, such as `Instrument: DMM 6500`: leading
+	 * sample lines with fewer fields than the header below them, which has letters
+	 * and as many fields as most lines after it. Space-separated text is left alone,
+	 * since values there may contain spaces. Skipping lines must split the rest more
+	 * consistently than the whole sample splits, so that a header is not dropped
+	 * because another delimiter also occurs in the values, like `,` in `1.234,56`.
+	 */
+	private detectMetadataLines(): number {
+		const { delimiter, columnBoundaries } = this.options;
+		if (delimiter === FIXED_WIDTH_DELIMITER || columnBoundaries) {
+			return 0;
+		}
+		const whole = fieldCounts(this.sample, this.sniff(this.sample));
+		const wholeConsistency = consistency(whole);
+		if (wholeConsistency === 1) {
+			return 0;
+		}
+		for (let skip = 1; skip < this.sample.length - 1; skip++) {
+			const lines = this.sample.slice(skip);
+			const dialect = this.sniff(lines);
+			if (dialect.delimiter === WHITESPACE_DELIMITER) {
+				continue;
+			}
+			const counts = fieldCounts(lines, dialect);
+			const typical = mostCommon(counts.slice(1));
+			if (
+				typical < 2 ||
+				counts[0] !== typical ||
+				!/\p{L}/u.test(lines[0]) ||
+				consistency(counts) <= wholeConsistency
+			) {
+				continue;
+			}
+			const above = fieldCounts(this.sample.slice(0, skip), dialect);
+			return above.every((n) => n < typical) ? skip : 0;
+		}
+		return 0;
+	}
+
+	/**
+	 * Sniff the dialect of sample lines, keeping to the delimiter and quote character
+	 * of the options. TSV files are always split at tabs.
+	 */
+	private sniff(lines: string[]): Dialect {
+		const { delimiter, quoteChar } = this.options;
+		let delimiters: string[] | undefined;
+		if (delimiter && delimiter !== FIXED_WIDTH_DELIMITER) {
+			delimiters = [delimiter];
+		} else if (this.fileType === "tsv") {
+			delimiters = ["\t"];
+		}
+		return sniffDialect(lines, {
+			delimiters,
+			quoteChars: quoteChar === undefined ? undefined : [quoteChar],
+			// The number format is not known yet
+			isNumeric: (text) => isNumericText(text, "dot") || isNumericText(text, "comma"),
+		});
+	}
+
+	/** Records of the sample lines, split the way the rest of the file is. */
+	private *sampleRecords(): Iterable<string[]> {
+		const reader = this.reader
+			? new CSVRecordReader(this.delimiter as string, this.quoteChar)
+			: undefined;
+		for (const line of this.sample) {
+			const fields = reader ? reader.pushLine(line) : this.splitLine(line);
+			if (fields) {
+				yield fields;
+			}
+		}
+	}
+
+	/** Field values of the sample lines, split with the detected delimiter. */
+	private *sampleFields(): Iterable<string> {
+		for (const record of this.sampleRecords()) {
+			yield* record;
+		}
+	}
+
+	/** Fields of a line of fixed-width text, or text split at a multi-character delimiter. */
+	private splitLine(line: string): string[] {
+		if (this.boundaries) {
+			return sliceFixedWidth(line, this.boundaries);
+		}
+		return line.split(this.delimiter as string).map((item) => item.trim());
+	}
+
+	private consume(line: string, lineNumber: number) {
+		if (this.reader) {
+			// Tokenize into records so quoted fields may span several physical lines
+			if (!this.reader.pending && this.skipLine(line)) {
+				return;
+			}
+			this.recordLines.push({ text: line, lineNumber });
+			const record = this.reader.pushLine(line);
+			if (record) {
+				const [{ lineNumber: start }] = this.recordLines.splice(0);
+				this.addRecord(record, start, this.reader.quotedFields);
+			}
+			return;
+		}
+
+		if (this.skipLine(line)) {
+			return;
+		}
+		this.addRecord(this.splitLine(line), lineNumber);
+	}
+
+	/**
+	 * Note an empty or comment line, which may separate or name a data block.
+	 *
+	 * @returns true if the line holds no data
+	 */
+	private skipLine(line: string): boolean {
+		const trimmed = line.trim();
+		if (!trimmed) {
+			this.emptyLines++;
+			this.blockComment = undefined;
+			return true;
+		}
+		const marker = this.commentMarkers.find((m) => trimmed.startsWith(m));
+		if (marker === undefined) {
+			return false;
+		}
+		const text = trimmed.slice(marker.length).trim();
+		this.blockComment ??= text || undefined;
+		if (this.rows.length === 0) {
+			this.readMetadata(text);
+		}
+		return true;
+	}
+
+	/** Keep a `key: value` pair from above the data; later ones replace earlier ones. */
+	private readMetadata(text: string) {
+		const pair = METADATA_PATTERN.exec(text);
+		if (pair) {
+			this.metadata[pair[1]] = pair[2].trim();
+		}
+	}
+
+	/**
+	 * Start a new block at the first record after a block separator. The block is named
+	 * after the first line of the comments right above it, or numbered when it has none.
+	 *
+	 * @returns true if the record starts a block after the first one
+	 */
+	private enterBlock(): boolean {
+		const current = this.blockNames.length - 1;
+		const separated = this.emptyLines >= BLOCK_SEPARATOR_LINES && this.rowBlocks.at(-1) === current;
+		const title = this.blockComment;
+		this.emptyLines = 0;
+		this.blockComment = undefined;
+		if (current >= 0 && !separated) {
+			return false;
+		}
+		const name =
+			title && !this.blockNames.includes(title) ? title : `Block ${this.blockNames.length + 1}`;
+		this.blockNames.push(name);
+		return current >= 0;
+	}
+
+	/**
+	 * @param fields - Field values of one record
+	 * @param lineNumber - Line the record starts on
+	 * @param quoted - Which fields were quoted; quoted values are never treated as missing
+	 */
+	private addRecord(fields: string[], lineNumber: number, quoted: boolean[] = []) {
+		if (this.skippedRecords < this.skipRows) {
+			this.skippedRecords++;
+			// `Instrument;DSO-X 2024A` as well as `Instrument: DSO-X 2024A`
+			const [key, ...values] = fields;
+			const value = values.filter(Boolean).join(" ");
+			if (value) {
+				this.readMetadata(`${key.replace(/:$/, "")}: ${value}`);
+			} else {
+				this.readMetadata(key);
+			}
+			return;
+		}
+		const newBlock = this.enterBlock();
+		// Blocks may repeat the header row
+		if (newBlock && this.headers?.length === fields.length) {
+			const headers = this.headers;
+			if (fields.every((field, index) => field === headers[index])) {
+				return;
+			}
+		}
+		if (!this.headers) {
+			const { headerRows } = this.options;
+			const isHeader =
+				headerRows === undefined
+					? this.isHeaderRecord(fields)
+					: this.headerRecords.length < headerRows;
+			if (isHeader) {
+				this.headerRecords.push(fields);
+				if (this.headerRecords.length >= (headerRows ?? 1)) {
+					this.headers = mergeHeaderRows(this.headerRecords);
+					this.findDuplicateHeaders(this.headers, lineNumber);
+				}
+				return;
+			}
+			// All numeric - generate column headers
+			this.headers = fields.map((_, index) => `Column ${index + 1}`);
+		}
+
+		if (!this.units && this.headerRecords.length > 0 && this.options.unitsRow !== false) {
+			const candidate = this.unitsCandidate;
+			if (candidate) {
+				this.unitsCandidate = undefined;
+				if (this.unitsFit(candidate.fields, fields)) {
+					this.units = candidate.fields.map((cell) => this.unitText(cell));
+				} else {
+					this.units = [];
+					this.pushRow(candidate.fields, candidate.lineNumber, candidate.quoted);
+				}
+			} else if (this.options.unitsRow) {
+				this.units = fields.map((cell) => this.unitText(cell));
+				return;
+			} else if (this.unitsFit(fields)) {
+				// Wait for the next row to show that the columns hold numbers
+				this.unitsCandidate = { fields, lineNumber, quoted };
+				return;
+			} else {
+				this.units = [];
+			}
+		}
+		this.pushRow(fields, lineNumber, quoted);
+	}
+
+	/**
+	 * @param fields - Field values of one data record
+	 * @param lineNumber - Line the record starts on
+	 * @param quoted - Which fields were quoted; quoted values are never treated as missing
+	 */
+	private pushRow(fields: string[], lineNumber: number, quoted: boolean[] = []) {
+		if (this.rows.length >= this.maxRows) {
+			this.truncated = true;
+			return;
+		}
+		const headers = this.headers ?? [];
+		const columnTypes = this.options.columnTypes ?? {};
+		if (fields.length !== headers.length) {
+			this.addIssue({
+				kind: "fieldCount",
+				line: lineNumber,
+				message: `Expected ${headers.length} fields but found ${fields.length}`,
+			});
+		}
+		this.rowBlocks.push(this.blockNames.length - 1);
+		this.rowLines.push(lineNumber);
+		this.rows.push(
+			fields.map((v, index) => {
+				if (!quoted[index] && this.missingValues.has(v)) {
+					return null;
+				}
+				// Keep the original text when the user chose a non-numeric type for the column
+				const override = columnTypes[headers[index]];
+				if (override === "string" || override === "categorical" || override === "datetime") {
+					return v;
+				}
+				// Try to convert to number if possible
+				const n = parseNumber(v, this.numberFormat);
+				return Number.isNaN(n) ? v : n;
+			}),
+		);
+	}
+
+	private addIssue(issue: ParseIssue) {
+		if (this.issues.length < MAX_PARSE_ISSUES) {
+			this.issues.push(issue);
+		}
+	}
+
+	/** Note column names used more than once; the preview and chart tell columns apart by position. */
+	private findDuplicateHeaders(headers: string[], lineNumber: number) {
+		headers.forEach((header, index) => {
+			if (header && headers.indexOf(header) < index) {
+				this.addIssue({
+					kind: "duplicateHeader",
+					line: lineNumber,
+					column: index,
+					message: `Column name "${header}" is used more than once`,
+				});
+			}
+		});
+	}
+
+	/**
+	 * Text cells in columns that otherwise hold numbers, such as `n/a` among readings.
+	 * Looked at before the schema is applied, since that turns such cells into null
+	 * when the user chose a numeric type.
+	 */
+	private findNonNumericCells(): ParseIssue[] {
+		const issues: ParseIssue[] = [];
+		(this.headers ?? []).forEach((header, index) => {
+			let numbers = 0;
+			const textRows: number[] = [];
+			this.rows.forEach((row, rowIndex) => {
+				const value = row[index];
+				if (typeof value === "number") {
+					numbers++;
+				} else if (typeof value === "string") {
+					textRows.push(rowIndex);
+				}
+			});
+			if (textRows.length === 0 || numbers < textRows.length * NUMBERS_PER_TEXT_CELL) {
+				return;
+			}
+			for (const rowIndex of textRows) {
+				issues.push({
+					kind: "nonNumeric",
+					line: this.rowLines[rowIndex],
+					column: index,
+					message: `Expected a number in column "${header}" but found "${this.rows[rowIndex][index]}"`,
+				});
+			}
+		});
+		return issues;
+	}
+
+	/** A units cell without brackets, e.g. `mV` for `[mV]`; missing values mean no unit. */
+	private unitText(cell: string): string {
+		const unit = cell.replace(/^\[(.*)\]$|^\((.*)\)$/, "$1$2").trim();
+		return this.missingValues.has(unit) ? "" : unit;
+	}
+
+	/**
+	 * Whether a row may hold units: every filled cell looks like a unit and, once the
+	 * next row is known, sits above a number.
+	 *
+	 * @param fields - Row below the header
+	 * @param next - Row after it, if already read
+	 */
+	private unitsFit(fields: string[], next?: string[]): boolean {
+		const units = fields.map((cell) => this.unitText(cell));
+		return (
+			units.some(Boolean) &&
+			units.every(
+				(unit, index) =>
+					!unit ||
+					(UNIT_PATTERN.test(unit) &&
+						(!next || isNumericText(next[index] ?? "", this.numberFormat))),
+			)
+		);
+	}
+
+	private isHeaderRecord(fields: string[]): boolean {
+		if (fields.length === 1) {
+			// CSV: if only one column detected, treat it as data (list) rather than a header
+			if (this.fileType === "csv") {
+				return false;
+			}
+			// Heuristic: decide whether the first line is a header or actual data.
+			// Treat it as a header only if it matches common header keywords (case-insensitive)
+			// and there are additional data lines. This avoids misclassifying pure data lists
+			// (e.g., Value1, Value2...) as having a header.
+			const headerCandidates = new Set(["value", "values", "name", "id", "item", "label", "key"]);
+			const firstLower = String(fields[0]).trim().toLowerCase();
+			return (
+				this.sample.length > 1 &&
+				!isNumericText(fields[0], this.numberFormat) &&
+				fields[0] !== "" &&
+				headerCandidates.has(firstLower)
+			);
+		}
+		// Sniffed from the sample: text above numbers makes a header
+		return this.hasHeader;
+	}
+
+	/**
+	 * Build the result from the rows read, converting their cells to the column
+	 * schema in place.
+	 *
+	 * @param rows - Rows to convert: the parser's own, or copies for a snapshot
+	 */
+	private buildResult(rows = this.rows): ParsedData {
+		const issues = [...this.issues, ...this.findNonNumericCells()];
+		const result: ParsedData = {
+			headers: this.headers ?? [],
+			rows,
+			fileName: this.fileName,
+			fileType: this.fileType,
+			totalRows: rows.length,
+			detectedDelimiter: this.delimiter,
+			numberFormat: this.numberFormat,
+		};
+		if (this.dialect) {
+			result.dialect = { ...this.dialect, hasHeader: this.headerRecords.length > 0 };
+		}
+		if (this.skipRows > 0) {
+			result.skipRows = this.skipRows;
+		}
+		if (issues.length > 0) {
+			issues.sort((a, b) => a.line - b.line || (a.column ?? -1) - (b.column ?? -1));
+			result.issues = issues.slice(0, MAX_PARSE_ISSUES);
+		}
+		if (Object.keys(this.metadata).length > 0) {
+			result.metadata = { ...this.metadata };
+		}
+		if (this.blockNames.length > 1) {
+			this.addBlockColumn(result);
+		}
+		if (this.boundaries) {
+			result.columnBoundaries = this.boundaries;
+			result.sampleLines = this.sample.slice();
+		}
+		if (this.truncated) {
+			result.truncated = true;
+		}
+		withColumnSchema(result, this.options.columnTypes, this.numberFormat);
+		this.units?.forEach((unit, index) => {
+			const column = result.columns?.[index];
+			if (unit && column) {
+				column.unit = unit;
+			}
+		});
+		return result;
+	}
+
+	/** Append a column naming the block of each row; rows are padded to the header width first. */
+	private addBlockColumn(result: ParsedData) {
+		const width = result.headers.length;
+		let column = "block";
+		for (let n = 2; result.headers.includes(column); n++) {
+			column = `block ${n}`;
+		}
+		result.headers = [...result.headers, column];
+		result.rows = result.rows.map((row, index) => [
+			...Array.from({ length: width }, (_, i) => row[i] ?? null),
+			this.blockNames[this.rowBlocks[index]],
+		]);
+		result.blocks = this.blockNames.slice();
+	}
+}
+
+/**
+ * Line-fed parser for JSON Lines.
+ *
+ * Every non-empty line is parsed as its own JSON value. Objects are
+ * flattened and tabulated like a JSON array (see {@link tabulateRecords});
+ * other values are placed in a "Value" column. Lines that are not valid JSON are
+ * skipped and recorded as warnings with their line number.
+ */
+class JSONLinesParser implements LineTableParser {
+	private readonly maxRows: number;
+	private readonly flattenDepth: number;
+	private readonly records: Record<string, unknown>[] = [];
+	private readonly warnings: string[] = [];
+	private lineNumber = 0;
+	private truncated = false;
+
+	constructor(
+		private readonly fileName: string,
+		private readonly fileType: JSONLinesFileType,
+		private readonly options: ParseOptions,
+	) {
+		this.maxRows = options.maxRows ?? Number.POSITIVE_INFINITY;
+		this.flattenDepth = options.flattenDepth ?? DEFAULT_FLATTEN_DEPTH;
+	}
+
+	get rowCount(): number {
+		return this.records.length;
+	}
+
+	pushLine(rawLine: string): boolean {
+		this.lineNumber++;
+		const line = rawLine.trim();
+		if (!line) {
+			return !this.truncated;
+		}
+		if (this.records.length >= this.maxRows) {
+			this.truncated = true;
+			return false;
+		}
+
+		let value: unknown;
+		try {
+			value = JSON.parse(line);
+		} catch (_error) {
+			this.warnings.push(`Line ${this.lineNumber}: ${(_error as Error).message}`);
+			return true;
+		}
+
+		const record = isPlainObject(value)
+			? flattenRecord(value, this.flattenDepth)
+			: flattenRecord({ Value: value }, 0);
+		this.records.push(record);
+		return true;
+	}
+
+	markTruncated() {
+		this.truncated = true;
+	}
+
+	snapshot(): ParsedData {
+		return { ...this.buildResult(), partial: true };
+	}
+
+	/**
+	 * @throws Error if the file has no valid JSON lines
+	 */
+	finish(): ParsedData {
+		if (this.records.length === 0 && !this.truncated) {
+			if (this.warnings.length > 0) {
+				throw new Error(`No valid JSON lines found. ${this.warnings[0]}`);
+			}
+			throw new Error("File is empty");
+		}
+		return this.buildResult();
+	}
+
+	private buildResult(): ParsedData {
+		const table = tabulateRecords(this.records);
+		const result: ParsedData = {
+			...table,
+			fileName: this.fileName,
+			fileType: this.fileType,
+			totalRows: table.rows.length,
+		};
+		if (this.warnings.length > 0) {
+			result.warnings = this.warnings.slice();
+		}
+		if (this.truncated) {
+			result.truncated = true;
+		}
+		replaceMissingValues(result, this.options.missingValues);
+		const numberFormat = resolveNumberFormat(this.options.numberFormat, () =>
+			stringCells(result.rows),
+		);
+		return withColumnSchema(result, this.options.columnTypes, numberFormat);
+	}
+}
+
+/**
+ * Line-fed parser for logs, where every line matching the log pattern is a row.
+ *
+ * Lines that do not match continue the message of the row before, as stack
+ * traces do; when rows have no message they are skipped and recorded as
+ * warnings. To detect the format, the first lines are buffered; when no
+ * pattern fits most of them they are replayed into a {@link TextTableParser}.
+ */
+class LogParser implements LineTableParser {
+	private readonly commentMarkers: string[];
+	private readonly maxRows: number;
+	private readonly records: Record<string, string>[] = [];
+	private readonly warnings: string[] = [];
+	private readonly buffered: { text: string; lineNumber: number }[] = [];
+	private readonly sample: string[] = [];
+	private fallback?: TextTableParser;
+	private lineNumber = 0;
+	private truncated = false;
+
+	/**
+	 * @param candidates - Patterns to detect the format from, unless `pattern` is given
+	 * @param pattern - Log pattern chosen by the user
+	 */
+	constructor(
+		private readonly fileName: string,
+		private readonly fileType: DelimitedFileType,
+		private readonly options: ParseOptions,
+		private readonly candidates: LogPattern[],
+		private pattern?: LogPattern,
+	) {
+		this.commentMarkers = options.commentMarkers ?? ["#", "%", "//"];
+		this.maxRows = options.maxRows ?? Number.POSITIVE_INFINITY;
+	}
+
+	get rowCount(): number {
+		return this.fallback ? this.fallback.rowCount : this.records.length;
+	}
+
+	pushLine(rawLine: string): boolean {
+		if (this.fallback) {
+			return this.fallback.pushLine(rawLine);
+		}
+		this.lineNumber++;
+		const line = rawLine.endsWith("\r") ? rawLine.slice(0, -1) : rawLine;
+		if (this.pattern) {
+			this.consume(line, this.lineNumber);
+			return !this.truncated;
+		}
+
+		this.buffered.push({ text: line, lineNumber: this.lineNumber });
+		if (line.trim() && !isCommentLine(line, this.commentMarkers)) {
+			this.sample.push(line);
+		}
+		if (this.sample.length >= LOG_SAMPLE_LINES) {
+			return this.detectPattern();
+		}
+		return !this.truncated;
+	}
+
+	markTruncated() {
+		this.truncated = true;
+		this.fallback?.markTruncated();
+	}
+
+	snapshot(): ParsedData {
+		return this.fallback ? this.fallback.snapshot() : { ...this.buildResult(), partial: true };
+	}
+
+	/**
+	 * @throws Error if no line matches the chosen log format
+	 */
+	finish(): ParsedData {
+		if (!this.pattern && !this.fallback) {
+			this.detectPattern();
+		}
+		if (this.fallback) {
+			return this.fallback.finish();
+		}
+		if (this.records.length === 0 && !this.truncated) {
+			throw new Error(`No lines match the ${this.pattern?.name} log format`);
+		}
+		return this.buildResult();
+	}
+
+	/**
+	 * Pick the pattern from the sample and replay the buffered lines.
+	 *
+	 * @returns false once no more input is needed
+	 */
+	private detectPattern(): boolean {
+		this.pattern = detectLogPattern(this.sample, this.candidates);
+		const buffered = this.buffered.splice(0);
+		if (!this.pattern) {
+			const fallback = new TextTableParser(this.fileName, this.fileType, this.options);
+			this.fallback = fallback;
+			if (this.truncated) {
+				fallback.markTruncated();
+			}
+			return buffered.every(({ text }) => fallback.pushLine(text));
+		}
+		for (const { text, lineNumber } of buffered) {
+			if (this.truncated) {
+				break;
+			}
+			this.consume(text, lineNumber);
+		}
+		return !this.truncated;
+	}
+
+	private consume(line: string, lineNumber: number) {
+		if (!line.trim() || isCommentLine(line, this.commentMarkers)) {
+			return;
+		}
+		const fields = this.pattern?.match(line);
+		if (fields) {
+			if (this.records.length >= this.maxRows) {
+				this.truncated = true;
+				return;
+			}
+			this.records.push(fields);
+			return;
+		}
+		const previous = this.records.at(-1);
+		if (previous && "message" in previous) {
+			previous.message += `\n${line}`;
+		} else {
+			this.warnings.push(`Line ${lineNumber}: does not match the ${this.pattern?.name} log format`);
+		}
+	}
+
+	private buildResult(): ParsedData {
+		// Key=value pairs vary from line to line, so their key sets are not reported
+		const { headers, rows } = tabulateRecords(this.records);
+		const result: ParsedData = {
+			headers,
+			rows,
+			fileName: this.fileName,
+			fileType: this.fileType,
+			totalRows: rows.length,
+			logFormat: this.pattern?.name,
+		};
+		if (this.warnings.length > 0) {
+			result.warnings = this.warnings.slice();
+		}
+		if (this.truncated) {
+			result.truncated = true;
+		}
+		replaceMissingValues(result, this.options.missingValues);
+		const numberFormat = resolveNumberFormat(this.options.numberFormat, () =>
+			stringCells(result.rows),
+		);
+		return withColumnSchema(result, this.options.columnTypes, numberFormat);
+	}
+}
+
+/**
+ * Parse one worksheet of an Excel workbook into a table.
+ *
+ * The first row of the range is the header row when all of its cells are
+ * text; otherwise column headers are generated.
+ *
+ * @param archive - Workbook file contents
+ * @param fileName - Name of the file being parsed
+ * @param options - Parse options (worksheet, cell range, missing values, column types)
+ * @returns ParsedData for the selected cells
+ */
+function parseXLSX(archive: Buffer, fileName: string, options: ParseOptions = {}): ParsedData {
+	const { sheet, range, cells } = readWorksheet(archive, options.sheet, options.range);
+	if (cells.length === 0) {
+		throw new Error(`Worksheet "${sheet}" has no data${options.range ? " in that range" : ""}`);
+	}
+
+	const first = cells[0];
+	const hasHeader = first.every((cell) => cell === null || typeof cell === "string");
+	const headers = first.map((cell, index) =>
+		hasHeader && cell !== null && String(cell).trim() !== ""
+			? String(cell).trim()
+			: `Column ${index + 1}`,
+	);
+	let rows = (hasHeader ? cells.slice(1) : cells) as (string | number | null)[][];
+	const truncated = options.maxRows !== undefined && rows.length > options.maxRows;
+	if (truncated) {
+		rows = rows.slice(0, options.maxRows);
+	}
+
+	const data: ParsedData = {
+		headers,
+		rows,
+		fileName,
+		fileType: "xlsx",
+		totalRows: rows.length,
+		sheet,
+		range,
+	};
+	if (truncated) {
+		data.truncated = true;
+	}
+	replaceMissingValues(data, options.missingValues);
+	const numberFormat = resolveNumberFormat(options.numberFormat, () => stringCells(data.rows));
+	return withColumnSchema(data, options.columnTypes, numberFormat);
+}
+
+/**
+ * Parse one table of a Markdown, HTML or LaTeX document.
+ *
+ * Tables without a marked header row use their first row as the header
+ * unless it holds numbers.
+ *
+ * @param content - Document text
+ * @param fileName - Name of the file being parsed
+ * @param format - Format of the document
+ * @param options - Parse options (table, missing values, number format, column types)
+ * @returns ParsedData for the selected table
+ * @throws Error if the document has no such table
+ */
+function parseDocumentTable(
+	content: string,
+	fileName: string,
+	format: DocumentFormat,
+	options: ParseOptions = {},
+): ParsedData {
+	const tables = extractDocumentTables(content, format);
+	const number = options.table ?? 1;
+	const table = tables[number - 1];
+	if (!table) {
+		throw new Error(
+			tables.length === 0
+				? "No tables found in the document"
+				: `No table ${number} in the document, which has ${tables.length}`,
+		);
+	}
+
+	let cells = table.rows;
+	let headerCells = table.headers;
+	if (
+		!headerCells &&
+		cells.length > 1 &&
+		cells[0].some((cell) => cell.trim() !== "") &&
+		cells[0].every((cell) => cell.trim() === "" || !isNumericText(cell))
+	) {
+		headerCells = cells[0];
+		cells = cells.slice(1);
+	}
+	const headers = (headerCells ?? cells[0] ?? []).map((cell, index) =>
+		headerCells && cell.trim() !== "" ? cell.trim() : `Column ${index + 1}`,
+	);
+	let rows: (string | number | null)[][] = cells.map((row) => [...row]);
+	const truncated = options.maxRows !== undefined && rows.length > options.maxRows;
+	if (truncated) {
+		rows = rows.slice(0, options.maxRows);
+	}
+
+	const data: ParsedData = {
+		headers,
+		rows,
 		fileName,
-		fileType,
+		fileType: format,
 		totalRows: rows.length,
-		detectedDelimiter: delimiter,
+		table: number,
+	};
+	if (truncated) {
+		data.truncated = true;
+	}
+	replaceMissingValues(data, options.missingValues);
+	const numberFormat = resolveNumberFormat(options.numberFormat, () => stringCells(data.rows));
+	return withColumnSchema(data, options.columnTypes, numberFormat);
+}
+
+/**
+ * A columnar file read batch by batch: Parquet row groups or Arrow record batches.
+ */
+interface ColumnarSource {
+	/** Readable columns with the type stored in the file, if it implies one */
+	columns: { name: string; type?: ColumnType }[];
+	/** Nested columns that are left out */
+	skippedColumns: string[];
+	batches: AsyncIterable<ColumnarBatch>;
+}
+
+interface ColumnarBatch {
+	rows: (string | number | boolean | null)[][];
+	bytesRead: number;
+	totalBytes: number;
+}
+
+/**
+ * Collect the batches of a columnar file into a table.
+ *
+ * Column types come from the file; text columns are inferred from their
+ * values, except that numeric-looking text such as codes stays text. Reading stops once `options.maxRows` rows are collected or
+ * `options.token` is cancelled, and nested columns are left out with a warning.
+ *
+ * @param source - Columns and batches of the file
+ * @param base - File name and type of the result
+ * @param options - Parse options plus progress, cancellation and partial-data hooks
+ * @returns ParsedData for the rows read
+ */
+async function tabulateColumnar(
+	source: ColumnarSource,
+	base: Pick<ParsedData, "fileName" | "fileType" | "query" | "array">,
+	options: StreamingParseOptions,
+): Promise<ParsedData> {
+	const headers = source.columns.map((column) => column.name);
+	const maxRows = options.maxRows ?? Number.POSITIVE_INFINITY;
+
+	const build = (rows: ColumnarBatch["rows"]): ParsedData => {
+		const declaredTypes: Record<string, ColumnType> = {};
+		source.columns.forEach((column, index) => {
+			const inferred = column.type ?? inferColumnType(rows, index, "dot");
+			declaredTypes[column.name] =
+				inferred === "integer" || inferred === "float" ? (column.type ?? "string") : inferred;
+		});
+		const data: ParsedData = {
+			...base,
+			headers,
+			rows: rows as (string | number | null)[][],
+			totalRows: rows.length,
+		};
+		return withColumnSchema(data, options.columnTypes, "dot", declaredTypes);
+	};
+
+	const rows: ColumnarBatch["rows"] = [];
+	const partialRows = options.partialRows ?? 150;
+	let partialSent = !options.onPartialData;
+	let truncated = false;
+	for await (const batch of source.batches) {
+		// Reaching another batch after maxRows rows means the file has more
+		if (rows.length >= maxRows) {
+			truncated = true;
+			break;
+		}
+		for (const row of batch.rows) {
+			if (rows.length >= maxRows) {
+				truncated = true;
+				break;
+			}
+			rows.push(row);
+		}
+		options.onProgress?.(batch.bytesRead, batch.totalBytes);
+		if (truncated || options.token?.isCancellationRequested) {
+			truncated = true;
+			break;
+		}
+		if (!partialSent && rows.length >= partialRows && batch.bytesRead < batch.totalBytes) {
+			partialSent = true;
+			options.onPartialData?.({ ...build(rows.map((row) => [...row])), partial: true });
+		}
+	}
+
+	if (source.skippedColumns.length > 0) {
+		vscode.window.showWarningMessage(
+			`${base.fileName}: nested columns are not shown: ${source.skippedColumns.join(", ")}`,
+		);
+	}
+	const data = build(rows);
+	if (truncated) {
+		data.truncated = true;
+	}
+	return data;
+}
+
+/**
+ * Read a Parquet file into a table, one row group at a time.
+ *
+ * @param uri - URI of the file
+ * @param fileName - Name of the file being parsed
+ * @param options - Parse options plus progress, cancellation and partial-data hooks
+ * @returns ParsedData for the rows read
+ */
+async function parseParquet(
+	uri: vscode.Uri,
+	fileName: string,
+	options: StreamingParseOptions = {},
+): Promise<ParsedData> {
+	const file = await openRandomAccessFile(uri);
+	try {
+		const reader = await ParquetReader.open(file);
+		let totalBytes = 0;
+		for (let i = 0; i < reader.rowGroupCount; i++) {
+			totalBytes += reader.rowGroupByteSize(i);
+		}
+		async function* rowGroups(): AsyncGenerator<ColumnarBatch> {
+			let bytesRead = 0;
+			for (let i = 0; i < reader.rowGroupCount; i++) {
+				const rows = await reader.readRowGroup(i);
+				bytesRead += reader.rowGroupByteSize(i);
+				yield { rows, bytesRead, totalBytes };
+			}
+		}
+		const source = {
+			columns: reader.columns,
+			skippedColumns: reader.skippedColumns,
+			batches: rowGroups(),
+		};
+		return await tabulateColumnar(source, { fileName, fileType: "parquet" }, options);
+	} finally {
+		await file.close();
+	}
+}
+
+/**
+ * Read an Arrow IPC file or stream (including Feather v2) into a table, one
+ * record batch at a time.
+ *
+ * @param uri - URI of the file
+ * @param fileName - Name of the file being parsed
+ * @param fileType - `arrow` or `feather`, from the extension
+ * @param options - Parse options plus progress, cancellation and partial-data hooks
+ * @returns ParsedData for the rows read
+ */
+async function parseArrow(
+	uri: vscode.Uri,
+	fileName: string,
+	fileType: "arrow" | "feather",
+	options: StreamingParseOptions = {},
+): Promise<ParsedData> {
+	const file = await openRandomAccessFile(uri);
+	try {
+		const reader = await ArrowReader.open(file);
+		async function* recordBatches(): AsyncGenerator<ColumnarBatch> {
+			for await (const rows of reader.recordBatches()) {
+				yield { rows, bytesRead: reader.bytesRead, totalBytes: reader.size };
+			}
+		}
+		const source = {
+			columns: reader.columns,
+			skippedColumns: reader.skippedColumns,
+			batches: recordBatches(),
+		};
+		return await tabulateColumnar(source, { fileName, fileType }, options);
+	} finally {
+		await file.close();
+	}
+}
+
+/**
+ * Run a query against a SQLite database and tabulate the result.
+ *
+ * @param data - Database file contents
+ * @param fileName - Name of the file being parsed
+ * @param options - Parse options (query, row limit, column types)
+ * @returns ParsedData for the result set, with the query that produced it
+ */
+async function parseSQLite(
+	data: Buffer,
+	fileName: string,
+	options: ParseOptions = {},
+): Promise<ParsedData> {
+	let query = options.query?.trim();
+	if (!query) {
+		const [first] = await listSQLiteTables(data);
+		if (!first) {
+			throw new Error("Database has no tables");
+		}
+		query = tableQuery(first.name);
+	}
+	const result = await querySQLite(data, query, options.maxRows);
+	async function* resultSet(): AsyncGenerator<ColumnarBatch> {
+		yield { rows: result.rows, bytesRead: data.length, totalBytes: data.length };
+	}
+	const source = { columns: result.columns, skippedColumns: [], batches: resultSet() };
+	const parsed = await tabulateColumnar(source, { fileName, fileType: "sqlite", query }, options);
+	if (result.truncated) {
+		parsed.truncated = true;
+	}
+	return parsed;
+}
+
+/**
+ * Read a NumPy `.npy` array, or one array of a `.npz` archive, into a table.
+ *
+ * @param data - File contents
+ * @param fileName - Name of the file being parsed
+ * @param fileType - `npy` or `npz`, from the extension
+ * @param options - Parse options plus progress, cancellation and partial-data hooks
+ * @returns ParsedData for the rows read, with the array name for `.npz` files
+ */
+async function parseNumPy(
+	data: Buffer,
+	fileName: string,
+	fileType: "npy" | "npz",
+	options: StreamingParseOptions = {},
+): Promise<ParsedData> {
+	const array =
+		fileType === "npz"
+			? readNpzArray(data, options.array)
+			: NpyArray.parse(data, path.basename(fileName, path.extname(fileName)));
+	async function* batches(): AsyncGenerator<ColumnarBatch> {
+		for (const batch of array.batches()) {
+			yield { ...batch, totalBytes: data.length };
+		}
+	}
+	const source = { columns: array.columns, skippedColumns: [], batches: batches() };
+	const base =
+		fileType === "npz" ? { fileName, fileType, array: array.name } : { fileName, fileType };
+	return await tabulateColumnar(source, base, options);
+}
+
+/**
+ * Parse a JSON document into a table
+ *
+ * @param content - File content as string
+ * @param fileName - Name of the file being parsed
+ * @param options - Parse options (array selector, flatten depth)
+ * @returns ParsedData object for the selected array, array of objects, or single object
+ */
+function parseJSON(content: string, fileName: string, options: ParseOptions = {}): ParsedData {
+	const depth = options.flattenDepth ?? DEFAULT_FLATTEN_DEPTH;
+	const complete = (data: ParsedData) => {
+		replaceMissingValues(data, options.missingValues);
+		const numberFormat = resolveNumberFormat(options.numberFormat, () => stringCells(data.rows));
+		return withColumnSchema(data, options.columnTypes, numberFormat);
 	};
+	try {
+		const document = JSON.parse(content);
+		const jsonData = options.jsonPath ? selectJSONPath(document, options.jsonPath) : document;
+		const base: Pick<ParsedData, "fileName" | "fileType" | "jsonPath"> = {
+			fileName,
+			fileType: "json",
+		};
+		if (options.jsonPath) {
+			base.jsonPath = options.jsonPath;
+		}
+
+		if (Array.isArray(jsonData)) {
+			// Array of objects
+			if (jsonData.length > 0 && typeof jsonData[0] === "object") {
+				// Primitives among the records go in a "Value" column instead of being spread into characters
+				const table = tabulateRecords(
+					jsonData.map((item) =>
+						typeof item === "object" ? flattenRecord(item ?? {}, depth) : { Value: item },
+					),
+				);
+
+				return complete({ ...base, ...table, totalRows: table.rows.length });
+			} else {
+				// Array of primitives
+				return complete({
+					...base,
+					headers: ["Value"],
+					rows: jsonData.map((item) => [item]),
+					totalRows: jsonData.length,
+				});
+			}
+		} else if (typeof jsonData === "object" && jsonData !== null) {
+			// Single object
+			const record = flattenRecord(jsonData, depth);
+			const headers = Object.keys(record);
+			const rows = [headers.map((header) => record[header])];
+
+			return complete({
+				...base,
+				headers,
+				rows: rows as (string | number | null)[][],
+				totalRows: 1,
+			});
+		} else {
+			throw new Error("JSON format not supported for tabular display");
+		}
+	} catch (_error) {
+		throw new Error(`Invalid JSON: ${_error}`);
+	}
 }
@@ -0,0 +1,249 @@
+/**
+ * Log formats recognised without configuration.
+ */
+export const LOG_FORMATS = ["combined", "syslog", "logfmt", "iso"] as const;
+
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+/**
+ * A way of reading one log line into named fields.
+ */
+export interface LogPattern {
+	/** Built-in format or the name of a pattern from the `vsplot.logPatterns` setting */
+	name: string;
+	/**
+	 * @param line - One line of the log
+	 * @returns Field values by name, or undefined when the line does not match
+	 */
+	match(line: string): Record<string, string> | undefined;
+}
+
+/** Lines looked at to detect the format */
+export const LOG_SAMPLE_LINES = 20;
+
+/** Apache and Nginx combined log format; the common log format lacks the referer and agent */
+const COMBINED_PATTERN =
+	/^(?<host>\S+) (?<ident>\S+) (?<user>\S+) \[(?<time>[^\]]+)\] "(?:(?<method>[A-Z]+) (?<path>\S+)(?: (?<protocol>[^"]*))?|[^"]*)" (?<status>\d{3}) (?<bytes>\d+|-)(?: "(?<referer>(?:[^"\\]|\\.)*)" "(?<agent>(?:[^"\\]|\\.)*)")?/;
+/** BSD syslog (RFC 3164), with or without the priority */
+const BSD_SYSLOG_PATTERN =
+	/^(?:<(?<priority>\d{1,3})>)?(?<time>[A-Z][a-z]{2} [ \d]\d \d{2}:\d{2}:\d{2}) (?<host>\S+) (?<program>[^\s:[]+)(?:\[(?<pid>\d+)\])?: ?(?<message>.*)$/;
+/** IETF syslog (RFC 5424); structured data is left out */
+const IETF_SYSLOG_PATTERN =
+	/^<(?<priority>\d{1,3})>1 (?<time>\S+) (?<host>\S+) (?<program>\S+) (?<pid>\S+) \S+ (?:-|(?:\[(?:[^\]"\\]|"(?:[^"\\]|\\.)*")*\])+) ?(?<message>.*)$/;
+/** ISO 8601 timestamp, then optionally a level and a `[component]` */
+const ISO_PATTERN =
+	/^\[?(?<time>\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?)\]?\s+(?:\[?(?<level>TRACE|DEBUG|INFO|NOTICE|WARN(?:ING)?|ERROR|ERR|SEVERE|FATAL|CRIT(?:ICAL)?)\]?:?\s+)?(?:\[(?<component>[^\]]*)\]:?\s*)?(?<message>.*)$/i;
+/** One `key=value` or `key="quoted value"` pair */
+const KEY_VALUE_PATTERN = /([A-Za-z_][\w.\-/]*)=("(?:[^"\\]|\\.)*"|[^\s"]*)/y;
+const PAIR_SEPARATOR_PATTERN = /\s+|$/y;
+/** `key=value` pairs inside a free-text message */
+const MESSAGE_KEY_VALUE_PATTERN = /(?:^|\s)([A-Za-z_][\w.-]*)=("(?:[^"\\]|\\.)*"|[^\s"]+)(?=\s|$)/g;
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+/** Syslog severity names, indexed by the low three bits of the priority */
+const SYSLOG_SEVERITIES = ["emerg", "alert", "crit", "err", "warning", "notice", "info", "debug"];
+
+/**
+ * The pattern of a built-in format.
+ *
+ * @param format - Built-in format name
+ * @param year - Year given to BSD syslog timestamps, which have none (default: the current year)
+ * @returns Pattern reading lines of that format
+ */
+export function builtinLogPattern(format: LogFormat, year = new Date().getFullYear()): LogPattern {
+	switch (format) {
+		case "combined":
+			return {
+				name: format,
+				match: (line) => {
+					const fields = namedGroups(COMBINED_PATTERN, line);
+					if (fields) {
+						fields.time = apacheTime(fields.time);
+					}
+					return fields;
+				},
+			};
+		case "syslog":
+			return {
+				name: format,
+				match: (line) => {
+					const bsd = namedGroups(BSD_SYSLOG_PATTERN, line);
+					const fields = bsd ?? namedGroups(IETF_SYSLOG_PATTERN, line);
+					if (!fields) {
+						return undefined;
+					}
+					const { priority, time, host, program, pid, message } = fields;
+					return withMessageKeyValues({
+						time: bsd ? bsdSyslogTime(time, year) : time,
+						level: priority ? SYSLOG_SEVERITIES[Number(priority) % 8] : "",
+						host,
+						program,
+						pid,
+						message,
+					});
+				},
+			};
+		case "logfmt":
+			return { name: format, match: parseLogfmt };
+		case "iso":
+			return {
+				name: format,
+				match: (line) => {
+					const fields = namedGroups(ISO_PATTERN, line);
+					if (!fields) {
+						return undefined;
+					}
+					// Java loggers write fractions after a comma, which Date.parse does not read
+					fields.time = fields.time.replace(",", ".");
+					fields.level = fields.level.toUpperCase();
+					return withMessageKeyValues(fields);
+				},
+			};
+	}
+}
+
+/**
+ * The pattern of a log format chosen by name.
+ *
+ * @param name - Built-in format or a key of `custom`
+ * @param custom - Regular expressions with named groups, keyed by name
+ * @returns Pattern reading lines of that format
+ * @throws Error if the format is unknown or its custom pattern is invalid
+ */
+export function logPattern(name: string, custom: Record<string, string> = {}): LogPattern {
+	if (Object.hasOwn(custom, name)) {
+		return customLogPattern(name, custom[name]);
+	}
+	if ((LOG_FORMATS as readonly string[]).includes(name)) {
+		return builtinLogPattern(name as LogFormat);
+	}
+	throw new Error(`Unknown log format: ${name}`);
+}
+
+/**
+ * Patterns tried by log format detection: the user's own, then the built-in formats.
+ *
+ * @param custom - Regular expressions with named groups, keyed by name
+ * @returns Patterns in the order they are tried
+ * @throws Error if a custom pattern is not a valid regular expression or has no named groups
+ */
+export function logPatterns(custom: Record<string, string> = {}): LogPattern[] {
+	const patterns = Object.entries(custom).map(([name, source]) => customLogPattern(name, source));
+	return [...patterns, ...LOG_FORMATS.map((format) => builtinLogPattern(format))];
+}
+
+/**
+ * Find the pattern that reads the most sample lines, if it reads at least half of them.
+ *
+ * @param lines - Non-empty lines from the start of the log
+ * @param patterns - Candidates, earlier ones winning ties
+ * @returns The best pattern, or undefined when the lines are not a known log format
+ */
+export function detectLogPattern(lines: string[], patterns: LogPattern[]): LogPattern | undefined {
+	let best: LogPattern | undefined;
+	let bestCount = 0;
+	for (const pattern of patterns) {
+		const count = lines.filter((line) => pattern.match(line)).length;
+		if (count > bestCount) {
+			best = pattern;
+			bestCount = count;
+		}
+	}
+	return bestCount * 2 >= lines.length && bestCount > 0 ? best : undefined;
+}
+
+/**
+ * Read a logfmt line: space-separated `key=value` pairs, values optionally quoted.
+ *
+ * @param line - One line of the log
+ * @returns Values by key, or undefined unless the whole line is pairs
+ */
+export function parseLogfmt(line: string): Record<string, string> | undefined {
+	const text = line.trim();
+	if (!text) {
+		return undefined;
+	}
+	const fields: Record<string, string> = {};
+	let position = 0;
+	while (position < text.length) {
+		KEY_VALUE_PATTERN.lastIndex = position;
+		const pair = KEY_VALUE_PATTERN.exec(text);
+		if (!pair) {
+			return undefined;
+		}
+		fields[pair[1]] = unquote(pair[2]);
+		// Pairs are separated by whitespace
+		PAIR_SEPARATOR_PATTERN.lastIndex = KEY_VALUE_PATTERN.lastIndex;
+		if (!PAIR_SEPARATOR_PATTERN.exec(text)) {
+			return undefined;
+		}
+		position = PAIR_SEPARATOR_PATTERN.lastIndex;
+	}
+	return fields;
+}
+
+function customLogPattern(name: string, source: string): LogPattern {
+	let pattern: RegExp;
+	try {
+		pattern = new RegExp(source);
+	} catch (error) {
+		throw new Error(`Invalid log pattern "${name}": ${(error as Error).message}`);
+	}
+	if (!/\(\?<[A-Za-z_$]/.test(source)) {
+		throw new Error(`Log pattern "${name}" has no named groups`);
+	}
+	return { name, match: (line) => namedGroups(pattern, line) };
+}
+
+/**
+ * Named groups of a match; groups that did not take part become empty strings
+ * so that every row has the same columns.
+ */
+function namedGroups(pattern: RegExp, line: string): Record<string, string> | undefined {
+	const groups = pattern.exec(line)?.groups;
+	if (!groups) {
+		return undefined;
+	}
+	const fields: Record<string, string> = {};
+	for (const [name, value] of Object.entries(groups)) {
+		fields[name] = value ?? "";
+	}
+	return fields;
+}
+
+/** Add the `key=value` pairs of the message as fields, without replacing existing ones */
+function withMessageKeyValues(fields: Record<string, string>): Record<string, string> {
+	for (const [, key, value] of fields.message.matchAll(MESSAGE_KEY_VALUE_PATTERN)) {
+		if (!(key in fields)) {
+			fields[key] = unquote(value);
+		}
+	}
+	return fields;
+}
+
+function unquote(value: string): string {
+	return value.startsWith('"') ? value.slice(1, -1).replace(/\\(.)/g, "$1") : value;
+}
+
+/** `10/Oct/2000:13:55:36 -0700` as ISO 8601, or unchanged if it is not in that form */
+function apacheTime(text: string): string {
+	const parts = /^(\d{2})\/([A-Z][a-z]{2})\/(\d{4}):(\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/.exec(
+		text,
+	);
+	const month = parts ? MONTHS.indexOf(parts[2]) + 1 : 0;
+	if (!parts || month === 0) {
+		return text;
+	}
+	const [, day, , year, time, zoneHours, zoneMinutes] = parts;
+	return `${year}-${String(month).padStart(2, "0")}-${day}T${time}${zoneHours}:${zoneMinutes}`;
+}
+
+/** `Oct 11 22:14:15` as ISO 8601 local time in the given year */
+function bsdSyslogTime(text: string, year: number): string {
+	const [monthName, day, time] = text.split(/ +/);
+	const month = MONTHS.indexOf(monthName) + 1;
+	if (month === 0) {
+		return text;
+	}
+	return `${year}-${String(month).padStart(2, "0")}-${day.padStart(2, "0")}T${time}`;
+}
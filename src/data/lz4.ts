@@ -0,0 +1,105 @@
+const FRAME_MAGIC = 0x184d2204;
+/** Skippable frames use magic numbers 0x184D2A50 to 0x184D2A5F */
+const SKIPPABLE_MAGIC = 0x184d2a50;
+
+/**
+ * Decompress LZ4 frame data (one or more concatenated frames).
+ *
+ * Block and content checksums are skipped, not verified.
+ *
+ * @param input - LZ4 frame data
+ * @param sizeHint - Expected uncompressed size, if known
+ * @returns Uncompressed data
+ * @throws Error if the data is not valid LZ4 frame data
+ */
+export function lz4FrameUncompress(input: Uint8Array, sizeHint = 0): Buffer {
+	const view = Buffer.from(input.buffer, input.byteOffset, input.byteLength);
+	let output = Buffer.alloc(Math.max(sizeHint, 64));
+	let out = 0;
+	let pos = 0;
+
+	const ensure = (extra: number) => {
+		if (out + extra > output.length) {
+			const grown = Buffer.alloc(Math.max(output.length * 2, out + extra));
+			output.copy(grown, 0, 0, out);
+			output = grown;
+		}
+	};
+
+	while (pos + 4 <= view.length) {
+		const magic = view.readUInt32LE(pos);
+		if ((magic & 0xfffffff0) === SKIPPABLE_MAGIC) {
+			pos += 8 + view.readUInt32LE(pos + 4);
+			continue;
+		}
+		if (magic !== FRAME_MAGIC) {
+			throw new Error("Corrupt LZ4 frame: bad magic number");
+		}
+		const flags = view[pos + 4];
+		const blockChecksum = (flags & 0x10) !== 0;
+		const contentSize = (flags & 0x08) !== 0;
+		const contentChecksum = (flags & 0x04) !== 0;
+		const dictionaryId = (flags & 0x01) !== 0;
+		// Magic, FLG, BD, optional content size and dictionary id, header checksum
+		pos += 6 + (contentSize ? 8 : 0) + (dictionaryId ? 4 : 0) + 1;
+
+		for (;;) {
+			const header = view.readUInt32LE(pos);
+			pos += 4;
+			if (header === 0) {
+				break;
+			}
+			const size = header & 0x7fffffff;
+			const block = view.subarray(pos, pos + size);
+			if (header & 0x80000000) {
+				ensure(size);
+				block.copy(output, out);
+				out += size;
+			} else {
+				// A block may reference the output of earlier blocks, so decode in place
+				let i = 0;
+				while (i < block.length) {
+					const token = block[i++];
+					let literalLength = token >>> 4;
+					if (literalLength === 15) {
+						let byte: number;
+						do {
+							byte = block[i++];
+							literalLength += byte;
+						} while (byte === 255);
+					}
+					ensure(literalLength);
+					block.copy(output, out, i, i + literalLength);
+					i += literalLength;
+					out += literalLength;
+					if (i >= block.length) {
+						break;
+					}
+
+					const offset = block[i] | (block[i + 1] << 8);
+					i += 2;
+					let matchLength = token & 0x0f;
+					if (matchLength === 15) {
+						let byte: number;
+						do {
+							byte = block[i++];
+							matchLength += byte;
+						} while (byte === 255);
+					}
+					matchLength += 4;
+					if (offset === 0 || offset > out) {
+						throw new Error("Corrupt LZ4 block: match out of range");
+					}
+					ensure(matchLength);
+					for (let j = 0; j < matchLength; j++) {
+						output[out] = output[out - offset];
+						out++;
+					}
+				}
+			}
+			pos += size + (blockChecksum ? 4 : 0);
+		}
+		pos += contentChecksum ? 4 : 0;
+	}
+	return output.subarray(0, out);
+}
@@ -0,0 +1,540 @@
+import type { ColumnType } from "./load";
+import { extractZipEntry, readZipEntries } from "./zip";
+
+/**
+ * A cell value read from a NumPy array.
+ */
+export type NpyValue = string | number | boolean | null;
+
+/**
+ * A column of a NumPy array shown as a table.
+ */
+export interface NpyColumn {
+	name: string;
+	/** Type implied by the dtype, if any; text columns are left to inference */
+	type?: ColumnType;
+}
+
+/**
+ * An array stored in a `.npz` archive.
+ */
+export interface NpzArrayInfo {
+	/** Array name, the archive entry name without `.npy` */
+	name: string;
+	/** dtype as NumPy prints it, e.g. `float64` or `structured` */
+	dtype: string;
+	shape: number[];
+}
+
+const MAGIC = "\x93NUMPY";
+
+/** NaT (not a time) is stored as the smallest int64 */
+const NOT_A_TIME = -(2n ** 63n);
+
+/** Rows handed out per batch by {@link NpyArray.batches} */
+const BATCH_ROWS = 10000;
+
+/** Python value of the NPY header literal */
+type PyValue = string | number | boolean | null | PyValue[] | { [key: string]: PyValue };
+
+/**
+ * Scalar dtype: how to read one element.
+ */
+interface ScalarType {
+	size: number;
+	type?: ColumnType;
+	/** Short dtype name, e.g. `float64` */
+	label: string;
+	read: (data: Buffer, offset: number) => NpyValue;
+}
+
+/**
+ * A leaf field of a (possibly structured) dtype, at a byte offset within an item.
+ */
+interface Field {
+	name: string;
+	offset: number;
+	scalar: ScalarType;
+}
+
+/**
+ * A NumPy array read from `.npy` data.
+ *
+ * 1-D arrays become a single column named after the array, 2-D arrays
+ * `Column 1`, `Column 2`, ... and structured arrays one column per field.
+ */
+export class NpyArray {
+	readonly name: string;
+	readonly shape: number[];
+	readonly columns: NpyColumn[];
+	readonly rowCount: number;
+	readonly dtype: string;
+
+	private constructor(
+		private readonly data: Buffer,
+		private readonly dataOffset: number,
+		private readonly itemSize: number,
+		private readonly fields: Field[],
+		private readonly fortranOrder: boolean,
+		shape: number[],
+		name: string,
+		dtype: string,
+	) {
+		this.name = name;
+		this.shape = shape;
+		this.dtype = dtype;
+		this.rowCount = shape.length === 0 ? 1 : shape[0];
+		if (shape.length === 2) {
+			const type = fields[0].scalar.type;
+			this.columns = Array.from({ length: shape[1] }, (_, i) => ({
+				name: `Column ${i + 1}`,
+				type,
+			}));
+		} else if (fields.length === 1 && fields[0].name === "") {
+			this.columns = [{ name, type: fields[0].scalar.type }];
+		} else {
+			this.columns = fields.map((field) => ({ name: field.name, type: field.scalar.type }));
+		}
+	}
+
+	/**
+	 * Read the header of `.npy` data.
+	 *
+	 * @param data - Complete `.npy` contents
+	 * @param name - Array name, used as the header of a 1-D array
+	 * @throws Error if the data is not NPY, or the dtype or shape cannot be shown as a table
+	 */
+	static parse(data: Buffer, name: string): NpyArray {
+		if (data.toString("latin1", 0, MAGIC.length) !== MAGIC) {
+			throw new Error("Not a NumPy .npy file");
+		}
+		const major = data[6];
+		const headerLength = major === 1 ? data.readUInt16LE(8) : data.readUInt32LE(8);
+		const headerStart = major === 1 ? 10 : 12;
+		const header = parsePythonLiteral(
+			data.toString(major >= 3 ? "utf8" : "latin1", headerStart, headerStart + headerLength),
+		);
+		if (!isDict(header) || !Array.isArray(header.shape)) {
+			throw new Error("Corrupt .npy header");
+		}
+		const shape = header.shape.map(Number);
+		if (shape.length > 2) {
+			throw new Error(`Arrays with ${shape.length} dimensions are not supported`);
+		}
+		const { fields, size, label } = parseDescr(header.descr);
+		if (label === "structured" && shape.length > 1) {
+			throw new Error("Structured arrays must be 1-D");
+		}
+		return new NpyArray(
+			data,
+			headerStart + headerLength,
+			size,
+			fields,
+			header.fortran_order === true,
+			shape,
+			name,
+			label,
+		);
+	}
+
+	/**
+	 * Read rows of the array.
+	 *
+	 * @param start - First row
+	 * @param end - Row after the last
+	 */
+	readRows(start: number, end: number): NpyValue[][] {
+		const rows: NpyValue[][] = [];
+		const last = Math.min(end, this.rowCount);
+		if (this.shape.length === 2) {
+			const [rowCount, columnCount] = this.shape;
+			const { scalar } = this.fields[0];
+			for (let r = start; r < last; r++) {
+				const row: NpyValue[] = [];
+				for (let c = 0; c < columnCount; c++) {
+					const index = this.fortranOrder ? c * rowCount + r : r * columnCount + c;
+					row.push(scalar.read(this.data, this.dataOffset + index * this.itemSize));
+				}
+				rows.push(row);
+			}
+			return rows;
+		}
+		for (let r = start; r < last; r++) {
+			const item = this.dataOffset + r * this.itemSize;
+			rows.push(this.fields.map((field) => field.scalar.read(this.data, item + field.offset)));
+		}
+		return rows;
+	}
+
+	/**
+	 * Read the array a batch of rows at a time.
+	 *
+	 * @returns Rows with the bytes of the file read so far
+	 */
+	*batches(): Generator<{ rows: NpyValue[][]; bytesRead: number }> {
+		const rowBytes = this.shape.length === 2 ? this.shape[1] * this.itemSize : this.itemSize;
+		for (let start = 0; start < this.rowCount; start += BATCH_ROWS) {
+			const end = Math.min(start + BATCH_ROWS, this.rowCount);
+			yield { rows: this.readRows(start, end), bytesRead: this.dataOffset + end * rowBytes };
+		}
+	}
+}
+
+/**
+ * List the arrays of a `.npz` archive.
+ *
+ * @param archive - Complete `.npz` contents
+ * @returns Arrays in archive order
+ * @throws Error if the data is not a ZIP archive
+ */
+export function listNpzArrays(archive: Buffer): NpzArrayInfo[] {
+	return readZipEntries(archive)
+		.filter((entry) => entry.name.endsWith(".npy"))
+		.map((entry) => {
+			const name = entry.name.slice(0, -".npy".length);
+			const array = NpyArray.parse(extractZipEntry(archive, entry), name);
+			return { name, dtype: array.dtype, shape: array.shape };
+		});
+}
+
+/**
+ * Read one array of a `.npz` archive.
+ *
+ * @param archive - Complete `.npz` contents
+ * @param name - Array name (default: the first array)
+ * @throws Error if the archive holds no such array
+ */
+export function readNpzArray(archive: Buffer, name?: string): NpyArray {
+	const entries = readZipEntries(archive).filter((entry) => entry.name.endsWith(".npy"));
+	const entry = name === undefined ? entries[0] : entries.find((e) => e.name === `${name}.npy`);
+	if (!entry) {
+		throw new Error(name === undefined ? "Archive has no arrays" : `No array named ${name}`);
+	}
+	return NpyArray.parse(extractZipEntry(archive, entry), entry.name.slice(0, -".npy".length));
+}
+
+function isDict(value: PyValue): value is { [key: string]: PyValue } {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Turn a dtype description into the fields of one item. A plain dtype has a
+ * single field named "". Nested fields are named `outer.inner`, and fields
+ * with a shape are split into `name[0]`, `name[1]`, ...
+ */
+function parseDescr(descr: PyValue | undefined): { fields: Field[]; size: number; label: string } {
+	if (typeof descr === "string") {
+		const scalar = parseScalar(descr);
+		return { fields: [{ name: "", offset: 0, scalar }], size: scalar.size, label: scalar.label };
+	}
+	if (!Array.isArray(descr)) {
+		throw new Error("Unsupported dtype");
+	}
+	const fields: Field[] = [];
+	let offset = 0;
+	for (const entry of descr) {
+		if (!Array.isArray(entry) || entry.length < 2) {
+			throw new Error("Unsupported dtype");
+		}
+		const [title, type, shape] = entry;
+		// Fields with a title are written as ((title, name), type)
+		const name = String(Array.isArray(title) ? title[1] : title);
+		const inner = parseDescr(type);
+		const count = Array.isArray(shape) ? shape.reduce<number>((n, d) => n * Number(d), 1) : 1;
+		// Unnamed fields are alignment padding
+		if (name !== "") {
+			for (let i = 0; i < count; i++) {
+				for (const field of inner.fields) {
+					const base = Array.isArray(shape) ? `${name}[${i}]` : name;
+					fields.push({
+						name: field.name ? `${base}.${field.name}` : base,
+						offset: offset + i * inner.size + field.offset,
+						scalar: field.scalar,
+					});
+				}
+			}
+		}
+		offset += count * inner.size;
+	}
+	return { fields, size: offset, label: "structured" };
+}
+
+const DATETIME_UNITS: Record<string, number> = {
+	W: 7 * 86400000,
+	D: 86400000,
+	h: 3600000,
+	m: 60000,
+	s: 1000,
+	ms: 1,
+	us: 1e-3,
+	ns: 1e-6,
+	ps: 1e-9,
+	fs: 1e-12,
+	as: 1e-15,
+};
+
+/**
+ * Reader for a scalar dtype such as `<f8`, `|b1`, `<U12` or `<M8[ms]`.
+ */
+function parseScalar(descr: string): ScalarType {
+	const match = /^([<>|=]?)([a-zA-Z])(\d*)(?:\[(\d*)(\w+)\])?$/.exec(descr);
+	if (!match) {
+		throw new Error(`Unsupported dtype ${descr}`);
+	}
+	const [, order, kind, sizeText, multiplierText, unit] = match;
+	const size = Number(sizeText || 0);
+	const le = order !== ">";
+	switch (kind) {
+		case "b":
+			return { size: 1, type: "boolean", label: "bool", read: (d, o) => d[o] !== 0 };
+		case "i":
+		case "u":
+			return {
+				size,
+				type: "integer",
+				label: `${kind === "i" ? "int" : "uint"}${size * 8}`,
+				read: integerReader(kind === "i", size, le),
+			};
+		case "f":
+			return { size, type: "float", label: `float${size * 8}`, read: floatReader(size, le, descr) };
+		case "c": {
+			const part = floatReader(size / 2, le, descr);
+			return {
+				size,
+				label: `complex${size * 8}`,
+				read: (d, o) => {
+					const re = part(d, o);
+					const im = part(d, o + size / 2);
+					if (re === null || im === null) {
+						return null;
+					}
+					return `${re}${im < 0 || Object.is(im, -0) ? "-" : "+"}${Math.abs(im)}j`;
+				},
+			};
+		}
+		case "U":
+			return {
+				size: size * 4,
+				label: `str${size}`,
+				read: (d, o) => {
+					let text = "";
+					for (let i = 0; i < size; i++) {
+						const code = le ? d.readUInt32LE(o + i * 4) : d.readUInt32BE(o + i * 4);
+						if (code === 0) {
+							break;
+						}
+						text += String.fromCodePoint(code);
+					}
+					return text;
+				},
+			};
+		case "S":
+		case "a":
+			return {
+				size,
+				label: `bytes${size}`,
+				read: (d, o) => d.toString("latin1", o, o + size).replace(/\0+$/, ""),
+			};
+		case "V":
+			return { size, label: `void${size * 8}`, read: (d, o) => d.toString("hex", o, o + size) };
+		case "M":
+		case "m": {
+			if (unit === undefined || unit === "generic") {
+				throw new Error(`Unsupported dtype ${descr}`);
+			}
+			const multiplier = Number(multiplierText || 1);
+			const label = `${kind === "M" ? "datetime64" : "timedelta64"}[${multiplierText}${unit}]`;
+			const ticks = (d: Buffer, o: number) => (le ? d.readBigInt64LE(o) : d.readBigInt64BE(o));
+			return {
+				size: 8,
+				type: kind === "M" ? "datetime" : "integer",
+				label,
+				read: (d, o) => {
+					const value = ticks(d, o);
+					if (value === NOT_A_TIME) {
+						return null;
+					}
+					return kind === "M"
+						? formatDatetime(Number(value) * multiplier, unit)
+						: Number(value) * multiplier;
+				},
+			};
+		}
+		case "O":
+			throw new Error("Object arrays are stored with pickle and cannot be read");
+		default:
+			throw new Error(`Unsupported dtype ${descr}`);
+	}
+}
+
+function integerReader(signed: boolean, size: number, le: boolean): ScalarType["read"] {
+	switch (size) {
+		case 1:
+			return signed ? (d, o) => d.readInt8(o) : (d, o) => d[o];
+		case 2:
+			if (signed) {
+				return le ? (d, o) => d.readInt16LE(o) : (d, o) => d.readInt16BE(o);
+			}
+			return le ? (d, o) => d.readUInt16LE(o) : (d, o) => d.readUInt16BE(o);
+		case 4:
+			if (signed) {
+				return le ? (d, o) => d.readInt32LE(o) : (d, o) => d.readInt32BE(o);
+			}
+			return le ? (d, o) => d.readUInt32LE(o) : (d, o) => d.readUInt32BE(o);
+		case 8:
+			if (signed) {
+				return le ? (d, o) => Number(d.readBigInt64LE(o)) : (d, o) => Number(d.readBigInt64BE(o));
+			}
+			return le ? (d, o) => Number(d.readBigUInt64LE(o)) : (d, o) => Number(d.readBigUInt64BE(o));
+		default:
+			throw new Error(`Unsupported integer size ${size}`);
+	}
+}
+
+/**
+ * Float reader; NaN, NumPy's usual marker for missing values, reads as null.
+ */
+function floatReader(
+	size: number,
+	le: boolean,
+	descr: string,
+): (d: Buffer, o: number) => number | null {
+	let read: (d: Buffer, o: number) => number;
+	switch (size) {
+		case 2:
+			read = (d, o) => halfToFloat(le ? d.readUInt16LE(o) : d.readUInt16BE(o));
+			break;
+		case 4:
+			read = le ? (d, o) => d.readFloatLE(o) : (d, o) => d.readFloatBE(o);
+			break;
+		case 8:
+			read = le ? (d, o) => d.readDoubleLE(o) : (d, o) => d.readDoubleBE(o);
+			break;
+		default:
+			throw new Error(`Unsupported dtype ${descr}`);
+	}
+	return (d, o) => {
+		const value = read(d, o);
+		return Number.isNaN(value) ? null : value;
+	};
+}
+
+/**
+ * Decode an IEEE 754 half-precision float.
+ */
+function halfToFloat(bits: number): number {
+	const sign = bits & 0x8000 ? -1 : 1;
+	const exponent = (bits >>> 10) & 0x1f;
+	const fraction = bits & 0x3ff;
+	if (exponent === 0) {
+		return sign * 2 ** -14 * (fraction / 1024);
+	}
+	if (exponent === 0x1f) {
+		return fraction ? Number.NaN : sign * Number.POSITIVE_INFINITY;
+	}
+	return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+/**
+ * Format a datetime64 value as ISO 8601 text: a date for units of a day or
+ * longer, otherwise a date and time without time zone (datetime64 is naive).
+ */
+function formatDatetime(value: number, unit: string): string {
+	let date: Date;
+	if (unit === "Y") {
+		date = new Date(Date.UTC(1970 + value, 0, 1));
+	} else if (unit === "M") {
+		date = new Date(Date.UTC(1970, value, 1));
+	} else {
+		date = new Date(value * DATETIME_UNITS[unit]);
+	}
+	const iso = date.toISOString();
+	return unit === "Y" || unit === "M" || unit === "W" || unit === "D"
+		? iso.slice(0, 10)
+		: iso.slice(0, -1);
+}
+
+/**
+ * Parse the Python literal of an NPY header: a dict of strings, numbers,
+ * booleans, None, tuples and lists. Tuples are returned as arrays.
+ */
+function parsePythonLiteral(text: string): PyValue {
+	let pos = 0;
+	const skipSpace = () => {
+		while (pos < text.length && /\s/.test(text[pos])) {
+			pos++;
+		}
+	};
+	const fail = (): never => {
+		throw new Error("Corrupt .npy header");
+	};
+	const parseSequence = (close: string): PyValue[] => {
+		const items: PyValue[] = [];
+		for (;;) {
+			skipSpace();
+			if (text[pos] === close) {
+				pos++;
+				return items;
+			}
+			items.push(parseValue());
+			skipSpace();
+			if (text[pos] === ",") {
+				pos++;
+			} else if (text[pos] !== close) {
+				fail();
+			}
+		}
+	};
+	const parseValue = (): PyValue => {
+		skipSpace();
+		const char = text[pos];
+		if (char === "{") {
+			pos++;
+			const dict: { [key: string]: PyValue } = {};
+			for (;;) {
+				skipSpace();
+				if (text[pos] === "}") {
+					pos++;
+					return dict;
+				}
+				const key = parseValue();
+				skipSpace();
+				if (text[pos++] !== ":") {
+					fail();
+				}
+				dict[String(key)] = parseValue();
+				skipSpace();
+				if (text[pos] === ",") {
+					pos++;
+				}
+			}
+		}
+		if (char === "(" || char === "[") {
+			pos++;
+			return parseSequence(char === "(" ? ")" : "]");
+		}
+		if (char === "'" || char === '"') {
+			let value = "";
+			pos++;
+			while (pos < text.length && text[pos] !== char) {
+				if (text[pos] === "\\") {
+					pos++;
+				}
+				value += text[pos++];
+			}
+			pos++;
+			return value;
+		}
+		const word = /^[\w.+-]+/.exec(text.slice(pos))?.[0] ?? fail();
+		pos += word.length;
+		if (word === "True" || word === "False") {
+			return word === "True";
+		}
+		if (word === "None") {
+			return null;
+		}
+		const number = Number(word.replace(/L$/, ""));
+		return Number.isNaN(number) ? fail() : number;
+	};
+	return parseValue();
+}
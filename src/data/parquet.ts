@@ -0,0 +1,687 @@
+import * as zlib from "node:zlib";
+import type { ColumnType } from "./load";
+import type { RandomAccessFile } from "./randomAccess";
+import { snappyUncompress } from "./snappy";
+
+/** A decoded Parquet value; dates and timestamps are ISO 8601 text */
+export type ParquetValue = string | number | boolean | null;
+
+/**
+ * A column of a Parquet file that can be shown as a table column.
+ */
+export interface ParquetColumn {
+	name: string;
+	/** Type implied by the physical and logical type; undefined for text and binary */
+	type?: ColumnType;
+}
+
+/** Raw value as stored, before logical type conversion */
+type RawValue = boolean | number | bigint | Buffer;
+
+/** Thrift struct decoded without a schema: field id to value */
+type ThriftStruct = { [field: number]: unknown };
+
+interface LeafColumn extends ParquetColumn {
+	/** Index of the column chunk in each row group */
+	chunk: number;
+	physicalType: number;
+	typeLength: number;
+	/** 1 for optional columns, which carry definition levels */
+	maxDefinitionLevel: number;
+	convert: (raw: RawValue) => ParquetValue;
+}
+
+const MAGIC = "PAR1";
+
+// Physical types
+const BOOLEAN = 0;
+const INT32 = 1;
+const INT64 = 2;
+const INT96 = 3;
+const FLOAT = 4;
+const DOUBLE = 5;
+const BYTE_ARRAY = 6;
+const FIXED_LEN_BYTE_ARRAY = 7;
+
+// Repetition types
+const OPTIONAL = 1;
+const REPEATED = 2;
+
+// Page types
+const DATA_PAGE = 0;
+const DICTIONARY_PAGE = 2;
+const DATA_PAGE_V2 = 3;
+
+// Encodings
+const PLAIN = 0;
+const PLAIN_DICTIONARY = 2;
+const RLE = 3;
+const RLE_DICTIONARY = 8;
+
+const CODEC_NAMES = ["UNCOMPRESSED", "SNAPPY", "GZIP", "LZO", "BROTLI", "LZ4", "ZSTD", "LZ4_RAW"];
+const ENCODING_NAMES: Record<number, string> = {
+	4: "BIT_PACKED",
+	5: "DELTA_BINARY_PACKED",
+	6: "DELTA_LENGTH_BYTE_ARRAY",
+	7: "DELTA_BYTE_ARRAY",
+	9: "BYTE_STREAM_SPLIT",
+};
+
+const MS_PER_DAY = 86400000;
+/** Julian day number of 1970-01-01, the epoch of INT96 timestamps */
+const JULIAN_UNIX_EPOCH = 2440588;
+
+/**
+ * Reader for flat Parquet files that loads row groups on demand.
+ *
+ * Only the footer is read when the file is opened; each call to
+ * {@link ParquetReader.readRowGroup} reads the column chunks of one row group.
+ * Top-level primitive columns are supported; nested and repeated columns are
+ * listed in `skippedColumns`. Supported codecs are uncompressed, Snappy, gzip
+ * and Brotli; supported encodings are plain, dictionary and RLE booleans.
+ */
+export class ParquetReader {
+	private readonly leaves: LeafColumn[];
+	/** Names of nested or repeated columns that cannot be shown as table columns */
+	readonly skippedColumns: string[];
+	readonly numRows: number;
+	private readonly rowGroups: ThriftStruct[];
+
+	private constructor(
+		private readonly file: RandomAccessFile,
+		metadata: ThriftStruct,
+	) {
+		const schema = (metadata[2] as ThriftStruct[] | undefined) ?? [];
+		const { columns, skipped } = readSchema(schema);
+		this.leaves = columns;
+		this.skippedColumns = skipped;
+		this.numRows = Number(metadata[3] ?? 0);
+		this.rowGroups = (metadata[4] as ThriftStruct[] | undefined) ?? [];
+	}
+
+	/**
+	 * Read the footer of a Parquet file.
+	 *
+	 * @param file - The file, read in ranges; the caller closes it
+	 * @returns Reader positioned before the first row group
+	 * @throws Error if the file is not a Parquet file
+	 */
+	static async open(file: RandomAccessFile): Promise<ParquetReader> {
+		const { size } = file;
+		const tail = size < 12 ? undefined : await readRange(file, size - 8, 8);
+		if (!tail || tail.toString("latin1", 4) !== MAGIC) {
+			throw new Error("Not a Parquet file");
+		}
+		const footerLength = tail.readUInt32LE(0);
+		if (footerLength > size - 12) {
+			throw new Error("Corrupt Parquet footer");
+		}
+		const footer = await readRange(file, size - 8 - footerLength, footerLength);
+		return new ParquetReader(file, new ThriftReader(footer).readStruct());
+	}
+
+	/** Columns that can be shown, in schema order */
+	get columns(): ParquetColumn[] {
+		return this.leaves;
+	}
+
+	get rowGroupCount(): number {
+		return this.rowGroups.length;
+	}
+
+	/**
+	 * Compressed size of the readable columns of a row group, for progress reporting.
+	 */
+	rowGroupByteSize(index: number): number {
+		const chunks = this.rowGroups[index][1] as ThriftStruct[];
+		return this.leaves.reduce(
+			(sum, column) => sum + Number((chunks[column.chunk][3] as ThriftStruct)[7] ?? 0),
+			0,
+		);
+	}
+
+	/**
+	 * Read and decode one row group.
+	 *
+	 * @param index - Row group index
+	 * @returns Rows with one value per entry of {@link ParquetReader.columns}
+	 */
+	async readRowGroup(index: number): Promise<ParquetValue[][]> {
+		const group = this.rowGroups[index];
+		const rowCount = Number(group[3] ?? 0);
+		const chunks = group[1] as ThriftStruct[];
+		const columnValues: ParquetValue[][] = [];
+		for (const column of this.leaves) {
+			const meta = chunks[column.chunk][3] as ThriftStruct | undefined;
+			if (!meta) {
+				throw new Error(`Column "${column.name}" is stored in a separate file`);
+			}
+			const dataOffset = Number(meta[9]);
+			const dictionaryOffset = meta[11] === undefined ? undefined : Number(meta[11]);
+			const start =
+				dictionaryOffset !== undefined && dictionaryOffset > 0 && dictionaryOffset < dataOffset
+					? dictionaryOffset
+					: dataOffset;
+			const bytes = await readRange(this.file, start, Number(meta[7]));
+			columnValues.push(decodeColumnChunk(bytes, column, Number(meta[4]), Number(meta[5])));
+		}
+
+		const rows: ParquetValue[][] = [];
+		for (let r = 0; r < rowCount; r++) {
+			rows.push(columnValues.map((values) => values[r] ?? null));
+		}
+		return rows;
+	}
+}
+
+async function readRange(
+	file: RandomAccessFile,
+	position: number,
+	length: number,
+): Promise<Buffer> {
+	const bytes = position < 0 ? undefined : await file.read(position, length);
+	if (!bytes || bytes.length < length) {
+		throw new Error("Unexpected end of Parquet file");
+	}
+	return bytes;
+}
+
+/**
+ * Walk the flattened schema tree and collect the top-level primitive columns.
+ *
+ * @param schema - Schema elements in depth-first order, the root first
+ * @returns Readable columns and the names of skipped nested ones
+ */
+function readSchema(schema: ThriftStruct[]): { columns: LeafColumn[]; skipped: string[] } {
+	const columns: LeafColumn[] = [];
+	const skipped: string[] = [];
+	let chunk = 0;
+	let index = 1;
+
+	// Count the leaves under an element so nested groups can be skipped
+	const skip = (): number => {
+		const element = schema[index++];
+		const children = Number(element[5] ?? 0);
+		if (children === 0) {
+			return 1;
+		}
+		let leaves = 0;
+		for (let i = 0; i < children; i++) {
+			leaves += skip();
+		}
+		return leaves;
+	};
+
+	const rootChildren = Number(schema[0]?.[5] ?? 0);
+	for (let i = 0; i < rootChildren; i++) {
+		const element = schema[index];
+		const name = decodeText(element[4]);
+		if (Number(element[5] ?? 0) > 0 || element[3] === REPEATED) {
+			skipped.push(name);
+			chunk += skip();
+			continue;
+		}
+		index++;
+		columns.push(createColumn(element, name, chunk++));
+	}
+	return { columns, skipped };
+}
+
+function createColumn(element: ThriftStruct, name: string, chunk: number): LeafColumn {
+	const physicalType = Number(element[1]);
+	const convertedType = element[6] === undefined ? undefined : Number(element[6]);
+	const logical = (element[10] as ThriftStruct | undefined) ?? {};
+	const column = {
+		name,
+		chunk,
+		physicalType,
+		typeLength: Number(element[2] ?? 0),
+		maxDefinitionLevel: element[3] === OPTIONAL ? 1 : 0,
+	};
+
+	if (logical[5] || convertedType === 5) {
+		const decimal = (logical[5] as ThriftStruct | undefined) ?? {};
+		const scale = Number(decimal[1] ?? element[7] ?? 0);
+		return {
+			...column,
+			type: "float",
+			convert: (raw) => Number(toBigInt(raw)) / 10 ** scale,
+		};
+	}
+	if (logical[6] || convertedType === 6) {
+		return {
+			...column,
+			type: "datetime",
+			convert: (raw) => new Date(Number(raw) * MS_PER_DAY).toISOString().slice(0, 10),
+		};
+	}
+	if (logical[8] || convertedType === 9 || convertedType === 10) {
+		const timestamp = (logical[8] as ThriftStruct | undefined) ?? {};
+		const divisor = unitsPerMillisecond(timestamp[2], convertedType === 10);
+		// Timestamps not adjusted to UTC are wall-clock values
+		const utc = timestamp[1] !== false;
+		return {
+			...column,
+			type: "datetime",
+			convert: (raw) => {
+				const iso = new Date(Number(toBigInt(raw)) / divisor).toISOString();
+				return utc ? iso : iso.slice(0, -1);
+			},
+		};
+	}
+	if (logical[7] || convertedType === 7 || convertedType === 8) {
+		const time = (logical[7] as ThriftStruct | undefined) ?? {};
+		const divisor = unitsPerMillisecond(time[2], convertedType === 8);
+		return {
+			...column,
+			convert: (raw) => new Date(Number(toBigInt(raw)) / divisor).toISOString().slice(11, 23),
+		};
+	}
+
+	switch (physicalType) {
+		case BOOLEAN:
+			return { ...column, type: "boolean", convert: (raw) => raw as boolean };
+		case INT32:
+			// UINT_32 is stored as a signed int32
+			return convertedType === 14
+				? { ...column, type: "integer", convert: (raw) => (raw as number) >>> 0 }
+				: { ...column, type: "integer", convert: (raw) => raw as number };
+		case INT64:
+			return convertedType === 18
+				? {
+						...column,
+						type: "integer",
+						convert: (raw) => Number(BigInt.asUintN(64, raw as bigint)),
+					}
+				: { ...column, type: "integer", convert: (raw) => Number(raw as bigint) };
+		case INT96:
+			return { ...column, type: "datetime", convert: (raw) => int96ToISO(raw as Buffer) };
+		case FLOAT:
+		case DOUBLE:
+			return { ...column, type: "float", convert: (raw) => raw as number };
+		case FIXED_LEN_BYTE_ARRAY:
+			return logical[14]
+				? { ...column, convert: (raw) => formatUUID(raw as Buffer) }
+				: { ...column, convert: (raw) => (raw as Buffer).toString("hex") };
+		default:
+			return { ...column, convert: (raw) => (raw as Buffer).toString("utf8") };
+	}
+}
+
+/**
+ * Decode all pages of one column chunk.
+ *
+ * @param bytes - Column chunk bytes, starting with the dictionary page if any
+ * @param column - Column being decoded
+ * @param codec - Compression codec of the chunk
+ * @param valueCount - Number of values, including nulls
+ * @returns Values in row order
+ */
+function decodeColumnChunk(
+	bytes: Buffer,
+	column: LeafColumn,
+	codec: number,
+	valueCount: number,
+): ParquetValue[] {
+	const values: ParquetValue[] = [];
+	let dictionary: RawValue[] | undefined;
+	let pos = 0;
+	while (values.length < valueCount && pos < bytes.length) {
+		const reader = new ThriftReader(bytes, pos);
+		const header = reader.readStruct();
+		pos = reader.pos;
+		const pageType = Number(header[1]);
+		const page = bytes.subarray(pos, pos + Number(header[3]));
+		pos += page.length;
+
+		if (pageType === DICTIONARY_PAGE) {
+			const dictionaryHeader = header[7] as ThriftStruct;
+			const data = decompress(page, codec);
+			dictionary = decodePlain(data, 0, Number(dictionaryHeader[1]), column).values;
+		} else if (pageType === DATA_PAGE) {
+			const pageHeader = header[5] as ThriftStruct;
+			const count = Number(pageHeader[1]);
+			const data = decompress(page, codec);
+			let offset = 0;
+			let levels: number[] | undefined;
+			if (column.maxDefinitionLevel > 0) {
+				const length = data.readUInt32LE(0);
+				levels = decodeHybrid(data, 4, 4 + length, 1, count);
+				offset = 4 + length;
+			}
+			const present = levels ? levels.filter((level) => level > 0).length : count;
+			const raw = decodeValues(data, offset, present, Number(pageHeader[2]), column, dictionary);
+			appendValues(values, raw, levels, count, column);
+		} else if (pageType === DATA_PAGE_V2) {
+			const pageHeader = header[8] as ThriftStruct;
+			const count = Number(pageHeader[1]);
+			const definitionLength = Number(pageHeader[5]);
+			const repetitionLength = Number(pageHeader[6]);
+			// Levels are never compressed in v2 pages
+			const levelsEnd = repetitionLength + definitionLength;
+			const levels =
+				column.maxDefinitionLevel > 0
+					? decodeHybrid(page, repetitionLength, levelsEnd, 1, count)
+					: undefined;
+			const body = page.subarray(levelsEnd);
+			const data = pageHeader[7] === false ? body : decompress(body, codec);
+			const present = count - Number(pageHeader[2] ?? 0);
+			const raw = decodeValues(data, 0, present, Number(pageHeader[4]), column, dictionary);
+			appendValues(values, raw, levels, count, column);
+		}
+		// Index pages carry no values
+	}
+	return values;
+}
+
+function appendValues(
+	values: ParquetValue[],
+	raw: RawValue[],
+	levels: number[] | undefined,
+	count: number,
+	column: LeafColumn,
+) {
+	let next = 0;
+	for (let i = 0; i < count; i++) {
+		values.push(!levels || levels[i] > 0 ? column.convert(raw[next++]) : null);
+	}
+}
+
+function decodeValues(
+	data: Buffer,
+	offset: number,
+	count: number,
+	encoding: number,
+	column: LeafColumn,
+	dictionary: RawValue[] | undefined,
+): RawValue[] {
+	switch (encoding) {
+		case PLAIN:
+			return decodePlain(data, offset, count, column).values;
+		case PLAIN_DICTIONARY:
+		case RLE_DICTIONARY: {
+			if (!dictionary) {
+				throw new Error(`Column "${column.name}" uses a dictionary but has no dictionary page`);
+			}
+			const indexes = decodeHybrid(data, offset + 1, data.length, data[offset], count);
+			return indexes.map((i) => dictionary[i]);
+		}
+		case RLE:
+			if (column.physicalType === BOOLEAN) {
+				// Length-prefixed like definition levels
+				return decodeHybrid(data, offset + 4, data.length, 1, count).map((bit) => bit === 1);
+			}
+			break;
+	}
+	throw new Error(
+		`Unsupported Parquet encoding ${ENCODING_NAMES[encoding] ?? encoding} in column "${column.name}"`,
+	);
+}
+
+function decodePlain(
+	data: Buffer,
+	offset: number,
+	count: number,
+	column: LeafColumn,
+): { values: RawValue[]; offset: number } {
+	const values: RawValue[] = [];
+	let pos = offset;
+	for (let i = 0; i < count; i++) {
+		switch (column.physicalType) {
+			case BOOLEAN:
+				values.push(((data[offset + (i >> 3)] >> (i & 7)) & 1) === 1);
+				break;
+			case INT32:
+				values.push(data.readInt32LE(pos));
+				pos += 4;
+				break;
+			case INT64:
+				values.push(data.readBigInt64LE(pos));
+				pos += 8;
+				break;
+			case INT96:
+				values.push(data.subarray(pos, pos + 12));
+				pos += 12;
+				break;
+			case FLOAT:
+				values.push(data.readFloatLE(pos));
+				pos += 4;
+				break;
+			case DOUBLE:
+				values.push(data.readDoubleLE(pos));
+				pos += 8;
+				break;
+			case BYTE_ARRAY: {
+				const length = data.readUInt32LE(pos);
+				values.push(data.subarray(pos + 4, pos + 4 + length));
+				pos += 4 + length;
+				break;
+			}
+			case FIXED_LEN_BYTE_ARRAY:
+				values.push(data.subarray(pos, pos + column.typeLength));
+				pos += column.typeLength;
+				break;
+		}
+	}
+	return { values, offset: pos };
+}
+
+/**
+ * Decode the RLE / bit-packing hybrid encoding used for levels and dictionary indexes.
+ */
+function decodeHybrid(
+	data: Buffer,
+	offset: number,
+	end: number,
+	bitWidth: number,
+	count: number,
+): number[] {
+	const values: number[] = [];
+	const byteWidth = Math.ceil(bitWidth / 8);
+	let pos = offset;
+	while (values.length < count && pos < end) {
+		let header = 0;
+		for (let shift = 0; ; shift += 7) {
+			const byte = data[pos++];
+			header += (byte & 0x7f) * 2 ** shift;
+			if (byte < 0x80) {
+				break;
+			}
+		}
+		if (header % 2 === 1) {
+			// Bit-packed groups of 8 values, least significant bit first
+			const total = Math.floor(header / 2) * 8;
+			for (let i = 0; i < total && values.length < count; i++) {
+				let value = 0;
+				for (let bit = 0; bit < bitWidth; bit++) {
+					const position = i * bitWidth + bit;
+					value += ((data[pos + (position >> 3)] >> (position & 7)) & 1) * 2 ** bit;
+				}
+				values.push(value);
+			}
+			pos += (total * bitWidth) / 8;
+		} else {
+			const runLength = header / 2;
+			let value = 0;
+			for (let i = 0; i < byteWidth; i++) {
+				value += data[pos + i] * 2 ** (8 * i);
+			}
+			pos += byteWidth;
+			for (let i = 0; i < runLength && values.length < count; i++) {
+				values.push(value);
+			}
+		}
+	}
+	return values;
+}
+
+function decompress(data: Buffer, codec: number): Buffer {
+	switch (codec) {
+		case 0:
+			return data;
+		case 1:
+			return snappyUncompress(data);
+		case 2:
+			return zlib.gunzipSync(data);
+		case 4:
+			return zlib.brotliDecompressSync(data);
+		default:
+			throw new Error(`Unsupported Parquet compression codec ${CODEC_NAMES[codec] ?? codec}`);
+	}
+}
+
+/**
+ * Divisor from a time unit to milliseconds. The logical type's unit union
+ * (1 = millis, 2 = micros, 3 = nanos) wins over the legacy converted type.
+ */
+function unitsPerMillisecond(unit: unknown, micros: boolean): number {
+	const union = (unit as ThriftStruct | undefined) ?? {};
+	if (union[3]) {
+		return 1e6;
+	}
+	return union[2] || (!union[1] && micros) ? 1000 : 1;
+}
+
+function toBigInt(raw: RawValue): bigint {
+	if (typeof raw === "bigint") {
+		return raw;
+	}
+	if (typeof raw === "number") {
+		return BigInt(raw);
+	}
+	if (Buffer.isBuffer(raw)) {
+		// Big-endian two's complement, as used for decimals in byte arrays
+		if (raw.length === 0) {
+			return 0n;
+		}
+		const unsigned = BigInt(`0x${raw.toString("hex")}`);
+		return raw[0] & 0x80 ? unsigned - (1n << BigInt(raw.length * 8)) : unsigned;
+	}
+	return raw ? 1n : 0n;
+}
+
+/** Legacy INT96 timestamp: nanoseconds of the day, then the Julian day number. */
+function int96ToISO(raw: Buffer): string {
+	const nanos = raw.readBigUInt64LE(0);
+	const day = raw.readUInt32LE(8);
+	return new Date((day - JULIAN_UNIX_EPOCH) * MS_PER_DAY + Number(nanos / 1000000n)).toISOString();
+}
+
+function formatUUID(raw: Buffer): string {
+	const hex = raw.toString("hex");
+	return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function decodeText(value: unknown): string {
+	return Buffer.isBuffer(value) ? value.toString("utf8") : String(value ?? "");
+}
+
+/**
+ * Decoder for the Thrift compact protocol used by Parquet metadata.
+ *
+ * Structs are decoded generically into objects keyed by field id.
+ */
+class ThriftReader {
+	constructor(
+		private readonly buffer: Buffer,
+		public pos = 0,
+	) {}
+
+	readStruct(): ThriftStruct {
+		const struct: ThriftStruct = {};
+		let field = 0;
+		for (;;) {
+			const byte = this.buffer[this.pos++];
+			if (byte === undefined) {
+				throw new Error("Corrupt Parquet metadata");
+			}
+			const type = byte & 0x0f;
+			if (type === 0) {
+				return struct;
+			}
+			const delta = byte >> 4;
+			field = delta ? field + delta : this.readZigzag();
+			struct[field] = this.readValue(type);
+		}
+	}
+
+	private readValue(type: number): unknown {
+		switch (type) {
+			case 1:
+				return true;
+			case 2:
+				return false;
+			case 3:
+				return this.buffer.readInt8(this.pos++);
+			case 4:
+			case 5:
+			case 6:
+				return this.readZigzag();
+			case 7: {
+				const value = this.buffer.readDoubleLE(this.pos);
+				this.pos += 8;
+				return value;
+			}
+			case 8: {
+				const length = this.readVarint();
+				const value = this.buffer.subarray(this.pos, this.pos + length);
+				this.pos += length;
+				return value;
+			}
+			case 9:
+			case 10:
+				return this.readList();
+			case 11:
+				return this.readMap();
+			case 12:
+				return this.readStruct();
+			default:
+				throw new Error(`Corrupt Parquet metadata (type ${type})`);
+		}
+	}
+
+	private readList(): unknown[] {
+		const header = this.buffer[this.pos++];
+		const elementType = header & 0x0f;
+		const size = header >> 4 === 15 ? this.readVarint() : header >> 4;
+		const list: unknown[] = [];
+		for (let i = 0; i < size; i++) {
+			// Booleans in collections take one byte each
+			list.push(
+				elementType === 1 || elementType === 2
+					? this.buffer[this.pos++] === 1
+					: this.readValue(elementType),
+			);
+		}
+		return list;
+	}
+
+	private readMap(): Map<unknown, unknown> {
+		const size = this.readVarint();
+		const map = new Map<unknown, unknown>();
+		if (size === 0) {
+			return map;
+		}
+		const types = this.buffer[this.pos++];
+		for (let i = 0; i < size; i++) {
+			map.set(this.readValue(types >> 4), this.readValue(types & 0x0f));
+		}
+		return map;
+	}
+
+	private readVarint(): number {
+		let value = 0;
+		for (let shift = 0; ; shift += 7) {
+			const byte = this.buffer[this.pos++];
+			value += (byte & 0x7f) * 2 ** shift;
+			if (byte < 0x80) {
+				return value;
+			}
+		}
+	}
+
+	private readZigzag(): number {
+		const n = this.readVarint();
+		return n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+	}
+}
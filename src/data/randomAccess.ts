@@ -0,0 +1,60 @@
+import * as fs from "node:fs";
+
+/**
+ * A file read in ranges, so that the Parquet and Arrow readers only ever
+ * load the parts they need.
+ */
+export interface RandomAccessFile {
+	/** Size of the file in bytes */
+	readonly size: number;
+	/**
+	 * Read a range of the file.
+	 *
+	 * @param position - Offset of the first byte
+	 * @param length - Number of bytes to read
+	 * @returns The bytes read; fewer than `length` at the end of the file
+	 */
+	read(position: number, length: number): Promise<Buffer>;
+	close(): Promise<void>;
+}
+
+/**
+ * Open a local file for range reads.
+ *
+ * @param filePath - Path of the file
+ * @returns The open file; close it when done
+ */
+export async function openLocalFile(filePath: string): Promise<RandomAccessFile> {
+	const handle = await fs.promises.open(filePath, "r");
+	try {
+		const { size } = await handle.stat();
+		return {
+			size,
+			read: async (position, length) => {
+				const buffer = Buffer.alloc(Math.max(0, Math.min(length, size - position)));
+				const { bytesRead } = await handle.read(buffer, 0, buffer.length, position);
+				return buffer.subarray(0, bytesRead);
+			},
+			close: () => handle.close(),
+		};
+	} catch (error) {
+		await handle.close();
+		throw error;
+	}
+}
+
+/**
+ * Serve range reads from file contents held in memory, for files that can
+ * only be read whole, such as those of remote and virtual workspaces.
+ *
+ * @param content - Contents of the file
+ * @returns A file that needs no closing
+ */
+export function inMemoryFile(content: Buffer): RandomAccessFile {
+	return {
+		size: content.length,
+		read: async (position, length) =>
+			content.subarray(Math.max(0, position), Math.max(0, position + length)),
+		close: async () => {},
+	};
+}
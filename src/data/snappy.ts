@@ -0,0 +1,76 @@
+/**
+ * Decompress a raw Snappy block (not the framed stream format).
+ *
+ * @param input - Compressed block: the uncompressed length as a varint,
+ *   followed by literal and copy elements
+ * @returns Uncompressed data
+ * @throws Error if the block is corrupt
+ */
+export function snappyUncompress(input: Uint8Array): Buffer {
+	let pos = 0;
+	let length = 0;
+	for (let shift = 0; ; shift += 7) {
+		if (pos >= input.length || shift > 28) {
+			throw new Error("Corrupt Snappy block: bad length");
+		}
+		const byte = input[pos++];
+		length += (byte & 0x7f) * 2 ** shift;
+		if (byte < 0x80) {
+			break;
+		}
+	}
+
+	const output = Buffer.alloc(length);
+	let out = 0;
+	while (pos < input.length) {
+		const tag = input[pos++];
+		const kind = tag & 0x03;
+		if (kind === 0) {
+			// Literal; lengths above 60 are stored in the next 1-4 bytes
+			let literalLength = tag >>> 2;
+			if (literalLength >= 60) {
+				const bytes = literalLength - 59;
+				literalLength = 0;
+				for (let i = 0; i < bytes; i++) {
+					literalLength += input[pos++] * 2 ** (8 * i);
+				}
+			}
+			literalLength++;
+			if (pos + literalLength > input.length || out + literalLength > length) {
+				throw new Error("Corrupt Snappy block: literal out of range");
+			}
+			output.set(input.subarray(pos, pos + literalLength), out);
+			pos += literalLength;
+			out += literalLength;
+			continue;
+		}
+
+		let copyLength: number;
+		let offset: number;
+		if (kind === 1) {
+			copyLength = ((tag >>> 2) & 0x07) + 4;
+			offset = ((tag >>> 5) << 8) | input[pos++];
+		} else if (kind === 2) {
+			copyLength = (tag >>> 2) + 1;
+			offset = input[pos] | (input[pos + 1] << 8);
+			pos += 2;
+		} else {
+			copyLength = (tag >>> 2) + 1;
+			offset =
+				input[pos] + input[pos + 1] * 2 ** 8 + input[pos + 2] * 2 ** 16 + input[pos + 3] * 2 ** 24;
+			pos += 4;
+		}
+		if (offset === 0 || offset > out || out + copyLength > length) {
+			throw new Error("Corrupt Snappy block: copy out of range");
+		}
+		// Copies may overlap their own output, so go byte by byte
+		for (let i = 0; i < copyLength; i++) {
+			output[out] = output[out - offset];
+			out++;
+		}
+	}
+	if (out !== length) {
+		throw new Error("Corrupt Snappy block: length mismatch");
+	}
+	return output;
+}
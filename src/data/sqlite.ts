@@ -0,0 +1,154 @@
+import initSqlJs from "sql.js";
+import type { ColumnType } from "./load";
+
+/**
+ * A table or view of a SQLite database.
+ */
+export interface SQLiteTable {
+	name: string;
+	type: "table" | "view";
+}
+
+/**
+ * Result set of a query.
+ */
+export interface SQLiteResult {
+	/** Result columns; `type` is set for columns holding only numbers */
+	columns: { name: string; type?: ColumnType }[];
+	/** Rows, with BLOBs as hex text */
+	rows: (string | number | null)[][];
+	/** True when the query returned more than the requested number of rows */
+	truncated: boolean;
+}
+
+const HEADER = "SQLite format 3\0";
+
+let engine: Promise<initSqlJs.SqlJsStatic> | undefined;
+
+/**
+ * Load the embedded SQLite engine (WebAssembly) once per session.
+ */
+function loadEngine(): Promise<initSqlJs.SqlJsStatic> {
+	engine ??= initSqlJs();
+	return engine;
+}
+
+/**
+ * Open an in-memory copy of a database, so queries never change the file.
+ */
+async function openDatabase(data: Uint8Array): Promise<initSqlJs.Database> {
+	if (Buffer.from(data.subarray(0, HEADER.length)).toString("latin1") !== HEADER) {
+		throw new Error("Not a SQLite database");
+	}
+	const SQL = await loadEngine();
+	return new SQL.Database(data);
+}
+
+/**
+ * List the tables and views of a SQLite database, leaving out SQLite's own tables.
+ *
+ * @param data - Database file contents
+ * @returns Tables, then views, each sorted by name
+ * @throws Error if the data is not a SQLite database
+ */
+export async function listSQLiteTables(data: Uint8Array): Promise<SQLiteTable[]> {
+	const db = await openDatabase(data);
+	try {
+		const [result] = db.exec(
+			"SELECT name, type FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' ORDER BY type, name",
+		);
+		return (result?.values ?? []).map(([name, type]) => ({
+			name: String(name),
+			type: type === "view" ? "view" : "table",
+		}));
+	} finally {
+		db.close();
+	}
+}
+
+/**
+ * Check that a query only reads data: SELECT, WITH ... SELECT or VALUES.
+ */
+export function isSelectQuery(query: string): boolean {
+	return /^\s*(?:select|with|values)\b/i.test(query);
+}
+
+/**
+ * Query reading every row of a table or view.
+ */
+export function tableQuery(name: string): string {
+	return `SELECT * FROM "${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Run a SELECT query against a SQLite database.
+ *
+ * Only the first statement of the query is run.
+ *
+ * @param data - Database file contents
+ * @param query - SELECT query
+ * @param maxRows - Maximum number of rows to return
+ * @returns Result columns and rows
+ * @throws Error if the query is not a SELECT or fails
+ */
+export async function querySQLite(
+	data: Uint8Array,
+	query: string,
+	maxRows = Number.POSITIVE_INFINITY,
+): Promise<SQLiteResult> {
+	if (!isSelectQuery(query)) {
+		throw new Error("Only SELECT queries can be run");
+	}
+	const db = await openDatabase(data);
+	try {
+		const statement = db.prepare(query);
+		try {
+			const names = statement.getColumnNames();
+			const rows: (string | number | null)[][] = [];
+			let truncated = false;
+			while (statement.step()) {
+				if (rows.length >= maxRows) {
+					truncated = true;
+					break;
+				}
+				rows.push(
+					statement
+						.get()
+						.map((value) =>
+							value instanceof Uint8Array ? Buffer.from(value).toString("hex") : value,
+						),
+				);
+			}
+			const columns = names.map((name, index) => ({ name, type: numericType(rows, index) }));
+			return { columns, rows, truncated };
+		} finally {
+			statement.free();
+		}
+	} finally {
+		db.close();
+	}
+}
+
+/**
+ * SQLite columns have no fixed type; a column whose values are all numbers
+ * is numeric, anything else is left to inference.
+ */
+function numericType(rows: (string | number | null)[][], index: number): ColumnType | undefined {
+	let integer = true;
+	let count = 0;
+	for (const row of rows) {
+		const value = row[index];
+		if (value === null) {
+			continue;
+		}
+		if (typeof value !== "number") {
+			return undefined;
+		}
+		count++;
+		integer &&= Number.isInteger(value);
+	}
+	if (count === 0) {
+		return undefined;
+	}
+	return integer ? "integer" : "float";
+}
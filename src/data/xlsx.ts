@@ -0,0 +1,415 @@
+import { extractZipEntry, readZipEntries, type ZipEntry } from "./zip";
+
+/**
+ * A worksheet listed in an Excel workbook.
+ */
+export interface WorksheetInfo {
+	name: string;
+	/** Used range recorded by Excel, e.g. `A1:F120`, if present */
+	dimension?: string;
+}
+
+/** A cell value after decoding; dates are ISO text */
+export type CellValue = string | number | boolean | null;
+
+/**
+ * Cells read from one worksheet.
+ */
+export interface WorksheetCells {
+	/** Worksheet name */
+	sheet: string;
+	/** Range covered by `cells`, e.g. `B2:D40` */
+	range: string;
+	/** Rows of the range, each as wide as the range */
+	cells: CellValue[][];
+}
+
+/** Built-in number formats that display dates or times */
+const BUILTIN_DATE_FORMATS = new Set([
+	14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50, 51,
+	52, 53, 54, 55, 56, 57, 58,
+]);
+
+const MS_PER_DAY = 86400000;
+/** Day 0 of the 1900 date system (Excel counts the non-existent 1900-02-29) */
+const EPOCH_1900 = Date.UTC(1899, 11, 30);
+const EPOCH_1904 = Date.UTC(1904, 0, 1);
+
+const XML_ENTITIES: Record<string, string> = {
+	amp: "&",
+	lt: "<",
+	gt: ">",
+	quot: '"',
+	apos: "'",
+};
+
+/**
+ * List the worksheets of an `.xlsx` workbook in tab order.
+ *
+ * @param archive - Workbook file contents
+ * @returns Worksheets with their recorded dimensions
+ * @throws Error if the file is not an Excel workbook
+ */
+export function listWorksheets(archive: Buffer): WorksheetInfo[] {
+	const workbook = new Workbook(archive);
+	return workbook.sheets.map(({ name, path }) => {
+		const dimension = /<(?:\w+:)?dimension\b[^>]*\bref="([^"]+)"/.exec(
+			workbook.readText(path) ?? "",
+		);
+		return dimension ? { name, dimension: dimension[1] } : { name };
+	});
+}
+
+/**
+ * Read the cells of a worksheet.
+ *
+ * Shared and inline strings are resolved, booleans become `true`/`false`,
+ * error cells (`#N/A`, `#DIV/0!`, ...) become null, and numbers shown with a
+ * date or time format become ISO 8601 text (`2024-03-01`, `2024-03-01T08:30:00`,
+ * or `08:30:00` for times of day).
+ *
+ * @param archive - Workbook file contents
+ * @param sheet - Worksheet name (default: the first worksheet)
+ * @param range - A1-style range such as `B2:D40` (default: all used cells)
+ * @returns Cells of the range
+ * @throws Error if the worksheet does not exist or the range is invalid
+ */
+export function readWorksheet(archive: Buffer, sheet?: string, range?: string): WorksheetCells {
+	const workbook = new Workbook(archive);
+	const target = sheet ? workbook.sheets.find((s) => s.name === sheet) : workbook.sheets[0];
+	if (!target) {
+		throw new Error(sheet ? `Worksheet "${sheet}" not found` : "Workbook has no worksheets");
+	}
+	const xml = workbook.readText(target.path);
+	if (xml === undefined) {
+		throw new Error(`Worksheet "${target.name}" is missing from the workbook`);
+	}
+
+	const sharedStrings = workbook.sharedStrings();
+	const dateStyles = workbook.dateStyles();
+	const epoch = workbook.uses1904Dates() ? EPOCH_1904 : EPOCH_1900;
+	const cells = new Map<number, Map<number, CellValue>>();
+	let minRow = Number.POSITIVE_INFINITY;
+	let maxRow = -1;
+	let minCol = Number.POSITIVE_INFINITY;
+	let maxCol = -1;
+
+	let rowIndex = -1;
+	for (const row of xml.matchAll(/<(?:\w+:)?row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?row>)/g)) {
+		const rowNumber = attribute(row[1], "r");
+		rowIndex = rowNumber ? Number(rowNumber) - 1 : rowIndex + 1;
+		let colIndex = -1;
+		for (const cell of (row[2] ?? "").matchAll(
+			/<(?:\w+:)?c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?c>)/g,
+		)) {
+			const ref = attribute(cell[1], "r");
+			colIndex = ref ? parseCellReference(ref).col : colIndex + 1;
+			const value = decodeCell(cell[1], cell[2] ?? "", sharedStrings, dateStyles, epoch);
+			if (value === null) {
+				continue;
+			}
+			let cellsOfRow = cells.get(rowIndex);
+			if (!cellsOfRow) {
+				cellsOfRow = new Map();
+				cells.set(rowIndex, cellsOfRow);
+			}
+			cellsOfRow.set(colIndex, value);
+			minRow = Math.min(minRow, rowIndex);
+			maxRow = Math.max(maxRow, rowIndex);
+			minCol = Math.min(minCol, colIndex);
+			maxCol = Math.max(maxCol, colIndex);
+		}
+	}
+
+	let bounds = { top: minRow, left: minCol, bottom: maxRow, right: maxCol };
+	if (range) {
+		const selected = parseRange(range);
+		// Do not pad a generous range such as A1:Z100000 with empty rows
+		bounds = { ...selected, bottom: Math.min(selected.bottom, maxRow) };
+	}
+	if (bounds.bottom < bounds.top || bounds.right < bounds.left) {
+		return { sheet: target.name, range: range ?? "", cells: [] };
+	}
+
+	const grid: CellValue[][] = [];
+	for (let r = bounds.top; r <= bounds.bottom; r++) {
+		const cellsOfRow = cells.get(r);
+		const values: CellValue[] = [];
+		for (let c = bounds.left; c <= bounds.right; c++) {
+			values.push(cellsOfRow?.get(c) ?? null);
+		}
+		grid.push(values);
+	}
+	return {
+		sheet: target.name,
+		range: `${formatCellReference(bounds.top, bounds.left)}:${formatCellReference(bounds.bottom, bounds.right)}`,
+		cells: grid,
+	};
+}
+
+/**
+ * Check an A1-style range such as `B2:D40` or a single cell such as `C3`.
+ *
+ * @param range - Range text; `$` anchors are allowed
+ * @returns true if the range can be read
+ */
+export function isValidRange(range: string): boolean {
+	try {
+		parseRange(range);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Parts of an `.xlsx` package needed to read cell values.
+ */
+class Workbook {
+	private readonly entries = new Map<string, ZipEntry>();
+	readonly sheets: { name: string; path: string }[] = [];
+	private readonly relationships = new Map<string, { type: string; target: string }>();
+	private readonly workbookXml: string;
+
+	constructor(private readonly archive: Buffer) {
+		for (const entry of readZipEntries(archive)) {
+			this.entries.set(entry.name, entry);
+		}
+		const workbookXml = this.readText("xl/workbook.xml");
+		if (workbookXml === undefined) {
+			throw new Error("Not an Excel workbook (xl/workbook.xml missing)");
+		}
+		this.workbookXml = workbookXml;
+
+		const rels = this.readText("xl/_rels/workbook.xml.rels") ?? "";
+		for (const rel of rels.matchAll(/<(?:\w+:)?Relationship\b([^>]*)>/g)) {
+			const id = attribute(rel[1], "Id");
+			const target = attribute(rel[1], "Target");
+			if (id && target) {
+				this.relationships.set(id, {
+					type: attribute(rel[1], "Type") ?? "",
+					target: resolvePartPath(target),
+				});
+			}
+		}
+
+		for (const sheet of workbookXml.matchAll(/<(?:\w+:)?sheet\b([^>]*)\/?>/g)) {
+			const name = attribute(sheet[1], "name");
+			const relId = /\s(?:\w+:)?id="([^"]*)"/.exec(sheet[1])?.[1];
+			const rel = relId ? this.relationships.get(relId) : undefined;
+			// Chart sheets and macro sheets have no cell grid
+			if (name !== undefined && rel?.type.endsWith("/worksheet")) {
+				this.sheets.push({ name: decodeXmlText(name), path: rel.target });
+			}
+		}
+	}
+
+	/**
+	 * Read a part of the package as UTF-8 text.
+	 *
+	 * @param partPath - Path inside the archive, e.g. `xl/workbook.xml`
+	 * @returns Part contents, or undefined if the part does not exist
+	 */
+	readText(partPath: string): string | undefined {
+		const entry = this.entries.get(partPath);
+		return entry ? extractZipEntry(this.archive, entry).toString("utf8") : undefined;
+	}
+
+	uses1904Dates(): boolean {
+		return /<(?:\w+:)?workbookPr\b[^>]*\bdate1904="(?:1|true)"/.test(this.workbookXml);
+	}
+
+	/** Shared string table, with rich text runs joined and phonetic hints dropped. */
+	sharedStrings(): string[] {
+		const xml = this.readText(this.partOfType("/sharedStrings", "xl/sharedStrings.xml")) ?? "";
+		return Array.from(xml.matchAll(/<(?:\w+:)?si>([\s\S]*?)<\/(?:\w+:)?si>/g), (item) =>
+			readInlineText(item[1]),
+		);
+	}
+
+	/** Indexes of cell styles whose number format shows a date or time. */
+	dateStyles(): Set<number> {
+		const xml = this.readText(this.partOfType("/styles", "xl/styles.xml")) ?? "";
+		const customFormats = new Map<number, string>();
+		for (const format of xml.matchAll(/<(?:\w+:)?numFmt\b([^>]*)\/?>/g)) {
+			const id = attribute(format[1], "numFmtId");
+			const code = attribute(format[1], "formatCode");
+			if (id !== undefined && code !== undefined) {
+				customFormats.set(Number(id), decodeXmlText(code));
+			}
+		}
+
+		const styles = new Set<number>();
+		const cellXfs = /<(?:\w+:)?cellXfs\b[^>]*>([\s\S]*?)<\/(?:\w+:)?cellXfs>/.exec(xml)?.[1] ?? "";
+		let index = 0;
+		for (const xf of cellXfs.matchAll(/<(?:\w+:)?xf\b([^>]*?)\/?>/g)) {
+			const id = Number(attribute(xf[1], "numFmtId") ?? 0);
+			const code = customFormats.get(id);
+			if (code !== undefined ? isDateFormatCode(code) : BUILTIN_DATE_FORMATS.has(id)) {
+				styles.add(index);
+			}
+			index++;
+		}
+		return styles;
+	}
+
+	private partOfType(typeSuffix: string, fallback: string): string {
+		for (const rel of this.relationships.values()) {
+			if (rel.type.endsWith(typeSuffix)) {
+				return rel.target;
+			}
+		}
+		return fallback;
+	}
+}
+
+/**
+ * Decode one `<c>` element.
+ *
+ * @param attrs - Attribute text of the element
+ * @param body - Element content
+ * @param sharedStrings - Shared string table
+ * @param dateStyles - Style indexes with date formats
+ * @param epoch - Day 0 of the workbook's date system, in ms since 1970
+ * @returns Cell value, or null for empty and error cells
+ */
+function decodeCell(
+	attrs: string,
+	body: string,
+	sharedStrings: string[],
+	dateStyles: Set<number>,
+	epoch: number,
+): CellValue {
+	const type = attribute(attrs, "t") ?? "n";
+	if (type === "inlineStr") {
+		const inline = /<(?:\w+:)?is>([\s\S]*?)<\/(?:\w+:)?is>/.exec(body);
+		return inline ? readInlineText(inline[1]) : null;
+	}
+	const raw = /<(?:\w+:)?v>([\s\S]*?)<\/(?:\w+:)?v>/.exec(body)?.[1];
+	if (raw === undefined) {
+		return null;
+	}
+	switch (type) {
+		case "s":
+			return sharedStrings[Number(raw)] ?? null;
+		case "b":
+			return raw === "1";
+		case "e":
+			return null;
+		case "str":
+		case "d":
+			return decodeXmlText(raw);
+		default: {
+			const n = Number(raw);
+			if (Number.isNaN(n)) {
+				return decodeXmlText(raw);
+			}
+			return dateStyles.has(Number(attribute(attrs, "s") ?? 0)) ? serialToISO(n, epoch) : n;
+		}
+	}
+}
+
+/**
+ * Convert an Excel date serial to ISO 8601 text without a time zone, as
+ * Excel dates are wall-clock values.
+ */
+function serialToISO(serial: number, epoch: number): string {
+	const iso = new Date(epoch + Math.round(serial * MS_PER_DAY)).toISOString();
+	if (serial >= 0 && serial < 1) {
+		return iso.slice(11, 19);
+	}
+	return Number.isInteger(serial) ? iso.slice(0, 10) : iso.slice(0, 19);
+}
+
+/**
+ * Whether a custom number format displays a date or time, ignoring quoted
+ * literals, escaped characters and bracketed colours or conditions.
+ */
+function isDateFormatCode(code: string): boolean {
+	const stripped = code.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, "");
+	return /[dmyhs]/i.test(stripped) && !/^general$/i.test(stripped.trim());
+}
+
+/** Text of all `<t>` runs in a string item, leaving out phonetic runs. */
+function readInlineText(xml: string): string {
+	const text = xml.replace(/<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g, "");
+	return Array.from(text.matchAll(/<(?:\w+:)?t\b[^>]*>([\s\S]*?)<\/(?:\w+:)?t>/g), (t) =>
+		decodeXmlText(t[1]),
+	).join("");
+}
+
+function attribute(attrs: string, name: string): string | undefined {
+	return new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attrs)?.[1];
+}
+
+function decodeXmlText(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+		if (code[0] === "#") {
+			return String.fromCodePoint(
+				code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : Number(code.slice(1)),
+			);
+		}
+		return XML_ENTITIES[code] ?? entity;
+	});
+}
+
+/** Resolve a relationship target relative to the `xl/` folder. */
+function resolvePartPath(target: string): string {
+	if (target.startsWith("/")) {
+		return target.slice(1);
+	}
+	const parts = ["xl"];
+	for (const part of target.split("/")) {
+		if (part === "..") {
+			parts.pop();
+		} else if (part !== ".") {
+			parts.push(part);
+		}
+	}
+	return parts.join("/");
+}
+
+/**
+ * @param ref - Cell reference such as `C12` or `$C$12`
+ * @returns Zero-based row and column
+ */
+function parseCellReference(ref: string): { row: number; col: number } {
+	const match = /^\$?([A-Za-z]{1,3})\$?(\d+)?$/.exec(ref.trim());
+	if (!match) {
+		throw new Error(`Invalid cell reference "${ref}"`);
+	}
+	let col = 0;
+	for (const letter of match[1].toUpperCase()) {
+		col = col * 26 + (letter.charCodeAt(0) - 64);
+	}
+	return { row: match[2] ? Number(match[2]) - 1 : 0, col: col - 1 };
+}
+
+function parseRange(range: string): { top: number; left: number; bottom: number; right: number } {
+	const [start, end = start] = range.split(":");
+	if (!/\d/.test(start) || !/\d/.test(end)) {
+		throw new Error(`Invalid cell range "${range}"`);
+	}
+	let a: { row: number; col: number };
+	let b: { row: number; col: number };
+	try {
+		a = parseCellReference(start);
+		b = parseCellReference(end);
+	} catch {
+		throw new Error(`Invalid cell range "${range}"`);
+	}
+	return {
+		top: Math.min(a.row, b.row),
+		left: Math.min(a.col, b.col),
+		bottom: Math.max(a.row, b.row),
+		right: Math.max(a.col, b.col),
+	};
+}
+
+function formatCellReference(row: number, col: number): string {
+	let letters = "";
+	for (let n = col + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+		letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+	}
+	return `${letters}${row + 1}`;
+}
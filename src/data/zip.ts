@@ -0,0 +1,112 @@
+import * as zlib from "node:zlib";
+
+/**
+ * A file stored in a ZIP archive.
+ */
+export interface ZipEntry {
+	/** Path inside the archive, with `/` separators */
+	name: string;
+	/** 0 = stored, 8 = deflated */
+	method: number;
+	compressedSize: number;
+	size: number;
+	/** Offset of the entry's local header from the start of the archive */
+	localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/** End-of-central-directory record size without the trailing comment */
+const EOCD_SIZE = 22;
+
+/**
+ * List the entries of a ZIP archive from its central directory.
+ *
+ * Directories are left out. ZIP64 archives and encrypted entries are not
+ * supported.
+ *
+ * @param archive - Complete archive contents
+ * @returns Entries in central directory order
+ * @throws Error if the data is not a ZIP archive
+ */
+export function readZipEntries(archive: Buffer): ZipEntry[] {
+	const eocd = findEndOfCentralDirectory(archive);
+	const count = archive.readUInt16LE(eocd + 10);
+	let offset = archive.readUInt32LE(eocd + 16);
+	if (offset === 0xffffffff || count === 0xffff) {
+		throw new Error("ZIP64 archives are not supported");
+	}
+
+	const entries: ZipEntry[] = [];
+	for (let i = 0; i < count; i++) {
+		if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+			throw new Error("Corrupt ZIP central directory");
+		}
+		const flags = archive.readUInt16LE(offset + 8);
+		const nameLength = archive.readUInt16LE(offset + 28);
+		const extraLength = archive.readUInt16LE(offset + 30);
+		const commentLength = archive.readUInt16LE(offset + 32);
+		// Bit 11 marks UTF-8 names; older archives use code page 437, which is ASCII-compatible
+		const name = archive.toString(
+			flags & 0x800 ? "utf8" : "latin1",
+			offset + 46,
+			offset + 46 + nameLength,
+		);
+		if (flags & 0x1) {
+			throw new Error(`Encrypted ZIP entry not supported: ${name}`);
+		}
+		if (!name.endsWith("/")) {
+			entries.push({
+				name,
+				method: archive.readUInt16LE(offset + 10),
+				compressedSize: archive.readUInt32LE(offset + 20),
+				size: archive.readUInt32LE(offset + 24),
+				localHeaderOffset: archive.readUInt32LE(offset + 42),
+			});
+		}
+		offset += 46 + nameLength + extraLength + commentLength;
+	}
+	return entries;
+}
+
+/**
+ * Decompress one entry of a ZIP archive.
+ *
+ * @param archive - Complete archive contents
+ * @param entry - Entry from {@link readZipEntries}
+ * @returns Uncompressed entry contents
+ * @throws Error for unsupported compression methods
+ */
+export function extractZipEntry(archive: Buffer, entry: ZipEntry): Buffer {
+	const offset = entry.localHeaderOffset;
+	if (archive.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+		throw new Error(`Corrupt ZIP entry: ${entry.name}`);
+	}
+	// The local header repeats the name and may carry a different extra field
+	const start = offset + 30 + archive.readUInt16LE(offset + 26) + archive.readUInt16LE(offset + 28);
+	const data = archive.subarray(start, start + entry.compressedSize);
+	switch (entry.method) {
+		case 0:
+			return Buffer.from(data);
+		case 8:
+			return zlib.inflateRawSync(data);
+		default:
+			throw new Error(`Unsupported ZIP compression method ${entry.method} in ${entry.name}`);
+	}
+}
+
+/**
+ * Locate the end-of-central-directory record, which may be followed by an
+ * archive comment of up to 64 KiB.
+ */
+function findEndOfCentralDirectory(archive: Buffer): number {
+	const earliest = Math.max(0, archive.length - EOCD_SIZE - 0xffff);
+	for (let i = archive.length - EOCD_SIZE; i >= earliest; i--) {
+		if (archive.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+			return i;
+		}
+	}
+	throw new Error("Not a ZIP archive");
+}
@@ -1,16 +1,27 @@
 import * as vscode from "vscode";
 import { registerDataCommands } from "./commands/dataCommands";
 import { type ChartTestConfig, ChartViewProvider } from "./providers/chartViewProvider";
-import { DataPreviewProvider } from "./providers/dataPreviewProvider";
+import {
+	createDefaultMessageHandlerDeps,
+	DataPreviewProvider,
+} from "./providers/dataPreviewProvider";
+import { ParseDiagnostics } from "./providers/parseDiagnostics";
+import { TABLE_DOCUMENT_SELECTOR, TableCodeLensProvider } from "./providers/tableCodeLensProvider";
 
 export function activate(context: vscode.ExtensionContext) {
 	console.log("VSPlot extension is now active!");
 
 	// Register webview providers
 	const chartViewProvider = new ChartViewProvider(context.extensionUri);
-	const dataPreviewProvider = new DataPreviewProvider(context.extensionUri, chartViewProvider);
+	// Parse issues of the previewed file are listed in the Problems panel
+	const parseDiagnostics = new ParseDiagnostics();
+	const dataPreviewProvider = new DataPreviewProvider(context.extensionUri, chartViewProvider, {
+		...createDefaultMessageHandlerDeps(),
+		publishParseIssues: (uri, data, source) => parseDiagnostics.publish(uri, data, source),
+	});
 
 	context.subscriptions.push(
+		parseDiagnostics,
 		vscode.window.registerWebviewViewProvider("vsplot.dataPreview", dataPreviewProvider),
 		vscode.window.registerWebviewViewProvider("vsplot.chartView", chartViewProvider),
 	);
@@ -18,6 +29,17 @@ export function activate(context: vscode.ExtensionContext) {
 	// Register commands
 	registerDataCommands(context, dataPreviewProvider, chartViewProvider);
 
+	// Offer tables found in Markdown, HTML and LaTeX documents
+	const tableCodeLensProvider = new TableCodeLensProvider();
+	context.subscriptions.push(
+		vscode.languages.registerCodeLensProvider(TABLE_DOCUMENT_SELECTOR, tableCodeLensProvider),
+		vscode.workspace.onDidChangeConfiguration((event) => {
+			if (event.affectsConfiguration("vsplot.tableCodeLens")) {
+				tableCodeLensProvider.refresh();
+			}
+		}),
+	);
+
 	// Hidden test commands for automation
 	context.subscriptions.push(
 		vscode.commands.registerCommand(
@@ -1,5 +1,5 @@
 import * as vscode from "vscode";
-import type { ParsedData } from "../data/load";
+import { inferColumnSchema, type ParsedData } from "../data/load";
 import { getNonce, loadHtmlTemplate } from "./webviewUtils";
 
 export class ChartViewProvider implements vscode.WebviewViewProvider {
@@ -13,7 +13,7 @@ export class ChartViewProvider implements vscode.WebviewViewProvider {
 
 	constructor(private readonly _extensionUri: vscode.Uri) {}
 
-	public resolveWebviewView(
+	public async resolveWebviewView(
 		webviewView: vscode.WebviewView,
 		_context: vscode.WebviewViewResolveContext,
 		_token: vscode.CancellationToken,
@@ -25,14 +25,16 @@ export class ChartViewProvider implements vscode.WebviewViewProvider {
 			localResourceRoots: [this._extensionUri],
 		};
 
-		webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
-
 		this._wireMessageHandlers(webviewView.webview);
 		this._currentWebview = webviewView.webview;
+
+		webviewView.webview.html = await this._getHtmlForWebview(webviewView.webview);
 	}
 
 	public async showChart(uri: vscode.Uri, data: ParsedData) {
 		this._currentUri = uri;
+		// Data built outside the parser (e.g. by tests) may not carry a schema yet
+		data.columns ??= inferColumnSchema(data.headers, data.rows);
 		if (this._view) {
 			this._view.show?.(true);
 			this._view.webview.postMessage({
@@ -53,7 +55,7 @@ export class ChartViewProvider implements vscode.WebviewViewProvider {
 				},
 			);
 
-			panel.webview.html = this._getHtmlForWebview(panel.webview);
+			panel.webview.html = await this._getHtmlForWebview(panel.webview);
 
 			// Send data to webview
 			panel.webview.postMessage({
@@ -214,9 +216,9 @@ export class ChartViewProvider implements vscode.WebviewViewProvider {
 	 * clean and maintainable.
 	 *
 	 * @param webview - The webview to generate HTML for
-	 * @returns HTML string with references to external resources
+	 * @returns Promise resolving to the HTML string with references to external resources
 	 */
-	private _getHtmlForWebview(webview: vscode.Webview) {
+	private _getHtmlForWebview(webview: vscode.Webview): Promise<string> {
 		const vsplotConfig = vscode.workspace.getConfiguration("vsplot");
 		const defaultChartType = vsplotConfig.get<string>("defaultChartType", "line");
 		const defaultStylePreset = vsplotConfig.get<string>("defaultStylePreset", "clean");
@@ -281,6 +283,8 @@ export interface ChartTestState {
 	x: number;
 	y: number;
 	y2: number;
+	/** Chart title as typed, before metadata placeholders are filled in */
+	title: string;
 	legend: boolean;
 	dragZoom: boolean;
 	curveSmoothing: boolean;
@@ -303,6 +307,7 @@ export type ChartTestConfig = Partial<{
 	x: number;
 	y: number;
 	y2: number;
+	title: string;
 	legend: boolean;
 	dragZoom: boolean;
 	curveSmoothing: boolean;
@@ -1,6 +1,13 @@
 import * as vscode from "vscode";
-import type { ParsedData, ParseOptions } from "../data/load.js";
-import { parseDataFile } from "../data/load.js";
+import type { ColumnType, ParsedData, ParseOptions, TextSource } from "../data/load.js";
+import {
+	getConfiguredParseOptions,
+	inferColumnSchema,
+	parseDataFileWithProgress,
+	parseDataText,
+	saveColumnBoundaries,
+	saveQuery,
+} from "../data/load.js";
 import { getNonce, loadHtmlTemplate } from "./webviewUtils";
 
 // --- Dependency Injection for Message Handlers ---
@@ -14,6 +21,14 @@ export interface MessageHandlerDependencies {
 	showInfoMessage: (msg: string) => void;
 	showErrorMessage: (msg: string) => void;
 	parseDataFile: (uri: vscode.Uri, options?: ParseOptions) => Promise<ParsedData | null>;
+	/** Parse editor text shown in the preview instead of a file (default: {@link parseDataText}) */
+	parseDataText?: (source: TextSource, options?: ParseOptions) => ParsedData | null;
+	/** Store the fixed-width column layout of a file (default: the `vsplot.fixedWidthColumns` setting) */
+	saveColumnBoundaries?: (uri: vscode.Uri, boundaries: number[] | undefined) => Promise<void>;
+	/** Store a query for a SQLite database (default: the `vsplot.savedQueries` setting) */
+	saveQuery?: (uri: vscode.Uri, query: string) => Promise<void>;
+	/** Report the parse issues of the data shown, e.g. in the Problems panel (default: none) */
+	publishParseIssues?: (uri: vscode.Uri, data: ParsedData, source?: TextSource) => void;
 }
 
 /**
@@ -29,7 +44,20 @@ export function createDefaultMessageHandlerDeps(): MessageHandlerDependencies {
 		showErrorMessage: (msg) => {
 			vscode.window.showErrorMessage(msg);
 		},
-		parseDataFile: parseDataFile,
+		parseDataFile: (uri, options) =>
+			parseDataFileWithProgress(uri, {
+				...getConfiguredParseOptions(uri),
+				maxRows: vscode.workspace.getConfiguration("vsplot").get<number>("maxRowsPreview", 1000),
+				...options,
+			}),
+		parseDataText: (source, options) =>
+			parseDataText(source, {
+				...getConfiguredParseOptions(),
+				maxRows: vscode.workspace.getConfiguration("vsplot").get<number>("maxRowsPreview", 1000),
+				...options,
+			}),
+		saveColumnBoundaries,
+		saveQuery,
 	};
 }
 
@@ -37,7 +65,7 @@ export function createDefaultMessageHandlerDeps(): MessageHandlerDependencies {
 
 export interface ExportDataMessage {
 	type: "exportData";
-	data: { headers: string[]; rows: (string | number)[][] };
+	data: { headers: string[]; rows: (string | number | null)[][] };
 }
 
 export interface CreateChartMessage {
@@ -48,9 +76,46 @@ export interface CreateChartMessage {
 export interface ReparseMessage {
 	type: "reparse";
 	delimiter: string | "auto";
+	/** Text encoding chosen in the preview, e.g. `windows-1252` */
+	encoding?: string;
+	/** Log format chosen in the preview, `auto` or `none` */
+	logFormat?: string;
+	/** JSON array selector of the data currently shown, kept across reparses */
+	jsonPath?: string;
+	/** Worksheet and cell range of the data currently shown (Excel only) */
+	sheet?: string;
+	range?: string;
+	/** Query of the data currently shown, or one edited in the preview (SQLite only) */
+	query?: string;
+	/** Array of the data currently shown (NumPy .npz only) */
+	array?: string;
+	/** Archive entry of the data currently shown (ZIP only) */
+	entry?: string;
+	/** Position of the table currently shown (Markdown, HTML and LaTeX only) */
+	table?: number;
+	/** Column types chosen in the preview header, keyed by header */
+	columnTypes?: Record<string, ColumnType>;
+	/** Fixed-width column start offsets set on the preview ruler */
+	columnBoundaries?: number[];
 }
 
-export type WebviewMessage = ExportDataMessage | CreateChartMessage | ReparseMessage;
+export interface SaveColumnBoundariesMessage {
+	type: "saveColumnBoundaries";
+	/** Column start offsets to keep for the file, or undefined to forget them */
+	columnBoundaries?: number[];
+}
+
+export interface SaveQueryMessage {
+	type: "saveQuery";
+	query: string;
+}
+
+export type WebviewMessage =
+	| ExportDataMessage
+	| CreateChartMessage
+	| ReparseMessage
+	| SaveColumnBoundariesMessage
+	| SaveQueryMessage;
 
 // --- Result Type ---
 
@@ -119,14 +184,17 @@ export async function handleCreateChart(
 }
 
 /**
- * Handle reparse message - re-parses data with a different delimiter.
+ * Handle reparse message - re-parses data with a different delimiter or column types.
  * Fully testable with dependency injection.
+ *
+ * @param source - Editor text the preview was parsed from, read again instead of the file
  */
 export async function handleReparse(
 	message: ReparseMessage,
 	currentUri: vscode.Uri | undefined,
 	postMessage: (msg: unknown) => Thenable<boolean>,
 	deps: MessageHandlerDependencies,
+	source?: TextSource,
 ): Promise<MessageHandlerResult> {
 	try {
 		if (!currentUri) {
@@ -138,9 +206,30 @@ export async function handleReparse(
 		}
 
 		const delim = message.delimiter === "auto" ? undefined : message.delimiter;
-		const data = await deps.parseDataFile(currentUri, { delimiter: delim });
+		const options: ParseOptions = {
+			delimiter: delim,
+			encoding: message.encoding,
+			logFormat: message.logFormat,
+			jsonPath: message.jsonPath,
+			sheet: message.sheet,
+			range: message.range,
+			query: message.query,
+			array: message.array,
+			entry: message.entry,
+			table: message.table,
+			columnTypes: message.columnTypes,
+		};
+		// Without boundaries from the ruler, a layout saved for the file still applies
+		if (message.columnBoundaries) {
+			options.columnBoundaries = message.columnBoundaries;
+		}
+		const data =
+			source && deps.parseDataText
+				? deps.parseDataText(source, options)
+				: await deps.parseDataFile(currentUri, options);
 
 		if (data) {
+			deps.publishParseIssues?.(currentUri, data, source);
 			await postMessage({ type: "showData", data });
 		}
 		return { success: true };
@@ -151,13 +240,78 @@ export async function handleReparse(
 	}
 }
 
+/**
+ * Handle saveColumnBoundaries message - remembers the fixed-width layout of the current file.
+ * Fully testable with dependency injection.
+ */
+export async function handleSaveColumnBoundaries(
+	message: SaveColumnBoundariesMessage,
+	currentUri: vscode.Uri | undefined,
+	deps: MessageHandlerDependencies,
+): Promise<MessageHandlerResult> {
+	try {
+		if (!currentUri || !deps.saveColumnBoundaries) {
+			deps.showErrorMessage("Cannot save column layout without a backing file URI.");
+			return {
+				success: false,
+				error: "Cannot save column layout without a backing file URI.",
+			};
+		}
+
+		await deps.saveColumnBoundaries(currentUri, message.columnBoundaries);
+		const fileName = currentUri.path.split("/").pop();
+		deps.showInfoMessage(
+			message.columnBoundaries
+				? `Column layout saved for ${fileName}.`
+				: `Saved column layout removed for ${fileName}.`,
+		);
+		return { success: true };
+	} catch (_e) {
+		const errorMsg = `Failed to save column layout: ${_e instanceof Error ? _e.message : String(_e)}`;
+		deps.showErrorMessage(errorMsg);
+		return { success: false, error: errorMsg };
+	}
+}
+
+/**
+ * Handle saveQuery message - remembers a SQLite query so it is offered when the database is opened again.
+ * Fully testable with dependency injection.
+ */
+export async function handleSaveQuery(
+	message: SaveQueryMessage,
+	currentUri: vscode.Uri | undefined,
+	deps: MessageHandlerDependencies,
+): Promise<MessageHandlerResult> {
+	try {
+		if (!currentUri || !deps.saveQuery) {
+			deps.showErrorMessage("Cannot save query without a backing file URI.");
+			return {
+				success: false,
+				error: "Cannot save query without a backing file URI.",
+			};
+		}
+		if (!message.query?.trim()) {
+			deps.showErrorMessage("Cannot save an empty query.");
+			return { success: false, error: "Cannot save an empty query." };
+		}
+
+		await deps.saveQuery(currentUri, message.query);
+		deps.showInfoMessage(`Query saved for ${currentUri.path.split("/").pop()}.`);
+		return { success: true };
+	} catch (_e) {
+		const errorMsg = `Failed to save query: ${_e instanceof Error ? _e.message : String(_e)}`;
+		deps.showErrorMessage(errorMsg);
+		return { success: false, error: errorMsg };
+	}
+}
+
 // --- CSV Helper (exported for testing) ---
 
 /**
  * Convert headers and rows to CSV string.
  * Properly escapes values containing commas, quotes, or newlines.
  */
-export function toCSV(headers: string[], rows: (string | number)[][]): string {
+export function toCSV(headers: string[], rows: (string | number | null)[][]): string {
 	const esc = (v: unknown) => {
 		if (v === null || v === undefined) {
 			return "";
@@ -180,8 +334,15 @@ export interface ChartProviderLike {
 export class DataPreviewProvider implements vscode.WebviewViewProvider {
 	public static readonly viewType = "vsplot.dataPreview";
 	private _view?: vscode.WebviewView;
+	/** Editor panel used when the sidebar view is not open, reused by every preview */
+	private _panel?: vscode.WebviewPanel;
+	/** Resolves once the panel's HTML is set and it can take messages */
+	private _panelReady?: Promise<void>;
+	/** Number of the latest preview, so that partial data arriving after it is dropped */
+	private _previewCount = 0;
 	private _chartProvider?: ChartProviderLike;
 	private _currentUri?: vscode.Uri;
+	private _currentSource?: TextSource;
 	private _deps: MessageHandlerDependencies;
 
 	constructor(
@@ -193,7 +354,7 @@ export class DataPreviewProvider implements vscode.WebviewViewProvider {
 		this._deps = deps ?? createDefaultMessageHandlerDeps();
 	}
 
-	public resolveWebviewView(
+	public async resolveWebviewView(
 		webviewView: vscode.WebviewView,
 		_context: vscode.WebviewViewResolveContext,
 		_token: vscode.CancellationToken,
@@ -205,39 +366,77 @@ export class DataPreviewProvider implements vscode.WebviewViewProvider {
 			localResourceRoots: [this._extensionUri],
 		};
 
-		webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
 		this._wireMessageHandlers(webviewView.webview);
+		webviewView.webview.html = await this._getHtmlForWebview(webviewView.webview);
 	}
 
-	public async showPreview(uri: vscode.Uri, data: ParsedData) {
+	/**
+	 * Show data in the sidebar view, or else in the preview panel, which is
+	 * created on first use and reused after. Partial data (the first page of a
+	 * file still loading) only goes to a view or panel that is already open, and
+	 * is dropped once a later preview has been shown.
+	 *
+	 * @param source - Editor text the data was parsed from, when it is not the file on disk
+	 */
+	public async showPreview(uri: vscode.Uri, data: ParsedData, source?: TextSource) {
+		if (data.partial && !this._view && !this._panel) {
+			return;
+		}
+		const preview = ++this._previewCount;
 		this._currentUri = uri;
+		this._currentSource = source;
+		// Data built outside the parser (e.g. by tests) may not carry a schema yet
+		data.columns ??= inferColumnSchema(data.headers, data.rows);
+		if (!data.partial) {
+			this._deps.publishParseIssues?.(uri, data, source);
+		}
 		if (this._view) {
 			this._view.show?.(true);
 			this._view.webview.postMessage({
 				type: "showData",
 				data: data,
 			});
-		} else {
-			// Create a new webview panel for preview
-			const panel = vscode.window.createWebviewPanel(
-				"dataPreview",
-				`Data Preview: ${data.fileName}`,
-				vscode.ViewColumn.Beside,
-				{
-					enableScripts: true,
-					localResourceRoots: [this._extensionUri],
-				},
-			);
-
-			panel.webview.html = this._getHtmlForWebview(panel.webview);
-
-			// Send data to webview
-			panel.webview.postMessage({
-				type: "showData",
-				data: data,
-			});
-			this._wireMessageHandlers(panel.webview);
+			return;
+		}
+
+		const panel = this._panel ?? this._createPanel();
+		panel.title = `Data Preview: ${data.fileName}`;
+		if (!data.partial) {
+			panel.reveal(undefined, true);
+		}
+		await this._panelReady;
+		// The panel may have been closed meanwhile
+		if (this._panel !== panel || (data.partial && preview !== this._previewCount)) {
+			return;
 		}
+		panel.webview.postMessage({
+			type: "showData",
+			data: data,
+		});
+	}
+
+	private _createPanel(): vscode.WebviewPanel {
+		const panel = vscode.window.createWebviewPanel(
+			"dataPreview",
+			"Data Preview",
+			vscode.ViewColumn.Beside,
+			{
+				enableScripts: true,
+				localResourceRoots: [this._extensionUri],
+			},
+		);
+		this._panel = panel;
+		this._panelReady = this._getHtmlForWebview(panel.webview).then((html) => {
+			panel.webview.html = html;
+		});
+		this._wireMessageHandlers(panel.webview);
+		panel.onDidDispose(() => {
+			if (this._panel === panel) {
+				this._panel = undefined;
+				this._panelReady = undefined;
+			}
+		});
+		return panel;
 	}
 
 	private _wireMessageHandlers(webview: vscode.Webview) {
@@ -267,16 +466,31 @@ export class DataPreviewProvider implements vscode.WebviewViewProvider {
 					this._currentUri,
 					(msg) => webview.postMessage(msg),
 					this._deps,
+					this._currentSource,
 				);
 				return;
 			}
+
+			if (message.type === "saveColumnBoundaries") {
+				await handleSaveColumnBoundaries(
+					message as SaveColumnBoundariesMessage,
+					this._currentUri,
+					this._deps,
+				);
+				return;
+			}
+
+			if (message.type === "saveQuery") {
+				await handleSaveQuery(message as SaveQueryMessage, this._currentUri, this._deps);
+				return;
+			}
 		});
 	}
 
 	/**
 	 * Generate HTML for the webview
 	 */
-	private _getHtmlForWebview(webview: vscode.Webview) {
+	private _getHtmlForWebview(webview: vscode.Webview): Promise<string> {
 		const cfg = vscode.workspace.getConfiguration("vsplot");
 		const rowsPerPage = cfg.get<number>("rowsPerPage", 150);
 
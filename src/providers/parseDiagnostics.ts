@@ -0,0 +1,53 @@
+import * as vscode from "vscode";
+import type { ParsedData, ParseIssue, ParseIssueKind, TextSource } from "../data/load";
+
+const SEVERITIES: Record<ParseIssueKind, vscode.DiagnosticSeverity> = {
+	fieldCount: vscode.DiagnosticSeverity.Warning,
+	unterminatedQuote: vscode.DiagnosticSeverity.Warning,
+	duplicateHeader: vscode.DiagnosticSeverity.Information,
+	nonNumeric: vscode.DiagnosticSeverity.Information,
+};
+
+/**
+ * Diagnostics for the issues of a parse, each spanning the line it was found on.
+ *
+ * @param issues - Issues from {@link ParsedData.issues}
+ * @returns One diagnostic per issue
+ */
+export function toDiagnostics(issues: ParseIssue[]): vscode.Diagnostic[] {
+	return issues.map((issue) => {
+		const line = issue.line - 1;
+		const diagnostic = new vscode.Diagnostic(
+			new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+			issue.message,
+			SEVERITIES[issue.kind],
+		);
+		diagnostic.source = "VSPlot";
+		diagnostic.code = issue.kind;
+		return diagnostic;
+	});
+}
+
+/**
+ * Lists the parse issues of the previewed file in the Problems panel.
+ */
+export class ParseDiagnostics implements vscode.Disposable {
+	private readonly _collection = vscode.languages.createDiagnosticCollection("vsplot");
+
+	/**
+	 * Show the issues of a preview, replacing those of the previous one. Selections and
+	 * compressed files get none, as their line numbers do not match the document.
+	 *
+	 * @param source - Editor text the data was parsed from, when it is not the file on disk
+	 */
+	public publish(uri: vscode.Uri, data: ParsedData, source?: TextSource) {
+		this._collection.clear();
+		if (data.issues?.length && !source?.selection && !data.compression) {
+			this._collection.set(uri, toDiagnostics(data.issues));
+		}
+	}
+
+	public dispose() {
+		this._collection.dispose();
+	}
+}
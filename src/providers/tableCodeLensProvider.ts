@@ -0,0 +1,52 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { type DocumentFormat, documentFormat, extractDocumentTables } from "../data/documentTables";
+
+const LANGUAGE_FORMATS: Record<string, DocumentFormat> = {
+	markdown: "markdown",
+	html: "html",
+	latex: "latex",
+	tex: "latex",
+};
+
+/**
+ * Document selector for the languages whose tables get a CodeLens.
+ */
+export const TABLE_DOCUMENT_SELECTOR: vscode.DocumentSelector = Object.keys(LANGUAGE_FORMATS).map(
+	(language) => ({ language }),
+);
+
+/**
+ * Shows a "Preview Table" CodeLens above each table of a Markdown, HTML or
+ * LaTeX document, running `vsplot.extractTable` for that table.
+ */
+export class TableCodeLensProvider implements vscode.CodeLensProvider {
+	private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+	public readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+	/** Recompute the CodeLenses, e.g. after `vsplot.tableCodeLens` changes */
+	public refresh() {
+		this._onDidChangeCodeLenses.fire();
+	}
+
+	public provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+		if (!vscode.workspace.getConfiguration("vsplot").get<boolean>("tableCodeLens", true)) {
+			return [];
+		}
+		const format =
+			LANGUAGE_FORMATS[document.languageId] ??
+			documentFormat(path.extname(document.fileName).toLowerCase());
+		if (!format) {
+			return [];
+		}
+		return extractDocumentTables(document.getText(), format).map((table, index) => {
+			const columns = (table.headers ?? table.rows[0] ?? []).length;
+			return new vscode.CodeLens(new vscode.Range(table.startLine, 0, table.startLine, 0), {
+				title: `$(table) Preview Table (${table.rows.length} × ${columns})`,
+				tooltip: "Open this table in the VSPlot data preview",
+				command: "vsplot.extractTable",
+				arguments: [document.uri, index + 1],
+			});
+		});
+	}
+}
@@ -1,28 +1,27 @@
-import * as fs from "node:fs";
-import * as path from "node:path";
-import type * as vscode from "vscode";
+import * as vscode from "vscode";
 
 /**
  * Load an HTML template file and replace placeholders with actual values.
  *
  * This function reads a template file from the media directory and replaces
  * all occurrences of {{PLACEHOLDER}} with the corresponding values from the
- * replacements object.
+ * replacements object. The file is read through `vscode.workspace.fs`, so it
+ * also works when the extension itself is not on the local disk.
  *
  * @param extensionUri - The extension's root URI
  * @param templatePath - Path to the template file relative to the extension root
  * @param replacements - Object mapping placeholder names to their replacement values
- * @returns HTML string with all placeholders replaced
+ * @returns Promise resolving to the HTML string with all placeholders replaced
  */
-export function loadHtmlTemplate(
+export async function loadHtmlTemplate(
 	extensionUri: vscode.Uri,
 	templatePath: string,
 	replacements: Record<string, string>,
-): string {
-	const templateFilePath = path.join(extensionUri.fsPath, templatePath);
+): Promise<string> {
+	const templateUri = vscode.Uri.joinPath(extensionUri, templatePath);
 
 	// Read the template file
-	let html = fs.readFileSync(templateFilePath, "utf8");
+	let html = new TextDecoder().decode(await vscode.workspace.fs.readFile(templateUri));
 
 	// Replace all placeholders with their values
 	for (const [key, value] of Object.entries(replacements)) {
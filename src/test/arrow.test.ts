@@ -0,0 +1,107 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { type ParsedData, parseDataFile, parseDataFileStreaming } from "../data/load";
+import { lz4FrameUncompress } from "../data/lz4";
+import { getFixtureUri } from "./testUtils";
+
+async function cleanup(uri: vscode.Uri) {
+	try {
+		await vscode.workspace.fs.delete(uri);
+	} catch (_e) {
+		// Ignore cleanup errors
+	}
+}
+
+suite("Arrow Tests", () => {
+	test("Feather files keep typed, nullable and dictionary-encoded columns", async () => {
+		const data = await parseDataFile(getFixtureUri("readings.feather"));
+		assert.strictEqual(data?.fileType, "feather");
+		assert.deepStrictEqual(data?.headers, ["count", "level", "site", "ok", "day", "time"]);
+		assert.deepStrictEqual(data?.rows[0], [
+			3,
+			0.5,
+			"Oslo",
+			true,
+			"2024-03-01",
+			"2024-03-01T12:00:00.000Z",
+		]);
+		assert.deepStrictEqual(data?.rows[1].slice(0, 3), [null, 1.25, "Bergen"]);
+		assert.strictEqual(data?.rows[3][2], null);
+		assert.deepStrictEqual(
+			data?.columns?.map((column) => column.type),
+			["integer", "float", "categorical", "boolean", "datetime", "datetime"],
+		);
+		assert.strictEqual(data?.columns?.[0].nullCount, 1);
+	});
+
+	test("Files that keep the schema only in the footer are read through its blocks", async () => {
+		// Written by the apache-arrow JavaScript writer
+		const data = await parseDataFile(getFixtureUri("readings-js.arrow"));
+		assert.strictEqual(data?.fileType, "arrow");
+		assert.deepStrictEqual(data?.headers, ["count", "level", "site", "ok", "day", "time"]);
+		assert.strictEqual(data?.totalRows, 5);
+		assert.deepStrictEqual(data?.rows[1], [
+			null,
+			1.25,
+			"Bergen",
+			false,
+			"2024-03-02",
+			"2024-03-01T12:00:01.000",
+		]);
+		assert.strictEqual(data?.rows[3][2], null);
+		assert.strictEqual(data?.columns?.[2].type, "categorical");
+	});
+
+	test("LZ4-compressed streams are read batch by batch up to maxRows", async () => {
+		const uri = getFixtureUri("readings-stream.arrow");
+		const data = await parseDataFile(uri, { maxRows: 3 });
+		assert.strictEqual(data?.fileType, "arrow");
+		assert.strictEqual(data?.totalRows, 3);
+		assert.strictEqual(data?.truncated, true);
+		assert.deepStrictEqual(data?.rows[2].slice(0, 3), [7, -2, "Oslo"]);
+
+		const partials: ParsedData[] = [];
+		const full = await parseDataFileStreaming(uri, {
+			partialRows: 2,
+			onPartialData: (partial) => partials.push(partial),
+		});
+		assert.strictEqual(full?.totalRows, 5);
+		assert.strictEqual(full?.truncated, undefined);
+		assert.strictEqual(full?.rows[4][5], "2024-03-01T12:00:04.500Z");
+		assert.strictEqual(partials.length, 1);
+		assert.strictEqual(partials[0].totalRows, 2);
+	});
+
+	test("Feather version 1 files are reported instead of parsed", async () => {
+		const uri = vscode.Uri.file(path.join(__dirname, "../../test-data", "not-arrow.arrow"));
+		await vscode.workspace.fs.writeFile(uri, Buffer.from("FEA1 old feather layout"));
+		try {
+			const originalShowError = vscode.window.showErrorMessage;
+			let shown = "";
+			(vscode.window as any).showErrorMessage = (message: string) => {
+				shown = message;
+				return Promise.resolve(undefined);
+			};
+			try {
+				assert.strictEqual(await parseDataFile(uri), null);
+			} finally {
+				(vscode.window as any).showErrorMessage = originalShowError;
+			}
+			assert.ok(shown.includes("Feather version 1"));
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("LZ4 matches may overlap their own output", () => {
+		const frame = Buffer.from([
+			0x04, 0x22, 0x4d, 0x18, 0x60, 0x40, 0x00,
+			// Block: "abc", a 9-byte match at offset 3, then the literal "d"
+			0x08, 0x00, 0x00, 0x00, 0x35, 0x61, 0x62, 0x63, 0x03, 0x00, 0x10, 0x64, 0x00, 0x00, 0x00,
+			0x00,
+		]);
+		assert.strictEqual(lz4FrameUncompress(frame).toString(), "abcabcabcabcd");
+		assert.throws(() => lz4FrameUncompress(Buffer.from("not lz4")), /Corrupt LZ4 frame/);
+	});
+});
@@ -163,7 +163,7 @@ suite("ChartViewProvider Unit Tests", () => {
 		}
 	});
 
-	test("showChart creates panel when _view undefined", () => {
+	test("showChart creates panel when _view undefined", async () => {
 		const repoRoot = path.join(__dirname, "../..");
 		const provider = new ChartViewProvider(vscode.Uri.file(repoRoot));
 
@@ -177,7 +177,7 @@ suite("ChartViewProvider Unit Tests", () => {
 		) => ({ webview: fakePanelWebview }) as any;
 
 		try {
-			provider.showChart(vscode.Uri.file("/tmp.csv"), {
+			await provider.showChart(vscode.Uri.file("/tmp.csv"), {
 				headers: ["h"],
 				rows: [[1]],
 				totalRows: 1,
@@ -0,0 +1,103 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { type ColumnSchema, inferColumnSchema, parseDataFile } from "../data/load";
+
+async function writeFixture(name: string, content: string): Promise<vscode.Uri> {
+	const uri = vscode.Uri.file(path.join(__dirname, "../../test-data", name));
+	await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf8"));
+	return uri;
+}
+
+async function cleanup(uri: vscode.Uri) {
+	try {
+		await vscode.workspace.fs.delete(uri);
+	} catch (_e) {
+		// Ignore cleanup errors
+	}
+}
+
+function typesOf(columns: ColumnSchema[] | undefined): string[] {
+	return (columns ?? []).map((column) => column.type);
+}
+
+suite("Column Schema Tests", () => {
+	test("CSV columns get inferred types and null counts", async () => {
+		const lines = ["id,price,active,date,species,name"];
+		for (let i = 0; i < 8; i++) {
+			lines.push(
+				`${i},${i + 0.5},${i % 2 === 0 ? "true" : "FALSE"},2024-01-0${i + 1},${i % 3 === 0 ? "setosa" : "virginica"},Person ${i}`,
+			);
+		}
+		lines.push("9,,true,,setosa,");
+		const uri = await writeFixture("schema-types.csv", lines.join("\n"));
+		try {
+			const data = await parseDataFile(uri);
+			assert.deepStrictEqual(typesOf(data?.columns), [
+				"integer",
+				"float",
+				"boolean",
+				"datetime",
+				"categorical",
+				"string",
+			]);
+			assert.deepStrictEqual(
+				data?.columns?.map((column) => column.nullCount),
+				[0, 1, 0, 1, 0, 1],
+			);
+			assert.strictEqual(data?.columns?.[0].name, "id");
+			assert.strictEqual(data?.columns?.[0].overridden, undefined);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("Numeric text in JSON is converted for numeric columns", async () => {
+		const uri = await writeFixture(
+			"schema-json.json",
+			'[{"n":"12","s":"a"},{"n":"3.5","s":"7"},{"n":null,"s":"b"}]',
+		);
+		try {
+			const data = await parseDataFile(uri);
+			assert.deepStrictEqual(typesOf(data?.columns), ["float", "string"]);
+			assert.deepStrictEqual(
+				data?.rows.map((row) => row[0]),
+				[12, 3.5, null],
+			);
+			assert.strictEqual(data?.rows[1][1], "7");
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("Column type overrides change how cells are parsed", async () => {
+		const uri = await writeFixture("schema-override.csv", "zip,count\n00123,1\n04567,n/a\n");
+		try {
+			const inferred = await parseDataFile(uri);
+			assert.deepStrictEqual(typesOf(inferred?.columns), ["integer", "string"]);
+			assert.strictEqual(inferred?.rows[0][0], 123);
+
+			const data = await parseDataFile(uri, { columnTypes: { zip: "string", count: "integer" } });
+			assert.deepStrictEqual(typesOf(data?.columns), ["string", "integer"]);
+			assert.strictEqual(data?.columns?.[0].overridden, true);
+			assert.deepStrictEqual(data?.rows, [
+				["00123", 1],
+				["04567", null],
+			]);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("inferColumnSchema handles empty and mixed columns", () => {
+		const columns = inferColumnSchema(
+			["empty", "mixed", "when"],
+			[
+				[null, 1, "2024-03-01T10:00:00Z"],
+				["", "x", "Mar 2, 2024"],
+			],
+		);
+		assert.deepStrictEqual(typesOf(columns), ["string", "string", "datetime"]);
+		assert.strictEqual(columns[0].nullCount, 2);
+	});
+});
@@ -9,10 +9,11 @@ import {
 	type CommandDependencies,
 	executeOpenDataViewer,
 	executePlotData,
+	executePlotSelection,
 	executePreviewData,
 	resolveUri,
 } from "../commands/dataCommands";
-import type { ParsedData } from "../data/load";
+import type { ParsedData, StreamingParseOptions, TextSource } from "../data/load";
 
 // --- Mock Helpers ---
 
@@ -144,9 +145,195 @@ suite("Command Logic Unit Tests", () => {
 			assert.strictEqual(result.success, true);
 			assert.strictEqual(receivedUri?.fsPath, activeUri.fsPath);
 		});
+
+		test("should limit rows and show partial data before the final result", async () => {
+			const uri = vscode.Uri.file("/test/large.csv");
+			const partialData = createMockParsedData({ partial: true });
+			const finalData = createMockParsedData({ truncated: true });
+			let receivedMaxRows: number | undefined;
+			const shown: ParsedData[] = [];
+
+			const deps = createMockDeps({
+				parseDataFile: async (_uri, options) => {
+					receivedMaxRows = options?.maxRows;
+					options?.onPartialData?.(partialData);
+					return finalData;
+				},
+			});
+			const mockProvider = {
+				showPreview: async (_uri: vscode.Uri, data: ParsedData) => {
+					shown.push(data);
+				},
+			};
+
+			const result = await executePreviewData(uri, deps, mockProvider);
+
+			assert.strictEqual(result.success, true);
+			assert.strictEqual(typeof receivedMaxRows, "number");
+			assert.deepStrictEqual(shown, [partialData, finalData]);
+		});
+
+		test("should parse the JSON array chosen by selectJSONPath", async () => {
+			const uri = vscode.Uri.file("/test/response.json");
+			let receivedPath: string | undefined;
+
+			const deps = createMockDeps({
+				selectJSONPath: async () => "$.data.items",
+				parseDataFile: async (_uri, options) => {
+					receivedPath = options?.jsonPath;
+					return createMockParsedData({ jsonPath: options?.jsonPath });
+				},
+			});
+
+			const result = await executePreviewData(uri, deps, { showPreview: async () => {} });
+
+			assert.strictEqual(result.success, true);
+			assert.strictEqual(receivedPath, "$.data.items");
+		});
+
+		test("should stop without error when the JSON array pick is cancelled", async () => {
+			const uri = vscode.Uri.file("/test/response.json");
+			let parseCalled = false;
+
+			const deps = createMockDeps({
+				selectJSONPath: async () => null,
+				parseDataFile: async () => {
+					parseCalled = true;
+					return null;
+				},
+			});
+
+			const result = await executePreviewData(uri, deps, { showPreview: async () => {} });
+
+			assert.strictEqual(result.success, true);
+			assert.strictEqual(result.error, undefined);
+			assert.strictEqual(parseCalled, false);
+		});
+
+		test("should show a given document table without asking", async () => {
+			let asked = false;
+			let receivedTable: number | undefined;
+
+			const deps = createMockDeps({
+				selectDocumentTable: async () => {
+					asked = true;
+					return 1;
+				},
+				parseDataFile: async (_uri, options) => {
+					receivedTable = options?.table;
+					return createMockParsedData({ table: options?.table });
+				},
+			});
+
+			const result = await executePreviewData(
+				vscode.Uri.file("/test/README.md"),
+				deps,
+				{ showPreview: async () => {} },
+				{ table: 3 },
+			);
+
+			assert.strictEqual(result.success, true);
+			assert.strictEqual(asked, false);
+			assert.strictEqual(receivedTable, 3);
+		});
 	});
 
 	suite("executePlotData", () => {
+		test("should plot the worksheet and range chosen by selectWorksheet", async () => {
+			const uri = vscode.Uri.file("/test/report.xlsx");
+			let receivedOptions: StreamingParseOptions | undefined;
+
+			const deps = createMockDeps({
+				selectWorksheet: async () => ({ sheet: "Q2", range: "B2:D40" }),
+				parseDataFile: async (_uri, options) => {
+					receivedOptions = options;
+					return createMockParsedData();
+				},
+			});
+
+			const result = await executePlotData(uri, deps, { showChart: async () => {} });
+
+			assert.strictEqual(result.success, true);
+			assert.strictEqual(receivedOptions?.sheet, "Q2");
+			assert.strictEqual(receivedOptions?.range, "B2:D40");
+		});
+
+		test("should stop without error when the worksheet pick is cancelled", async () => {
+			let parseCalled = false;
+
+			const deps = createMockDeps({
+				selectWorksheet: async () => null,
+				parseDataFile: async () => {
+					parseCalled = true;
+					return null;
+				},
+			});
+
+			const result = await executePlotData(vscode.Uri.file("/test/report.xlsx"), deps, {
+				showChart: async () => {},
+			});
+
+			assert.strictEqual(result.success, true);
+			assert.strictEqual(parseCalled, false);
+		});
+
+		test("should plot the SQLite query chosen by selectQuery", async () => {
+			let receivedOptions: StreamingParseOptions | undefined;
+
+			const deps = createMockDeps({
+				selectQuery: async () => "SELECT run, score FROM results",
+				parseDataFile: async (_uri, options) => {
+					receivedOptions = options;
+					return createMockParsedData();
+				},
+			});
+
+			const result = await executePlotData(vscode.Uri.file("/test/results.sqlite"), deps, {
+				showChart: async () => {},
+			});
+
+			assert.strictEqual(result.success, true);
+			assert.strictEqual(receivedOptions?.query, "SELECT run, score FROM results");
+		});
+
+		test("should plot the .npz array chosen by selectArray", async () => {
+			let receivedOptions: StreamingParseOptions | undefined;
+
+			const deps = createMockDeps({
+				selectArray: async () => "velocity",
+				parseDataFile: async (_uri, options) => {
+					receivedOptions = options;
+					return createMockParsedData();
+				},
+			});
+
+			const result = await executePlotData(vscode.Uri.file("/test/run.npz"), deps, {
+				showChart: async () => {},
+			});
+
+			assert.strictEqual(result.success, true);
+			assert.strictEqual(receivedOptions?.array, "velocity");
+		});
+
+		test("should stop without error when the archive entry pick is cancelled", async () => {
+			let parseCalled = false;
+
+			const deps = createMockDeps({
+				selectEntry: async () => null,
+				parseDataFile: async () => {
+					parseCalled = true;
+					return null;
+				},
+			});
+
+			const result = await executePlotData(vscode.Uri.file("/test/exports.zip"), deps, {
+				showChart: async () => {},
+			});
+
+			assert.strictEqual(result.success, true);
+			assert.strictEqual(parseCalled, false);
+		});
+
 		test("should succeed with valid URI and parsed data", async () => {
 			const uri = vscode.Uri.file("/test/file.csv");
 			const mockData = createMockParsedData();
@@ -211,6 +398,78 @@ suite("Command Logic Unit Tests", () => {
 		});
 	});
 
+	suite("editor text", () => {
+		const untitled = vscode.Uri.parse("untitled:Untitled-1");
+
+		test("executePreviewData should preview unsaved text instead of the file", async () => {
+			let parseCalled = false;
+			let shown: { uri: vscode.Uri; data: ParsedData; source?: TextSource } | undefined;
+
+			const deps = createMockDeps({
+				getActiveEditorUri: () => untitled,
+				getEditorText: (uri, selection) =>
+					uri?.toString() === untitled.toString() && !selection
+						? { uri: untitled, fileName: "Untitled-1", text: "x\ty\n1\t2\n3\t4\n" }
+						: undefined,
+				parseDataFile: async () => {
+					parseCalled = true;
+					return null;
+				},
+			});
+
+			const result = await executePreviewData(undefined, deps, {
+				showPreview: async (uri, data, source) => {
+					shown = { uri, data, source };
+				},
+			});
+
+			assert.strictEqual(result.success, true);
+			assert.strictEqual(parseCalled, false);
+			assert.strictEqual(shown?.uri.toString(), untitled.toString());
+			assert.deepStrictEqual(shown?.data.headers, ["x", "y"]);
+			assert.strictEqual(shown?.data.textSource, "buffer");
+			assert.strictEqual(shown?.source?.text, "x\ty\n1\t2\n3\t4\n");
+		});
+
+		test("executePlotSelection should plot the selected lines", async () => {
+			let plotted: ParsedData | undefined;
+
+			const deps = createMockDeps({
+				getEditorText: (_uri, selection) =>
+					selection
+						? {
+								uri: vscode.Uri.file("/logs/train.log"),
+								fileName: "train.log",
+								text: "epoch loss\n1 0.9\n2 0.6",
+								selection: true,
+							}
+						: undefined,
+			});
+
+			const result = await executePlotSelection(deps, {
+				showChart: async (_uri, data) => {
+					plotted = data;
+				},
+			});
+
+			assert.strictEqual(result.success, true);
+			assert.strictEqual(plotted?.textSource, "selection");
+			assert.deepStrictEqual(plotted?.rows, [
+				[1, 0.9],
+				[2, 0.6],
+			]);
+		});
+
+		test("executePlotSelection should return error without a text editor", async () => {
+			const result = await executePlotSelection(createMockDeps(), {
+				showChart: async () => {},
+			});
+
+			assert.strictEqual(result.success, false);
+			assert.strictEqual(result.error, "No text editor is active.");
+		});
+	});
+
 	suite("executeOpenDataViewer", () => {
 		test("should return error when no workspace folders", async () => {
 			const deps = createMockDeps({
@@ -1,7 +1,7 @@
 import * as assert from "node:assert";
 import * as path from "node:path";
 import * as vscode from "vscode";
-import { parseDataFile } from "../data/load";
+import { parseDataFile, parseDataFileStreaming, parseDataText } from "../data/load";
 
 suite("Comment Line Handling Tests", () => {
 	test("CSV with hash comments should skip comment lines", async function () {
@@ -145,4 +145,51 @@ suite("Comment Line Handling Tests", () => {
 		assert.strictEqual(data?.rows[1][1], 30, "Bob's age should be 30");
 		assert.strictEqual(data?.rows[2][1], 35, "Charlie's age should be 35");
 	});
+
+	test("Key/value pairs in leading comments become metadata", async function () {
+		this.timeout(10000);
+		const tmpPath = path.join(__dirname, "../../test-data/instrument-header.dat");
+		const content = [
+			"# sample_rate: 1000",
+			"# operator = Ada Lovelace",
+			"# Measured on the bench, probe 2",
+			"% units: s, mV",
+			"# manual: https://example.com/dso",
+			"Instrument;DSO-X 2024A",
+			"Time;Voltage;Current",
+			"0;1.5;0.2",
+			"# calibrated: no",
+			"1;1.7;0.3",
+		].join("\n");
+		await vscode.workspace.fs.writeFile(vscode.Uri.file(tmpPath), Buffer.from(content, "utf8"));
+
+		try {
+			for (const parse of [parseDataFile, parseDataFileStreaming]) {
+				const data = await parse(vscode.Uri.file(tmpPath));
+				assert.deepStrictEqual(data?.metadata, {
+					sample_rate: "1000",
+					operator: "Ada Lovelace",
+					units: "s, mV",
+					manual: "https://example.com/dso",
+					Instrument: "DSO-X 2024A",
+				});
+				assert.deepStrictEqual(data?.headers, ["Time", "Voltage", "Current"]);
+				assert.strictEqual(data?.rows.length, 2, "Comments between rows are not metadata");
+			}
+		} finally {
+			try {
+				await vscode.workspace.fs.delete(vscode.Uri.file(tmpPath));
+			} catch (_e) {
+				// Ignore cleanup errors
+			}
+		}
+	});
+
+	test("Files without key/value comments have no metadata", () => {
+		const data = parseDataText({
+			fileName: "notes.csv",
+			text: "# exported from the lab notebook\n# 10:30 run started\nx,y\n1,2\n",
+		});
+		assert.strictEqual(data?.metadata, undefined);
+	});
 });
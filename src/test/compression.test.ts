@@ -0,0 +1,125 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import * as zlib from "node:zlib";
+import * as vscode from "vscode";
+import { bunzip2 } from "../data/bzip2";
+import { findArchiveEntries, parseDataFile, parseDataFileStreaming } from "../data/load";
+import { createZipArchive } from "./testUtils";
+
+async function writeFixture(name: string, content: Buffer): Promise<vscode.Uri> {
+	const uri = vscode.Uri.file(path.join(__dirname, "../../test-data", name));
+	await vscode.workspace.fs.writeFile(uri, content);
+	return uri;
+}
+
+async function cleanup(uri: vscode.Uri) {
+	try {
+		await vscode.workspace.fs.delete(uri);
+	} catch (_e) {
+		// Ignore cleanup errors
+	}
+}
+
+/** `bzip2 -9` of a small whitespace-delimited file with a comment line */
+const RUN_DAT_BZ2 = Buffer.from(
+	"425a68393141592653592ebc124c000007d980001048017a800327d680200054500d01a643d0864a7a8f46a7a8c8371fc45ed7049c79352f1695664a57401d08a52142019f9863323c44ec00c2ee48a70a1205d7824980",
+	"hex",
+);
+
+suite("Compressed File Tests", () => {
+	test("gzip files are parsed by the extension inside", async () => {
+		const lines = ["id,value", ...Array.from({ length: 400 }, (_, i) => `${i},${i * 0.5}`)];
+		const uri = await writeFixture("archive.csv.gz", zlib.gzipSync(`${lines.join("\n")}\n`));
+		try {
+			const data = await parseDataFile(uri);
+			assert.strictEqual(data?.fileType, "csv");
+			assert.strictEqual(data?.compression, "gzip");
+			assert.strictEqual(data?.fileName, "archive.csv.gz");
+			assert.deepStrictEqual(data?.headers, ["id", "value"]);
+			assert.strictEqual(data?.totalRows, 400);
+
+			const streamed = await parseDataFileStreaming(uri, { maxRows: 250 });
+			assert.strictEqual(streamed?.compression, "gzip");
+			assert.strictEqual(streamed?.totalRows, 250);
+			assert.strictEqual(streamed?.truncated, true);
+			assert.deepStrictEqual(streamed?.rows[249], [249, 124.5]);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("bzip2 files are decompressed in-process", async () => {
+		const uri = await writeFixture("run.dat.bz2", RUN_DAT_BZ2);
+		try {
+			for (const data of [await parseDataFile(uri), await parseDataFileStreaming(uri)]) {
+				assert.strictEqual(data?.fileType, "dat");
+				assert.strictEqual(data?.compression, "bzip2");
+				assert.deepStrictEqual(data?.headers, ["time", "temp", "flow"]);
+				assert.deepStrictEqual(data?.rows[2], [1, 22, 3.3]);
+			}
+			// Concatenated streams, as written by parallel compressors
+			assert.strictEqual(
+				bunzip2(Buffer.concat([RUN_DAT_BZ2, RUN_DAT_BZ2]))
+					.toString()
+					.split("run 7").length,
+				3,
+			);
+			assert.throws(() => bunzip2(Buffer.from("BZh9 not really")), /Corrupt bzip2/);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("ZIP archives list their data files and read the one chosen", async () => {
+		const uri = await writeFixture(
+			"exports.zip",
+			createZipArchive({
+				"README.md": "# Exports",
+				"2024/jan.csv": "day,sales\n1,10\n2,12\n",
+				"2024/feb.tsv": "day\tsales\n1\t9\n",
+			}),
+		);
+		try {
+			const entries = await findArchiveEntries(uri);
+			assert.deepStrictEqual(
+				entries.map((entry) => entry.name),
+				["2024/jan.csv", "2024/feb.tsv"],
+			);
+
+			const first = await parseDataFile(uri);
+			assert.strictEqual(first?.compression, "zip");
+			assert.strictEqual(first?.entry, "2024/jan.csv");
+			assert.deepStrictEqual(first?.rows, [
+				[1, 10],
+				[2, 12],
+			]);
+
+			const chosen = await parseDataFileStreaming(uri, { entry: "2024/feb.tsv" });
+			assert.strictEqual(chosen?.fileType, "tsv");
+			assert.strictEqual(chosen?.entry, "2024/feb.tsv");
+			assert.deepStrictEqual(chosen?.rows, [[1, 9]]);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("Compressed binary formats are reported instead of parsed", async () => {
+		const uri = await writeFixture("table.parquet.gz", zlib.gzipSync(Buffer.from("PAR1")));
+		try {
+			const originalShowError = vscode.window.showErrorMessage;
+			let shown = "";
+			(vscode.window as any).showErrorMessage = (message: string) => {
+				shown = message;
+				return Promise.resolve(undefined);
+			};
+			try {
+				assert.strictEqual(await parseDataFile(uri), null);
+			} finally {
+				(vscode.window as any).showErrorMessage = originalShowError;
+			}
+			assert.ok(shown.includes("Unsupported compressed file type: .parquet"));
+		} finally {
+			await cleanup(uri);
+		}
+	});
+});
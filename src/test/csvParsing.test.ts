@@ -249,4 +249,124 @@ suite("CSV Parsing Edge Cases Tests", () => {
 			// Ignore cleanup errors
 		}
 	});
+
+	test("CSV with multi-line quoted fields should keep records intact", async function () {
+		this.timeout(10000);
+		const content =
+			'ID,Comment,Score\n1,"First line\nsecond line",10\n2,"Has, comma\n# not a comment",20\n3,Plain,30';
+		const tmpPath = path.join(__dirname, "../../test-data/csv-multiline-fields.csv");
+		await vscode.workspace.fs.writeFile(vscode.Uri.file(tmpPath), Buffer.from(content, "utf8"));
+
+		const uri = vscode.Uri.file(tmpPath);
+		const data = await parseDataFile(uri);
+
+		assert.ok(data, "Data should be parsed");
+		assert.strictEqual(data?.rows.length, 3, "Should have 3 records");
+		assert.strictEqual(data?.rows[0][1], "First line\nsecond line");
+		assert.strictEqual(data?.rows[1][1], "Has, comma\n# not a comment");
+		assert.strictEqual(data?.rows[1][2], 20, "Columns after a multi-line field should not shift");
+		assert.strictEqual(data?.rows[2][0], 3);
+
+		// Clean up
+		try {
+			await vscode.workspace.fs.delete(vscode.Uri.file(tmpPath));
+		} catch (_e) {
+			// Ignore cleanup errors
+		}
+	});
+
+	test("CSV with escaped quotes should unescape doubled quotes", async function () {
+		this.timeout(10000);
+		const content = 'Name,Quote\nAlice,"She said ""hi"""\nBob,""""';
+		const tmpPath = path.join(__dirname, "../../test-data/csv-escaped-quotes.csv");
+		await vscode.workspace.fs.writeFile(vscode.Uri.file(tmpPath), Buffer.from(content, "utf8"));
+
+		const uri = vscode.Uri.file(tmpPath);
+		const data = await parseDataFile(uri);
+
+		assert.ok(data, "Data should be parsed");
+		assert.strictEqual(data?.rows[0][1], 'She said "hi"');
+		assert.strictEqual(data?.rows[1][1], '"');
+
+		// Clean up
+		try {
+			await vscode.workspace.fs.delete(vscode.Uri.file(tmpPath));
+		} catch (_e) {
+			// Ignore cleanup errors
+		}
+	});
+
+	test("CSV with CRLF line endings should parse without stray carriage returns", async function () {
+		this.timeout(10000);
+		const content = 'Name,Note\r\nAlice,"line one\r\nline two"\r\nBob,plain\r\n';
+		const tmpPath = path.join(__dirname, "../../test-data/csv-crlf.csv");
+		await vscode.workspace.fs.writeFile(vscode.Uri.file(tmpPath), Buffer.from(content, "utf8"));
+
+		const uri = vscode.Uri.file(tmpPath);
+		const data = await parseDataFile(uri);
+
+		assert.ok(data, "Data should be parsed");
+		assert.deepStrictEqual(data?.headers, ["Name", "Note"]);
+		assert.strictEqual(data?.rows.length, 2);
+		assert.strictEqual(data?.rows[0][1], "line one\nline two");
+		assert.strictEqual(data?.rows[1][1], "plain");
+
+		// Clean up
+		try {
+			await vscode.workspace.fs.delete(vscode.Uri.file(tmpPath));
+		} catch (_e) {
+			// Ignore cleanup errors
+		}
+	});
+
+	test("CSV with custom quote character should honor quoteChar option", async function () {
+		this.timeout(10000);
+		const content = "Name,City\n'Smith, John','New York, NY'\n'O''Brien',Dublin";
+		const tmpPath = path.join(__dirname, "../../test-data/csv-single-quotes.csv");
+		await vscode.workspace.fs.writeFile(vscode.Uri.file(tmpPath), Buffer.from(content, "utf8"));
+
+		const uri = vscode.Uri.file(tmpPath);
+		const data = await parseDataFile(uri, { quoteChar: "'" });
+
+		assert.ok(data, "Data should be parsed");
+		assert.strictEqual(data?.headers.length, 2);
+		assert.strictEqual(data?.rows[0][0], "Smith, John");
+		assert.strictEqual(data?.rows[0][1], "New York, NY");
+		assert.strictEqual(data?.rows[1][0], "O'Brien");
+
+		// Clean up
+		try {
+			await vscode.workspace.fs.delete(vscode.Uri.file(tmpPath));
+		} catch (_e) {
+			// Ignore cleanup errors
+		}
+	});
+
+	test("CSV with unterminated quote should report the record's line number", async function () {
+		this.timeout(10000);
+		const content = 'A,B\n1,2\n3,"never closed\n4,5\n6,7';
+		const tmpPath = path.join(__dirname, "../../test-data/csv-unterminated-quote.csv");
+		await vscode.workspace.fs.writeFile(vscode.Uri.file(tmpPath), Buffer.from(content, "utf8"));
+
+		try {
+			const data = await parseDataFile(vscode.Uri.file(tmpPath));
+			assert.deepStrictEqual(
+				data?.issues?.map((issue) => [issue.kind, issue.line]),
+				[["unterminatedQuote", 3]],
+			);
+			// The quote is read as text, so the lines after it are kept
+			assert.deepStrictEqual(data?.rows, [
+				[1, 2],
+				[3, '"never closed'],
+				[4, 5],
+				[6, 7],
+			]);
+		} finally {
+			try {
+				await vscode.workspace.fs.delete(vscode.Uri.file(tmpPath));
+			} catch (_e) {
+				// Ignore cleanup errors
+			}
+		}
+	});
 });
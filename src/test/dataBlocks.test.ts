@@ -0,0 +1,92 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { parseDataFile, parseDataFileStreaming } from "../data/load";
+
+async function writeFixture(name: string, content: string): Promise<vscode.Uri> {
+	const uri = vscode.Uri.file(path.join(__dirname, "../../test-data", name));
+	await vscode.workspace.fs.writeFile(uri, Buffer.from(content));
+	return uri;
+}
+
+async function cleanup(uri: vscode.Uri) {
+	try {
+		await vscode.workspace.fs.delete(uri);
+	} catch (_e) {
+		// Ignore cleanup errors
+	}
+}
+
+suite("Data Block Tests", () => {
+	test("Blocks separated by two empty lines are named from the comment above them", async () => {
+		const uri = await writeFixture(
+			"profiles.dat",
+			[
+				"# Generated by heat-sim 2.1",
+				"",
+				"# Copper",
+				"# x temperature",
+				"x temperature",
+				"0 300",
+				"1 296.5",
+				"",
+				"",
+				"# Steel",
+				"x temperature",
+				"0 300",
+				"1 288",
+				"",
+				"",
+				"0 300",
+				"1 279.25",
+				"",
+			].join("\n"),
+		);
+		try {
+			for (const parse of [parseDataFile, parseDataFileStreaming]) {
+				const data = await parse(uri);
+				assert.deepStrictEqual(data?.blocks, ["Copper", "Steel", "Block 3"]);
+				assert.deepStrictEqual(data?.headers, ["x", "temperature", "block"]);
+				assert.deepStrictEqual(data?.rows, [
+					[0, 300, "Copper"],
+					[1, 296.5, "Copper"],
+					[0, 300, "Steel"],
+					[1, 288, "Steel"],
+					[0, 300, "Block 3"],
+					[1, 279.25, "Block 3"],
+				]);
+				assert.strictEqual(data?.columns?.[2].type, "categorical");
+			}
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("Single empty lines and trailing empty lines do not start a block", async () => {
+		const uri = await writeFixture("surface.dat", "# x y z\n0 0 1\n0 1 2\n\n1 0 3\n1 1 4\n\n\n\n");
+		try {
+			const data = await parseDataFile(uri);
+			assert.strictEqual(data?.blocks, undefined);
+			assert.strictEqual(data?.headers.length, 3);
+			assert.strictEqual(data?.rows.length, 4);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("Short rows are padded so the block column stays last", async () => {
+		const uri = await writeFixture(
+			"runs.txt",
+			"step,loss,block\n1,0.9,a\n2\n\n\n# run b\n1,0.8,b\n# run b\n",
+		);
+		try {
+			const data = await parseDataFile(uri);
+			assert.deepStrictEqual(data?.headers, ["step", "loss", "block", "block 2"]);
+			assert.deepStrictEqual(data?.blocks, ["Block 1", "run b"]);
+			assert.deepStrictEqual(data?.rows[1], [2, null, null, "Block 1"]);
+			assert.deepStrictEqual(data?.rows[2], [1, 0.8, "b", "run b"]);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+});
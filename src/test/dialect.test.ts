@@ -0,0 +1,140 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { detectHeader, sniffDialect } from "../data/dialect";
+import { parseDataFile, parseDataFileStreaming, parseDataText } from "../data/load";
+
+async function writeFixture(name: string, content: string): Promise<vscode.Uri> {
+	const uri = vscode.Uri.file(path.join(__dirname, "../../test-data", name));
+	await vscode.workspace.fs.writeFile(uri, Buffer.from(content));
+	return uri;
+}
+
+async function cleanup(uri: vscode.Uri) {
+	try {
+		await vscode.workspace.fs.delete(uri);
+	} catch (_e) {
+		// Ignore cleanup errors
+	}
+}
+
+const isNumeric = (text: string) => text !== "" && !Number.isNaN(Number(text));
+
+suite("Dialect Sniffer Tests", () => {
+	test("Delimiters inside quotes do not count", () => {
+		const dialect = sniffDialect([
+			"name|note|count",
+			'"Smith | Jones"|"a|b|c"|1',
+			"Lee|plain|2",
+			"'t Hooft|x|3",
+			"Kim|y|4",
+		]);
+		assert.strictEqual(dialect.delimiter, "|");
+		assert.strictEqual(dialect.quoteChar, '"');
+		assert.strictEqual(dialect.hasHeader, true);
+		assert.strictEqual(dialect.confidence, 1);
+
+		const single = sniffDialect(["'a, b';1", "'c';2", "'d, e, f';3"]);
+		assert.strictEqual(single.delimiter, ";");
+		assert.strictEqual(single.quoteChar, "'");
+	});
+
+	test("Whitespace runs are chosen only when no real delimiter fits", () => {
+		const aligned = sniffDialect(["x    y     z", "1.0  2.0   3.0", "4.5\t5.5 6.5"]);
+		assert.strictEqual(aligned.delimiter, " ");
+
+		const names = sniffDialect(["first name,last name", "John Smith,Jane Doe", "A B,C D"]);
+		assert.strictEqual(names.delimiter, ",");
+		// Whitespace also splits every record evenly, so the comma is less certain
+		assert.ok(names.confidence < 0.5, `confidence ${names.confidence}`);
+
+		const tabs = sniffDialect(["a\tb", "1\t2", "3\t4", "5\t6", "7\t8"]);
+		assert.strictEqual(tabs.delimiter, "\t");
+		assert.strictEqual(tabs.confidence, 1);
+	});
+
+	test("Commas inside decimal-comma numbers are not taken for the delimiter", () => {
+		const prices = sniffDialect(["name;val", "x;1.234,56", "y;2.000,00"]);
+		assert.strictEqual(prices.delimiter, ";");
+		assert.ok(prices.confidence > 0.5, `confidence ${prices.confidence}`);
+
+		// Without a header both splits give every record two fields
+		assert.strictEqual(sniffDialect(["x;1.234,56", "y;2.000,00"]).delimiter, ";");
+		assert.strictEqual(sniffDialect(["1,5\t2,5", "3,5\t4,5"]).delimiter, "\t");
+		assert.strictEqual(sniffDialect(["a,b,c", "1,234,5", "6,789,1"]).delimiter, ",");
+	});
+
+	test("Header rows are told from data rows column by column", () => {
+		assert.strictEqual(
+			detectHeader(
+				[
+					["time", "value"],
+					["0", "1.5"],
+				],
+				isNumeric,
+			),
+			true,
+		);
+		// Dates over dates and a number over numbers: data
+		assert.strictEqual(
+			detectHeader(
+				[
+					["2024-01-01", "5"],
+					["2024-01-02", "6"],
+				],
+				isNumeric,
+			),
+			false,
+		);
+		// A value repeated below is data
+		assert.strictEqual(
+			detectHeader(
+				[
+					["red", "small"],
+					["blue", "small"],
+				],
+				isNumeric,
+			),
+			false,
+		);
+		assert.strictEqual(
+			detectHeader(
+				[
+					["color", "size"],
+					["blue", "small"],
+				],
+				isNumeric,
+			),
+			true,
+		);
+	});
+
+	test("Every text format is parsed with the sniffed dialect", async () => {
+		const uri = await writeFixture(
+			"quoted.txt",
+			'city|note|visits\n"Paris|FR"|"first | second"|3\nRome|x|4\nOslo|y|5\n',
+		);
+		try {
+			for (const parse of [parseDataFile, parseDataFileStreaming]) {
+				const data = await parse(uri);
+				assert.strictEqual(data?.detectedDelimiter, "|");
+				assert.deepStrictEqual(data?.rows[0], ["Paris|FR", "first | second", 3]);
+				assert.strictEqual(data?.dialect?.quoteChar, '"');
+				assert.strictEqual(data?.dialect?.hasHeader, true);
+			}
+		} finally {
+			await cleanup(uri);
+		}
+
+		const tabbed = parseDataText({ fileName: "export.csv", text: "a\tb\n1\t2\n3\t4\n" });
+		assert.strictEqual(tabbed?.detectedDelimiter, "\t");
+		assert.deepStrictEqual(tabbed?.headers, ["a", "b"]);
+
+		const dated = parseDataText({ fileName: "daily.csv", text: "2024-01-01,5\n2024-01-02,6\n" });
+		assert.strictEqual(dated?.dialect?.hasHeader, false);
+		assert.deepStrictEqual(dated?.headers, ["Column 1", "Column 2"]);
+
+		const chosen = parseDataText({ fileName: "data.csv", text: "a;b\n1;2\n" }, { delimiter: ";" });
+		assert.strictEqual(chosen?.detectedDelimiter, ";");
+	});
+});
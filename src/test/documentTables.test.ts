@@ -0,0 +1,154 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { extractDocumentTables } from "../data/documentTables";
+import { findDocumentTables, parseDataFile } from "../data/load";
+
+async function writeFixture(name: string, content: string): Promise<vscode.Uri> {
+	const uri = vscode.Uri.file(path.join(__dirname, "../../test-data", name));
+	await vscode.workspace.fs.writeFile(uri, Buffer.from(content));
+	return uri;
+}
+
+async function cleanup(uri: vscode.Uri) {
+	try {
+		await vscode.workspace.fs.delete(uri);
+	} catch (_e) {
+		// Ignore cleanup errors
+	}
+}
+
+const REPORT_MD = [
+	"# Benchmarks",
+	"",
+	"```",
+	"| not | a table |",
+	"| --- | ------- |",
+	"```",
+	"",
+	"## Throughput",
+	"",
+	"| Engine | **Ops/s** | Notes |",
+	"| :----- | --------: | ----- |",
+	"| `v8` | 1,250.5 | [fast](https://example.com) |",
+	"| quickjs | 310 | pipes \\| escaped |",
+	"| hermes | NA |",
+	"",
+	"<table>",
+	"  <caption>Memory &amp; startup</caption>",
+	"  <tr><th>Engine</th><th>MB</th></tr>",
+	"  <tr><td>v8</td><td>48</td></tr>",
+	"</table>",
+].join("\n");
+
+suite("Document Table Tests", () => {
+	test("Markdown pipe tables become typed columns", async () => {
+		const uri = await writeFixture("report.md", REPORT_MD);
+		try {
+			const tables = await findDocumentTables(uri);
+			assert.deepStrictEqual(
+				tables.map((table) => [table.kind, table.startLine, table.caption]),
+				[
+					["markdown", 9, "Throughput"],
+					["html", 15, "Memory & startup"],
+				],
+			);
+
+			const data = await parseDataFile(uri);
+			assert.strictEqual(data?.fileType, "markdown");
+			assert.strictEqual(data?.table, 1);
+			assert.deepStrictEqual(data?.headers, ["Engine", "Ops/s", "Notes"]);
+			assert.deepStrictEqual(data?.rows, [
+				["v8", 1250.5, "fast"],
+				["quickjs", 310, "pipes | escaped"],
+				["hermes", null, null],
+			]);
+			assert.strictEqual(data?.columns?.[1].type, "float");
+
+			const memory = await parseDataFile(uri, { table: 2 });
+			assert.deepStrictEqual(memory?.headers, ["Engine", "MB"]);
+			assert.deepStrictEqual(memory?.rows, [["v8", 48]]);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("HTML tables expand spanned cells", () => {
+		const [table] = extractDocumentTables(
+			`<TABLE class="report">
+				<thead><tr><th colspan="2">Site</th><th>Value</th></tr>
+				<tr><th>Region</th><th>Name</th><th>mm</th></tr></thead>
+				<tbody>
+					<tr><td rowspan="2">North<td>Tromsø<td>1&nbsp;031
+					<tr><td>Bodø</td><td>1020</td></tr>
+					<tr><td>South</td><td>Oslo<br>Blindern</td><td>&#8722;</td></tr>
+				</tbody>
+			</TABLE>`,
+			"html",
+		);
+		assert.deepStrictEqual(table.headers, ["Region", "Name", "mm"]);
+		assert.deepStrictEqual(table.rows, [
+			["North", "Tromsø", "1 031"],
+			["North", "Bodø", "1020"],
+			["South", "Oslo Blindern", "−"],
+		]);
+	});
+
+	test("LaTeX tabular environments are read with their caption", async () => {
+		const uri = await writeFixture(
+			"paper.tex",
+			[
+				"\\begin{table}[h]",
+				"  \\centering",
+				"  \\caption{Results on \\textbf{test} set}",
+				"  \\begin{tabular}{l|r@{.}l}",
+				"    \\toprule",
+				"    Model & \\multicolumn{2}{c}{Accuracy} \\\\",
+				"    \\midrule",
+				"    Baseline & 71 & 2 \\\\ % first run",
+				"    \\emph{Ours} & 84 & 9 \\\\[2pt]",
+				"    Cost \\& time & \\$12 & \\\\",
+				"    \\bottomrule",
+				"  \\end{tabular}",
+				"\\end{table}",
+			].join("\n"),
+		);
+		try {
+			const [table] = await findDocumentTables(uri);
+			assert.strictEqual(table.kind, "latex");
+			assert.strictEqual(table.caption, "Results on test set");
+			assert.deepStrictEqual(table.headers, ["Model", "Accuracy", ""]);
+			assert.deepStrictEqual(table.rows, [
+				["Baseline", "71", "2"],
+				["Ours", "84", "9"],
+				["Cost & time", "$12", ""],
+			]);
+
+			const data = await parseDataFile(uri);
+			assert.strictEqual(data?.fileType, "latex");
+			assert.deepStrictEqual(data?.headers, ["Model", "Accuracy", "Column 3"]);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("Documents without the requested table report an error", async () => {
+		const uri = await writeFixture("notes.md", "# Notes\n\nNo tables here | at all.\n");
+		try {
+			const originalShowError = vscode.window.showErrorMessage;
+			let shown = "";
+			(vscode.window as any).showErrorMessage = (message: string) => {
+				shown = message;
+				return Promise.resolve(undefined);
+			};
+			try {
+				assert.strictEqual(await parseDataFile(uri), null);
+			} finally {
+				(vscode.window as any).showErrorMessage = originalShowError;
+			}
+			assert.ok(shown.includes("No tables found in the document"));
+		} finally {
+			await cleanup(uri);
+		}
+	});
+});
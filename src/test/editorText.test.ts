@@ -0,0 +1,54 @@
+import * as assert from "node:assert";
+import * as vscode from "vscode";
+import { parseDataText } from "../data/load";
+
+suite("Editor Text Tests", () => {
+	test("Untitled text is read as delimited text with detection", () => {
+		const data = parseDataText({
+			fileName: "Untitled-1",
+			languageId: "plaintext",
+			text: "step;loss;accuracy\n1;0.93;0.41\n2;0.71;0.58\n",
+		});
+		assert.strictEqual(data?.textSource, "buffer");
+		assert.strictEqual(data?.detectedDelimiter, ";");
+		assert.deepStrictEqual(data?.headers, ["step", "loss", "accuracy"]);
+		assert.deepStrictEqual(data?.rows[1], [2, 0.71, 0.58]);
+	});
+
+	test("The language picks the format of untitled documents", () => {
+		const data = parseDataText({
+			fileName: "Untitled-2",
+			languageId: "json",
+			text: '[{"city": "Lyon", "pop": 522}, {"city": "Nice", "pop": 342}]',
+		});
+		assert.strictEqual(data?.fileType, "json");
+		assert.deepStrictEqual(data?.headers, ["city", "pop"]);
+	});
+
+	test("Selected rows without the header get generated column names", () => {
+		const data = parseDataText(
+			{ fileName: "run.csv", languageId: "csv", text: "3,0.52,0.66\n4,0.47,0.70", selection: true },
+			{ maxRows: 1 },
+		);
+		assert.strictEqual(data?.textSource, "selection");
+		assert.strictEqual(data?.fileType, "csv");
+		assert.deepStrictEqual(data?.headers, ["Column 1", "Column 2", "Column 3"]);
+		assert.deepStrictEqual(data?.rows, [[3, 0.52, 0.66]]);
+		assert.strictEqual(data?.truncated, true);
+	});
+
+	test("Unparseable text reports an error", () => {
+		const originalShowError = vscode.window.showErrorMessage;
+		let shown = "";
+		(vscode.window as any).showErrorMessage = (message: string) => {
+			shown = message;
+			return Promise.resolve(undefined);
+		};
+		try {
+			assert.strictEqual(parseDataText({ fileName: "draft.json", text: "[{" }), null);
+		} finally {
+			(vscode.window as any).showErrorMessage = originalShowError;
+		}
+		assert.ok(shown.includes("draft.json"));
+	});
+});
@@ -0,0 +1,130 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { detectEncoding } from "../data/encoding";
+import { parseDataFile, parseDataFileStreaming } from "../data/load";
+
+async function writeFixture(name: string, content: Buffer): Promise<vscode.Uri> {
+	const uri = vscode.Uri.file(path.join(__dirname, "../../test-data", name));
+	await vscode.workspace.fs.writeFile(uri, content);
+	return uri;
+}
+
+async function cleanup(uri: vscode.Uri) {
+	try {
+		await vscode.workspace.fs.delete(uri);
+	} catch (_e) {
+		// Ignore cleanup errors
+	}
+}
+
+function utf16be(text: string): Buffer {
+	return Buffer.from(text, "utf16le").swap16();
+}
+
+/** `駅,乗車人数` and two stations in Shift-JIS, as exported by Japanese Excel */
+const STATIONS_SJIS = Buffer.from(
+	"89772c8fe68ed4906c90940a82b582c882aa82ed2c3338303030300a938c8b9e2c3435303030300a",
+	"hex",
+);
+
+/** `名前,値` and two rows in Shift-JIS, with kanji but no kana */
+const NAMES_SJIS = Buffer.from("96bc914f2c926c0a936392862c31320a97e996d82c370a", "hex");
+
+suite("Encoding Tests", () => {
+	test("UTF-8 byte order mark is removed from the first header", async () => {
+		const uri = await writeFixture(
+			"bom.csv",
+			Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from("name,temp\nÅre,-3.5\n")]),
+		);
+		try {
+			for (const data of [await parseDataFile(uri), await parseDataFileStreaming(uri)]) {
+				assert.strictEqual(data?.encoding, "utf-8");
+				assert.deepStrictEqual(data?.headers, ["name", "temp"]);
+				assert.deepStrictEqual(data?.rows, [["Åre", -3.5]]);
+			}
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("UTF-16 is read with or without a byte order mark", async () => {
+		const text = "x\ty\n1\t2\n3\t4\n";
+		const withBom = await writeFixture(
+			"wide.tsv",
+			Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, "utf16le")]),
+		);
+		const bigEndian = await writeFixture("wide-be.tsv", utf16be(text));
+		try {
+			for (const uri of [withBom, bigEndian]) {
+				for (const data of [await parseDataFile(uri), await parseDataFileStreaming(uri)]) {
+					assert.deepStrictEqual(data?.headers, ["x", "y"]);
+					assert.deepStrictEqual(data?.rows, [
+						[1, 2],
+						[3, 4],
+					]);
+				}
+			}
+			assert.strictEqual((await parseDataFile(withBom))?.encoding, "utf-16le");
+			assert.strictEqual((await parseDataFile(bigEndian))?.encoding, "utf-16be");
+		} finally {
+			await cleanup(withBom);
+			await cleanup(bigEndian);
+		}
+	});
+
+	test("Legacy single- and multi-byte encodings are detected", async () => {
+		assert.strictEqual(detectEncoding(Buffer.from("plain ascii,1\n")), "utf-8");
+		assert.strictEqual(detectEncoding(STATIONS_SJIS), "shift_jis");
+		assert.strictEqual(detectEncoding(NAMES_SJIS), "shift_jis");
+		// Curly quotes and dashes also decode as Shift-JIS kanji, but are ordinary Western text
+		assert.strictEqual(
+			detectEncoding(Buffer.from("note\nDon\x92t stop \x96 \x93fine\x94\n", "latin1")),
+			"windows-1252",
+		);
+
+		const latin = await writeFixture(
+			"latin.csv",
+			Buffer.from("name;city\nMüller;Köln\n", "latin1"),
+		);
+		const japanese = await writeFixture("stations.csv", STATIONS_SJIS);
+		const kanji = await writeFixture("names.csv", NAMES_SJIS);
+		try {
+			const western = await parseDataFile(latin);
+			assert.strictEqual(western?.encoding, "windows-1252");
+			assert.deepStrictEqual(western?.rows, [["Müller", "Köln"]]);
+
+			const stations = await parseDataFile(japanese);
+			assert.strictEqual(stations?.encoding, "shift_jis");
+			assert.deepStrictEqual(stations?.headers, ["駅", "乗車人数"]);
+			assert.deepStrictEqual(stations?.rows[0], ["しながわ", 380000]);
+
+			const names = await parseDataFile(kanji);
+			assert.strictEqual(names?.encoding, "shift_jis");
+			assert.deepStrictEqual(names?.headers, ["名前", "値"]);
+			assert.deepStrictEqual(names?.rows[1], ["鈴木", 7]);
+		} finally {
+			await cleanup(latin);
+			await cleanup(japanese);
+			await cleanup(kanji);
+		}
+	});
+
+	test("An explicit encoding overrides detection", async () => {
+		// Valid UTF-8, read as Windows-1252 when the user says so
+		const uri = await writeFixture("mojibake.csv", Buffer.from("label,count\ncafé,2\n"));
+		try {
+			const detected = await parseDataFile(uri);
+			assert.deepStrictEqual(detected?.rows, [["café", 2]]);
+
+			const chosen = await parseDataFile(uri, { encoding: "windows-1252" });
+			assert.strictEqual(chosen?.encoding, "windows-1252");
+			assert.deepStrictEqual(chosen?.rows, [["cafÃ©", 2]]);
+
+			const streamed = await parseDataFileStreaming(uri, { encoding: "windows-1252" });
+			assert.deepStrictEqual(streamed?.rows, [["cafÃ©", 2]]);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+});
@@ -33,6 +33,18 @@ suite("Extension Activation Tests", () => {
 			commands.includes("vsplot.openDataViewer"),
 			"openDataViewer command should be registered",
 		);
+		assert.ok(
+			commands.includes("vsplot.extractTable"),
+			"extractTable command should be registered",
+		);
+		assert.ok(
+			commands.includes("vsplot.previewSelection"),
+			"previewSelection command should be registered",
+		);
+		assert.ok(
+			commands.includes("vsplot.plotSelection"),
+			"plotSelection command should be registered",
+		);
 
 		// Check test commands
 		assert.ok(
@@ -0,0 +1,87 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { parseDataFile, parseDataFileStreaming } from "../data/load";
+
+async function writeFixture(name: string, content: string): Promise<vscode.Uri> {
+	const uri = vscode.Uri.file(path.join(__dirname, "../../test-data", name));
+	await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf8"));
+	return uri;
+}
+
+async function cleanup(uri: vscode.Uri) {
+	try {
+		await vscode.workspace.fs.delete(uri);
+	} catch (_e) {
+		// Ignore cleanup errors
+	}
+}
+
+const STATIONS = [
+	"STATION       TEMP   RAIN",
+	"New York      12.5    0.0",
+	"Boston        10.1   12.4",
+	"Los Angeles   21.0    0.3",
+	"San Diego     19.75 100.0",
+].join("\n");
+
+suite("Fixed-Width Parsing Tests", () => {
+	test("Aligned columns are detected and values may contain spaces", async () => {
+		const uri = await writeFixture("stations.out", STATIONS);
+		try {
+			const data = await parseDataFile(uri);
+			assert.strictEqual(data?.detectedDelimiter, "fixed");
+			assert.deepStrictEqual(data?.columnBoundaries, [0, 14, 20]);
+			assert.deepStrictEqual(data?.headers, ["STATION", "TEMP", "RAIN"]);
+			assert.deepStrictEqual(data?.rows[0], ["New York", 12.5, 0]);
+			assert.deepStrictEqual(data?.rows[3], ["San Diego", 19.75, 100]);
+			assert.strictEqual(data?.sampleLines?.length, 5);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("Given boundaries split fields that touch each other", async () => {
+		const uri = await writeFixture("touching.dat", "ID  VALUE FLAG\n0001 12.50A\n0002 -3.25B\n");
+		try {
+			const data = await parseDataFile(uri, { columnBoundaries: [0, 4, 10] });
+			assert.deepStrictEqual(data?.headers, ["ID", "VALUE", "FLAG"]);
+			assert.deepStrictEqual(data?.rows, [
+				[1, 12.5, "A"],
+				[2, -3.25, "B"],
+			]);
+
+			const streamed = await parseDataFileStreaming(uri, {
+				delimiter: "fixed",
+				columnBoundaries: [10, 4],
+			});
+			assert.deepStrictEqual(streamed?.columnBoundaries, [0, 4, 10]);
+			assert.deepStrictEqual(streamed?.rows, data?.rows);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("An explicit delimiter wins over saved boundaries", async () => {
+		const uri = await writeFixture("fixed-or-pipe.txt", "a|b\n1|2\n");
+		try {
+			const data = await parseDataFile(uri, { delimiter: "|", columnBoundaries: [0, 1] });
+			assert.strictEqual(data?.detectedDelimiter, "|");
+			assert.strictEqual(data?.columnBoundaries, undefined);
+			assert.deepStrictEqual(data?.rows, [[1, 2]]);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("Single-space separated files stay space-delimited", async () => {
+		const uri = await writeFixture("single-space.dat", "x y\n1 2\n3 4\n");
+		try {
+			const data = await parseDataFile(uri);
+			assert.strictEqual(data?.detectedDelimiter, " ");
+			assert.strictEqual(data?.columnBoundaries, undefined);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+});
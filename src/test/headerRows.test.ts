@@ -0,0 +1,118 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { parseDataFile, parseDataFileStreaming, parseDataText } from "../data/load";
+
+async function writeFixture(name: string, content: string): Promise<vscode.Uri> {
+	const uri = vscode.Uri.file(path.join(__dirname, "../../test-data", name));
+	await vscode.workspace.fs.writeFile(uri, Buffer.from(content));
+	return uri;
+}
+
+async function cleanup(uri: vscode.Uri) {
+	try {
+		await vscode.workspace.fs.delete(uri);
+	} catch (_e) {
+		// Ignore cleanup errors
+	}
+}
+
+const SCOPE_EXPORT = [
+	"Instrument;DSO-X 2024A",
+	"Exported;2024-05-01 10:00",
+	"Time;Voltage;Current",
+	"s;mV;(mA)",
+	"0;1,5;0,2",
+	"0,1;1,7;0,3",
+	"0,2;1,9;0,4",
+].join("\n");
+
+suite("Header and Units Row Tests", () => {
+	test("Metadata lines are skipped and the units row goes into the schema", async () => {
+		const uri = await writeFixture("scope.csv", SCOPE_EXPORT);
+		try {
+			for (const parse of [parseDataFile, parseDataFileStreaming]) {
+				const data = await parse(uri);
+				assert.strictEqual(data?.skipRows, 2);
+				assert.deepStrictEqual(data?.headers, ["Time", "Voltage", "Current"]);
+				assert.deepStrictEqual(data?.rows[1], [0.1, 1.7, 0.3]);
+				assert.deepStrictEqual(
+					data?.columns?.map((column) => [column.type, column.unit]),
+					[
+						["float", "s"],
+						["float", "mV"],
+						["float", "mA"],
+					],
+				);
+			}
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("Header rows are merged and explicit options override detection", () => {
+		const data = parseDataText(
+			{
+				fileName: "channels.txt",
+				text: "Logger 7\nChannel A\t\tChannel B\t\nV\tI\tV\tI\n[V]\t[A]\t[V]\t[A]\n1\t2\t3\t4\n",
+			},
+			{ skipRows: 1, headerRows: 2, unitsRow: true },
+		);
+		assert.strictEqual(data?.skipRows, 1);
+		assert.deepStrictEqual(data?.headers, [
+			"Channel A V",
+			"Channel A I",
+			"Channel B V",
+			"Channel B I",
+		]);
+		assert.deepStrictEqual(data?.rows, [[1, 2, 3, 4]]);
+		assert.deepStrictEqual(
+			data?.columns?.map((column) => column.unit),
+			["V", "A", "V", "A"],
+		);
+
+		const kept = parseDataText(
+			{ fileName: "plain.txt", text: "Time\tVoltage\ns\tmV\n0\t1.5\n" },
+			{ unitsRow: false },
+		);
+		assert.deepStrictEqual(kept?.rows, [
+			["s", "mV"],
+			[0, 1.5],
+		]);
+
+		const unnamed = parseDataText(
+			{ fileName: "numbered.csv", text: "x,y\n1,2\n" },
+			{ headerRows: 0 },
+		);
+		assert.deepStrictEqual(unnamed?.headers, ["Column 1", "Column 2"]);
+		assert.deepStrictEqual(unnamed?.rows[0], ["x", "y"]);
+	});
+
+	test("Text rows below the header are not mistaken for units", () => {
+		const cities = parseDataText({
+			fileName: "cities.csv",
+			text: "name,city\nAl,Paris\nBo,Rome\n",
+		});
+		assert.strictEqual(cities?.rows.length, 2);
+		assert.ok(cities?.columns?.every((column) => column.unit === undefined));
+
+		// A single row below the header cannot be confirmed as units
+		const single = parseDataText({ fileName: "single.csv", text: "name,unit\nrod,m\n" });
+		assert.deepStrictEqual(single?.rows, [["rod", "m"]]);
+	});
+
+	test("A header is not skipped when the values hold another delimiter", () => {
+		// The commas of the decimal-comma values split every data line in two as well
+		const data = parseDataText({
+			fileName: "prices.csv",
+			text: "name;val\nx;1.234,56\ny;2.000,00\n",
+		});
+		assert.strictEqual(data?.detectedDelimiter, ";");
+		assert.strictEqual(data?.skipRows, undefined);
+		assert.deepStrictEqual(data?.headers, ["name", "val"]);
+		assert.deepStrictEqual(data?.rows, [
+			["x", 1234.56],
+			["y", 2000],
+		]);
+	});
+});
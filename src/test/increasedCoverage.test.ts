@@ -8,7 +8,7 @@ import {
 	registerDataCommands,
 	resetDataCommandRegistrationsForTests,
 } from "../commands/dataCommands";
-import { parseDataFile } from "../data/load";
+import { type ParsedData, parseDataFile } from "../data/load";
 import { ChartViewProvider } from "../providers/chartViewProvider";
 import {
 	createDefaultMessageHandlerDeps,
@@ -57,7 +57,7 @@ suite("Increased Coverage Tests", () => {
 			assert.ok(provider);
 		});
 
-		test("DataPreviewProvider resolveWebviewView sets up webview", () => {
+		test("DataPreviewProvider resolveWebviewView sets up webview", async () => {
 			const repoRoot = path.join(__dirname, "../..");
 			const extensionUri = vscode.Uri.file(repoRoot);
 			const provider = new DataPreviewProvider(extensionUri);
@@ -76,7 +76,7 @@ suite("Increased Coverage Tests", () => {
 				show: () => {},
 			};
 
-			provider.resolveWebviewView(mockWebviewView, {} as any, {} as any);
+			await provider.resolveWebviewView(mockWebviewView, {} as any, {} as any);
 
 			assert.ok(mockWebview.options.enableScripts);
 			assert.ok(mockWebview.html.length > 0);
@@ -148,6 +148,63 @@ suite("Increased Coverage Tests", () => {
 			assert.ok(true, "Should create panel without errors");
 		});
 
+		test("DataPreviewProvider reuses one panel and drops stale partial data", async () => {
+			const provider = new DataPreviewProvider(vscode.Uri.file(path.join(__dirname, "../..")));
+			const shown: (string | number | null)[][][] = [];
+			let created = 0;
+			const panel = {
+				title: "",
+				webview: {
+					html: "",
+					cspSource: "vscode-resource:",
+					asWebviewUri: (uri: vscode.Uri) => uri,
+					onDidReceiveMessage: () => new vscode.Disposable(() => {}),
+					postMessage: async (message: { data: ParsedData }) => {
+						shown.push(message.data.rows);
+						return true;
+					},
+				},
+				reveal: () => {},
+				onDidDispose: () => new vscode.Disposable(() => {}),
+			};
+			const window = vscode.window as unknown as {
+				createWebviewPanel: (...args: unknown[]) => unknown;
+			};
+			const originalCreate = window.createWebviewPanel;
+			window.createWebviewPanel = () => {
+				created++;
+				return panel;
+			};
+			const uri = vscode.Uri.file("/test/large.csv");
+			const page = (rows: number[][], partial?: boolean): ParsedData => ({
+				headers: ["x"],
+				rows,
+				totalRows: rows.length,
+				fileName: "large.csv",
+				fileType: "csv",
+				partial,
+			});
+			try {
+				// Without an open panel the first page waits for the final data
+				await provider.showPreview(uri, page([[1]], true));
+				assert.strictEqual(created, 0);
+				await provider.showPreview(uri, page([[1], [2]]));
+
+				// A first page that lands after the final data does not replace it
+				const late = provider.showPreview(uri, page([[3]], true));
+				await provider.showPreview(uri, page([[3], [4]]));
+				await late;
+			} finally {
+				window.createWebviewPanel = originalCreate;
+			}
+			assert.strictEqual(created, 1);
+			assert.strictEqual(panel.title, "Data Preview: large.csv");
+			assert.deepStrictEqual(shown, [
+				[[1], [2]],
+				[[3], [4]],
+			]);
+		});
+
 		test("DataPreviewProvider _wireMessageHandlers routes messages correctly", async () => {
 			const repoRoot = path.join(__dirname, "../..");
 			const extensionUri = vscode.Uri.file(repoRoot);
@@ -328,7 +385,7 @@ suite("Increased Coverage Tests", () => {
 			assert.ok(deps.asRelativePath);
 		});
 
-		test("registerDataCommands registers all three commands", () => {
+		test("registerDataCommands registers all six commands", () => {
 			const repoRoot = path.join(__dirname, "../..");
 			const extensionUri = vscode.Uri.file(repoRoot);
 
@@ -342,7 +399,7 @@ suite("Increased Coverage Tests", () => {
 			try {
 				registerDataCommands(mockContext, mockPreviewProvider, mockChartProvider);
 
-				assert.strictEqual(mockContext.subscriptions.length, 3, "Should register 3 commands");
+				assert.strictEqual(mockContext.subscriptions.length, 6, "Should register 6 commands");
 			} finally {
 				// Dispose registered commands to prevent test isolation issues
 				for (const disposable of mockContext.subscriptions) {
@@ -1,7 +1,7 @@
 import * as assert from "node:assert";
 import * as path from "node:path";
 import * as vscode from "vscode";
-import { parseDataFile } from "../data/load";
+import { findJSONArrays, parseDataFile } from "../data/load";
 
 suite("JSON Parsing Tests", () => {
 	test("JSON array of primitives (strings) should parse", async function () {
@@ -236,4 +236,153 @@ suite("JSON Parsing Tests", () => {
 		assert.strictEqual(data?.rows[0][xIdx], 1.2, "First row x should be 1.2");
 		assert.strictEqual(data?.rows[0][categoryIdx], "A", "First row category should be 'A'");
 	});
+
+	test("Nested objects are flattened into dot-notation columns", async function () {
+		this.timeout(10000);
+		const content = JSON.stringify([
+			{
+				id: 1,
+				user: { name: "Ada", address: { city: "London", geo: { lat: 51.5 } } },
+				tags: ["a"],
+			},
+			{ id: 2, user: { name: "Bob", address: { city: "Paris", geo: { lat: 48.9 } } }, tags: [] },
+		]);
+		const tmpPath = path.join(__dirname, "../../test-data/json-nested.json");
+		await vscode.workspace.fs.writeFile(vscode.Uri.file(tmpPath), Buffer.from(content, "utf8"));
+
+		try {
+			const data = await parseDataFile(vscode.Uri.file(tmpPath));
+			assert.deepStrictEqual(data?.headers, [
+				"id",
+				"user.name",
+				"user.address.city",
+				"user.address.geo.lat",
+				"tags",
+			]);
+			assert.deepStrictEqual(data?.rows[0], [1, "Ada", "London", 51.5, '["a"]']);
+
+			// Objects deeper than the configured depth are kept as JSON text
+			const shallow = await parseDataFile(vscode.Uri.file(tmpPath), { flattenDepth: 1 });
+			assert.deepStrictEqual(shallow?.headers, ["id", "user.name", "user.address", "tags"]);
+			assert.strictEqual(shallow?.rows[1][2], '{"city":"Paris","geo":{"lat":48.9}}');
+		} finally {
+			try {
+				await vscode.workspace.fs.delete(vscode.Uri.file(tmpPath));
+			} catch (_e) {
+				// Ignore cleanup errors
+			}
+		}
+	});
+
+	test("jsonPath selects a nested array and arrays can be discovered", async function () {
+		this.timeout(10000);
+		const content = JSON.stringify({
+			meta: { page: 1, "page sizes": [10, 20] },
+			data: { items: [{ x: 1 }, { x: 2 }, { x: 3 }] },
+		});
+		const tmpPath = path.join(__dirname, "../../test-data/json-api-response.json");
+		await vscode.workspace.fs.writeFile(vscode.Uri.file(tmpPath), Buffer.from(content, "utf8"));
+
+		try {
+			const candidates = await findJSONArrays(vscode.Uri.file(tmpPath));
+			assert.deepStrictEqual(candidates, [
+				{ path: '$.meta["page sizes"]', length: 2 },
+				{ path: "$.data.items", length: 3 },
+			]);
+
+			const items = await parseDataFile(vscode.Uri.file(tmpPath), { jsonPath: "$.data.items" });
+			assert.deepStrictEqual(items?.headers, ["x"]);
+			assert.strictEqual(items?.totalRows, 3);
+			assert.strictEqual(items?.jsonPath, "$.data.items");
+
+			const sizes = await parseDataFile(vscode.Uri.file(tmpPath), {
+				jsonPath: '$.meta["page sizes"]',
+			});
+			assert.deepStrictEqual(sizes?.rows, [[10], [20]]);
+
+			const missing = await parseDataFile(vscode.Uri.file(tmpPath), { jsonPath: "$.data.rows" });
+			assert.strictEqual(missing, null, "Unknown path should fail to parse");
+		} finally {
+			try {
+				await vscode.workspace.fs.delete(vscode.Uri.file(tmpPath));
+			} catch (_e) {
+				// Ignore cleanup errors
+			}
+		}
+	});
+
+	test("Headers are the union of keys and schema differences are counted", async function () {
+		this.timeout(10000);
+		const content = JSON.stringify([
+			{ type: "click", x: 1 },
+			{ type: "click", x: 2 },
+			{ x: 3, type: "click" },
+			{ type: "scroll", delta: 40 },
+			{ type: "key", x: 4, code: null },
+		]);
+		const tmpPath = path.join(__dirname, "../../test-data/json-heterogeneous.json");
+		await vscode.workspace.fs.writeFile(vscode.Uri.file(tmpPath), Buffer.from(content, "utf8"));
+
+		try {
+			const data = await parseDataFile(vscode.Uri.file(tmpPath));
+			assert.deepStrictEqual(data?.headers, ["type", "x", "delta", "code"]);
+			assert.deepStrictEqual(data?.rows[2], ["click", 3, null, null]);
+			assert.deepStrictEqual(data?.rows[3], ["scroll", null, 40, null]);
+			assert.deepStrictEqual(data?.schemaVariants, [
+				{ keys: ["type", "x"], count: 3 },
+				{ keys: ["type", "delta"], count: 1 },
+				{ keys: ["type", "x", "code"], count: 1 },
+			]);
+		} finally {
+			try {
+				await vscode.workspace.fs.delete(vscode.Uri.file(tmpPath));
+			} catch (_e) {
+				// Ignore cleanup errors
+			}
+		}
+	});
+
+	test("Records with identical keys report no schema variants", async function () {
+		this.timeout(10000);
+		const content = '[{"a":1,"b":2},{"b":3,"a":4}]';
+		const tmpPath = path.join(__dirname, "../../test-data/json-homogeneous.json");
+		await vscode.workspace.fs.writeFile(vscode.Uri.file(tmpPath), Buffer.from(content, "utf8"));
+
+		try {
+			const data = await parseDataFile(vscode.Uri.file(tmpPath));
+			assert.deepStrictEqual(data?.headers, ["a", "b"]);
+			assert.deepStrictEqual(data?.rows[1], [4, 3]);
+			assert.strictEqual(data?.schemaVariants, undefined);
+		} finally {
+			try {
+				await vscode.workspace.fs.delete(vscode.Uri.file(tmpPath));
+			} catch (_e) {
+				// Ignore cleanup errors
+			}
+		}
+	});
+
+	test("Primitives among objects go in a Value column", async function () {
+		this.timeout(10000);
+		const content = '[{"a":1},"skipped",2,null]';
+		const tmpPath = path.join(__dirname, "../../test-data/json-stray-values.json");
+		await vscode.workspace.fs.writeFile(vscode.Uri.file(tmpPath), Buffer.from(content, "utf8"));
+
+		try {
+			const data = await parseDataFile(vscode.Uri.file(tmpPath));
+			assert.deepStrictEqual(data?.headers, ["a", "Value"]);
+			assert.deepStrictEqual(data?.rows, [
+				[1, null],
+				[null, "skipped"],
+				[null, 2],
+				[null, null],
+			]);
+		} finally {
+			try {
+				await vscode.workspace.fs.delete(vscode.Uri.file(tmpPath));
+			} catch (_e) {
+				// Ignore cleanup errors
+			}
+		}
+	});
 });
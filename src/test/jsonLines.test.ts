@@ -0,0 +1,125 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { parseDataFile, parseDataFileStreaming } from "../data/load";
+
+async function writeFixture(name: string, content: string): Promise<vscode.Uri> {
+	const uri = vscode.Uri.file(path.join(__dirname, "../../test-data", name));
+	await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf8"));
+	return uri;
+}
+
+async function cleanup(uri: vscode.Uri) {
+	try {
+		await vscode.workspace.fs.delete(uri);
+	} catch (_e) {
+		// Ignore cleanup errors
+	}
+}
+
+suite("JSON Lines Parsing Tests", () => {
+	test("Each line becomes a row with the union of keys as headers", async () => {
+		const uri = await writeFixture(
+			"events.jsonl",
+			[
+				'{"level":"info","msg":"started"}',
+				"",
+				'{"level":"warn","msg":"slow","ms":812}',
+				'{"msg":"done","level":"info"}',
+			].join("\r\n"),
+		);
+		try {
+			const data = await parseDataFile(uri);
+			assert.ok(data);
+			assert.strictEqual(data?.fileType, "jsonl");
+			assert.deepStrictEqual(data?.headers, ["level", "msg", "ms"]);
+			assert.strictEqual(data?.totalRows, 3);
+			assert.deepStrictEqual(data?.rows[0], ["info", "started", null]);
+			assert.deepStrictEqual(data?.rows[1], ["warn", "slow", 812]);
+			assert.deepStrictEqual(data?.rows[2], ["info", "done", null]);
+			assert.strictEqual(data?.warnings, undefined);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("Invalid lines are skipped with a warning naming the line", async () => {
+		const uri = await writeFixture("events-bad.ndjson", '{"a":1}\n{"a":\n{"a":3}\nnot json\n');
+		const origWarn = vscode.window.showWarningMessage;
+		let shownWarning = "";
+		(vscode.window.showWarningMessage as any) = (m: string) => {
+			shownWarning = m;
+			return Promise.resolve(undefined);
+		};
+		try {
+			const data = await parseDataFile(uri);
+			assert.ok(data, "File with some bad lines should still parse");
+			assert.strictEqual(data?.fileType, "ndjson");
+			assert.deepStrictEqual(data?.rows, [[1], [3]]);
+			assert.strictEqual(data?.warnings?.length, 2);
+			assert.ok(data?.warnings?.[0].startsWith("Line 2:"));
+			assert.ok(data?.warnings?.[1].startsWith("Line 4:"));
+			assert.ok(
+				shownWarning.includes("Line 2"),
+				`Warning should name line 2, got: ${shownWarning}`,
+			);
+			assert.ok(
+				shownWarning.includes("Line 4"),
+				`Warning should name line 4, got: ${shownWarning}`,
+			);
+		} finally {
+			(vscode.window.showWarningMessage as any) = origWarn;
+			await cleanup(uri);
+		}
+	});
+
+	test("Non-object lines go into a Value column", async () => {
+		const uri = await writeFixture("values.jsonl", '1\n"two"\n{"Value":3,"extra":true}\n');
+		try {
+			const data = await parseDataFile(uri);
+			assert.deepStrictEqual(data?.headers, ["Value", "extra"]);
+			assert.deepStrictEqual(data?.rows, [
+				[1, null],
+				["two", null],
+				[3, true],
+			]);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("A file without any valid line fails", async () => {
+		const uri = await writeFixture("all-bad.jsonl", "nope\n{broken\n");
+		const origErr = vscode.window.showErrorMessage;
+		let shownError = "";
+		(vscode.window.showErrorMessage as any) = (m: string) => {
+			shownError = m;
+			return Promise.resolve(undefined);
+		};
+		try {
+			const data = await parseDataFile(uri);
+			assert.strictEqual(data, null);
+			assert.ok(shownError.includes("Line 1"), `Error should name line 1, got: ${shownError}`);
+		} finally {
+			(vscode.window.showErrorMessage as any) = origErr;
+			await cleanup(uri);
+		}
+	});
+
+	test("JSON Lines files are streamed and honour maxRows", async function () {
+		this.timeout(10000);
+		const lines: string[] = [];
+		for (let i = 0; i < 200; i++) {
+			lines.push(JSON.stringify({ id: i, value: i * 2 }));
+		}
+		const uri = await writeFixture("stream.jsonl", lines.join("\n"));
+		try {
+			const data = await parseDataFileStreaming(uri, { maxRows: 10 });
+			assert.strictEqual(data?.rows.length, 10);
+			assert.strictEqual(data?.truncated, true);
+			assert.deepStrictEqual(data?.rows[9], [9, 18]);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+});
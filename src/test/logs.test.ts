@@ -0,0 +1,185 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { parseDataFile, parseDataFileStreaming } from "../data/load";
+import { builtinLogPattern, logPattern, parseLogfmt } from "../data/logs";
+
+async function writeFixture(name: string, content: string): Promise<vscode.Uri> {
+	const uri = vscode.Uri.file(path.join(__dirname, "../../test-data", name));
+	await vscode.workspace.fs.writeFile(uri, Buffer.from(content));
+	return uri;
+}
+
+async function cleanup(uri: vscode.Uri) {
+	try {
+		await vscode.workspace.fs.delete(uri);
+	} catch (_e) {
+		// Ignore cleanup errors
+	}
+}
+
+const ACCESS_LOG = [
+	'203.0.113.7 - - [10/Oct/2024:13:55:36 -0700] "GET /index.html HTTP/1.1" 200 2326 "-" "curl/8.4.0"',
+	'203.0.113.9 - alice [10/Oct/2024:13:55:41 -0700] "POST /api/login HTTP/1.1" 401 - "https://example.com/" "Mozilla/5.0"',
+	'198.51.100.2 - - [10/Oct/2024:13:56:02 -0700] "GET /favicon.ico HTTP/1.1" 404 512 "-" "Mozilla/5.0"',
+].join("\n");
+
+suite("Log File Tests", () => {
+	test("Access logs are detected and parsed into typed columns", async () => {
+		const uri = await writeFixture("access.log", `${ACCESS_LOG}\n`);
+		try {
+			for (const parse of [parseDataFile, parseDataFileStreaming]) {
+				const data = await parse(uri);
+				assert.strictEqual(data?.fileType, "log");
+				assert.strictEqual(data?.logFormat, "combined");
+				assert.strictEqual(data?.rows.length, 3);
+				const column = (name: string) => data?.headers.indexOf(name) ?? -1;
+				assert.deepStrictEqual(
+					data?.rows.map((row) => row[column("status")]),
+					[200, 401, 404],
+				);
+				assert.strictEqual(data?.rows[1][column("user")], "alice");
+				assert.strictEqual(data?.rows[1][column("bytes")], null);
+				assert.strictEqual(data?.columns?.[column("status")].type, "integer");
+				assert.strictEqual(data?.columns?.[column("time")].type, "datetime");
+			}
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("A chosen format reads stack traces into the message and key=value pairs into columns", async () => {
+		const uri = await writeFixture(
+			"server.out",
+			[
+				"2024-10-10 13:55:36,120 INFO  [http] request done status=200 took_ms=12",
+				"2024-10-10 13:55:37,004 ERROR [db] query failed took_ms=950",
+				"java.sql.SQLException: timeout",
+				"\tat com.example.Db.run(Db.java:42)",
+				"2024-10-10 13:55:38,500 warn [http] slow request status=200 took_ms=2100",
+			].join("\n"),
+		);
+		try {
+			const data = await parseDataFile(uri, { logFormat: "iso" });
+			assert.strictEqual(data?.logFormat, "iso");
+			assert.deepStrictEqual(data?.headers, [
+				"time",
+				"level",
+				"component",
+				"message",
+				"status",
+				"took_ms",
+			]);
+			assert.deepStrictEqual(
+				data?.rows.map((row) => [row[1], row[2], row[5]]),
+				[
+					["INFO", "http", 12],
+					["ERROR", "db", 950],
+					["WARN", "http", 2100],
+				],
+			);
+			assert.strictEqual(
+				data?.rows[1][3],
+				"query failed took_ms=950\njava.sql.SQLException: timeout\n\tat com.example.Db.run(Db.java:42)",
+			);
+			assert.strictEqual(data?.rows[1][4], null);
+
+			// Without a chosen format the file is still read as delimited text
+			assert.strictEqual((await parseDataFile(uri))?.logFormat, undefined);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("Custom patterns from the settings are detected before the built-in formats", async () => {
+		const uri = await writeFixture(
+			"sensor.log",
+			"T+0001 probe=A temp=21.5\nT+0002 probe=B temp=22.0\nT+0003 probe=A temp=21.75\n",
+		);
+		try {
+			const data = await parseDataFile(uri, {
+				logPatterns: {
+					sensor: "^T\\+(?<tick>\\d+) probe=(?<probe>\\w+) temp=(?<temp>[\\d.]+)$",
+				},
+			});
+			assert.strictEqual(data?.logFormat, "sensor");
+			assert.deepStrictEqual(data?.headers, ["tick", "probe", "temp"]);
+			assert.deepStrictEqual(data?.rows[2], [3, "A", 21.75]);
+
+			assert.throws(
+				() => logPattern("broken", { broken: "(?<open" }),
+				/Invalid log pattern "broken"/,
+			);
+			assert.throws(() => logPattern("plain", { plain: "^\\d+" }), /has no named groups/);
+			assert.throws(() => logPattern("apache"), /Unknown log format: apache/);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("Invalid log settings are reported instead of rejecting", async () => {
+		const uri = await writeFixture("broken.log", "T+0001 probe=A\n");
+		const window = vscode.window as unknown as { showErrorMessage: (message: string) => unknown };
+		const originalShowError = window.showErrorMessage;
+		const shown: string[] = [];
+		window.showErrorMessage = (message: string) => {
+			shown.push(message);
+			return Promise.resolve(undefined);
+		};
+		try {
+			for (const parse of [parseDataFile, parseDataFileStreaming]) {
+				assert.strictEqual(await parse(uri, { logPatterns: { broken: "(?<open" } }), null);
+				assert.strictEqual(await parse(uri, { logFormat: "apache" }), null);
+			}
+		} finally {
+			window.showErrorMessage = originalShowError;
+			await cleanup(uri);
+		}
+		assert.strictEqual(shown.length, 4);
+		assert.match(shown[2], /Invalid log pattern "broken"/);
+		assert.match(shown[3], /Unknown log format: apache/);
+	});
+
+	test("Syslog and logfmt lines are read into fields", () => {
+		const syslog = builtinLogPattern("syslog", 2024);
+		assert.deepStrictEqual(
+			syslog.match("<34>Oct  3 22:14:15 mymachine su[311]: 'su root' failed for lonvick"),
+			{
+				time: "2024-10-03T22:14:15",
+				level: "crit",
+				host: "mymachine",
+				program: "su",
+				pid: "311",
+				message: "'su root' failed for lonvick",
+			},
+		);
+		assert.strictEqual(
+			syslog.match("<165>1 2003-10-11T22:14:15.003Z host.example.com evntslog - ID47 - started")
+				?.program,
+			"evntslog",
+		);
+
+		assert.deepStrictEqual(parseLogfmt('level=info msg="user logged in" user_id=42 ok=true'), {
+			level: "info",
+			msg: "user logged in",
+			user_id: "42",
+			ok: "true",
+		});
+		assert.strictEqual(parseLogfmt("level=info just some words"), undefined);
+	});
+
+	test("Files that are not a known log format fall back to delimited text", async () => {
+		const uri = await writeFixture("results.log", "step\tloss\n1\t0.9\n2\t0.4\n");
+		try {
+			const data = await parseDataFile(uri);
+			assert.strictEqual(data?.logFormat, undefined);
+			assert.strictEqual(data?.detectedDelimiter, "\t");
+			assert.deepStrictEqual(data?.rows, [
+				[1, 0.9],
+				[2, 0.4],
+			]);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+});
@@ -6,7 +6,7 @@
 import * as assert from "node:assert";
 import * as vscode from "vscode";
 import { createDefaultDependencies } from "../commands/dataCommands";
-import type { ParsedData } from "../data/load";
+import type { ParsedData, ParseOptions } from "../data/load";
 import { ChartViewProvider } from "../providers/chartViewProvider";
 import {
 	type ChartProviderLike,
@@ -17,6 +17,8 @@ import {
 	handleCreateChart,
 	handleExportData,
 	handleReparse,
+	handleSaveColumnBoundaries,
+	handleSaveQuery,
 	type MessageHandlerDependencies,
 	type ReparseMessage,
 	toCSV,
@@ -475,6 +477,141 @@ suite("Message Handler Unit Tests", () => {
 			assert.strictEqual(receivedDelimiter, undefined);
 		});
 
+		test("should pass JSON path and column type overrides through", async () => {
+			let receivedOptions: ParseOptions | undefined;
+
+			const deps = createMockDeps({
+				parseDataFile: async (_uri, options) => {
+					receivedOptions = options;
+					return createMockParsedData();
+				},
+			});
+
+			const message: ReparseMessage = {
+				type: "reparse",
+				delimiter: "auto",
+				jsonPath: "$.items",
+				columnTypes: { zip: "string" },
+			};
+
+			await handleReparse(message, vscode.Uri.file("/test.json"), async () => true, deps);
+
+			assert.strictEqual(receivedOptions?.jsonPath, "$.items");
+			assert.deepStrictEqual(receivedOptions?.columnTypes, { zip: "string" });
+		});
+
+		test("should pass ruler boundaries only when the message has them", async () => {
+			const received: (ParseOptions | undefined)[] = [];
+
+			const deps = createMockDeps({
+				parseDataFile: async (_uri, options) => {
+					received.push(options);
+					return createMockParsedData();
+				},
+			});
+			const uri = vscode.Uri.file("/test.out");
+
+			await handleReparse(
+				{ type: "reparse", delimiter: "fixed", columnBoundaries: [0, 8, 20] },
+				uri,
+				async () => true,
+				deps,
+			);
+			await handleReparse({ type: "reparse", delimiter: "auto" }, uri, async () => true, deps);
+
+			assert.strictEqual(received[0]?.delimiter, "fixed");
+			assert.deepStrictEqual(received[0]?.columnBoundaries, [0, 8, 20]);
+			// Leaving the key out lets a layout saved for the file apply
+			assert.ok(received[1] && !("columnBoundaries" in received[1]));
+		});
+
+		test("should pass the chosen encoding to the parser", async () => {
+			let receivedOptions: ParseOptions | undefined;
+
+			const deps = createMockDeps({
+				parseDataFile: async (_uri, options) => {
+					receivedOptions = options;
+					return createMockParsedData();
+				},
+			});
+
+			await handleReparse(
+				{ type: "reparse", delimiter: ";", encoding: "windows-1252" },
+				vscode.Uri.file("/export.csv"),
+				async () => true,
+				deps,
+			);
+
+			assert.strictEqual(receivedOptions?.encoding, "windows-1252");
+			assert.strictEqual(receivedOptions?.delimiter, ";");
+		});
+
+		test("should pass the chosen log format to the parser", async () => {
+			let receivedOptions: ParseOptions | undefined;
+
+			const deps = createMockDeps({
+				parseDataFile: async (_uri, options) => {
+					receivedOptions = options;
+					return createMockParsedData();
+				},
+			});
+
+			await handleReparse(
+				{ type: "reparse", delimiter: "auto", logFormat: "syslog" },
+				vscode.Uri.file("/server.out"),
+				async () => true,
+				deps,
+			);
+
+			assert.strictEqual(receivedOptions?.logFormat, "syslog");
+		});
+
+		test("should publish the parse issues of the reparsed data", async () => {
+			const published: { uri: vscode.Uri; data: ParsedData }[] = [];
+			const reparsed = createMockParsedData();
+			const deps = createMockDeps({
+				parseDataFile: async () => reparsed,
+				publishParseIssues: (uri, data) => {
+					published.push({ uri, data });
+				},
+			});
+			const uri = vscode.Uri.file("/ragged.csv");
+
+			await handleReparse({ type: "reparse", delimiter: ";" }, uri, async () => true, deps);
+
+			assert.strictEqual(published.length, 1);
+			assert.strictEqual(published[0].uri, uri);
+			assert.strictEqual(published[0].data, reparsed);
+		});
+
+		test("should reparse editor text instead of reading the file", async () => {
+			let fileRead = false;
+			let received: { text: string; options?: ParseOptions } | undefined;
+
+			const deps = createMockDeps({
+				parseDataFile: async () => {
+					fileRead = true;
+					return null;
+				},
+				parseDataText: (source, options) => {
+					received = { text: source.text, options };
+					return createMockParsedData();
+				},
+			});
+
+			await handleReparse(
+				{ type: "reparse", delimiter: "|" },
+				vscode.Uri.parse("untitled:Untitled-1"),
+				async () => true,
+				deps,
+				{ fileName: "Untitled-1", text: "a|b\n1|2" },
+			);
+
+			assert.strictEqual(fileRead, false);
+			assert.strictEqual(received?.text, "a|b\n1|2");
+			assert.strictEqual(received?.options?.delimiter, "|");
+		});
+
 		test("should post message with parsed data", async () => {
 			const mockData = createMockParsedData();
 			let postedMessage: { type: string; data: ParsedData } | undefined;
@@ -579,6 +716,138 @@ suite("Message Handler Unit Tests", () => {
 		});
 	});
 
+	suite("handleSaveColumnBoundaries", () => {
+		test("should save the layout for the current file", async () => {
+			let saved: { uri: vscode.Uri; boundaries: number[] | undefined } | undefined;
+			let infoShown = "";
+
+			const deps = createMockDeps({
+				saveColumnBoundaries: async (uri, boundaries) => {
+					saved = { uri, boundaries };
+				},
+				showInfoMessage: (msg) => {
+					infoShown = msg;
+				},
+			});
+
+			const result = await handleSaveColumnBoundaries(
+				{ type: "saveColumnBoundaries", columnBoundaries: [0, 6, 14] },
+				vscode.Uri.file("/data/run.out"),
+				deps,
+			);
+
+			assert.strictEqual(result.success, true);
+			assert.strictEqual(saved?.uri.fsPath, vscode.Uri.file("/data/run.out").fsPath);
+			assert.deepStrictEqual(saved?.boundaries, [0, 6, 14]);
+			assert.ok(infoShown.includes("run.out"));
+		});
+
+		test("should return error when no currentUri", async () => {
+			let errorShown = "";
+
+			const deps = createMockDeps({
+				saveColumnBoundaries: async () => {},
+				showErrorMessage: (msg) => {
+					errorShown = msg;
+				},
+			});
+
+			const result = await handleSaveColumnBoundaries(
+				{ type: "saveColumnBoundaries", columnBoundaries: [0, 4] },
+				undefined,
+				deps,
+			);
+
+			assert.strictEqual(result.success, false);
+			assert.ok(errorShown.includes("without a backing file URI"));
+		});
+
+		test("should report errors from saving", async () => {
+			const deps = createMockDeps({
+				saveColumnBoundaries: async () => {
+					throw new Error("settings are read-only");
+				},
+			});
+
+			const result = await handleSaveColumnBoundaries(
+				{ type: "saveColumnBoundaries", columnBoundaries: [0, 4] },
+				vscode.Uri.file("/data/run.out"),
+				deps,
+			);
+
+			assert.strictEqual(result.success, false);
+			assert.ok(result.error?.includes("settings are read-only"));
+		});
+	});
+
+	suite("handleSaveQuery", () => {
+		test("should save the query for the current database", async () => {
+			let saved: { uri: vscode.Uri; query: string } | undefined;
+			let infoShown = "";
+
+			const deps = createMockDeps({
+				saveQuery: async (uri, query) => {
+					saved = { uri, query };
+				},
+				showInfoMessage: (msg) => {
+					infoShown = msg;
+				},
+			});
+
+			const result = await handleSaveQuery(
+				{ type: "saveQuery", query: "SELECT * FROM runs WHERE ok = 1" },
+				vscode.Uri.file("/data/runs.sqlite"),
+				deps,
+			);
+
+			assert.strictEqual(result.success, true);
+			assert.strictEqual(saved?.uri.fsPath, vscode.Uri.file("/data/runs.sqlite").fsPath);
+			assert.strictEqual(saved?.query, "SELECT * FROM runs WHERE ok = 1");
+			assert.ok(infoShown.includes("runs.sqlite"));
+		});
+
+		test("should reject an empty query", async () => {
+			let errorShown = "";
+			let called = false;
+
+			const deps = createMockDeps({
+				saveQuery: async () => {
+					called = true;
+				},
+				showErrorMessage: (msg) => {
+					errorShown = msg;
+				},
+			});
+
+			const result = await handleSaveQuery(
+				{ type: "saveQuery", query: "   " },
+				vscode.Uri.file("/data/runs.sqlite"),
+				deps,
+			);
+
+			assert.strictEqual(result.success, false);
+			assert.strictEqual(called, false);
+			assert.ok(errorShown.includes("empty query"));
+		});
+
+		test("should report errors from saving", async () => {
+			const deps = createMockDeps({
+				saveQuery: async () => {
+					throw new Error("settings are read-only");
+				},
+			});
+
+			const result = await handleSaveQuery(
+				{ type: "saveQuery", query: "SELECT 1" },
+				vscode.Uri.file("/data/runs.sqlite"),
+				deps,
+			);
+
+			assert.strictEqual(result.success, false);
+			assert.ok(result.error?.includes("settings are read-only"));
+		});
+	});
+
 	suite("Provider Panel Creation (else branch coverage)", () => {
 		let extensionUri: vscode.Uri;
 
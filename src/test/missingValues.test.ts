@@ -0,0 +1,89 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { parseDataFile } from "../data/load";
+
+async function writeFixture(name: string, content: string): Promise<vscode.Uri> {
+	const uri = vscode.Uri.file(path.join(__dirname, "../../test-data", name));
+	await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf8"));
+	return uri;
+}
+
+async function cleanup(uri: vscode.Uri) {
+	try {
+		await vscode.workspace.fs.delete(uri);
+	} catch (_e) {
+		// Ignore cleanup errors
+	}
+}
+
+suite("Missing Value Tests", () => {
+	test("Default tokens become null in unquoted CSV fields only", async () => {
+		const uri = await writeFixture(
+			"missing-default.csv",
+			't,value,label\n1,2.5,a\n2,NA,"NA"\n3,-999,-\n4,,null\n5,NaN,b\n',
+		);
+		try {
+			const data = await parseDataFile(uri);
+			assert.deepStrictEqual(data?.rows, [
+				[1, 2.5, "a"],
+				[2, null, "NA"],
+				[3, null, null],
+				[4, null, null],
+				[5, null, "b"],
+			]);
+			assert.strictEqual(data?.columns?.[1].type, "float");
+			assert.strictEqual(data?.columns?.[1].nullCount, 4);
+			assert.strictEqual(data?.columns?.[2].nullCount, 2);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("Custom tokens replace the defaults", async () => {
+		const uri = await writeFixture("missing-custom.dat", "x y\n1 10\n2 ?\n3 NA\n");
+		try {
+			const data = await parseDataFile(uri, { missingValues: ["?"] });
+			assert.deepStrictEqual(
+				data?.rows.map((row) => row[1]),
+				[10, null, "NA"],
+			);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("JSON and JSON Lines values matching a token become null", async () => {
+		const jsonUri = await writeFixture(
+			"missing.json",
+			JSON.stringify([
+				{ id: 1, temp: 20.5, site: "A" },
+				{ id: 2, temp: -999, site: "NA" },
+				{ id: 3, temp: "", site: "B" },
+			]),
+		);
+		const linesUri = await writeFixture(
+			"missing.jsonl",
+			'{"id":1,"temp":"n/a"}\n{"id":2,"temp":4}\n',
+		);
+		try {
+			const json = await parseDataFile(jsonUri);
+			assert.deepStrictEqual(json?.rows, [
+				[1, 20.5, "A"],
+				[2, null, null],
+				[3, null, "B"],
+			]);
+			assert.strictEqual(json?.columns?.[1].type, "float");
+
+			const lines = await parseDataFile(linesUri, { missingValues: ["n/a"] });
+			assert.deepStrictEqual(lines?.rows, [
+				[1, null],
+				[2, 4],
+			]);
+			assert.strictEqual(lines?.columns?.[1].nullCount, 1);
+		} finally {
+			await cleanup(jsonUri);
+			await cleanup(linesUri);
+		}
+	});
+});
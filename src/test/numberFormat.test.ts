@@ -0,0 +1,101 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { parseDataFile, parseDataFileStreaming } from "../data/load";
+
+async function writeFixture(name: string, content: string): Promise<vscode.Uri> {
+	const uri = vscode.Uri.file(path.join(__dirname, "../../test-data", name));
+	await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf8"));
+	return uri;
+}
+
+async function cleanup(uri: vscode.Uri) {
+	try {
+		await vscode.workspace.fs.delete(uri);
+	} catch (_e) {
+		// Ignore cleanup errors
+	}
+}
+
+suite("Number Format Tests", () => {
+	test("Decimal commas are detected in semicolon-separated CSV", async () => {
+		const uri = await writeFixture(
+			"number-comma.csv",
+			"Datum;Umsatz;Anteil\n2024-01-01;1.234,56;12,5 %\n2024-01-02;987,1;3,25%\n2024-01-03;2.000.000;100%\n",
+		);
+		try {
+			const data = await parseDataFile(uri);
+			assert.strictEqual(data?.detectedDelimiter, ";");
+			assert.strictEqual(data?.numberFormat, "comma");
+			assert.deepStrictEqual(
+				data?.rows.map((row) => row[1]),
+				[1234.56, 987.1, 2000000],
+			);
+			assert.deepStrictEqual(
+				data?.rows.map((row) => row[2]),
+				[12.5, 3.25, 100],
+			);
+			assert.strictEqual(data?.columns?.[1].type, "float");
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("Thousands separators, currency and Fortran exponents are read as numbers", async () => {
+		const uri = await writeFixture(
+			"number-dot.dat",
+			"step energy price\n1 1.0D+03 $1,234.50\n2 2.5d-01 -$7.25\n3 3.0E2 €12\n",
+		);
+		try {
+			const data = await parseDataFile(uri);
+			assert.strictEqual(data?.numberFormat, "dot");
+			assert.deepStrictEqual(data?.rows, [
+				[1, 1000, 1234.5],
+				[2, 0.25, -7.25],
+				[3, 300, 12],
+			]);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("The numberFormat option overrides detection", async () => {
+		const uri = await writeFixture("number-forced.csv", "id;value\n1;1.234\n2;5.678\n");
+		try {
+			const dot = await parseDataFile(uri);
+			assert.deepStrictEqual(
+				dot?.rows.map((row) => row[1]),
+				[1.234, 5.678],
+			);
+
+			const comma = await parseDataFileStreaming(uri, { numberFormat: "comma" });
+			assert.strictEqual(comma?.numberFormat, "comma");
+			assert.deepStrictEqual(
+				comma?.rows.map((row) => row[1]),
+				[1234, 5678],
+			);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("Numeric text in JSON uses the detected format", async () => {
+		const uri = await writeFixture(
+			"number-comma.json",
+			JSON.stringify([
+				{ name: "a", value: "1,5" },
+				{ name: "b", value: "2,25" },
+			]),
+		);
+		try {
+			const data = await parseDataFile(uri);
+			assert.deepStrictEqual(
+				data?.rows.map((row) => row[1]),
+				[1.5, 2.25],
+			);
+			assert.strictEqual(data?.columns?.[1].type, "float");
+		} finally {
+			await cleanup(uri);
+		}
+	});
+});
@@ -0,0 +1,57 @@
+import * as assert from "node:assert";
+import { findNumPyArrays, parseDataFile } from "../data/load";
+import { getFixtureUri } from "./testUtils";
+
+suite("NumPy Tests", () => {
+	test("1-D arrays become one column named after the file", async () => {
+		const data = await parseDataFile(getFixtureUri("pressure.npy"));
+		assert.strictEqual(data?.fileType, "npy");
+		assert.deepStrictEqual(data?.headers, ["pressure"]);
+		assert.deepStrictEqual(data?.rows, [[101.3], [null], [99.8], [100]]);
+		assert.strictEqual(data?.columns?.[0].type, "float");
+		assert.strictEqual(data?.columns?.[0].nullCount, 1);
+	});
+
+	test("2-D arrays become numbered columns in C and Fortran order", async () => {
+		for (const name of ["grid.npy", "grid-f.npy"]) {
+			const data = await parseDataFile(getFixtureUri(name));
+			assert.deepStrictEqual(data?.headers, ["Column 1", "Column 2", "Column 3"]);
+			assert.deepStrictEqual(data?.rows, [
+				[1, 2, 3],
+				[4, 5, 6],
+			]);
+			assert.strictEqual(data?.columns?.[2].type, "integer");
+		}
+	});
+
+	test("Structured arrays map field names to headers", async () => {
+		const data = await parseDataFile(getFixtureUri("stations.npy"));
+		assert.deepStrictEqual(data?.headers, ["time", "level", "site", "ok"]);
+		assert.deepStrictEqual(data?.rows[1], ["2024-03-01T12:01:00.000", -2.25, "Bø", false]);
+		assert.deepStrictEqual(
+			data?.columns?.map((column) => column.type),
+			["datetime", "float", "string", "boolean"],
+		);
+	});
+
+	test(".npz archives list their arrays and read the one chosen", async () => {
+		const uri = getFixtureUri("run.npz");
+		assert.deepStrictEqual(await findNumPyArrays(uri), [
+			{ name: "t", dtype: "float64", shape: [3] },
+			{ name: "u", dtype: "int32", shape: [3, 2] },
+		]);
+
+		const first = await parseDataFile(uri);
+		assert.strictEqual(first?.fileType, "npz");
+		assert.strictEqual(first?.array, "t");
+		assert.deepStrictEqual(first?.headers, ["t"]);
+
+		const chosen = await parseDataFile(uri, { array: "u", maxRows: 2 });
+		assert.strictEqual(chosen?.array, "u");
+		assert.deepStrictEqual(chosen?.rows, [
+			[1, 2],
+			[3, 4],
+		]);
+		assert.strictEqual(chosen?.truncated, true);
+	});
+});
@@ -0,0 +1,70 @@
+import * as assert from "node:assert";
+import { type ParsedData, parseDataFile, parseDataFileStreaming } from "../data/load";
+import { snappyUncompress } from "../data/snappy";
+import { getFixtureUri } from "./testUtils";
+
+const STATIONS = [
+	"North ridge weather station, upper meadow above the tree line",
+	"South valley weather station",
+];
+
+suite("Parquet Tests", () => {
+	test("Columns and types are read from the footer schema", async () => {
+		const data = await parseDataFile(getFixtureUri("plain.parquet"));
+		assert.strictEqual(data?.fileType, "parquet");
+		assert.deepStrictEqual(data?.headers, ["id", "value", "label", "code", "ok"]);
+		assert.deepStrictEqual(data?.rows, [
+			[1, 1.5, "a", "001", true],
+			[2, null, "b", "002", false],
+			[3, -2, "a", "003", true],
+			[4, 0.25, "b", "004", true],
+		]);
+		assert.deepStrictEqual(
+			data?.columns?.map((column) => column.type),
+			["integer", "float", "categorical", "string", "boolean"],
+		);
+		assert.strictEqual(data?.columns?.[1].nullCount, 1);
+	});
+
+	test("Snappy dictionary pages are decoded and row groups stop at maxRows", async () => {
+		const uri = getFixtureUri("stations.parquet");
+		const data = await parseDataFile(uri, { maxRows: 3 });
+		assert.deepStrictEqual(data?.rows, [
+			[10, STATIONS[0]],
+			[20, STATIONS[1]],
+			[30, STATIONS[0]],
+		]);
+		assert.strictEqual(data?.truncated, true);
+
+		const partials: ParsedData[] = [];
+		const full = await parseDataFileStreaming(uri, {
+			partialRows: 2,
+			onPartialData: (partial) => partials.push(partial),
+		});
+		assert.strictEqual(full?.totalRows, 5);
+		assert.deepStrictEqual(full?.rows[3], [40, null]);
+		assert.strictEqual(full?.truncated, undefined);
+		assert.strictEqual(partials.length, 1);
+		assert.strictEqual(partials[0].partial, true);
+		assert.strictEqual(partials[0].totalRows, 2);
+	});
+
+	test("Gzip pages with dates and timestamps become ISO text", async () => {
+		const data = await parseDataFile(getFixtureUri("dates.parquet"));
+		assert.deepStrictEqual(data?.rows, [
+			["2024-03-01", "2024-03-01T12:00:00.000Z"],
+			["2024-03-02", "2024-03-02T12:00:00.500Z"],
+		]);
+		assert.deepStrictEqual(
+			data?.columns?.map((column) => column.type),
+			["datetime", "datetime"],
+		);
+	});
+
+	test("Snappy copies may overlap their own output", () => {
+		// "abc" literal, then copy 9 bytes from offset 3
+		const block = Buffer.from([12, 0x08, 0x61, 0x62, 0x63, 0x15, 0x03]);
+		assert.strictEqual(snappyUncompress(block).toString(), "abcabcabcabc");
+		assert.throws(() => snappyUncompress(Buffer.from([12, 0x15, 0x03])), /Corrupt Snappy block/);
+	});
+});
@@ -0,0 +1,100 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { parseDataFile, parseDataFileStreaming, parseDataText } from "../data/load";
+import { ParseDiagnostics, toDiagnostics } from "../providers/parseDiagnostics";
+
+async function writeFixture(name: string, content: string): Promise<vscode.Uri> {
+	const uri = vscode.Uri.file(path.join(__dirname, "../../test-data", name));
+	await vscode.workspace.fs.writeFile(uri, Buffer.from(content));
+	return uri;
+}
+
+async function cleanup(uri: vscode.Uri) {
+	try {
+		await vscode.workspace.fs.delete(uri);
+	} catch (_e) {
+		// Ignore cleanup errors
+	}
+}
+
+const RAGGED_EXPORT = [
+	"# exported by bench",
+	"time,value,value",
+	"0,1.5,2",
+	"1,1.7",
+	"2,1.9,2.1,extra",
+	"3,n/a,2.2",
+	"4,2.3,2.4",
+	"5,2.5,2.6",
+	"6,2.7,2.8",
+].join("\n");
+
+suite("Parse Issue Tests", () => {
+	test("Ragged rows, duplicate names and stray text cells are reported with line numbers", async () => {
+		const uri = await writeFixture("ragged.csv", RAGGED_EXPORT);
+		try {
+			for (const parse of [parseDataFile, parseDataFileStreaming]) {
+				const data = await parse(uri);
+				assert.deepStrictEqual(
+					data?.issues?.map((issue) => [issue.kind, issue.line, issue.column]),
+					[
+						["duplicateHeader", 2, 2],
+						["fieldCount", 4, undefined],
+						["fieldCount", 5, undefined],
+						["nonNumeric", 6, 1],
+					],
+				);
+				assert.strictEqual(data?.issues?.[1].message, "Expected 3 fields but found 2");
+				// Rows are still kept as they are
+				assert.deepStrictEqual(data?.rows[1], [1, 1.7]);
+			}
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("Well-formed files and mostly text columns have no issues", () => {
+		const clean = parseDataText({ fileName: "clean.csv", text: "a,b\n1,2\n3,4\n" });
+		assert.strictEqual(clean?.issues, undefined);
+
+		const mixed = parseDataText({
+			fileName: "mixed.txt",
+			text: "id\tcode\n1\tA1\n2\t17\n3\tB2\n4\tC3\n",
+		});
+		assert.strictEqual(mixed?.issues, undefined);
+	});
+
+	test("Issues become diagnostics on their lines for the previewed file", async () => {
+		const data = parseDataText({ fileName: "ragged.csv", text: RAGGED_EXPORT });
+		assert.ok(data?.issues);
+		const diagnostics = toDiagnostics(data.issues);
+		assert.strictEqual(diagnostics[1].range.start.line, 3);
+		assert.strictEqual(diagnostics[1].severity, vscode.DiagnosticSeverity.Warning);
+		assert.strictEqual(diagnostics[1].code, "fieldCount");
+		assert.strictEqual(diagnostics[1].source, "VSPlot");
+
+		const uri = vscode.Uri.file(path.join(__dirname, "../../test-data", "ragged.csv"));
+		const other = vscode.Uri.file(path.join(__dirname, "../../test-data", "clean.csv"));
+		const parseDiagnostics = new ParseDiagnostics();
+		try {
+			parseDiagnostics.publish(uri, data);
+			assert.strictEqual(vscode.languages.getDiagnostics(uri).length, 4);
+
+			// Line numbers of a selection do not match the document
+			parseDiagnostics.publish(uri, data, {
+				fileName: "ragged.csv",
+				text: RAGGED_EXPORT,
+				selection: true,
+			});
+			assert.strictEqual(vscode.languages.getDiagnostics(uri).length, 0);
+
+			// A new preview replaces the diagnostics of the previous one
+			parseDiagnostics.publish(uri, data);
+			parseDiagnostics.publish(other, { ...data, issues: undefined });
+			assert.strictEqual(vscode.languages.getDiagnostics(uri).length, 0);
+		} finally {
+			parseDiagnostics.dispose();
+		}
+	});
+});
@@ -0,0 +1,96 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import initSqlJs from "sql.js";
+import * as vscode from "vscode";
+import { findSQLiteTables, parseDataFile } from "../data/load";
+import { querySQLite } from "../data/sqlite";
+
+async function writeDatabase(name: string, statements: string): Promise<vscode.Uri> {
+	const SQL = await initSqlJs();
+	const db = new SQL.Database();
+	db.run(statements);
+	const uri = vscode.Uri.file(path.join(__dirname, "../../test-data", name));
+	await vscode.workspace.fs.writeFile(uri, db.export());
+	db.close();
+	return uri;
+}
+
+async function cleanup(uri: vscode.Uri) {
+	try {
+		await vscode.workspace.fs.delete(uri);
+	} catch (_e) {
+		// Ignore cleanup errors
+	}
+}
+
+const RUNS = `
+	CREATE TABLE runs (id INTEGER PRIMARY KEY, site TEXT, level REAL, code TEXT);
+	INSERT INTO runs VALUES (1, 'Oslo', 0.5, '001'), (2, 'Bergen', 1.25, '002'),
+		(3, 'Oslo', NULL, '003'), (4, 'Oslo', 8, '004');
+	CREATE TABLE sites (name TEXT, lat REAL);
+	INSERT INTO sites VALUES ('Oslo', 59.9), ('Bergen', 60.4);
+	CREATE VIEW oslo AS SELECT id, level FROM runs WHERE site = 'Oslo';
+`;
+
+suite("SQLite Tests", () => {
+	test("The first table is shown when no query is given", async () => {
+		const uri = await writeDatabase("runs.sqlite", RUNS);
+		try {
+			const data = await parseDataFile(uri);
+			assert.strictEqual(data?.fileType, "sqlite");
+			assert.strictEqual(data?.query, 'SELECT * FROM "runs"');
+			assert.deepStrictEqual(data?.headers, ["id", "site", "level", "code"]);
+			assert.deepStrictEqual(data?.rows[0], [1, "Oslo", 0.5, "001"]);
+			assert.strictEqual(data?.rows[2][2], null);
+			assert.deepStrictEqual(
+				data?.columns?.map((column) => column.type),
+				["integer", "categorical", "float", "string"],
+			);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("SELECT queries choose and limit the rows shown", async () => {
+		const uri = await writeDatabase("runs.db", RUNS);
+		try {
+			const data = await parseDataFile(uri, {
+				query: "SELECT site, COUNT(*) AS n FROM runs GROUP BY site ORDER BY site",
+			});
+			assert.deepStrictEqual(data?.headers, ["site", "n"]);
+			assert.deepStrictEqual(data?.rows, [
+				["Bergen", 1],
+				["Oslo", 3],
+			]);
+
+			const limited = await parseDataFile(uri, { query: "SELECT * FROM oslo", maxRows: 2 });
+			assert.strictEqual(limited?.totalRows, 2);
+			assert.strictEqual(limited?.truncated, true);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("Tables are listed before views", async () => {
+		const uri = await writeDatabase("runs.sqlite3", RUNS);
+		try {
+			assert.deepStrictEqual(await findSQLiteTables(uri), [
+				{ name: "runs", type: "table" },
+				{ name: "sites", type: "table" },
+				{ name: "oslo", type: "view" },
+			]);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("Queries that change the database are refused", async () => {
+		const SQL = await initSqlJs();
+		const db = new SQL.Database();
+		db.run(RUNS);
+		const data = db.export();
+		db.close();
+		await assert.rejects(querySQLite(data, "DELETE FROM runs"), /Only SELECT queries/);
+		await assert.rejects(querySQLite(Buffer.from("plain text"), "SELECT 1"), /Not a SQLite/);
+	});
+});
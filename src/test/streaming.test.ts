@@ -0,0 +1,165 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { type ParsedData, parseDataFile, parseDataFileStreaming } from "../data/load";
+
+async function writeFixture(name: string, content: string): Promise<vscode.Uri> {
+	const uri = vscode.Uri.file(path.join(__dirname, "../../test-data", name));
+	await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf8"));
+	return uri;
+}
+
+async function cleanup(uri: vscode.Uri) {
+	try {
+		await vscode.workspace.fs.delete(uri);
+	} catch (_e) {
+		// Ignore cleanup errors
+	}
+}
+
+function makeRows(count: number): string {
+	const lines = ["id,value,label"];
+	for (let i = 0; i < count; i++) {
+		lines.push(`${i},${i * 0.5},row-${i}`);
+	}
+	return lines.join("\n");
+}
+
+suite("Streaming Parser Tests", () => {
+	test("Streaming result matches whole-file parsing", async function () {
+		this.timeout(10000);
+		const uri = await writeFixture(
+			"stream-equivalent.csv",
+			'# header comment\nName,Note,Score\r\nAlice,"multi\r\nline",1\r\nBob,plain,2\r\n',
+		);
+		try {
+			const whole = await parseDataFile(uri);
+			const streamed = await parseDataFileStreaming(uri);
+			assert.ok(whole && streamed);
+			assert.deepStrictEqual(streamed?.headers, whole?.headers);
+			assert.deepStrictEqual(streamed?.rows, whole?.rows);
+			assert.strictEqual(streamed?.detectedDelimiter, ",");
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("Streaming stops after maxRows and flags the result as truncated", async function () {
+		this.timeout(10000);
+		const uri = await writeFixture("stream-max-rows.dat", makeRows(500).replace(/,/g, "|"));
+		try {
+			const data = await parseDataFileStreaming(uri, { maxRows: 25 });
+			assert.ok(data);
+			assert.strictEqual(data?.rows.length, 25);
+			assert.strictEqual(data?.totalRows, 25);
+			assert.strictEqual(data?.truncated, true);
+			assert.strictEqual(data?.detectedDelimiter, "|");
+			assert.strictEqual(data?.rows[24][0], 24);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("maxRows is honoured by parseDataFile too and not flagged when not reached", async function () {
+		this.timeout(10000);
+		const uri = await writeFixture("stream-under-limit.csv", makeRows(10));
+		try {
+			const limited = await parseDataFile(uri, { maxRows: 3 });
+			assert.strictEqual(limited?.rows.length, 3);
+			assert.strictEqual(limited?.truncated, true);
+
+			const full = await parseDataFileStreaming(uri, { maxRows: 100 });
+			assert.strictEqual(full?.rows.length, 10);
+			assert.strictEqual(full?.truncated, undefined);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("Cancellation keeps the rows read so far", async function () {
+		this.timeout(10000);
+		const uri = await writeFixture("stream-cancel.csv", makeRows(20000));
+		const source = new vscode.CancellationTokenSource();
+		try {
+			const data = await parseDataFileStreaming(uri, {
+				token: source.token,
+				// Cancel as soon as the first chunk has been read
+				onProgress: () => source.cancel(),
+			});
+			assert.ok(data, "Cancelled parse should still return data");
+			assert.strictEqual(data?.truncated, true);
+			assert.ok((data?.rows.length ?? 0) < 20000);
+		} finally {
+			source.dispose();
+			await cleanup(uri);
+		}
+	});
+
+	test("Partial data is reported for the first page of a large file", async function () {
+		this.timeout(20000);
+		// Large enough to span several read chunks
+		const uri = await writeFixture("stream-partial.csv", makeRows(20000));
+		const partials: ParsedData[] = [];
+		let lastProgress = 0;
+		try {
+			const data = await parseDataFileStreaming(uri, {
+				partialRows: 150,
+				onPartialData: (partial) => partials.push(partial),
+				onProgress: (bytesRead, totalBytes) => {
+					assert.ok(bytesRead <= totalBytes);
+					lastProgress = bytesRead / totalBytes;
+				},
+			});
+			assert.strictEqual(partials.length, 1, "First page should be sent exactly once");
+			assert.strictEqual(partials[0].partial, true);
+			assert.ok(partials[0].rows.length >= 150);
+			assert.ok(partials[0].rows.length < 20000);
+			assert.strictEqual(data?.rows.length, 20000);
+			assert.strictEqual(data?.partial, undefined);
+			assert.strictEqual(lastProgress, 1);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("The first page does not convert rows of the final result", async function () {
+		this.timeout(20000);
+		const lines = ["id,value"];
+		for (let i = 0; i < 20000; i++) {
+			lines.push(`${i},${i === 5 ? "bad" : i * 0.5}`);
+		}
+		const uri = await writeFixture("stream-snapshot.csv", lines.join("\n"));
+		try {
+			let partial: ParsedData | undefined;
+			const data = await parseDataFileStreaming(uri, {
+				columnTypes: { value: "float" },
+				partialRows: 150,
+				onPartialData: (page) => {
+					partial = page;
+				},
+			});
+			// A numeric type turns the text cell into null, in the first page and the final result
+			assert.strictEqual(partial?.rows[5][1], null);
+			assert.strictEqual(data?.rows[5][1], null);
+			// The final result still sees the text that was read
+			assert.deepStrictEqual(
+				data?.issues?.map((issue) => [issue.kind, issue.line]),
+				[["nonNumeric", 7]],
+			);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("JSON files fall back to whole-document parsing", async function () {
+		this.timeout(10000);
+		const uri = await writeFixture("stream-fallback.json", '[{"a":1},{"a":2}]');
+		try {
+			const data = await parseDataFileStreaming(uri, { maxRows: 1 });
+			assert.strictEqual(data?.fileType, "json");
+			assert.strictEqual(data?.rows.length, 2);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+});
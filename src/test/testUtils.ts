@@ -1,4 +1,5 @@
 import * as path from "node:path";
+import * as zlib from "node:zlib";
 import * as vscode from "vscode";
 
 // Extension ID constant
@@ -75,3 +76,122 @@ export function getSampleDataUri(filename: string): vscode.Uri {
 	const csvPath = path.join(basePath, "sample-data", filename);
 	return vscode.Uri.file(csvPath);
 }
+
+/**
+ * Test helper to get URI for a committed fixture in test-data/fixtures, written
+ * by the reference library of its format (see scripts/generate-test-fixtures.py)
+ */
+export function getFixtureUri(filename: string): vscode.Uri {
+	return vscode.Uri.file(path.join(__dirname, "../../test-data/fixtures", filename));
+}
+
+/**
+ * Test helper to build a ZIP archive in memory (deflated entries, no ZIP64),
+ * e.g. for Excel workbook fixtures
+ */
+export function createZipArchive(files: Record<string, string | Buffer>): Buffer {
+	const locals: Buffer[] = [];
+	const centrals: Buffer[] = [];
+	let offset = 0;
+	for (const [name, content] of Object.entries(files)) {
+		const data = typeof content === "string" ? Buffer.from(content, "utf8") : content;
+		const compressed = zlib.deflateRawSync(data);
+		const nameBytes = Buffer.from(name, "utf8");
+
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0);
+		local.writeUInt16LE(20, 4);
+		local.writeUInt16LE(0x800, 6);
+		local.writeUInt16LE(8, 8);
+		local.writeUInt32LE(compressed.length, 18);
+		local.writeUInt32LE(data.length, 22);
+		local.writeUInt16LE(nameBytes.length, 26);
+		locals.push(local, nameBytes, compressed);
+
+		const central = Buffer.alloc(46);
+		central.writeUInt32LE(0x02014b50, 0);
+		central.writeUInt16LE(20, 4);
+		central.writeUInt16LE(20, 6);
+		central.writeUInt16LE(0x800, 8);
+		central.writeUInt16LE(8, 10);
+		central.writeUInt32LE(compressed.length, 20);
+		central.writeUInt32LE(data.length, 24);
+		central.writeUInt16LE(nameBytes.length, 28);
+		central.writeUInt32LE(offset, 42);
+		centrals.push(central, nameBytes);
+
+		offset += local.length + nameBytes.length + compressed.length;
+	}
+	const directory = Buffer.concat(centrals);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(Object.keys(files).length, 8);
+	end.writeUInt16LE(Object.keys(files).length, 10);
+	end.writeUInt32LE(directory.length, 12);
+	end.writeUInt32LE(offset, 16);
+	return Buffer.concat([...locals, directory, end]);
+}
+
+/**
+ * In-memory file system provider, registered for a custom scheme to check that
+ * files are read through `vscode.workspace.fs` rather than from the local disk.
+ */
+export class MemoryFileSystem implements vscode.FileSystemProvider {
+	private readonly files = new Map<string, { data: Uint8Array; mtime: number }>();
+	private readonly changes = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+	readonly onDidChangeFile = this.changes.event;
+
+	watch(): vscode.Disposable {
+		return new vscode.Disposable(() => {});
+	}
+
+	stat(uri: vscode.Uri): vscode.FileStat {
+		const file = this.files.get(uri.path);
+		if (file) {
+			return { type: vscode.FileType.File, ctime: 0, mtime: file.mtime, size: file.data.length };
+		}
+		if ([...this.files.keys()].some((name) => name.startsWith(`${uri.path}/`))) {
+			return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 };
+		}
+		throw vscode.FileSystemError.FileNotFound(uri);
+	}
+
+	readDirectory(uri: vscode.Uri): [string, vscode.FileType][] {
+		const prefix = uri.path.endsWith("/") ? uri.path : `${uri.path}/`;
+		const entries = new Map<string, vscode.FileType>();
+		for (const name of this.files.keys()) {
+			if (name.startsWith(prefix)) {
+				const [first, ...rest] = name.slice(prefix.length).split("/");
+				entries.set(first, rest.length > 0 ? vscode.FileType.Directory : vscode.FileType.File);
+			}
+		}
+		return [...entries];
+	}
+
+	createDirectory(): void {
+		// Directories exist implicitly while they contain files
+	}
+
+	readFile(uri: vscode.Uri): Uint8Array {
+		const file = this.files.get(uri.path);
+		if (!file) {
+			throw vscode.FileSystemError.FileNotFound(uri);
+		}
+		return file.data;
+	}
+
+	writeFile(uri: vscode.Uri, content: Uint8Array): void {
+		this.files.set(uri.path, { data: content, mtime: Date.now() });
+		this.changes.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+	}
+
+	delete(uri: vscode.Uri): void {
+		this.files.delete(uri.path);
+		this.changes.fire([{ type: vscode.FileChangeType.Deleted, uri }]);
+	}
+
+	rename(oldUri: vscode.Uri, newUri: vscode.Uri): void {
+		this.writeFile(newUri, this.readFile(oldUri));
+		this.delete(oldUri);
+	}
+}
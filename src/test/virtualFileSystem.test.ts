@@ -0,0 +1,137 @@
+import * as assert from "node:assert";
+import * as fs from "node:fs";
+import * as zlib from "node:zlib";
+import * as vscode from "vscode";
+import {
+	findArchiveEntries,
+	findDocumentTables,
+	parseDataFile,
+	parseDataFileStreaming,
+	parseDataFileWithProgress,
+} from "../data/load";
+import { loadHtmlTemplate } from "../providers/webviewUtils";
+import { createZipArchive, getFixtureUri, MemoryFileSystem } from "./testUtils";
+
+const SCHEME = "vsplot-test";
+
+suite("Virtual File System Tests", () => {
+	const memfs = new MemoryFileSystem();
+	let registration: vscode.Disposable;
+
+	suiteSetup(() => {
+		registration = vscode.workspace.registerFileSystemProvider(SCHEME, memfs);
+	});
+
+	suiteTeardown(() => {
+		registration.dispose();
+	});
+
+	function writeFile(path: string, content: string | Buffer): vscode.Uri {
+		const uri = vscode.Uri.parse(`${SCHEME}:${path}`);
+		memfs.writeFile(uri, typeof content === "string" ? Buffer.from(content) : content);
+		return uri;
+	}
+
+	test("Text files are parsed and streamed from the provider", async () => {
+		const text = "# sensor export\ntime;value\n1;0.5\n2;0.75\n3;1.25\n";
+		const plain = writeFile("/repo/data/readings.dat", text);
+		const gzipped = writeFile("/repo/data/readings.dat.gz", zlib.gzipSync(text));
+
+		for (const uri of [plain, gzipped]) {
+			for (const parse of [parseDataFile, parseDataFileStreaming, parseDataFileWithProgress]) {
+				const data = await parse(uri);
+				assert.strictEqual(data?.detectedDelimiter, ";");
+				assert.deepStrictEqual(data?.headers, ["time", "value"]);
+				assert.deepStrictEqual(data?.rows[2], [3, 1.25]);
+			}
+		}
+
+		let lastProgress: [number, number] | undefined;
+		const truncated = await parseDataFileStreaming(plain, {
+			maxRows: 1,
+			onProgress: (bytesRead, totalBytes) => {
+				lastProgress = [bytesRead, totalBytes];
+			},
+		});
+		assert.strictEqual(truncated?.truncated, true);
+		assert.deepStrictEqual(lastProgress, [text.length, text.length]);
+	});
+
+	test("Binary formats and archive listings are read through the provider", async () => {
+		const parquet = writeFile(
+			"/repo/plain.parquet",
+			await fs.promises.readFile(getFixtureUri("plain.parquet").fsPath),
+		);
+		const arrow = writeFile(
+			"/repo/readings.arrow",
+			await fs.promises.readFile(getFixtureUri("readings-js.arrow").fsPath),
+		);
+		const archive = writeFile(
+			"/repo/exports.zip",
+			createZipArchive({ "notes.txt": "skip me", "runs/b.csv": "run,loss\nb,0.3\n" }),
+		);
+		const report = writeFile("/repo/README.md", "| step | loss |\n| --- | --- |\n| 1 | 0.9 |\n");
+
+		assert.deepStrictEqual((await parseDataFile(parquet))?.rows[1], [2, null, "b", "002", false]);
+		const readings = await parseDataFileStreaming(arrow);
+		assert.strictEqual(readings?.totalRows, 5);
+		assert.deepStrictEqual(readings?.rows[2].slice(0, 3), [7, -2, "Oslo"]);
+		assert.deepStrictEqual(
+			(await findArchiveEntries(archive)).map((entry) => entry.name),
+			["notes.txt", "runs/b.csv"],
+		);
+		assert.deepStrictEqual((await parseDataFile(archive, { entry: "runs/b.csv" }))?.rows, [
+			["b", 0.3],
+		]);
+		assert.strictEqual((await findDocumentTables(report)).length, 1);
+	});
+
+	test("Files missing from the provider report a read error", async () => {
+		const originalShowError = vscode.window.showErrorMessage;
+		let shown = "";
+		(vscode.window as any).showErrorMessage = (message: string) => {
+			shown = message;
+			return Promise.resolve(undefined);
+		};
+		try {
+			assert.strictEqual(
+				await parseDataFile(vscode.Uri.parse(`${SCHEME}:/repo/missing.csv`)),
+				null,
+			);
+		} finally {
+			(vscode.window as any).showErrorMessage = originalShowError;
+		}
+		assert.ok(shown.startsWith("Error reading file:"));
+	});
+
+	test("Files too large to read whole are refused instead of loaded", async () => {
+		const uri = writeFile("/repo/huge.csv", "a,b\n1,2\n");
+		const window = vscode.window as unknown as { showErrorMessage: (message: string) => unknown };
+		const originalStat = memfs.stat;
+		const originalShowError = window.showErrorMessage;
+		let shown = "";
+		memfs.stat = (target: vscode.Uri) => ({ ...originalStat.call(memfs, target), size: 2 ** 30 });
+		window.showErrorMessage = (message: string) => {
+			shown = message;
+			return Promise.resolve(undefined);
+		};
+		try {
+			assert.strictEqual(await parseDataFileStreaming(uri), null);
+		} finally {
+			memfs.stat = originalStat;
+			window.showErrorMessage = originalShowError;
+		}
+		assert.match(shown, /huge\.csv is too large to read from a vsplot-test workspace \(1024 MB/);
+	});
+
+	test("Webview templates are loaded through the provider", async () => {
+		writeFile("/extension/media/view.html", "<p>{{GREETING}}, {{NAME}}</p>");
+
+		const html = await loadHtmlTemplate(
+			vscode.Uri.parse(`${SCHEME}:/extension`),
+			"media/view.html",
+			{ GREETING: "Hello", NAME: "VSPlot" },
+		);
+		assert.strictEqual(html, "<p>Hello, VSPlot</p>");
+	});
+});
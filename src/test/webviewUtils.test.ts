@@ -43,7 +43,7 @@ suite("Webview Utils Tests", () => {
 			assert.ok(ext, "Extension should be available");
 			const extensionUri = vscode.Uri.file(ext?.extensionPath);
 
-			const result = loadHtmlTemplate(extensionUri, templatePath, {
+			const result = await loadHtmlTemplate(extensionUri, templatePath, {
 				MESSAGE: "Hello World",
 			});
 
@@ -80,7 +80,7 @@ suite("Webview Utils Tests", () => {
 			assert.ok(ext, "Extension should be available");
 			const extensionUri = vscode.Uri.file(ext?.extensionPath);
 
-			const result = loadHtmlTemplate(extensionUri, templatePath, {
+			const result = await loadHtmlTemplate(extensionUri, templatePath, {
 				TITLE: "Test Page",
 				HEADING: "Welcome",
 				CONTENT: "This is a test",
@@ -118,7 +118,7 @@ suite("Webview Utils Tests", () => {
 			assert.ok(ext, "Extension should be available");
 			const extensionUri = vscode.Uri.file(ext?.extensionPath);
 
-			const result = loadHtmlTemplate(extensionUri, templatePath, {
+			const result = await loadHtmlTemplate(extensionUri, templatePath, {
 				VALUE: "42",
 			});
 
@@ -154,7 +154,7 @@ suite("Webview Utils Tests", () => {
 			assert.ok(ext, "Extension should be available");
 			const extensionUri = vscode.Uri.file(ext?.extensionPath);
 
-			const result = loadHtmlTemplate(extensionUri, templatePath, {
+			const result = await loadHtmlTemplate(extensionUri, templatePath, {
 				EMPTY: "",
 			});
 
@@ -0,0 +1,116 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { findWorksheets, parseDataFile } from "../data/load";
+import { createZipArchive } from "./testUtils";
+
+const RELS_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+/**
+ * Minimal workbook: "Readings" with a header row, dates, numbers, booleans and
+ * an error cell, and "Summary" with numbers only.
+ */
+function createWorkbook(): Buffer {
+	return createZipArchive({
+		"xl/workbook.xml": `<?xml version="1.0"?><workbook xmlns:r="${RELS_NS}"><workbookPr/><sheets><sheet name="Readings" sheetId="1" r:id="rId1"/><sheet name="Summary &amp; Totals" sheetId="2" r:id="rId2"/></sheets></workbook>`,
+		"xl/_rels/workbook.xml.rels": `<?xml version="1.0"?><Relationships><Relationship Id="rId1" Type="${RELS_NS}/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="${RELS_NS}/worksheet" Target="/xl/worksheets/sheet2.xml"/><Relationship Id="rId3" Type="${RELS_NS}/sharedStrings" Target="sharedStrings.xml"/><Relationship Id="rId4" Type="${RELS_NS}/styles" Target="styles.xml"/></Relationships>`,
+		"xl/sharedStrings.xml":
+			'<?xml version="1.0"?><sst><si><t>Date</t></si><si><r><t>Temp </t></r><r><t>[°C]</t></r></si><si><t>Ok</t></si></sst>',
+		"xl/styles.xml":
+			'<?xml version="1.0"?><styleSheet><numFmts><numFmt numFmtId="164" formatCode="yyyy\\-mm\\-dd hh:mm"/><numFmt numFmtId="165" formatCode="&quot;Total: &quot;0.00"/></numFmts><cellXfs count="4"><xf numFmtId="0"/><xf numFmtId="14"/><xf numFmtId="164"/><xf numFmtId="165"/></cellXfs></styleSheet>',
+		"xl/worksheets/sheet1.xml":
+			'<?xml version="1.0"?><worksheet><dimension ref="A1:C4"/><sheetData>' +
+			'<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>' +
+			'<row r="2"><c r="A2" s="1"><v>45352</v></c><c r="B2"><v>12.5</v></c><c r="C2" t="b"><v>1</v></c></row>' +
+			'<row r="3"><c r="A3" s="2"><v>45352.5</v></c><c r="B3" t="e"><v>#DIV/0!</v></c><c r="C3" t="b"><v>0</v></c></row>' +
+			'<row r="4"><c r="A4" s="1"><v>45354</v></c><c r="B4" s="3"><v>-3</v></c><c r="C4" t="inlineStr"><is><t>true</t></is></c></row>' +
+			"</sheetData></worksheet>",
+		"xl/worksheets/sheet2.xml":
+			'<?xml version="1.0"?><worksheet><sheetData>' +
+			'<row r="2"><c r="B2"><v>1</v></c><c r="C2"><v>10</v></c><c r="D2"><v>99</v></c></row>' +
+			'<row r="3"><c r="B3"><v>2</v></c><c r="C3"><v>20</v></c></row>' +
+			"</sheetData></worksheet>",
+	});
+}
+
+async function writeWorkbook(name: string): Promise<vscode.Uri> {
+	const uri = vscode.Uri.file(path.join(__dirname, "../../test-data", name));
+	await vscode.workspace.fs.writeFile(uri, createWorkbook());
+	return uri;
+}
+
+async function cleanup(uri: vscode.Uri) {
+	try {
+		await vscode.workspace.fs.delete(uri);
+	} catch (_e) {
+		// Ignore cleanup errors
+	}
+}
+
+suite("Excel Workbook Tests", () => {
+	test("Worksheets are listed in tab order with their dimensions", async () => {
+		const uri = await writeWorkbook("list-sheets.xlsx");
+		try {
+			const sheets = await findWorksheets(uri);
+			assert.deepStrictEqual(sheets, [
+				{ name: "Readings", dimension: "A1:C4" },
+				{ name: "Summary & Totals" },
+			]);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("The first worksheet is read with headers, dates and typed cells", async () => {
+		const uri = await writeWorkbook("readings.xlsx");
+		try {
+			const data = await parseDataFile(uri);
+			assert.strictEqual(data?.fileType, "xlsx");
+			assert.strictEqual(data?.sheet, "Readings");
+			assert.strictEqual(data?.range, "A1:C4");
+			assert.deepStrictEqual(data?.headers, ["Date", "Temp [°C]", "Ok"]);
+			assert.deepStrictEqual(data?.rows, [
+				["2024-03-01", 12.5, true],
+				["2024-03-01T12:00:00", null, false],
+				["2024-03-03", -3, "true"],
+			]);
+			assert.strictEqual(data?.columns?.[0].type, "datetime");
+			assert.strictEqual(data?.columns?.[1].type, "float");
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("A worksheet and cell range can be selected", async () => {
+		const uri = await writeWorkbook("summary.xlsx");
+		try {
+			const data = await parseDataFile(uri, { sheet: "Summary & Totals", range: "B2:C10" });
+			assert.strictEqual(data?.range, "B2:C3");
+			assert.deepStrictEqual(data?.headers, ["Column 1", "Column 2"]);
+			assert.deepStrictEqual(data?.rows, [
+				[1, 10],
+				[2, 20],
+			]);
+		} finally {
+			await cleanup(uri);
+		}
+	});
+
+	test("An unknown worksheet is reported as an error", async () => {
+		const uri = await writeWorkbook("unknown-sheet.xlsx");
+		const origErr = vscode.window.showErrorMessage;
+		let shownError = "";
+		(vscode.window.showErrorMessage as any) = (m: string) => {
+			shownError = m;
+			return Promise.resolve(undefined);
+		};
+		try {
+			const data = await parseDataFile(uri, { sheet: "Missing" });
+			assert.strictEqual(data, null);
+			assert.ok(shownError.includes('Worksheet "Missing" not found'), shownError);
+		} finally {
+			(vscode.window.showErrorMessage as any) = origErr;
+			await cleanup(uri);
+		}
+	});
+});